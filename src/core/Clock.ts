@@ -0,0 +1,127 @@
+/**
+ * Clock.ts - 游戏时钟
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 计时与定时器统一经由此处，无头模式注入手动时钟以脱离真实时间运行
+ */
+
+export type TimerHandle = number;
+
+// ============== 时钟接口 ==============
+export interface GameClock {
+  // 毫秒，单调递增
+  now(): number;
+  setTimeout(callback: () => void, delay: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+  setInterval(callback: () => void, interval: number): TimerHandle;
+  clearInterval(handle: TimerHandle): void;
+}
+
+// ============== 系统时钟 (浏览器) ==============
+export class SystemClock implements GameClock {
+  now(): number {
+    return performance.now();
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    return globalThis.setTimeout(callback, delay) as unknown as TimerHandle;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    globalThis.clearTimeout(handle);
+  }
+
+  setInterval(callback: () => void, interval: number): TimerHandle {
+    return globalThis.setInterval(callback, interval) as unknown as TimerHandle;
+  }
+
+  clearInterval(handle: TimerHandle): void {
+    globalThis.clearInterval(handle);
+  }
+}
+
+// ============== 手动时钟 (无头 / 测试) ==============
+interface ManualTimer {
+  due: number;
+  interval: number | null;
+  callback: () => void;
+}
+
+export class ManualClock implements GameClock {
+  private time: number;
+  private nextHandle: TimerHandle = 1;
+  private timers: Map<TimerHandle, ManualTimer> = new Map();
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    return this.addTimer(callback, delay, null);
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle);
+  }
+
+  setInterval(callback: () => void, interval: number): TimerHandle {
+    return this.addTimer(callback, interval, Math.max(1, interval));
+  }
+
+  clearInterval(handle: TimerHandle): void {
+    this.timers.delete(handle);
+  }
+
+  // 推进时间，按到期顺序触发其间的定时器 (回调内看到的 now() 为其到期时刻)
+  advance(ms: number): void {
+    const target = this.time + ms;
+
+    for (let next = this.nextDue(target); next; next = this.nextDue(target)) {
+      const [handle, timer] = next;
+      this.time = timer.due;
+
+      if (timer.interval === null) {
+        this.timers.delete(handle);
+      } else {
+        timer.due += timer.interval;
+      }
+      timer.callback();
+    }
+
+    this.time = target;
+  }
+
+  getPendingTimerCount(): number {
+    return this.timers.size;
+  }
+
+  private addTimer(callback: () => void, delay: number, interval: number | null): TimerHandle {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { due: this.time + Math.max(0, delay), interval, callback });
+    return handle;
+  }
+
+  private nextDue(limit: number): [TimerHandle, ManualTimer] | null {
+    let earliest: [TimerHandle, ManualTimer] | null = null;
+    this.timers.forEach((timer, handle) => {
+      if (timer.due <= limit && (!earliest || timer.due < earliest[1].due)) {
+        earliest = [handle, timer];
+      }
+    });
+    return earliest;
+  }
+}
+
+// ============== 全局时钟 ==============
+let activeClock: GameClock = new SystemClock();
+
+export function getGameClock(): GameClock {
+  return activeClock;
+}
+
+export function setGameClock(clock: GameClock): void {
+  activeClock = clock;
+}
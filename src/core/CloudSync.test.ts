@@ -0,0 +1,70 @@
+/**
+ * CloudSync.test.ts - 云同步冲突解决与 mock 服务器
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ */
+
+import { describe, expect, it } from 'vitest';
+import { HttpSyncAdapter, createMockSyncServer, resolveSaveConflict } from './CloudSync';
+import type { RemoteSave, RemoteSaveMeta } from './CloudSync';
+
+const meta = (timestamp: number, deviceId: string, slot: number = 0): RemoteSaveMeta => ({ slot, timestamp, deviceId });
+const remoteSave = (timestamp: number, deviceId: string, slot: number = 0): RemoteSave => ({
+  ...meta(timestamp, deviceId, slot),
+  data: `{"slot":${slot},"timestamp":${timestamp}}`,
+});
+
+// ============== 冲突解决 ==============
+describe('resolveSaveConflict', () => {
+  it('两端都没有存档时不处理', () => {
+    expect(resolveSaveConflict(null, null)).toBe('none');
+  });
+
+  it('只有一端有存档时同步到另一端', () => {
+    expect(resolveSaveConflict(meta(1, 'a'), null)).toBe('upload');
+    expect(resolveSaveConflict(null, meta(1, 'a'))).toBe('download');
+  });
+
+  it('时间戳较新的一方胜出', () => {
+    expect(resolveSaveConflict(meta(2, 'a'), meta(1, 'b'))).toBe('upload');
+    expect(resolveSaveConflict(meta(1, 'a'), meta(2, 'b'))).toBe('download');
+  });
+
+  it('同一设备的相同存档不处理', () => {
+    expect(resolveSaveConflict(meta(1, 'a'), meta(1, 'a'))).toBe('none');
+  });
+
+  it('时间戳相同时按设备 ID 决定，两台设备得出一致结论', () => {
+    expect(resolveSaveConflict(meta(1, 'b'), meta(1, 'a'))).toBe('upload');
+    expect(resolveSaveConflict(meta(1, 'a'), meta(1, 'b'))).toBe('download');
+  });
+});
+
+// ============== HTTP 同步 + mock 服务器 ==============
+describe('HttpSyncAdapter + createMockSyncServer', () => {
+  const connect = (initial: RemoteSave[] = []) => {
+    const server = createMockSyncServer(initial);
+    return { server, adapter: new HttpSyncAdapter({ endpoint: 'http://mock.local/', fetch: server.fetch }) };
+  };
+
+  it('上传后可列出并下载', async () => {
+    const { server, adapter } = connect();
+
+    expect(await adapter.upload(remoteSave(10, 'a', 1))).toBe(true);
+
+    expect(await adapter.list()).toEqual([meta(10, 'a', 1)]);
+    expect(await adapter.download(1)).toEqual(remoteSave(10, 'a', 1));
+    expect(server.saves.get(1)?.timestamp).toBe(10);
+  });
+
+  it('远端不存在的槽位下载返回 null', async () => {
+    const { adapter } = connect();
+    expect(await adapter.download(2)).toBeNull();
+  });
+
+  it('远端更新时拒绝上传 (409)，不覆盖远端存档', async () => {
+    const { server, adapter } = connect([remoteSave(20, 'b')]);
+
+    expect(await adapter.upload(remoteSave(10, 'a'))).toBe(false);
+    expect(server.saves.get(0)?.deviceId).toBe('b');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * CloudSync.ts - 存档云同步
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 按时间戳与设备 ID 解决本地 / 远端存档冲突
+ */
+
+// ============== 远端存档 ==============
+export interface RemoteSaveMeta {
+  slot: number;
+  timestamp: number;
+  deviceId: string;
+}
+
+export interface RemoteSave extends RemoteSaveMeta {
+  data: string; // 编码后的存档 JSON
+}
+
+// ============== 同步接口 ==============
+export interface CloudSyncAdapter {
+  list(): Promise<RemoteSaveMeta[]>;
+  download(slot: number): Promise<RemoteSave | null>;
+  // 返回 false 表示服务器拒绝 (远端已有更新的存档)
+  upload(save: RemoteSave): Promise<boolean>;
+}
+
+export interface CloudSyncFailure {
+  slot: number;
+  error: string;
+}
+
+export interface CloudSyncResult {
+  success: boolean;
+  uploaded: number[];
+  downloaded: number[];
+  failed: CloudSyncFailure[];  // 单个槽位失败不影响其余槽位
+  error?: string;
+}
+
+// ============== 冲突解决 ==============
+export type SyncDecision = 'upload' | 'download' | 'none';
+
+// 时间戳较新的一方胜出；时间戳相同但设备不同时，按设备 ID 排序决定，保证各设备得出相同结论
+export function resolveSaveConflict(
+  local: RemoteSaveMeta | null,
+  remote: RemoteSaveMeta | null
+): SyncDecision {
+  if (!local && !remote) return 'none';
+  if (!remote) return 'upload';
+  if (!local) return 'download';
+
+  if (local.timestamp > remote.timestamp) return 'upload';
+  if (local.timestamp < remote.timestamp) return 'download';
+  if (local.deviceId === remote.deviceId) return 'none';
+
+  return local.deviceId > remote.deviceId ? 'upload' : 'download';
+}
+
+// ============== HTTP 同步 ==============
+// 约定接口:
+//   GET  {endpoint}/saves          → RemoteSaveMeta[]
+//   GET  {endpoint}/saves/{slot}   → RemoteSave | 404
+//   PUT  {endpoint}/saves/{slot}   ← RemoteSave，远端更新时返回 409
+export interface HttpSyncConfig {
+  endpoint: string;
+  headers?: Record<string, string>;
+  // 可注入 fetch 以便在测试中对接本地 mock 服务器
+  fetch?: typeof fetch;
+}
+
+export class HttpSyncAdapter implements CloudSyncAdapter {
+  private endpoint: string;
+  private headers: Record<string, string>;
+  private fetchFn: typeof fetch;
+
+  constructor(config: HttpSyncConfig) {
+    this.endpoint = config.endpoint.replace(/\/$/, '');
+    this.headers = { 'Content-Type': 'application/json', ...config.headers };
+    this.fetchFn = config.fetch ?? fetch.bind(globalThis);
+  }
+
+  async list(): Promise<RemoteSaveMeta[]> {
+    const response = await this.fetchFn(`${this.endpoint}/saves`, { headers: this.headers });
+    if (!response.ok) {
+      throw new Error(`[CloudSync] 获取远端存档列表失败: HTTP ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async download(slot: number): Promise<RemoteSave | null> {
+    const response = await this.fetchFn(`${this.endpoint}/saves/${slot}`, { headers: this.headers });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`[CloudSync] 下载槽位 ${slot} 失败: HTTP ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async upload(save: RemoteSave): Promise<boolean> {
+    const response = await this.fetchFn(`${this.endpoint}/saves/${save.slot}`, {
+      method: 'PUT',
+      headers: this.headers,
+      body: JSON.stringify(save),
+    });
+    if (response.status === 409) return false;
+    if (!response.ok) {
+      throw new Error(`[CloudSync] 上传槽位 ${save.slot} 失败: HTTP ${response.status}`);
+    }
+    return true;
+  }
+}
+
+// ============== 本地 mock 服务器 ==============
+// 在内存中按上面的 HTTP 约定应答；把 fetch 注入 HttpSyncAdapter，
+// 即可在无网络环境 (无头运行、控制台演练) 中完整走一遍同步流程
+export interface MockSyncServer {
+  fetch: typeof fetch;
+  saves: Map<number, RemoteSave>;
+}
+
+export function createMockSyncServer(initial: RemoteSave[] = []): MockSyncServer {
+  const saves = new Map(initial.map(save => [save.slot, save]));
+  const respond = (status: number, body?: unknown) => new Response(
+    body === undefined ? null : JSON.stringify(body),
+    { status, headers: { 'Content-Type': 'application/json' } }
+  );
+
+  const mockFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const match = /\/saves(?:\/(\d+))?$/.exec(new URL(url, 'http://mock.local').pathname);
+    if (!match) return respond(404);
+
+    const method = (init.method ?? 'GET').toUpperCase();
+    if (match[1] === undefined) {
+      if (method !== 'GET') return respond(405);
+      return respond(200, Array.from(saves.values()).map(({ slot, timestamp, deviceId }) => ({ slot, timestamp, deviceId })));
+    }
+
+    const slot = Number(match[1]);
+    if (method === 'GET') {
+      const save = saves.get(slot);
+      return save ? respond(200, save) : respond(404);
+    }
+    if (method === 'PUT') {
+      const save = JSON.parse(String(init.body)) as RemoteSave;
+      const current = saves.get(slot) ?? null;
+      // 远端更新时拒绝，与真实服务器一致
+      if (resolveSaveConflict(save, current) === 'download') return respond(409);
+      saves.set(slot, save);
+      return respond(200);
+    }
+    return respond(405);
+  };
+
+  return { fetch: mockFetch as typeof fetch, saves };
+}
@@ -4,45 +4,16 @@
  */
 
 import { GameState, GamePhase } from './GameState';
-import { SaveSystem } from './SaveSystem';
+import { SaveSystem, SaveData } from './SaveSystem';
 import { EventBus, GameEvent } from './EventBus';
+import { getGameClock, TimerHandle } from './Clock';
+import { SystemScheduler, SystemPhase } from './Scheduler';
+import { RuntimeConfig } from './RuntimeConfig';
+import { DEBUG } from './constants';
+import type { SaveStorageAdapter } from './SaveStorage';
+import type { PhysicsWorld } from '../engine/physics/PhysicsWorld';
 import * as THREE from 'three';
 
-// ============== 全局常量 ==============
-export const GAME_CONFIG = {
-  // 渲染
-  TARGET_FPS: 60,
-  WEBGL_VERSION: 2,
-  
-  // 物理
-  PHYSICS_STEP: 1 / 60,
-  MAX_SUBSTEPS: 3,
-  
-  // AI
-  AI_TIME_BUDGET_MS: 8,
-  AI_BATCH_SIZE: 10,
-  MAX_ACTIVE_ENEMIES: 50,
-  
-  // 存档
-  AUTO_SAVE_INTERVAL: 60000, // 60秒
-  MAX_SAVE_SLOTS: 3,
-  
-  // 玩家
-  PLAYER_HEIGHT: 1.8,
-  PLAYER_WIDTH: 0.5,
-  MOVE_SPEED: 5.0,
-  SPRINT_SPEED: 8.0,
-  JUMP_FORCE: 7.0,
-  
-  // 武器
-  DEFAULT_WEAPON: 'quantum_pistol',
-  RELOAD_TIME: 2000,
-  
-  // UI
-  DAMAGE_NUMBER_LIFETIME: 1500,
-  HEALTH_BAR_WIDTH: 200,
-} as const;
-
 // ============== 玩家数据 ==============
 export interface PlayerData {
   // 基础
@@ -106,6 +77,13 @@ export interface QuestProgress {
   objectives: Record<string, boolean>;
 }
 
+// ============== 构造选项 ==============
+// 无头模式下注入内存存储并可关闭自动存档
+export interface CoreOptions {
+  storage?: SaveStorageAdapter;
+  autoSave?: boolean;
+}
+
 // ============== Core 类 ==============
 export class Core {
   // 单例
@@ -117,10 +95,19 @@ export class Core {
     return Core.instance;
   }
   
+  // 以指定选项重建单例 (无头模式 / 测试)，旧实例的定时器一并释放
+  public static createInstance(options: CoreOptions = {}): Core {
+    Core.instance?.dispose();
+    Core.instance = new Core(options);
+    return Core.instance;
+  }
+  
   // 核心系统
   public gameState: GameState;
   public saveSystem: SaveSystem;
   public eventBus: EventBus;
+  public scheduler: SystemScheduler;
+  public config: RuntimeConfig;
   
   // 玩家数据
   public player: PlayerData;
@@ -140,15 +127,31 @@ export class Core {
   private lastTime: number = 0;
   private deltaTime: number = 0;
   private elapsedTime: number = 0;
+  private frameCount: number = 0;
   
   // 标志
   public isPaused: boolean = false;
   public isLoading: boolean = false;
   
-  private constructor() {
+  // 调试
+  private godMode: boolean = DEBUG.GOD_MODE;
+  private timeScale: number = 1;
+  
+  // 定时器
+  private autoSaveTimer: TimerHandle | null = null;
+  private levelLoadTimer: TimerHandle | null = null;
+  
+  private constructor(private options: CoreOptions = {}) {
     this.gameState = new GameState();
-    this.saveSystem = new SaveSystem();
+    this.saveSystem = new SaveSystem(options.storage);
     this.eventBus = new EventBus();
+    this.config = new RuntimeConfig(this.eventBus);
+    // 固定步长在启动时确定，单帧步数上限可在运行时调整
+    this.scheduler = new SystemScheduler(this.config.get('PHYSICS_STEP'), this.config.get('MAX_SUBSTEPS'));
+    this.eventBus.setJournalClock(() => ({
+      frame: this.frameCount,
+      elapsedTime: this.elapsedTime,
+    }));
     
     this.player = this.createDefaultPlayer();
     this.progress = this.createDefaultProgress();
@@ -165,6 +168,8 @@ export class Core {
     if (savedData) {
       this.loadGame(savedData);
       console.log('[Core] 自动加载存档成功');
+    } else {
+      this.reportSaveError();
     }
     
     this.gameState.setPhase(GamePhase.MAIN_MENU);
@@ -173,19 +178,41 @@ export class Core {
   
   // ============== 游戏循环 ==============
   public update(currentTime: number): void {
-    if (this.isPaused || this.isLoading) return;
-    
-    this.deltaTime = Math.min((currentTime - this.lastTime) / 1000, 0.1);
+    const frameDelta = Math.min((currentTime - this.lastTime) / 1000, 0.1);
     this.lastTime = currentTime;
+    
+    // 暂停 / 加载中只更新 UI 与渲染
+    if (this.isPaused || this.isLoading) {
+      this.scheduler.tick(frameDelta, true);
+      return;
+    }
+    
+    this.deltaTime = frameDelta * this.timeScale;
     this.elapsedTime += this.deltaTime;
+    this.frameCount++;
     
     // 更新游戏状态
     this.gameState.update(this.deltaTime);
     
+    // 按阶段更新各系统
+    this.scheduler.tick(this.deltaTime);
+    
     // 发出帧更新事件
     this.eventBus.emit(GameEvent.FRAME_UPDATE, {
       deltaTime: this.deltaTime,
       elapsedTime: this.elapsedTime,
+      alpha: this.scheduler.getAlpha(),
+    });
+  }
+  
+  // 物理以调度器的固定步长推进
+  public attachPhysics(world: PhysicsWorld): void {
+    this.physicsWorld = world;
+    this.scheduler.register({
+      name: 'physics',
+      phase: SystemPhase.PHYSICS,
+      tickRate: 1 / world.getFixedTimeStep(),
+      update: deltaTime => world.step(deltaTime),
     });
   }
   
@@ -199,7 +226,9 @@ export class Core {
     this.player.rotation.copy(rotation);
   }
   
-  public takeDamage(amount: number): void {
+  public takeDamage(amount: number, source?: string): void {
+    if (this.godMode) return;
+    
     // 护甲减免
     let damage = amount;
     if (this.player.armor > 0) {
@@ -214,6 +243,7 @@ export class Core {
       amount,
       currentHealth: this.player.health,
       maxHealth: this.player.maxHealth,
+      source,
     });
     
     if (this.player.health <= 0) {
@@ -223,7 +253,11 @@ export class Core {
   
   public heal(amount: number): void {
     this.player.health = Math.min(this.player.maxHealth, this.player.health + amount);
-    this.eventBus.emit(GameEvent.PLAYER_HEALED, amount);
+    this.eventBus.emit(GameEvent.PLAYER_HEALED, {
+      amount,
+      currentHealth: this.player.health,
+      maxHealth: this.player.maxHealth,
+    });
   }
   
   public addExperience(amount: number): void {
@@ -262,41 +296,66 @@ export class Core {
     this.progress = this.createDefaultProgress();
     
     this.gameState.setPhase(GamePhase.PLAYING);
-    this.eventBus.emit(GameEvent.GAME_STARTED, null);
+    this.eventBus.emit(GameEvent.GAME_STARTED);
   }
   
-  public loadGame(data: any): void {
+  public loadGame(data: SaveData): void {
     this.player = data.player;
     this.progress = data.progress;
+    this.saveSystem.restoreParticipants(data.systems);
+    // 从暂停菜单读档时先离开暂停覆盖层
+    if (this.gameState.getPhase() === GamePhase.PAUSED) {
+      this.gameState.setPhase(GamePhase.LOADING);
+    }
     this.gameState.setPhase(GamePhase.PLAYING);
+    this.eventBus.emit(GameEvent.GAME_LOADED);
   }
   
   public saveGame(slot: number = 0): void {
     const saveData = {
       player: this.player,
       progress: this.progress,
+      systems: this.saveSystem.captureParticipants(),
       timestamp: Date.now(),
     };
-    this.saveSystem.save(slot, saveData);
+    if (!this.saveSystem.save(slot, saveData)) {
+      this.eventBus.emit(GameEvent.ERROR, {
+        source: 'SaveSystem',
+        message: this.saveSystem.getLastError()?.message ?? `存档失败: 槽位 ${slot}`,
+        error: this.saveSystem.getLastError() ?? undefined,
+      });
+      return;
+    }
     this.eventBus.emit(GameEvent.GAME_SAVED, slot);
+    
+    // 异步后端在后台落盘，失败时补报错误
+    this.saveSystem.flush(slot).catch(error => {
+      this.eventBus.emit(GameEvent.ERROR, {
+        source: 'SaveSystem',
+        message: (error as Error).message,
+        error,
+      });
+    });
   }
   
+  // 菜单 / 加载中等不可暂停的阶段直接忽略，不视为非法切换
   public pauseGame(): void {
+    if (!this.gameState.canTransition(GamePhase.PAUSED)) return;
+    if (!this.gameState.setPhase(GamePhase.PAUSED)) return;
     this.isPaused = true;
-    this.gameState.setPhase(GamePhase.PAUSED);
-    this.eventBus.emit(GameEvent.GAME_PAUSED, null);
+    this.eventBus.emit(GameEvent.GAME_PAUSED);
   }
   
+  // 回到暂停前的子状态 (战斗 / Boss / 对话 ...)
   public resumeGame(): void {
-    this.isPaused = false;
-    this.gameState.setPhase(GamePhase.PLAYING);
-    this.eventBus.emit(GameEvent.GAME_RESUMED, null);
+    if (!this.gameState.resume()) return;
+    this.eventBus.emit(GameEvent.GAME_RESUMED);
   }
   
   public quitGame(): void {
     this.saveGame(0); // 自动存档
     this.gameState.setPhase(GamePhase.MAIN_MENU);
-    this.eventBus.emit(GameEvent.GAME_QUIT, null);
+    this.eventBus.emit(GameEvent.GAME_QUIT);
   }
   
   // ============== 关卡管理 ==============
@@ -309,7 +368,12 @@ export class Core {
     this.eventBus.emit(GameEvent.LEVEL_LOADING, levelId);
     
     // 模拟加载 (实际会从 JSON 加载)
-    setTimeout(() => {
+    const clock = getGameClock();
+    if (this.levelLoadTimer !== null) {
+      clock.clearTimeout(this.levelLoadTimer);
+    }
+    this.levelLoadTimer = clock.setTimeout(() => {
+      this.levelLoadTimer = null;
       this.isLoading = false;
       this.gameState.setPhase(GamePhase.PLAYING);
       this.eventBus.emit(GameEvent.LEVEL_LOADED, levelId);
@@ -338,8 +402,8 @@ export class Core {
       level: 1,
       experience: 0,
       experienceToNextLevel: 100,
-      currentWeapon: GAME_CONFIG.DEFAULT_WEAPON,
-      weapons: [GAME_CONFIG.DEFAULT_WEAPON],
+      currentWeapon: this.config.get('DEFAULT_WEAPON'),
+      weapons: [this.config.get('DEFAULT_WEAPON')],
       unlockedSkills: [],
       inventory: [],
       currency: 0,
@@ -356,21 +420,114 @@ export class Core {
     };
   }
   
+  private reportSaveError(): void {
+    const error = this.saveSystem.getLastError();
+    if (!error) return;
+    
+    this.eventBus.emit(GameEvent.ERROR, {
+      source: 'SaveSystem',
+      message: error.message,
+      error,
+    });
+  }
+  
   private onPlayerDeath(): void {
     this.gameState.setPhase(GamePhase.GAME_OVER);
-    this.eventBus.emit(GameEvent.PLAYER_DEATH, null);
+    this.eventBus.emit(GameEvent.PLAYER_DEATH);
   }
   
   private setupEventListeners(): void {
-    // 自动存档
-    setInterval(() => {
+    // 非法阶段切换
+    this.gameState.onTransitionRejected(rejection => {
+      this.eventBus.emit(GameEvent.ERROR, {
+        source: 'GameState',
+        message: `非法阶段切换: ${rejection.from} → ${rejection.to}`,
+        error: rejection,
+      });
+    });
+    
+    // 以任何方式离开暂停 (继续 / 读档 / 加载关卡 / 回菜单) 都解除暂停
+    this.gameState.onExit(GamePhase.PAUSED, () => {
+      this.isPaused = false;
+    });
+    
+    // 存档损坏后从备份恢复，通知 UI
+    this.saveSystem.onRecovery(recovery => {
+      this.eventBus.emit(GameEvent.SAVE_RECOVERED, recovery);
+    });
+    
+    // 云同步下载了自动存档槽位：游戏进行中立即应用，避免自动存档用旧状态覆盖
+    this.saveSystem.onCloudDownload((slot, data) => {
+      if (slot !== 0) return;
+      const phase = this.gameState.getPhase();
+      if (phase === GamePhase.INITIAL || phase === GamePhase.MAIN_MENU) return;
+      console.log('[Core] 云同步更新了当前存档，重新读档');
+      this.loadGame(data);
+    });
+    
+    // 运行时配置
+    this.config.watch(['MAX_SUBSTEPS'], config => {
+      this.scheduler.setMaxStepsPerFrame(config.MAX_SUBSTEPS);
+    });
+    
+    // 自动存档 (间隔变化时重新计时)
+    if (this.options.autoSave !== false) {
+      this.config.watch(['AUTO_SAVE_INTERVAL'], config => this.startAutoSave(config.AUTO_SAVE_INTERVAL));
+    }
+  }
+  
+  private startAutoSave(interval: number): void {
+    const clock = getGameClock();
+    if (this.autoSaveTimer !== null) clock.clearInterval(this.autoSaveTimer);
+    this.autoSaveTimer = clock.setInterval(() => {
       if (this.gameState.getPhase() === GamePhase.PLAYING) {
         this.saveGame(0);
       }
-    }, GAME_CONFIG.AUTO_SAVE_INTERVAL);
+    }, interval);
+  }
+  
+  // ============== 释放 ==============
+  public dispose(): void {
+    const clock = getGameClock();
+    if (this.autoSaveTimer !== null) {
+      clock.clearInterval(this.autoSaveTimer);
+      this.autoSaveTimer = null;
+    }
+    if (this.levelLoadTimer !== null) {
+      clock.clearTimeout(this.levelLoadTimer);
+      this.levelLoadTimer = null;
+    }
+    this.scheduler.clear();
+    this.config.dispose();
+    this.eventBus.clear();
   }
   
   // ============== 调试 ==============
+  public setGodMode(enabled: boolean): void {
+    this.godMode = enabled;
+  }
+  
+  public isGodMode(): boolean {
+    return this.godMode;
+  }
+  
+  // 只缩放游戏时间，暂停 / 加载时的 UI 更新不受影响
+  public setTimeScale(scale: number): void {
+    this.timeScale = Math.max(0, scale);
+  }
+  
+  public getTimeScale(): number {
+    return this.timeScale;
+  }
+  
+  public getFrameCount(): number {
+    return this.frameCount;
+  }
+  
+  public getElapsedTime(): number {
+    return this.elapsedTime;
+  }
+  
   public getDebugInfo(): Record<string, any> {
     return {
       phase: this.gameState.getPhase(),
@@ -381,6 +538,7 @@ export class Core {
         level: this.player.level,
       },
       elapsedTime: this.elapsedTime,
+      frame: this.frameCount,
       isPaused: this.isPaused,
     };
   }
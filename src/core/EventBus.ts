@@ -3,6 +3,14 @@
  * 墨境：孤军 (Ink Realm: Lone Army)
  */
 
+import type * as THREE from 'three';
+import type { Core } from './Core';
+import type { CollisionEvent } from '../engine/physics/PhysicsWorld';
+import type { Difficulty } from './constants';
+import type { GameSettings } from '../systems/settings/SettingsManager';
+import type { GameConfig, GameConfigKey } from './RuntimeConfig';
+import { EventJournal, JournalClock, JournalOptions } from './EventJournal';
+
 // ============== 游戏事件类型 ==============
 export enum GameEvent {
   // 核心
@@ -13,6 +21,9 @@ export enum GameEvent {
   GAME_STARTED = 'game:started',
   GAME_SAVED = 'game:saved',
   GAME_LOADED = 'game:loaded',
+  SAVE_RECOVERED = 'game:save_recovered',
+  DIFFICULTY_CHANGED = 'game:difficulty_changed',
+  DIFFICULTY_ADJUSTED = 'game:difficulty_adjusted',
   GAME_PAUSED = 'game:paused',
   GAME_RESUMED = 'game:resumed',
   GAME_QUIT = 'game:quit',
@@ -55,6 +66,15 @@ export enum GameEvent {
   QUEST_COMPLETED = 'quest:completed',
   QUEST_FAILED = 'quest:failed',
   
+  // 成就
+  ACHIEVEMENT_UNLOCKED = 'achievement:unlocked',
+  
+  // 设置
+  SETTINGS_CHANGED = 'settings:changed',
+  
+  // 配置
+  CONFIG_CHANGED = 'config:changed',
+  
   // NPC
   NPC_INTERACT = 'npc:interact',
   DIALOG_START = 'dialog:start',
@@ -76,95 +96,405 @@ export enum GameEvent {
   ERROR = 'error',
 }
 
+// ============== 事件载荷 ==============
+export interface FrameUpdatePayload {
+  deltaTime: number;
+  elapsedTime: number;
+  alpha: number;  // 固定步长插值系数
+}
+
+export interface PlayerHealthPayload {
+  amount: number;
+  currentHealth: number;
+  maxHealth: number;
+  source?: string;    // 伤害来源 (敌人类型、环境等)
+}
+
+export interface WeaponFiredPayload {
+  weaponId: string;
+  ammo: number;
+}
+
+export interface AmmoChangedPayload {
+  weaponId: string;
+  current: number;
+  total: number;
+}
+
+export interface EnemyPayload {
+  enemyId: string;
+  type: string;
+  position: THREE.Vector3;
+}
+
+export interface EnemyDamagedPayload {
+  enemyId?: string;
+  damage: number;
+  position: THREE.Vector3;
+  weaponId?: string;
+}
+
+export interface EnemyAlertedPayload {
+  enemyId: string;
+  targetPosition: THREE.Vector3;
+}
+
+export interface BossPayload {
+  bossId: string;
+  bossType: string;   // 稳定的 Boss 类型 id，成就等按此匹配；name 为显示名
+  name: string;
+}
+
+export interface BossPhaseChangedPayload {
+  bossId: string;
+  bossType: string;
+  phaseIndex: number;
+  phaseName: string;
+}
+
+export interface CheckpointPayload {
+  checkpointId: string;
+  levelId: string;
+}
+
+export interface QuestPayload {
+  questId: string;
+  questName: string;
+}
+
+export interface QuestUpdatedPayload {
+  questId: string;
+  objectiveId: string;
+  progress: number;
+}
+
+export interface QuestCompletedPayload extends QuestPayload {
+  rewards: {
+    experience: number;
+    currency?: number;
+    items?: string[];
+  };
+}
+
+export interface AchievementPayload {
+  achievementId: string;
+  name: string;
+  description: string;
+}
+
+export interface DialogPayload {
+  dialogueId: string;
+  speaker?: string;
+}
+
+export interface NotificationPayload {
+  message: string;
+  duration?: number;
+}
+
+export interface DamageNumberPayload {
+  damage: number;
+  position: { x: number; y: number };
+  isCrit?: boolean;
+}
+
+export interface QuestTrackerPayload {
+  title?: string;
+  objectives?: string[];
+}
+
+export interface AudioPayload {
+  sound: string;
+  position?: THREE.Vector3;
+  volume?: number;
+}
+
+export interface SaveRecoveredPayload {
+  slot: number;
+  backupIndex: number;
+  timestamp: number;
+  reason: string;
+}
+
+export interface DifficultyChangedPayload {
+  difficulty: Difficulty;
+  previous: Difficulty;
+}
+
+export interface DifficultyAdjustedPayload {
+  enabled: boolean;
+  score: number;        // 玩家表现 [-1, 1]，正值表示游刃有余
+  accuracy: number;
+  aggression: number;
+  spawnCount: number;
+}
+
+export interface SettingsChangedPayload {
+  settings: GameSettings;
+  changed: (keyof GameSettings)[];
+}
+
+export interface ConfigChangedPayload {
+  config: Readonly<GameConfig>;
+  changed: GameConfigKey[];
+}
+
+export interface ErrorPayload {
+  source: string;
+  message: string;
+  error?: unknown;
+}
+
+// ============== 事件 → 载荷映射 ==============
+// 无载荷的事件使用 void，emit 时不传参数
+export interface GameEventPayloads {
+  [GameEvent.CORE_INITIALIZED]: Core;
+  [GameEvent.FRAME_UPDATE]: FrameUpdatePayload;
+  
+  [GameEvent.GAME_STARTED]: void;
+  [GameEvent.GAME_SAVED]: number;
+  [GameEvent.GAME_LOADED]: void;
+  [GameEvent.SAVE_RECOVERED]: SaveRecoveredPayload;
+  [GameEvent.DIFFICULTY_CHANGED]: DifficultyChangedPayload;
+  [GameEvent.DIFFICULTY_ADJUSTED]: DifficultyAdjustedPayload;
+  [GameEvent.GAME_PAUSED]: void;
+  [GameEvent.GAME_RESUMED]: void;
+  [GameEvent.GAME_QUIT]: void;
+  
+  [GameEvent.PLAYER_MOVED]: THREE.Vector3;
+  [GameEvent.PLAYER_ROTATED]: THREE.Euler;
+  [GameEvent.PLAYER_DAMAGED]: PlayerHealthPayload;
+  [GameEvent.PLAYER_HEALED]: PlayerHealthPayload;
+  [GameEvent.PLAYER_DEATH]: void;
+  [GameEvent.EXPERIENCE_GAINED]: number;
+  [GameEvent.LEVEL_UP]: number;
+  
+  [GameEvent.WEAPON_FIRED]: WeaponFiredPayload;
+  [GameEvent.WEAPON_RELOADED]: { weaponId: string };
+  [GameEvent.WEAPON_SWITCHED]: string;
+  [GameEvent.AMMO_CHANGED]: AmmoChangedPayload;
+  
+  [GameEvent.ENEMY_SPAWNED]: EnemyPayload;
+  [GameEvent.ENEMY_DAMAGED]: EnemyDamagedPayload;
+  [GameEvent.ENEMY_KILLED]: EnemyPayload;
+  [GameEvent.ENEMY_ALERTED]: EnemyAlertedPayload;
+  
+  [GameEvent.BOSS_SPAWNED]: BossPayload;
+  [GameEvent.BOSS_PHASE_CHANGED]: BossPhaseChangedPayload;
+  [GameEvent.BOSS_DEFEATED]: BossPayload;
+  
+  [GameEvent.LEVEL_LOADING]: string;
+  [GameEvent.LEVEL_LOADED]: string;
+  [GameEvent.LEVEL_COMPLETED]: string;
+  [GameEvent.CHECKPOINT_REACHED]: CheckpointPayload;
+  
+  [GameEvent.QUEST_STARTED]: QuestPayload;
+  [GameEvent.QUEST_UPDATED]: QuestUpdatedPayload;
+  [GameEvent.QUEST_COMPLETED]: QuestCompletedPayload;
+  [GameEvent.QUEST_FAILED]: QuestPayload;
+  
+  [GameEvent.ACHIEVEMENT_UNLOCKED]: AchievementPayload;
+  
+  [GameEvent.SETTINGS_CHANGED]: SettingsChangedPayload;
+  
+  [GameEvent.CONFIG_CHANGED]: ConfigChangedPayload;
+  
+  [GameEvent.NPC_INTERACT]: { npcId: string };
+  [GameEvent.DIALOG_START]: DialogPayload;
+  [GameEvent.DIALOG_END]: DialogPayload;
+  
+  [GameEvent.UI_NOTIFICATION]: NotificationPayload;
+  [GameEvent.UI_DAMAGE_NUMBER]: DamageNumberPayload;
+  [GameEvent.UI_QUEST_UPDATE]: QuestTrackerPayload;
+  
+  [GameEvent.PHYSICS_COLLISION]: CollisionEvent;
+  
+  [GameEvent.AUDIO_PLAY]: AudioPayload;
+  [GameEvent.AUDIO_STOP]: AudioPayload;
+  
+  [GameEvent.ERROR]: ErrorPayload;
+}
+
+// ============== 事件模式 ==============
+// 事件名格式为 "namespace:name"，支持 "enemy:*" 订阅整个命名空间，"*" 订阅全部事件
+type NamespaceOf<E extends string> = E extends `${infer N}:${string}` ? N : never;
+
+export type GameEventNamespace = NamespaceOf<GameEvent>;
+export type WildcardPattern = `${GameEventNamespace}:*` | '*';
+export type EventPattern = GameEvent | WildcardPattern;
+
+export type EventsMatching<P extends EventPattern> =
+  P extends '*' ? GameEvent :
+  P extends `${infer N}:*` ? Extract<GameEvent, `${N}:${string}`> :
+  P;
+
 // ============== 事件监听器 ==============
-type EventListener = (data?: any) => void;
+export interface EventContext<E extends GameEvent = GameEvent> {
+  event: E;
+  // 阻止后续 (更低优先级的) 监听器收到本次事件
+  stopPropagation(): void;
+}
+
+export type GameEventListener<P extends EventPattern> = (
+  data: GameEventPayloads[EventsMatching<P>],
+  context: EventContext<EventsMatching<P>>
+) => void;
+
+export interface SubscribeOptions {
+  // 数值越大越先执行，默认 0；同优先级按注册顺序执行
+  priority?: number;
+}
+
+export type Unsubscribe = () => void;
+
+// void 载荷的事件不接受参数，其余事件必须提供载荷
+type EmitArgs<E extends GameEvent> = GameEventPayloads[E] extends void ? [] : [data: GameEventPayloads[E]];
+
+interface ListenerEntry {
+  listener: (data: any, context: EventContext) => void;
+  priority: number;
+  once: boolean;
+  order: number;
+}
 
 // ============== 事件总线类 ==============
 export class EventBus {
-  private listeners: Map<string, Set<EventListener>> = new Map();
-  private onceListeners: Map<string, Set<EventListener>> = new Map();
+  private listeners: Map<string, ListenerEntry[]> = new Map();
+  private nextOrder: number = 0;
   
   // 事件统计
   private eventCount: Map<string, number> = new Map();
   
+  // 事件日志 (默认关闭)
+  private journal: EventJournal | null = null;
+  private journalClock: () => JournalClock = () => ({ frame: 0, elapsedTime: 0 });
+  
   constructor() {
     console.log('[EventBus] 初始化事件总线');
   }
   
   // ============== 监听 ==============
-  public on(event: string, listener: EventListener): void {
-    if (!this.listeners.has(event)) {
-      this.listeners.set(event, new Set());
-    }
-    this.listeners.get(event)!.add(listener);
+  public on<P extends EventPattern>(
+    pattern: P,
+    listener: GameEventListener<P>,
+    options: SubscribeOptions = {}
+  ): Unsubscribe {
+    return this.addListener(pattern, listener, options, false);
+  }
+  
+  public once<P extends EventPattern>(
+    pattern: P,
+    listener: GameEventListener<P>,
+    options: SubscribeOptions = {}
+  ): Unsubscribe {
+    return this.addListener(pattern, listener, options, true);
   }
   
-  public once(event: string, listener: EventListener): void {
-    if (!this.onceListeners.has(event)) {
-      this.onceListeners.set(event, new Set());
+  private addListener(
+    pattern: string,
+    listener: ListenerEntry['listener'],
+    options: SubscribeOptions,
+    once: boolean
+  ): Unsubscribe {
+    if (!this.listeners.has(pattern)) {
+      this.listeners.set(pattern, []);
     }
-    this.onceListeners.get(event)!.add(listener);
+    
+    const entry: ListenerEntry = {
+      listener,
+      priority: options.priority ?? 0,
+      once,
+      order: this.nextOrder++,
+    };
+    this.listeners.get(pattern)!.push(entry);
+    
+    return () => this.removeEntry(pattern, entry);
   }
   
   // ============== 发射 ==============
-  public emit(event: string, data?: any): void {
+  public emit<E extends GameEvent>(event: E, ...args: EmitArgs<E>): void {
+    const data = args[0];
+    
     // 统计
     this.eventCount.set(event, (this.eventCount.get(event) || 0) + 1);
+    this.journal?.record(event, data, this.journalClock());
     
-    // 触发一次性监听器
-    if (this.onceListeners.has(event)) {
-      const onceSet = this.onceListeners.get(event)!;
-      onceSet.forEach(listener => {
-        try {
-          listener(data);
-        } catch (error) {
-          console.error(`[EventBus] 事件 ${event} 监听器错误:`, error);
-        }
-      });
-      this.onceListeners.delete(event);
+    // 收集精确、命名空间通配与全局通配监听器，按优先级排序
+    const matched: Array<{ pattern: string; entry: ListenerEntry }> = [];
+    for (const pattern of this.getMatchingPatterns(event)) {
+      this.listeners.get(pattern)?.forEach(entry => matched.push({ pattern, entry }));
     }
+    matched.sort((a, b) => b.entry.priority - a.entry.priority || a.entry.order - b.entry.order);
     
-    // 触发持久监听器
-    if (this.listeners.has(event)) {
-      const listenerSet = this.listeners.get(event)!;
-      listenerSet.forEach(listener => {
-        try {
-          listener(data);
-        } catch (error) {
-          console.error(`[EventBus] 事件 ${event} 监听器错误:`, error);
-        }
-      });
+    let stopped = false;
+    const context: EventContext<E> = {
+      event,
+      stopPropagation: () => { stopped = true; },
+    };
+    
+    for (const { pattern, entry } of matched) {
+      if (stopped) break;
+      
+      // 一次性监听器先移除，避免监听器内部重新发射同一事件时重复触发
+      if (entry.once) {
+        this.removeEntry(pattern, entry);
+      }
+      
+      try {
+        entry.listener(data, context);
+      } catch (error) {
+        console.error(`[EventBus] 事件 ${event} 监听器错误:`, error);
+      }
+    }
+  }
+  
+  private getMatchingPatterns(event: string): string[] {
+    const patterns = [event];
+    const separator = event.indexOf(':');
+    if (separator > 0) {
+      patterns.push(`${event.slice(0, separator)}:*`);
     }
+    patterns.push('*');
+    return patterns;
   }
   
   // ============== 移除 ==============
-  public off(event: string, listener?: EventListener): void {
+  public off<P extends EventPattern>(pattern: P, listener?: GameEventListener<P>): void {
     if (!listener) {
       // 移除所有该事件的监听器
-      this.listeners.delete(event);
-      this.onceListeners.delete(event);
+      this.listeners.delete(pattern);
     } else {
-      this.listeners.get(event)?.delete(listener);
-      this.onceListeners.get(event)?.delete(listener);
+      this.listeners.get(pattern)
+        ?.filter(entry => entry.listener === listener)
+        .forEach(entry => this.removeEntry(pattern, entry));
+    }
+  }
+  
+  private removeEntry(pattern: string, entry: ListenerEntry): void {
+    const entries = this.listeners.get(pattern);
+    if (!entries) return;
+    
+    const index = entries.indexOf(entry);
+    if (index > -1) {
+      entries.splice(index, 1);
+    }
+    if (entries.length === 0) {
+      this.listeners.delete(pattern);
     }
   }
   
   // ============== 清除 ==============
   public clear(): void {
     this.listeners.clear();
-    this.onceListeners.clear();
   }
   
-  public clearEvent(event: string): void {
-    this.listeners.delete(event);
-    this.onceListeners.delete(event);
+  public clearEvent(pattern: string): void {
+    this.listeners.delete(pattern);
   }
   
   // ============== 调试 ==============
-  public getListenerCount(event: string): number {
-    const persistent = this.listeners.get(event)?.size || 0;
-    const once = this.onceListeners.get(event)?.size || 0;
-    return persistent + once;
+  public getListenerCount(pattern: string): number {
+    return this.listeners.get(pattern)?.length || 0;
   }
   
   public getEventCount(event: string): number {
@@ -176,18 +506,37 @@ export class EventBus {
   }
   
   public getActiveEvents(): string[] {
-    const events: string[] = [];
-    this.listeners.forEach((_, event) => events.push(event));
-    this.onceListeners.forEach((_, event) => {
-      if (!events.includes(event)) events.push(event);
-    });
-    return events;
+    return Array.from(this.listeners.keys());
+  }
+  
+  // ============== 事件日志 ==============
+  public enableJournal(options: JournalOptions = {}): EventJournal {
+    if (!this.journal) {
+      this.journal = new EventJournal(options);
+      console.log('[EventBus] 事件日志已开启');
+    }
+    return this.journal;
+  }
+  
+  public disableJournal(): void {
+    this.journal = null;
+  }
+  
+  public getJournal(): EventJournal | null {
+    return this.journal;
+  }
+  
+  public setJournalClock(clock: () => JournalClock): void {
+    this.journalClock = clock;
+  }
+  
+  public exportJournal(namespaces?: string[]): string | null {
+    return this.journal?.export(this.eventCount, { namespaces }) ?? null;
   }
   
   // ============== 便捷方法 ==============
   public removeAllListeners(): void {
     this.listeners.clear();
-    this.onceListeners.clear();
   }
 }
 
@@ -0,0 +1,181 @@
+/**
+ * EventJournal.ts - 事件日志
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 记录 EventBus 发出的每个事件 (帧号 + Core 运行时间)，用于复现 BOSS 战与任务流程问题
+ */
+
+// ============== 日志条目 ==============
+export interface JournalEntry {
+  seq: number;
+  frame: number;
+  elapsedTime: number; // 秒
+  event: string;
+  namespace: string;
+  data: unknown;
+}
+
+// 由 Core 提供，记录事件发生时的帧号与运行时间
+export interface JournalClock {
+  frame: number;
+  elapsedTime: number;
+}
+
+export interface JournalOptions {
+  // 环形缓冲上限，超出后丢弃最旧条目
+  maxEntries?: number;
+  // 不记录的事件 (默认忽略逐帧事件，帧号已包含在每条记录中)
+  ignore?: string[];
+}
+
+export interface JournalFilter {
+  namespaces?: string[];
+  fromFrame?: number;
+  toFrame?: number;
+}
+
+// ============== 导出格式 ==============
+export interface JournalExport {
+  version: number;
+  exportedAt: number;
+  eventCounts: Record<string, number>;
+  entries: JournalEntry[];
+}
+
+const JOURNAL_FORMAT_VERSION = 1;
+const DEFAULT_MAX_ENTRIES = 5000;
+const DEFAULT_IGNORED = ['game:frame_update'];
+const MAX_SNAPSHOT_DEPTH = 4;
+
+// ============== 事件日志类 ==============
+export class EventJournal {
+  private entries: JournalEntry[] = [];
+  private seq: number = 0;
+  private maxEntries: number;
+  private ignore: Set<string>;
+
+  constructor(options: JournalOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.ignore = new Set(options.ignore ?? DEFAULT_IGNORED);
+  }
+
+  // ============== 记录 ==============
+  public record(event: string, data: unknown, clock: JournalClock): void {
+    if (this.ignore.has(event)) return;
+
+    this.entries.push({
+      seq: this.seq++,
+      frame: clock.frame,
+      elapsedTime: clock.elapsedTime,
+      event,
+      namespace: getNamespace(event),
+      data: snapshot(data, 0, new WeakSet()),
+    });
+
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  // ============== 查询 ==============
+  public getEntries(filter: JournalFilter = {}): JournalEntry[] {
+    const namespaces = filter.namespaces && filter.namespaces.length > 0
+      ? new Set(filter.namespaces)
+      : null;
+
+    return this.entries.filter(entry => {
+      if (namespaces && !namespaces.has(entry.namespace)) return false;
+      if (filter.fromFrame !== undefined && entry.frame < filter.fromFrame) return false;
+      if (filter.toFrame !== undefined && entry.frame > filter.toFrame) return false;
+      return true;
+    });
+  }
+
+  public getNamespaces(): string[] {
+    return Array.from(new Set(this.entries.map(entry => entry.namespace))).sort();
+  }
+
+  public getFrameRange(): { first: number; last: number } | null {
+    if (this.entries.length === 0) return null;
+    return {
+      first: this.entries[0].frame,
+      last: this.entries[this.entries.length - 1].frame,
+    };
+  }
+
+  public get size(): number {
+    return this.entries.length;
+  }
+
+  public clear(): void {
+    this.entries = [];
+    this.seq = 0;
+  }
+
+  // ============== 导出 / 导入 ==============
+  public export(eventCounts: Map<string, number> = new Map(), filter?: JournalFilter): string {
+    const data: JournalExport = {
+      version: JOURNAL_FORMAT_VERSION,
+      exportedAt: Date.now(),
+      eventCounts: Object.fromEntries(eventCounts),
+      entries: filter ? this.getEntries(filter) : this.entries,
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  public import(json: string): JournalExport {
+    const data = JSON.parse(json) as JournalExport;
+
+    if (!data || !Array.isArray(data.entries)) {
+      throw new Error('[EventJournal] 无效的日志文件');
+    }
+    if (data.version > JOURNAL_FORMAT_VERSION) {
+      throw new Error(`[EventJournal] 不支持的日志版本: ${data.version}`);
+    }
+
+    this.entries = data.entries.map(entry => ({
+      ...entry,
+      namespace: entry.namespace ?? getNamespace(entry.event),
+    }));
+    this.seq = this.entries.length > 0 ? this.entries[this.entries.length - 1].seq + 1 : 0;
+
+    return data;
+  }
+}
+
+// ============== 工具 ==============
+export function getNamespace(event: string): string {
+  const separator = event.indexOf(':');
+  return separator > 0 ? event.slice(0, separator) : event;
+}
+
+// 将载荷转为可 JSON 化的快照：拷贝值以免后续修改影响记录，类实例 (如 Core) 仅记录类名
+function snapshot(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' ? '[Function]' : value;
+  }
+
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_SNAPSHOT_DEPTH) return '[Object]';
+  seen.add(value);
+
+  const v = value as Record<string, any>;
+  if (v.isVector3) return { x: v.x, y: v.y, z: v.z };
+  if (v.isEuler) return { x: v.x, y: v.y, z: v.z, order: v.order };
+
+  if (Array.isArray(value)) {
+    return value.map(item => snapshot(item, depth + 1, seen));
+  }
+
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== Object.prototype && proto !== null) {
+    return `[${proto.constructor?.name ?? 'Object'}]`;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(v)) {
+    result[key] = snapshot(v[key], depth + 1, seen);
+  }
+  return result;
+}
+
+export default EventJournal;
@@ -0,0 +1,272 @@
+/**
+ * FrameProfiler.ts - 帧性能分析
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 由调度器逐帧记录各系统耗时，附带渲染器绘制调用 / 三角形数与自定义计数器；
+ * 保留滚动窗口供 HUD 绘制，录制的片段可导出 JSON 用于不同构建间对比
+ */
+
+import type { SystemPhase } from './Scheduler';
+import type { Unsubscribe } from './EventBus';
+
+// ============== 帧记录 ==============
+export interface ProfileFrame {
+  frame: number;
+  interval: number;                  // 与上一帧开始的间隔 (毫秒)
+  total: number;                     // 调度器本帧耗时 (毫秒)
+  phases: Partial<Record<SystemPhase, number>>;
+  systems: Record<string, number>;   // 固定频率系统补帧时累加
+  drawCalls: number;
+  triangles: number;
+  counters: Record<string, number>;
+}
+
+export interface ProfileStat {
+  avg: number;
+  max: number;
+  p95: number;
+}
+
+export interface ProfileSummary {
+  frames: number;
+  interval: ProfileStat;
+  total: ProfileStat;
+  phases: Record<string, ProfileStat>;
+  systems: Record<string, ProfileStat>;
+  drawCalls: ProfileStat;
+  triangles: ProfileStat;
+  counters: Record<string, ProfileStat>;
+}
+
+// ============== 导出格式 ==============
+export interface ProfileCapture {
+  version: number;
+  label: string;                     // 构建标识等，便于对比
+  startedAt: number;
+  exportedAt: number;
+  summary: ProfileSummary;
+  frames: ProfileFrame[];
+}
+
+// 与 WebGLRenderer.info 结构一致，避免核心依赖具体渲染器
+export interface RenderInfoSource {
+  info: { render: { calls: number; triangles: number } };
+}
+
+export interface ProfilerOptions {
+  historySize?: number;              // HUD 滚动窗口帧数
+  now?: () => number;
+}
+
+const CAPTURE_FORMAT_VERSION = 1;
+const DEFAULT_HISTORY_SIZE = 240;
+const DEFAULT_CAPTURE_FRAMES = 1800;
+
+// ============== 帧性能分析器 ==============
+export class FrameProfiler {
+  private history: ProfileFrame[] = [];
+  private historySize: number;
+  private now: () => number;
+
+  private renderer: RenderInfoSource | null = null;
+  private counters: Map<string, () => number> = new Map();
+
+  // 当前帧
+  private current: ProfileFrame | null = null;
+  private frameStart: number = 0;
+  private lastFrameStart: number | null = null;
+  private frameCount: number = 0;
+
+  // 录制
+  private capture: ProfileFrame[] | null = null;
+  private captureLimit: number = DEFAULT_CAPTURE_FRAMES;
+  private captureStartedAt: number = 0;
+  private lastCapture: ProfileCapture | null = null;
+
+  constructor(options: ProfilerOptions = {}) {
+    this.historySize = options.historySize ?? DEFAULT_HISTORY_SIZE;
+    this.now = options.now ?? (() => performance.now());
+  }
+
+  // ============== 数据源 ==============
+  public setRenderer(renderer: RenderInfoSource | null): void {
+    this.renderer = renderer;
+  }
+
+  // 每帧结束时采样，如 AI 更新耗时、对象池占用、刚体数量
+  public addCounter(name: string, sample: () => number): Unsubscribe {
+    this.counters.set(name, sample);
+    return () => {
+      if (this.counters.get(name) === sample) this.counters.delete(name);
+    };
+  }
+
+  // ============== 调度器回调 ==============
+  public beginFrame(): void {
+    const start = this.now();
+    this.current = {
+      frame: this.frameCount++,
+      interval: this.lastFrameStart === null ? 0 : start - this.lastFrameStart,
+      total: 0,
+      phases: {},
+      systems: {},
+      drawCalls: 0,
+      triangles: 0,
+      counters: {},
+    };
+    this.frameStart = start;
+    this.lastFrameStart = start;
+  }
+
+  // 系统开始执行的时间戳，传回 recordSystem
+  public mark(): number {
+    return this.now();
+  }
+
+  public recordSystem(name: string, phase: SystemPhase, startedAt: number): void {
+    if (!this.current) return;
+    const elapsed = this.now() - startedAt;
+    this.current.systems[name] = (this.current.systems[name] ?? 0) + elapsed;
+    this.current.phases[phase] = (this.current.phases[phase] ?? 0) + elapsed;
+  }
+
+  // 渲染在 RENDER 阶段完成，此时 renderer.info 即为本帧数据
+  public endFrame(): void {
+    const frame = this.current;
+    if (!frame) return;
+    this.current = null;
+
+    frame.total = this.now() - this.frameStart;
+    if (this.renderer) {
+      frame.drawCalls = this.renderer.info.render.calls;
+      frame.triangles = this.renderer.info.render.triangles;
+    }
+    this.counters.forEach((sample, name) => {
+      try {
+        frame.counters[name] = sample();
+      } catch (error) {
+        console.error(`[FrameProfiler] 计数器采样失败: ${name}`, error);
+        this.counters.delete(name);
+      }
+    });
+
+    this.history.push(frame);
+    if (this.history.length > this.historySize) {
+      this.history.splice(0, this.history.length - this.historySize);
+    }
+
+    if (this.capture) {
+      this.capture.push(frame);
+      if (this.capture.length >= this.captureLimit) this.stopCapture();
+    }
+  }
+
+  // ============== 查询 ==============
+  public getHistory(): readonly ProfileFrame[] {
+    return this.history;
+  }
+
+  public getLatest(): ProfileFrame | null {
+    return this.history[this.history.length - 1] ?? null;
+  }
+
+  public getSummary(): ProfileSummary {
+    return summarize(this.history);
+  }
+
+  public clear(): void {
+    this.history = [];
+    this.lastFrameStart = null;
+  }
+
+  // ============== 录制 ==============
+  public startCapture(maxFrames: number = DEFAULT_CAPTURE_FRAMES): void {
+    this.capture = [];
+    this.captureLimit = Math.max(1, Math.floor(maxFrames));
+    this.captureStartedAt = Date.now();
+  }
+
+  // 达到帧数上限时自动停止
+  public stopCapture(label: string = ''): ProfileCapture | null {
+    if (!this.capture) return null;
+
+    this.lastCapture = {
+      version: CAPTURE_FORMAT_VERSION,
+      label,
+      startedAt: this.captureStartedAt,
+      exportedAt: Date.now(),
+      summary: summarize(this.capture),
+      frames: this.capture,
+    };
+    this.capture = null;
+    return this.lastCapture;
+  }
+
+  public isCapturing(): boolean {
+    return this.capture !== null;
+  }
+
+  public getCaptureProgress(): { frames: number; limit: number } | null {
+    return this.capture ? { frames: this.capture.length, limit: this.captureLimit } : null;
+  }
+
+  public getLastCapture(): ProfileCapture | null {
+    return this.lastCapture;
+  }
+
+  // 没有录制时导出当前滚动窗口
+  public export(label?: string): string {
+    const capture: ProfileCapture = this.lastCapture
+      ? { ...this.lastCapture, label: label ?? this.lastCapture.label, exportedAt: Date.now() }
+      : {
+        version: CAPTURE_FORMAT_VERSION,
+        label: label ?? '',
+        startedAt: Date.now(),
+        exportedAt: Date.now(),
+        summary: this.getSummary(),
+        frames: [...this.history],
+      };
+    return JSON.stringify(capture, null, 2);
+  }
+}
+
+// ============== 统计 ==============
+function stat(values: number[]): ProfileStat {
+  if (values.length === 0) return { avg: 0, max: 0, p95: 0 };
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((total, value) => total + value, 0);
+  return {
+    avg: sum / sorted.length,
+    max: sorted[sorted.length - 1],
+    p95: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+  };
+}
+
+// 未出现在某帧的系统 / 计数器按 0 计入 (固定频率系统并非每帧运行)
+function statByKey(frames: ProfileFrame[], pick: (frame: ProfileFrame) => Record<string, number>): Record<string, ProfileStat> {
+  const keys = new Set<string>();
+  frames.forEach(frame => Object.keys(pick(frame)).forEach(key => keys.add(key)));
+
+  const result: Record<string, ProfileStat> = {};
+  keys.forEach(key => {
+    result[key] = stat(frames.map(frame => pick(frame)[key] ?? 0));
+  });
+  return result;
+}
+
+export function summarize(frames: readonly ProfileFrame[]): ProfileSummary {
+  const list = [...frames];
+  return {
+    frames: list.length,
+    // 首帧没有间隔
+    interval: stat(list.filter(frame => frame.interval > 0).map(frame => frame.interval)),
+    total: stat(list.map(frame => frame.total)),
+    phases: statByKey(list, frame => frame.phases as Record<string, number>),
+    systems: statByKey(list, frame => frame.systems),
+    drawCalls: stat(list.map(frame => frame.drawCalls)),
+    triangles: stat(list.map(frame => frame.triangles)),
+    counters: statByKey(list, frame => frame.counters),
+  };
+}
+
+export default FrameProfiler;
@@ -1,6 +1,7 @@
 /**
  * GameState.ts - 游戏状态机
  * 墨境：孤军 (Ink Realm: Lone Army)
+ * 分层状态机：战斗/对话等为 PLAYING 的子状态，暂停是覆盖层，恢复时回到暂停前的子状态
  */
 
 // ============== 游戏阶段 ==============
@@ -29,10 +30,79 @@ export enum GamePhase {
   GAME_OVER = 'game_over',
 }
 
+// ============== 状态层级 ==============
+// 子状态 → 父状态；进入子状态时父状态保持激活
+const PHASE_PARENT: Partial<Record<GamePhase, GamePhase>> = {
+  [GamePhase.COMBAT]: GamePhase.PLAYING,
+  [GamePhase.BOSS_FIGHT]: GamePhase.PLAYING,
+  [GamePhase.DIALOG]: GamePhase.PLAYING,
+  [GamePhase.CINEMATIC]: GamePhase.PLAYING,
+};
+
+const IN_GAME_PHASES: GamePhase[] = [
+  GamePhase.PLAYING,
+  GamePhase.COMBAT,
+  GamePhase.BOSS_FIGHT,
+  GamePhase.DIALOG,
+  GamePhase.CINEMATIC,
+];
+
+// ============== 转换表 ==============
+export type PhaseGuard = (state: GameState, from: GamePhase, to: GamePhase) => boolean;
+
+export interface PhaseTransition {
+  from: GamePhase[];
+  to: GamePhase[];
+  guard?: PhaseGuard;
+}
+
+export const PHASE_TRANSITIONS: PhaseTransition[] = [
+  { from: [GamePhase.INITIAL], to: [GamePhase.MAIN_MENU, GamePhase.LOADING, GamePhase.PLAYING] },
+  { from: [GamePhase.MAIN_MENU], to: [GamePhase.LOADING, GamePhase.PLAYING] },
+  { from: [GamePhase.LOADING], to: [GamePhase.PLAYING, GamePhase.MAIN_MENU] },
+  
+  // 游戏内子状态之间自由切换
+  { from: IN_GAME_PHASES, to: IN_GAME_PHASES },
+  {
+    from: IN_GAME_PHASES,
+    to: [GamePhase.PAUSED, GamePhase.LOADING, GamePhase.MAIN_MENU, GamePhase.VICTORY, GamePhase.GAME_OVER],
+  },
+  
+  // 暂停只能回到暂停前的子状态，或直接离开游戏
+  {
+    from: [GamePhase.PAUSED],
+    to: IN_GAME_PHASES,
+    guard: (state, _from, to) => state.getPausedFrom() === to,
+  },
+  { from: [GamePhase.PAUSED], to: [GamePhase.MAIN_MENU, GamePhase.LOADING] },
+  
+  // 结局后只能回菜单、重新加载或读档
+  { from: [GamePhase.GAME_OVER, GamePhase.VICTORY], to: [GamePhase.MAIN_MENU, GamePhase.LOADING, GamePhase.PLAYING] },
+];
+
+// ============== 钩子 / 拒绝 ==============
+export type PhaseHook = (from: GamePhase, to: GamePhase) => void;
+
+export interface PhaseTransitionRejection {
+  from: GamePhase;
+  to: GamePhase;
+  reason: 'no_transition' | 'guard';
+}
+
+export type PhaseRejectionListener = (rejection: PhaseTransitionRejection) => void;
+
 // ============== 游戏状态类 ==============
 export class GameState {
   private currentPhase: GamePhase = GamePhase.INITIAL;
   private previousPhase: GamePhase = GamePhase.INITIAL;
+  // 暂停覆盖层下的子状态
+  private pausedFrom: GamePhase | null = null;
+  
+  // 状态机
+  private transitions: PhaseTransition[] = [...PHASE_TRANSITIONS];
+  private enterHooks: Map<GamePhase, Set<PhaseHook>> = new Map();
+  private exitHooks: Map<GamePhase, Set<PhaseHook>> = new Map();
+  private rejectionListeners: Set<PhaseRejectionListener> = new Set();
   
   // 战斗状态
   private isInCombat: boolean = false;
@@ -50,33 +120,145 @@ export class GameState {
   // 标志
   private flags: Map<string, boolean> = new Map();
   
+  constructor() {
+    // 战斗标志随战斗子状态进出
+    const enterCombat: PhaseHook = (_from, to) => {
+      this.isInCombat = true;
+      this.isBossFight = to === GamePhase.BOSS_FIGHT;
+      this.combatTime = 0;
+    };
+    const exitCombat: PhaseHook = () => {
+      this.isInCombat = false;
+      this.isBossFight = false;
+    };
+    
+    this.onEnter(GamePhase.COMBAT, enterCombat);
+    this.onEnter(GamePhase.BOSS_FIGHT, enterCombat);
+    this.onExit(GamePhase.COMBAT, exitCombat);
+    this.onExit(GamePhase.BOSS_FIGHT, exitCombat);
+  }
+  
   // ============== 阶段管理 ==============
-  public setPhase(phase: GamePhase): void {
-    if (this.currentPhase === phase) return;
+  // 按转换表检查后切换；只退出/进入两条激活路径不重叠的部分
+  public setPhase(phase: GamePhase): boolean {
+    if (this.currentPhase === phase) return true;
     
-    this.previousPhase = this.currentPhase;
+    const from = this.currentPhase;
+    const rejection = this.checkTransition(from, phase);
+    if (rejection) {
+      console.warn(`[GameState] 非法阶段切换: ${from} → ${phase} (${rejection.reason})`);
+      this.rejectionListeners.forEach(listener => listener(rejection));
+      return false;
+    }
+    
+    const exitPath = this.getActivePath();
+    const nextPausedFrom = phase === GamePhase.PAUSED ? from : null;
+    const enterPath = this.buildPath(phase, nextPausedFrom);
+    
+    let shared = 0;
+    while (shared < exitPath.length && shared < enterPath.length && exitPath[shared] === enterPath[shared]) {
+      shared++;
+    }
+    
+    for (let i = exitPath.length - 1; i >= shared; i--) {
+      this.runHooks(this.exitHooks, exitPath[i], from, phase);
+    }
+    
+    this.previousPhase = from;
     this.currentPhase = phase;
+    this.pausedFrom = nextPausedFrom;
     
     console.log(`[GameState] 阶段切换: ${this.previousPhase} → ${this.currentPhase}`);
     
-    // 阶段特定逻辑
-    switch (phase) {
-      case GamePhase.PLAYING:
-        this.isInCombat = false;
-        break;
-      case GamePhase.COMBAT:
-      case GamePhase.BOSS_FIGHT:
-        this.isInCombat = true;
-        this.isBossFight = phase === GamePhase.BOSS_FIGHT;
-        this.combatTime = 0;
-        break;
-      case GamePhase.PAUSED:
-        break;
-      case GamePhase.GAME_OVER:
-      case GamePhase.VICTORY:
-        this.isInCombat = false;
-        break;
+    for (let i = shared; i < enterPath.length; i++) {
+      this.runHooks(this.enterHooks, enterPath[i], from, phase);
+    }
+    
+    return true;
+  }
+  
+  public canTransition(phase: GamePhase): boolean {
+    return this.currentPhase === phase || this.checkTransition(this.currentPhase, phase) === null;
+  }
+  
+  // 从暂停回到暂停前的子状态
+  public resume(): boolean {
+    if (this.currentPhase !== GamePhase.PAUSED || !this.pausedFrom) return false;
+    return this.setPhase(this.pausedFrom);
+  }
+  
+  public getPausedFrom(): GamePhase | null {
+    return this.pausedFrom;
+  }
+  
+  // 从根到当前阶段的激活状态，例如 [PLAYING, COMBAT, PAUSED]
+  public getActivePath(): GamePhase[] {
+    return this.buildPath(this.currentPhase, this.pausedFrom);
+  }
+  
+  // 层级判断：COMBAT 中 isInPhase(PLAYING) 为 true
+  public isInPhase(phase: GamePhase): boolean {
+    return this.getActivePath().includes(phase);
+  }
+  
+  public addTransition(transition: PhaseTransition): void {
+    this.transitions.push(transition);
+  }
+  
+  public onEnter(phase: GamePhase, hook: PhaseHook): () => void {
+    return this.addHook(this.enterHooks, phase, hook);
+  }
+  
+  public onExit(phase: GamePhase, hook: PhaseHook): () => void {
+    return this.addHook(this.exitHooks, phase, hook);
+  }
+  
+  public onTransitionRejected(listener: PhaseRejectionListener): () => void {
+    this.rejectionListeners.add(listener);
+    return () => this.rejectionListeners.delete(listener);
+  }
+  
+  private checkTransition(from: GamePhase, to: GamePhase): PhaseTransitionRejection | null {
+    const candidates = this.transitions.filter(t => t.from.includes(from) && t.to.includes(to));
+    if (candidates.length === 0) {
+      return { from, to, reason: 'no_transition' };
+    }
+    if (!candidates.some(t => !t.guard || t.guard(this, from, to))) {
+      return { from, to, reason: 'guard' };
+    }
+    return null;
+  }
+  
+  private buildPath(phase: GamePhase, pausedFrom: GamePhase | null): GamePhase[] {
+    if (phase === GamePhase.PAUSED && pausedFrom) {
+      return [...this.buildPath(pausedFrom, null), GamePhase.PAUSED];
+    }
+    
+    const path = [phase];
+    let parent = PHASE_PARENT[phase];
+    while (parent) {
+      path.unshift(parent);
+      parent = PHASE_PARENT[parent];
+    }
+    return path;
+  }
+  
+  private addHook(hooks: Map<GamePhase, Set<PhaseHook>>, phase: GamePhase, hook: PhaseHook): () => void {
+    if (!hooks.has(phase)) {
+      hooks.set(phase, new Set());
     }
+    hooks.get(phase)!.add(hook);
+    return () => hooks.get(phase)?.delete(hook);
+  }
+  
+  private runHooks(hooks: Map<GamePhase, Set<PhaseHook>>, phase: GamePhase, from: GamePhase, to: GamePhase): void {
+    hooks.get(phase)?.forEach(hook => {
+      try {
+        hook(from, to);
+      } catch (error) {
+        console.error(`[GameState] 阶段钩子执行失败: ${phase}`, error);
+      }
+    });
   }
   
   public getPhase(): GamePhase {
@@ -177,6 +359,7 @@ export class GameState {
   public reset(): void {
     this.currentPhase = GamePhase.INITIAL;
     this.previousPhase = GamePhase.INITIAL;
+    this.pausedFrom = null;
     this.isInCombat = false;
     this.isBossFight = false;
     this.playTime = 0;
@@ -0,0 +1,280 @@
+/**
+ * RuntimeConfig.ts - 分层运行时配置
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 按 默认值 → 关卡 → 用户设置 → 调试覆盖 的顺序叠加 GAME_CONFIG，后者优先；
+ * 取值变化时通知监听者，设计人员可在不重新构建的情况下调整参数
+ */
+
+import { GAME_CONFIG } from './constants';
+import { EventBus, GameEvent } from './EventBus';
+import type { Unsubscribe } from './EventBus';
+
+// ============== 类型 ==============
+type Widen<T> = T extends number ? number : T extends string ? string : T extends boolean ? boolean : T;
+
+export type GameConfig = { [K in keyof typeof GAME_CONFIG]: Widen<(typeof GAME_CONFIG)[K]> };
+export type GameConfigKey = keyof GameConfig;
+
+// defaults 为只读的 GAME_CONFIG，其余层可替换 / 清空
+export type ConfigLayer = 'defaults' | 'level' | 'settings' | 'debug';
+export type ConfigOverrides = Partial<GameConfig>;
+
+export interface ConfigIssue {
+  key: string;
+  layer: ConfigLayer;
+  message: string;
+}
+
+export type ConfigListener = (config: Readonly<GameConfig>, changed: GameConfigKey[]) => void;
+
+interface ConfigRule {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+// ============== 常量 ==============
+export const CONFIG_LAYER_ORDER: readonly ConfigLayer[] = ['defaults', 'level', 'settings', 'debug'];
+
+// URL 查询参数前缀: ?config.MOVE_SPEED=8&config.DEBUG_MODE=true
+export const CONFIG_QUERY_PREFIX = 'config.';
+
+// 未列出的数值项只要求为有限数
+const CONFIG_RULES: Partial<Record<GameConfigKey, ConfigRule>> = {
+  TARGET_FPS: { min: 1, max: 240 },
+  WEBGL_VERSION: { min: 1, max: 2, integer: true },
+  SHADOW_MAP_SIZE: { min: 256, max: 8192, integer: true },
+  PHYSICS_STEP: { min: 1 / 240, max: 0.1 },
+  MAX_SUBSTEPS: { min: 1, max: 10, integer: true },
+  AI_TIME_BUDGET_MS: { min: 0.1, max: 33 },
+  AI_BATCH_SIZE: { min: 1, integer: true },
+  MAX_ACTIVE_ENEMIES: { min: 0, integer: true },
+  DEFAULT_VIEW_DISTANCE: { min: 0 },
+  DEFAULT_VIEW_ANGLE: { min: 0, max: Math.PI * 2 },
+  DEFAULT_HEARING_RANGE: { min: 0 },
+  AUTO_SAVE_INTERVAL: { min: 1000 },
+  MAX_SAVE_SLOTS: { min: 1, max: 10, integer: true },
+  SAVE_BACKUP_COUNT: { min: 0, max: 10, integer: true },
+  PLAYER_HEIGHT: { min: 0.1 },
+  PLAYER_WIDTH: { min: 0.1 },
+  MOVE_SPEED: { min: 0 },
+  SPRINT_SPEED: { min: 0 },
+  JUMP_FORCE: { min: 0 },
+  CROUCH_SPEED: { min: 0 },
+  RELOAD_TIME: { min: 0 },
+  ADS_SPEED: { min: 0 },
+  HEADSHOT_MULTIPLIER: { min: 1 },
+  CRITICAL_CHANCE: { min: 0, max: 1 },
+  CRITICAL_DAMAGE: { min: 1 },
+  DAMAGE_NUMBER_LIFETIME: { min: 0 },
+  HEALTH_BAR_WIDTH: { min: 0 },
+  NOTIFICATION_DURATION: { min: 0 },
+  FOV: { min: 30, max: 150 },
+  NEAR_PLANE: { min: 0.001 },
+  FAR_PLANE: { min: 1 },
+};
+
+const CONFIG_KEYS = Object.keys(GAME_CONFIG) as GameConfigKey[];
+
+// ============== 运行时配置 ==============
+export class RuntimeConfig {
+  private layers: Map<ConfigLayer, ConfigOverrides> = new Map();
+  private resolved: GameConfig;
+  private listeners: Set<ConfigListener> = new Set();
+
+  constructor(private eventBus: EventBus | null = null) {
+    this.layers.set('defaults', { ...GAME_CONFIG });
+    this.resolved = this.resolve();
+  }
+
+  // ============== 读取 ==============
+  public get<K extends GameConfigKey>(key: K): GameConfig[K] {
+    return this.resolved[key];
+  }
+
+  public getAll(): Readonly<GameConfig> {
+    return { ...this.resolved };
+  }
+
+  public getLayer(layer: ConfigLayer): Readonly<ConfigOverrides> {
+    return { ...this.layers.get(layer) };
+  }
+
+  // 当前取值来自哪一层
+  public getSource(key: GameConfigKey): ConfigLayer {
+    for (let i = CONFIG_LAYER_ORDER.length - 1; i > 0; i--) {
+      const layer = CONFIG_LAYER_ORDER[i];
+      if (this.layers.get(layer)?.[key] !== undefined) return layer;
+    }
+    return 'defaults';
+  }
+
+  public has(key: string): key is GameConfigKey {
+    return Object.prototype.hasOwnProperty.call(GAME_CONFIG, key);
+  }
+
+  // ============== 写入 ==============
+  // 整层替换；未知键与非法值被丢弃并返回问题列表
+  public setLayer(layer: Exclude<ConfigLayer, 'defaults'>, values: Record<string, unknown>): ConfigIssue[] {
+    const { accepted, issues } = this.sanitize(layer, values);
+    this.layers.set(layer, accepted);
+    this.refresh();
+    return issues;
+  }
+
+  // 在现有层上合并，undefined 表示移除该键；非法值保留原有取值
+  public patchLayer(layer: Exclude<ConfigLayer, 'defaults'>, values: Record<string, unknown>): ConfigIssue[] {
+    const merged: Record<string, unknown> = { ...this.layers.get(layer) };
+    const removed = Object.keys(values).filter(key => values[key] === undefined);
+    removed.forEach(key => delete merged[key]);
+
+    const { accepted, issues } = this.sanitize(layer, values, removed);
+    this.layers.set(layer, { ...merged, ...accepted });
+    this.refresh();
+    return issues;
+  }
+
+  public clearLayer(layer: Exclude<ConfigLayer, 'defaults'>): void {
+    if (!this.layers.has(layer)) return;
+    this.layers.delete(layer);
+    this.refresh();
+  }
+
+  // ============== 校验 ==============
+  // 启动时调用：检查各层取值与跨字段约束
+  public validate(): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+
+    CONFIG_LAYER_ORDER.forEach(layer => {
+      const values = this.layers.get(layer) ?? {};
+      (Object.keys(values) as GameConfigKey[]).forEach(key => {
+        const message = validateConfigValue(key, values[key]);
+        if (message) issues.push({ key, layer, message });
+      });
+    });
+
+    const config = this.resolved;
+    if (config.FAR_PLANE <= config.NEAR_PLANE) {
+      issues.push({ key: 'FAR_PLANE', layer: this.getSource('FAR_PLANE'), message: '必须大于 NEAR_PLANE' });
+    }
+    if (config.SPRINT_SPEED < config.MOVE_SPEED) {
+      issues.push({ key: 'SPRINT_SPEED', layer: this.getSource('SPRINT_SPEED'), message: '不应小于 MOVE_SPEED' });
+    }
+
+    return issues;
+  }
+
+  // ============== 监听 ==============
+  // 注册后立即以当前配置调用一次
+  public onChange(listener: ConfigListener): Unsubscribe {
+    this.listeners.add(listener);
+    listener(this.getAll(), [...CONFIG_KEYS]);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // 仅在指定键变化时调用 (注册时同样立即调用一次)
+  public watch(keys: GameConfigKey[], listener: (config: Readonly<GameConfig>) => void): Unsubscribe {
+    return this.onChange((config, changed) => {
+      if (changed.some(key => keys.includes(key))) listener(config);
+    });
+  }
+
+  public dispose(): void {
+    this.listeners.clear();
+  }
+
+  // ============== 内部 ==============
+  private resolve(): GameConfig {
+    return Object.assign({}, ...CONFIG_LAYER_ORDER.map(layer => this.layers.get(layer) ?? {})) as GameConfig;
+  }
+
+  private refresh(): void {
+    const previous = this.resolved;
+    this.resolved = this.resolve();
+
+    const changed = CONFIG_KEYS.filter(key => previous[key] !== this.resolved[key]);
+    if (changed.length === 0) return;
+
+    const config = this.getAll();
+    this.listeners.forEach(listener => {
+      try {
+        listener(config, changed);
+      } catch (error) {
+        console.error('[RuntimeConfig] 监听器执行失败:', error);
+      }
+    });
+    this.eventBus?.emit(GameEvent.CONFIG_CHANGED, { config, changed });
+  }
+
+  // skip 中的键不参与校验；发现的问题同时输出警告
+  private sanitize(
+    layer: ConfigLayer,
+    values: Record<string, unknown>,
+    skip: string[] = []
+  ): { accepted: ConfigOverrides; issues: ConfigIssue[] } {
+    const accepted: Record<string, unknown> = {};
+    const issues: ConfigIssue[] = [];
+
+    Object.entries(values).forEach(([key, value]) => {
+      if (skip.includes(key)) return;
+      if (!this.has(key)) {
+        issues.push({ key, layer, message: '未知配置项' });
+        return;
+      }
+      const message = validateConfigValue(key, value);
+      if (message) {
+        issues.push({ key, layer, message });
+        return;
+      }
+      accepted[key] = value;
+    });
+
+    issues.forEach(issue => console.warn(`[RuntimeConfig] ${issue.layer}.${issue.key}: ${issue.message}`));
+    return { accepted: accepted as ConfigOverrides, issues };
+  }
+}
+
+// ============== 工具函数 ==============
+// 返回问题描述，合法时返回 null
+export function validateConfigValue(key: GameConfigKey, value: unknown): string | null {
+  const expected = typeof GAME_CONFIG[key];
+  if (typeof value !== expected) return `类型应为 ${expected}，实际为 ${typeof value}`;
+  if (typeof value !== 'number') return null;
+
+  if (!Number.isFinite(value)) return '必须为有限数';
+  const rule = CONFIG_RULES[key];
+  if (!rule) return null;
+  if (rule.integer && !Number.isInteger(value)) return '必须为整数';
+  if (rule.min !== undefined && value < rule.min) return `不能小于 ${rule.min}`;
+  if (rule.max !== undefined && value > rule.max) return `不能大于 ${rule.max}`;
+  return null;
+}
+
+// 按默认值的类型转换字符串 (URL 参数、控制台输入)
+export function parseConfigValue(key: GameConfigKey, raw: string): unknown {
+  switch (typeof GAME_CONFIG[key]) {
+    case 'number':
+      return raw.trim() === '' ? NaN : Number(raw);
+    case 'boolean':
+      if (raw === 'true' || raw === '1') return true;
+      if (raw === 'false' || raw === '0') return false;
+      return raw;
+    default:
+      return raw;
+  }
+}
+
+// 提取 config.<KEY>=<value> 形式的查询参数，未知键原样保留交由 setLayer 报告
+export function parseConfigQuery(search: string): Record<string, unknown> {
+  const overrides: Record<string, unknown> = {};
+
+  new URLSearchParams(search).forEach((raw, name) => {
+    if (!name.startsWith(CONFIG_QUERY_PREFIX)) return;
+    const key = name.slice(CONFIG_QUERY_PREFIX.length);
+    overrides[key] = key in GAME_CONFIG ? parseConfigValue(key as GameConfigKey, raw) : raw;
+  });
+
+  return overrides;
+}
@@ -0,0 +1,124 @@
+/**
+ * SaveCodec.ts - 存档编解码
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * THREE.Vector3 / THREE.Euler 以带类型标记的对象写入存档，读取时还原为实例
+ */
+
+import * as THREE from 'three';
+
+// ============== 类型标记 ==============
+export interface TaggedVector3 {
+  __type: 'Vector3';
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface TaggedEuler {
+  __type: 'Euler';
+  x: number;
+  y: number;
+  z: number;
+  order: string;
+}
+
+// ============== 对象判断 ==============
+export type SaveRecord = Record<string, unknown>;
+
+export function isSaveRecord(value: unknown): value is SaveRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============== 编码 ==============
+export function encodeSave(data: unknown): string {
+  return JSON.stringify(data, (_key, value) => {
+    if (value?.isVector3) {
+      return { __type: 'Vector3', x: value.x, y: value.y, z: value.z } as TaggedVector3;
+    }
+    if (value?.isEuler) {
+      return { __type: 'Euler', x: value.x, y: value.y, z: value.z, order: value.order } as TaggedEuler;
+    }
+    return value;
+  });
+}
+
+// ============== 解码 ==============
+// 迁移完成后调用：将所有带标记的对象还原为 THREE 实例
+export function reviveSaveValues<T>(value: T): T {
+  if (value === null || typeof value !== 'object') return value;
+
+  if (Array.isArray(value)) {
+    return value.map(item => reviveSaveValues(item)) as unknown as T;
+  }
+
+  const tagged = value as SaveRecord;
+  if (tagged.__type === 'Vector3') {
+    const { x, y, z } = tagged as unknown as TaggedVector3;
+    return new THREE.Vector3(x, y, z) as unknown as T;
+  }
+  if (tagged.__type === 'Euler') {
+    const { x, y, z, order } = tagged as unknown as TaggedEuler;
+    return new THREE.Euler(x, y, z, order as THREE.EulerOrder) as unknown as T;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(tagged)) {
+    result[key] = reviveSaveValues(tagged[key]);
+  }
+  return result as T;
+}
+
+// ============== 校验和 ==============
+// 存储层包裹一层校验和，检测写入中断或被篡改的存档
+export interface ChecksumEnvelope {
+  checksum: string;
+  payload: string;
+}
+
+// FNV-1a 32 位，足以发现截断与损坏，无需异步 crypto
+export function computeChecksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function wrapWithChecksum(payload: string): string {
+  const envelope: ChecksumEnvelope = { checksum: computeChecksum(payload), payload };
+  return JSON.stringify(envelope);
+}
+
+// 返回原始存档 JSON；无校验和的旧存档原样返回，校验失败返回 null
+export function unwrapChecksum(stored: string): string | null {
+  const envelope = JSON.parse(stored);
+  if (typeof envelope?.checksum !== 'string' || typeof envelope?.payload !== 'string') {
+    return stored;
+  }
+  return computeChecksum(envelope.payload) === envelope.checksum ? envelope.payload : null;
+}
+
+// ============== 旧存档 ==============
+// v3 之前的存档直接 JSON 化 THREE 对象：Vector3 → {x,y,z}，Euler → {isEuler,_x,_y,_z,_order}
+// 无法识别的值返回 undefined，由存档校验报告
+export function tagLegacyVector3(value: unknown): TaggedVector3 | undefined {
+  if (!isSaveRecord(value) || typeof value.x !== 'number') return undefined;
+  return { __type: 'Vector3', x: value.x, y: numberOr(value.y, 0), z: numberOr(value.z, 0) };
+}
+
+export function tagLegacyEuler(value: unknown): TaggedEuler | undefined {
+  if (!isSaveRecord(value)) return undefined;
+  const order = value._order ?? value.order;
+  return {
+    __type: 'Euler',
+    x: numberOr(value._x ?? value.x, 0),
+    y: numberOr(value._y ?? value.y, 0),
+    z: numberOr(value._z ?? value.z, 0),
+    order: typeof order === 'string' ? order : 'XYZ',
+  };
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' ? value : fallback;
+}
@@ -0,0 +1,213 @@
+/**
+ * SaveMigrations.ts - 存档版本迁移
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 存档结构每次变更时递增 CURRENT_SAVE_VERSION 并注册一个 vN → vN+1 迁移
+ */
+
+import { isSaveRecord, tagLegacyEuler, tagLegacyVector3 } from './SaveCodec';
+import type { SaveRecord } from './SaveCodec';
+
+// ============== 版本 ==============
+export const CURRENT_SAVE_VERSION = 3;
+export const GAME_BUILD_VERSION = '1.0.0';
+
+// ============== 错误 ==============
+export type SaveErrorReason =
+  | 'parse'            // JSON 损坏
+  | 'checksum'         // 校验和不匹配 (写入中断 / 被篡改)
+  | 'newer_version'    // 存档来自更新的游戏版本
+  | 'missing_migration'
+  | 'migration_failed'
+  | 'invalid'          // 迁移后的数据未通过校验
+  | 'write_failed';    // 存储后端落盘失败
+
+export class SaveError extends Error {
+  public reason: SaveErrorReason;
+  public saveVersion: number | null;
+
+  constructor(reason: SaveErrorReason, message: string, saveVersion: number | null = null) {
+    super(message);
+    this.name = 'SaveError';
+    this.reason = reason;
+    this.saveVersion = saveVersion;
+  }
+}
+
+// ============== 迁移定义 ==============
+export interface SaveMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate(data: SaveRecord): SaveRecord;
+}
+
+// ============== 迁移管线 ==============
+export class SaveMigrator {
+  private migrations: Map<number, SaveMigration> = new Map();
+
+  constructor(migrations: SaveMigration[] = []) {
+    migrations.forEach(m => this.register(m));
+  }
+
+  public register(migration: SaveMigration): void {
+    if (migration.to !== migration.from + 1) {
+      throw new Error(`[SaveMigrator] 迁移必须逐版本进行: v${migration.from} → v${migration.to}`);
+    }
+    this.migrations.set(migration.from, migration);
+  }
+
+  // 依次执行 vN → vN+1 直到当前版本
+  public migrate(data: unknown, targetVersion: number = CURRENT_SAVE_VERSION): SaveRecord {
+    if (!isSaveRecord(data)) {
+      throw new SaveError('invalid', '存档不是对象');
+    }
+    let version = getSaveVersion(data);
+
+    if (version > targetVersion) {
+      throw new SaveError(
+        'newer_version',
+        `存档版本 v${version} 高于当前游戏支持的 v${targetVersion}，请更新游戏`,
+        version
+      );
+    }
+
+    let current = data;
+    while (version < targetVersion) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new SaveError('missing_migration', `缺少存档迁移 v${version} → v${version + 1}`, version);
+      }
+
+      try {
+        current = migration.migrate(current);
+        if (!isSaveRecord(current)) throw new Error('迁移结果不是对象');
+      } catch (error) {
+        throw new SaveError(
+          'migration_failed',
+          `存档迁移失败 v${migration.from} → v${migration.to}: ${(error as Error).message}`,
+          version
+        );
+      }
+
+      current.version = migration.to;
+      version = migration.to;
+      console.log(`[SaveMigrator] 迁移存档: v${migration.from} → v${migration.to} (${migration.description})`);
+    }
+
+    return current;
+  }
+}
+
+// ============== 版本识别 ==============
+// v1 存档使用字符串 version ('1.0.0')，v2 起为整数结构版本
+export function getSaveVersion(data: unknown): number {
+  if (isSaveRecord(data) && typeof data.version === 'number') return data.version;
+  return 1;
+}
+
+// ============== 校验 ==============
+export function validateSaveData(data: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isSaveRecord(data)) {
+    return ['存档不是对象'];
+  }
+  if (typeof data.version !== 'number') errors.push('version 缺失');
+  if (typeof data.timestamp !== 'number') errors.push('timestamp 缺失');
+
+  const player = data.player;
+  if (!isSaveRecord(player)) {
+    errors.push('player 缺失');
+  } else {
+    ['health', 'maxHealth', 'level', 'experience'].forEach(key => {
+      if (typeof player[key] !== 'number') errors.push(`player.${key} 不是数字`);
+    });
+    if (!isSaveRecord(player.position) || typeof player.position.x !== 'number') errors.push('player.position 无效');
+    if (!Array.isArray(player.weapons)) errors.push('player.weapons 不是数组');
+    if (!Array.isArray(player.inventory)) errors.push('player.inventory 不是数组');
+  }
+
+  const progress = data.progress;
+  if (!isSaveRecord(progress)) {
+    errors.push('progress 缺失');
+  } else {
+    if (typeof progress.currentLevel !== 'string') errors.push('progress.currentLevel 无效');
+    if (!Array.isArray(progress.completedLevels)) errors.push('progress.completedLevels 不是数组');
+    if (!Array.isArray(progress.checkPoints)) errors.push('progress.checkPoints 不是数组');
+    if (!isSaveRecord(progress.questProgress)) {
+      errors.push('progress.questProgress 无效');
+    }
+  }
+
+  if (!isSaveRecord(data.systems)) {
+    errors.push('systems 缺失');
+  }
+
+  return errors;
+}
+
+// ============== 内置迁移 ==============
+export const DEFAULT_SAVE_MIGRATIONS: SaveMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: '整数结构版本 + 记录游戏版本，补全旧存档缺失的进度字段',
+    migrate(data) {
+      const player = asRecord(data.player);
+      const progress = asRecord(data.progress);
+      return {
+        ...data,
+        gameVersion: typeof data.version === 'string' ? data.version : GAME_BUILD_VERSION,
+        player: {
+          ...player,
+          inventory: player.inventory ?? [],
+          currency: player.currency ?? 0,
+        },
+        progress: {
+          ...progress,
+          completedLevels: progress.completedLevels ?? [],
+          checkPoints: progress.checkPoints ?? [],
+          questProgress: progress.questProgress ?? {},
+        },
+      };
+    },
+  },
+  {
+    from: 2,
+    to: 3,
+    description: '新增子系统存档分区，THREE 向量/欧拉角改为带类型标记',
+    migrate(data) {
+      const tagPlayer = (player: unknown) => isSaveRecord(player)
+        ? {
+          ...player,
+          position: tagLegacyVector3(player.position),
+          rotation: tagLegacyEuler(player.rotation),
+        }
+        : player;
+
+      const progress = asRecord(data.progress);
+      const checkPoints = Array.isArray(progress.checkPoints) ? progress.checkPoints : [];
+      return {
+        ...data,
+        player: tagPlayer(data.player),
+        progress: {
+          ...progress,
+          checkPoints: checkPoints.map(checkpoint => {
+            const point = asRecord(checkpoint);
+            return {
+              ...point,
+              position: tagLegacyVector3(point.position),
+              playerData: tagPlayer(point.playerData),
+            };
+          }),
+        },
+        systems: {},
+      };
+    },
+  },
+];
+
+// 迁移中缺失或类型错误的分区按空对象处理，缺失字段随后补全或由校验报告
+function asRecord(value: unknown): SaveRecord {
+  return isSaveRecord(value) ? value : {};
+}
@@ -0,0 +1,184 @@
+/**
+ * SaveStorage.ts - 存档存储后端
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * SaveSystem 通过同步的键值接口读写；异步后端 (IndexedDB) 在 init() 时预载入内存并在后台写回
+ */
+
+// ============== 存储接口 ==============
+export interface SaveStorageAdapter {
+  readonly name: string;
+  // 异步后端在此预载数据；同步后端可省略
+  init?(): Promise<void>;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+  // 等待所有后台写入完成；期间有写入失败时 reject
+  flush?(): Promise<void>;
+  // 绕过内存缓存直接读取持久层，用于落盘后回读校验
+  readPersisted?(key: string): Promise<string | null>;
+}
+
+// ============== localStorage ==============
+export class LocalStorageAdapter implements SaveStorageAdapter {
+  readonly name = 'localStorage';
+
+  getItem(key: string): string | null {
+    return localStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    localStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    localStorage.removeItem(key);
+  }
+
+  keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+// ============== 内存 (测试 / 无头模式) ==============
+export class MemoryStorageAdapter implements SaveStorageAdapter {
+  readonly name = 'memory';
+  private data: Map<string, string>;
+
+  constructor(initial: Record<string, string> = {}) {
+    this.data = new Map(Object.entries(initial));
+  }
+
+  getItem(key: string): string | null {
+    return this.data.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.data.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.data.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.data.keys());
+  }
+}
+
+// ============== IndexedDB ==============
+export class IndexedDBStorageAdapter implements SaveStorageAdapter {
+  readonly name = 'indexedDB';
+  private cache: Map<string, string> = new Map();
+  private db: IDBDatabase | null = null;
+  private pending: Promise<void> = Promise.resolve();
+  // 上次 flush 以来的第一个写入错误
+  private writeError: Error | null = null;
+
+  constructor(
+    private dbName: string = 'ink_realm',
+    private storeName: string = 'saves'
+  ) {}
+
+  async init(): Promise<void> {
+    this.db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(this.storeName);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // 预载全部记录，之后的读取走内存
+    await new Promise<void>((resolve, reject) => {
+      const store = this.db!.transaction(this.storeName, 'readonly').objectStore(this.storeName);
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        this.cache.set(String(cursor.key), cursor.value as string);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    console.log(`[SaveStorage] IndexedDB 已载入 ${this.cache.size} 条记录`);
+  }
+
+  getItem(key: string): string | null {
+    return this.cache.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.cache.set(key, value);
+    this.enqueue(store => store.put(value, key));
+  }
+
+  removeItem(key: string): void {
+    this.cache.delete(key);
+    this.enqueue(store => store.delete(key));
+  }
+
+  keys(): string[] {
+    return Array.from(this.cache.keys());
+  }
+
+  async flush(): Promise<void> {
+    await this.pending;
+    const error = this.writeError;
+    this.writeError = null;
+    if (error) throw error;
+  }
+
+  async readPersisted(key: string): Promise<string | null> {
+    if (!this.db) return null;
+
+    const db = this.db;
+    return new Promise<string | null>((resolve, reject) => {
+      const request = db.transaction(this.storeName, 'readonly').objectStore(this.storeName).get(key);
+      request.onsuccess = () => resolve((request.result as string | undefined) ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // 写入按调用顺序串行执行
+  private enqueue(operation: (store: IDBObjectStore) => void): void {
+    if (!this.db) {
+      console.warn('[SaveStorage] IndexedDB 未初始化，仅写入内存');
+      this.writeError ??= new Error('IndexedDB 未初始化，存档仅写入内存');
+      return;
+    }
+
+    const db = this.db;
+    this.pending = this.pending
+      .then(() => new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(this.storeName, 'readwrite');
+        operation(transaction.objectStore(this.storeName));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        // 提交阶段失败 (如超出配额) 只触发 abort
+        transaction.onabort = () => reject(transaction.error);
+      }))
+      .catch(error => {
+        // 记录后继续执行后续写入，由 flush 向调用方报告
+        console.error('[SaveStorage] IndexedDB 写入失败:', error);
+        this.writeError ??= error instanceof Error ? error : new Error(String(error));
+      });
+  }
+}
+
+// ============== 默认后端 ==============
+export function createDefaultStorage(): SaveStorageAdapter {
+  return typeof localStorage !== 'undefined'
+    ? new LocalStorageAdapter()
+    : new MemoryStorageAdapter();
+}
@@ -0,0 +1,291 @@
+/**
+ * SaveSystem.test.ts - 存档迁移、备份恢复与云同步
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as THREE from 'three';
+import { SaveSystem } from './SaveSystem';
+import type { SaveRecovery } from './SaveSystem';
+import { SaveError } from './SaveMigrations';
+import { MemoryStorageAdapter } from './SaveStorage';
+import { wrapWithChecksum } from './SaveCodec';
+import { HttpSyncAdapter, createMockSyncServer } from './CloudSync';
+import type { CloudSyncAdapter, RemoteSave } from './CloudSync';
+
+const slotKey = (slot: number) => `ink_realm_save_slot_${slot}`;
+const backupKey = (slot: number, index: number) => `${slotKey(slot)}_backup_${index}`;
+
+function makeSave(timestamp: number, level: number = 1) {
+  return {
+    player: {
+      id: 'player_1',
+      name: '墨羽',
+      position: new THREE.Vector3(1, 2, 3),
+      rotation: new THREE.Euler(0, 1, 0),
+      health: 100,
+      maxHealth: 100,
+      armor: 0,
+      maxArmor: 50,
+      level,
+      experience: 0,
+      experienceToNextLevel: 100,
+      currentWeapon: 'quantum_pistol',
+      weapons: ['quantum_pistol'],
+      unlockedSkills: [],
+      inventory: [],
+      currency: 0,
+    },
+    progress: {
+      currentChapter: 0,
+      currentLevel: 'level_0',
+      completedLevels: [],
+      checkPoints: [],
+      questProgress: {},
+    },
+    systems: {},
+    timestamp,
+  };
+}
+
+// 另一台设备上的存档，编码后作为远端数据
+function remoteSave(slot: number, timestamp: number, level: number): RemoteSave {
+  const other = new SaveSystem(new MemoryStorageAdapter());
+  other.save(slot, makeSave(timestamp, level));
+  return { slot, timestamp, deviceId: 'device_other', data: other.exportSave(slot)! };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+// ============== 迁移 ==============
+describe('SaveSystem 迁移', () => {
+  it('v1 存档迁移到当前版本，补全字段并还原 THREE 对象', () => {
+    const saves = new SaveSystem(new MemoryStorageAdapter());
+    const v1 = {
+      version: '1.0.0',
+      timestamp: 5,
+      player: {
+        health: 80,
+        maxHealth: 100,
+        level: 3,
+        experience: 40,
+        weapons: ['quantum_pistol'],
+        position: { x: 1, y: 2, z: 3 },
+        rotation: { isEuler: true, _x: 0, _y: 1.5, _z: 0, _order: 'XYZ' },
+      },
+      progress: { currentLevel: 'level_1' },
+    };
+
+    const data = saves.importSave(0, JSON.stringify(v1));
+
+    expect(data.version).toBe(3);
+    expect(data.gameVersion).toBe('1.0.0');
+    expect(data.player.inventory).toEqual([]);
+    expect(data.player.currency).toBe(0);
+    expect(data.progress.completedLevels).toEqual([]);
+    expect(data.progress.questProgress).toEqual({});
+    expect(data.systems).toEqual({});
+    expect(data.player.position).toBeInstanceOf(THREE.Vector3);
+    expect(data.player.position.toArray()).toEqual([1, 2, 3]);
+    expect(data.player.rotation).toBeInstanceOf(THREE.Euler);
+    expect(data.player.rotation.y).toBe(1.5);
+
+    // 写回的是当前版本
+    expect(saves.load(0)?.version).toBe(3);
+  });
+
+  it('非对象存档报告为 invalid，而不是迁移失败', () => {
+    const saves = new SaveSystem(new MemoryStorageAdapter());
+
+    for (const json of ['null', '5', '[]']) {
+      expect(() => saves.parse(json)).toThrowError(expect.objectContaining({ reason: 'invalid' }));
+    }
+  });
+
+  it('导入更新版本的存档时抛出 newer_version，不写入槽位', () => {
+    const saves = new SaveSystem(new MemoryStorageAdapter());
+    const newer = JSON.stringify({ ...makeSave(1), version: 99, gameVersion: '9.0.0' });
+
+    expect(() => saves.importSave(0, newer)).toThrowError(SaveError);
+    try {
+      saves.importSave(0, newer);
+    } catch (error) {
+      expect((error as SaveError).reason).toBe('newer_version');
+      expect((error as SaveError).saveVersion).toBe(99);
+    }
+    expect(saves.hasSave(0)).toBe(false);
+  });
+
+  it('拒绝覆盖版本过新的主存档，也不把它轮换进备份', () => {
+    const storage = new MemoryStorageAdapter();
+    const newer = wrapWithChecksum(JSON.stringify({ ...makeSave(1), version: 99, gameVersion: '9.0.0' }));
+    storage.setItem(slotKey(0), newer);
+    const saves = new SaveSystem(storage);
+
+    for (let i = 0; i < 5; i++) {
+      expect(saves.save(0, makeSave(10 + i))).toBe(false);
+    }
+
+    expect(storage.getItem(slotKey(0))).toBe(newer);
+    expect(storage.getItem(backupKey(0, 0))).toBeNull();
+    expect(saves.getLastError()?.reason).toBe('newer_version');
+    expect(saves.load(0)).toBeNull();
+    expect(saves.getLastError()?.reason).toBe('newer_version');
+  });
+});
+
+// ============== 备份恢复 ==============
+describe('SaveSystem 备份恢复', () => {
+  let storage: MemoryStorageAdapter;
+  let saves: SaveSystem;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+    saves = new SaveSystem(storage);
+    // 主存档 t=3，备份 #0 t=2，备份 #1 t=1
+    [1, 2, 3].forEach(timestamp => saves.save(0, makeSave(timestamp)));
+  });
+
+  it('主存档损坏时从最新备份恢复并修复主存档', () => {
+    const recoveries: SaveRecovery[] = [];
+    saves.onRecovery(recovery => recoveries.push(recovery));
+    storage.setItem(slotKey(0), '{"checksum":"00000000","payload":"{}"}');
+
+    expect(saves.load(0)?.timestamp).toBe(2);
+    expect(recoveries).toHaveLength(1);
+    expect(recoveries[0]).toMatchObject({ slot: 0, backupIndex: 0, timestamp: 2 });
+    expect(saves.getLastRecovery()?.backupIndex).toBe(0);
+
+    // 主存档已被修复
+    expect(storage.getItem(slotKey(0))).toBe(storage.getItem(backupKey(0, 0)));
+  });
+
+  it('最新备份也损坏时回退到更旧的备份', () => {
+    storage.setItem(slotKey(0), 'garbage');
+    storage.setItem(backupKey(0, 0), 'garbage');
+
+    expect(saves.load(0)?.timestamp).toBe(1);
+    expect(saves.getLastRecovery()?.backupIndex).toBe(1);
+  });
+
+  it('全部损坏时返回 null 并记录主存档错误', () => {
+    storage.setItem(slotKey(0), 'garbage');
+    storage.setItem(backupKey(0, 0), 'garbage');
+    storage.setItem(backupKey(0, 1), 'garbage');
+
+    expect(saves.load(0)).toBeNull();
+    expect(saves.getLastError()?.reason).toBe('parse');
+  });
+
+  it('损坏的主存档不会被轮换进备份', () => {
+    storage.setItem(slotKey(0), 'garbage');
+    saves.save(0, makeSave(4));
+
+    expect(saves.load(0)?.timestamp).toBe(4);
+    storage.setItem(slotKey(0), 'garbage');
+    expect(saves.load(0)?.timestamp).toBe(2);
+  });
+
+  it('导出只读：主存档损坏时导出最新备份，但不修复主存档', () => {
+    storage.setItem(slotKey(0), 'garbage');
+
+    const exported = saves.exportSave(0);
+
+    expect(JSON.parse(exported!).timestamp).toBe(2);
+    expect(storage.getItem(slotKey(0))).toBe('garbage');
+    expect(saves.getLastRecovery()).toBeNull();
+  });
+});
+
+// ============== 云同步 ==============
+describe('SaveSystem.cloudSync', () => {
+  const connect = (initial: RemoteSave[] = []) => {
+    const server = createMockSyncServer(initial);
+    return { server, adapter: new HttpSyncAdapter({ endpoint: 'http://mock.local', fetch: server.fetch }) };
+  };
+
+  it('未配置云同步时返回错误', async () => {
+    const result = await new SaveSystem(new MemoryStorageAdapter()).cloudSync();
+    expect(result.success).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+
+  it('上传仅本地存在的槽位，下载仅远端存在的槽位', async () => {
+    const { server, adapter } = connect([remoteSave(1, 100, 7)]);
+    const saves = new SaveSystem(new MemoryStorageAdapter());
+    saves.save(0, makeSave(50));
+    saves.setCloudSync(adapter);
+
+    const result = await saves.cloudSync();
+
+    expect(result).toMatchObject({ success: true, uploaded: [0], downloaded: [1], failed: [] });
+    expect(server.saves.get(0)).toMatchObject({ slot: 0, timestamp: 50, deviceId: saves.getDeviceId() });
+    expect(JSON.parse(server.saves.get(0)!.data).timestamp).toBe(50);
+    expect(saves.load(1)?.player.level).toBe(7);
+  });
+
+  it('两端一致时不传输', async () => {
+    const { adapter } = connect();
+    const saves = new SaveSystem(new MemoryStorageAdapter());
+    saves.save(0, makeSave(50));
+    saves.setCloudSync(adapter);
+    await saves.cloudSync();
+
+    const result = await saves.cloudSync();
+
+    expect(result).toMatchObject({ success: true, uploaded: [], downloaded: [] });
+  });
+
+  it('上传被拒绝 (409) 时改为下载远端存档', async () => {
+    const { server, adapter } = connect([remoteSave(0, 200, 9)]);
+    // 列表仍是旧的：模拟列出后远端被其他设备更新
+    const stale: CloudSyncAdapter = {
+      list: async () => [{ slot: 0, timestamp: 10, deviceId: 'device_other' }],
+      download: slot => adapter.download(slot),
+      upload: save => adapter.upload(save),
+    };
+    const saves = new SaveSystem(new MemoryStorageAdapter());
+    saves.save(0, makeSave(50, 2));
+    saves.setCloudSync(stale);
+
+    const result = await saves.cloudSync();
+
+    expect(result).toMatchObject({ success: true, uploaded: [], downloaded: [0] });
+    expect(server.saves.get(0)?.timestamp).toBe(200);
+    expect(saves.load(0)?.player.level).toBe(9);
+  });
+
+  it('单个槽位失败不影响其余槽位，失败记录在结果中', async () => {
+    const broken: RemoteSave = { slot: 1, timestamp: 100, deviceId: 'device_other', data: '{broken' };
+    const { adapter } = connect([broken, remoteSave(2, 100, 4)]);
+    const saves = new SaveSystem(new MemoryStorageAdapter());
+    saves.setCloudSync(adapter);
+
+    const result = await saves.cloudSync();
+
+    expect(result.success).toBe(false);
+    expect(result.downloaded).toEqual([2]);
+    expect(result.failed).toHaveLength(1);
+    expect(result.failed[0].slot).toBe(1);
+    expect(saves.hasSave(1)).toBe(false);
+    expect(saves.load(2)?.player.level).toBe(4);
+  });
+
+  it('下载后通知监听者，以便正在使用的槽位立即应用', async () => {
+    const { adapter } = connect([remoteSave(0, 100, 6)]);
+    const saves = new SaveSystem(new MemoryStorageAdapter());
+    saves.setCloudSync(adapter);
+    const listener = vi.fn();
+    saves.onCloudDownload(listener);
+
+    await saves.cloudSync();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toBe(0);
+    expect(listener.mock.calls[0][1].player.level).toBe(6);
+  });
+});
@@ -3,15 +3,52 @@
  * 墨境：孤军 (Ink Realm: Lone Army)
  */
 
-import { GAME_CONFIG } from './Core';
+import { GAME_CONFIG } from './constants';
+import {
+  CURRENT_SAVE_VERSION,
+  GAME_BUILD_VERSION,
+  DEFAULT_SAVE_MIGRATIONS,
+  SaveError,
+  SaveMigration,
+  SaveMigrator,
+  validateSaveData,
+} from './SaveMigrations';
+import { encodeSave, reviveSaveValues, unwrapChecksum, wrapWithChecksum } from './SaveCodec';
+import { SaveStorageAdapter, createDefaultStorage } from './SaveStorage';
+import { CloudSyncAdapter, CloudSyncResult, RemoteSaveMeta, resolveSaveConflict } from './CloudSync';
 
 export interface SaveData {
   player: any;
   progress: any;
+  systems: Record<string, unknown>;  // 各子系统存档分区，按 saveKey 索引
   timestamp: number;
-  version: string;
+  version: number;        // 存档结构版本
+  gameVersion: string;    // 写入存档的游戏版本
+  deviceId?: string;      // 写入存档的设备，用于云同步冲突判断
 }
 
+// ============== 存档参与者 ==============
+// 子系统实现此接口并注册到 SaveSystem，即可把自身状态写入统一存档
+export interface SaveParticipant<T = unknown> {
+  readonly saveKey: string;
+  captureSave(): T;
+  restoreSave(data: T): void;
+}
+
+// ============== 损坏恢复 ==============
+export interface SaveRecovery {
+  slot: number;
+  backupIndex: number;    // 0 为最新备份
+  timestamp: number;      // 恢复出的存档时间
+  reason: string;         // 主存档失效原因
+}
+
+export type SaveRecoveryListener = (recovery: SaveRecovery) => void;
+
+// 云同步从远端下载并写入槽位后通知，正在使用该槽位的游戏需立即应用，
+// 否则自动存档会用旧状态覆盖下载的存档并在下次同步时上传
+export type SaveDownloadListener = (slot: number, data: SaveData) => void;
+
 export interface SaveSlot {
   slot: number;
   data: SaveData | null;
@@ -22,50 +59,298 @@ export interface SaveSlot {
 export class SaveSystem {
   private storageKey: string = 'ink_realm_save_';
   private maxSlots: number = GAME_CONFIG.MAX_SAVE_SLOTS;
+  private backupCount: number = GAME_CONFIG.SAVE_BACKUP_COUNT;
+  private migrator: SaveMigrator = new SaveMigrator(DEFAULT_SAVE_MIGRATIONS);
+  private lastError: SaveError | null = null;
+  private lastRecovery: SaveRecovery | null = null;
+  private recoveryListeners: Set<SaveRecoveryListener> = new Set();
+  private downloadListeners: Set<SaveDownloadListener> = new Set();
+  
+  // 子系统存档
+  private participants: Map<string, SaveParticipant> = new Map();
+  // 读档时尚未注册的子系统分区，注册时再恢复；保存时原样写回避免丢失
+  private pendingSections: Record<string, unknown> = {};
+  
+  // 存储后端
+  private storage: SaveStorageAdapter;
+  private cloud: CloudSyncAdapter | null = null;
+  private deviceId: string | null = null;
+  
+  constructor(storage: SaveStorageAdapter = createDefaultStorage()) {
+    this.storage = storage;
+    console.log(`[SaveSystem] 初始化存档系统 (${storage.name})`);
+  }
   
-  constructor() {
-    console.log('[SaveSystem] 初始化存档系统');
+  // ============== 存储后端 ==============
+  // 异步后端 (IndexedDB) 需在首次读档前完成初始化
+  public async init(): Promise<void> {
+    await this.storage.init?.();
+  }
+  
+  public setStorage(storage: SaveStorageAdapter): void {
+    this.storage = storage;
+    this.deviceId = null;
+    console.log(`[SaveSystem] 切换存储后端: ${storage.name}`);
+  }
+  
+  public getStorage(): SaveStorageAdapter {
+    return this.storage;
+  }
+  
+  public setCloudSync(adapter: CloudSyncAdapter | null): void {
+    this.cloud = adapter;
+  }
+  
+  public getCloudSync(): CloudSyncAdapter | null {
+    return this.cloud;
   }
   
   // ============== 存档 ==============
   public save(slot: number, data: any): boolean {
+    this.lastError = null;
     try {
       const saveData: SaveData = {
         player: data.player,
         progress: data.progress,
+        systems: data.systems || {},
         timestamp: data.timestamp || Date.now(),
-        version: '1.0.0',
+        version: CURRENT_SAVE_VERSION,
+        gameVersion: GAME_BUILD_VERSION,
+        deviceId: this.getDeviceId(),
       };
       
-      const key = this.getSlotKey(slot);
-      localStorage.setItem(key, JSON.stringify(saveData));
+      this.writeSlot(slot, encodeSave(saveData));
       
       console.log(`[SaveSystem] 存档已保存: 槽位 ${slot}`);
       return true;
     } catch (error) {
       console.error('[SaveSystem] 存档失败:', error);
+      if (error instanceof SaveError) this.lastError = error;
       return false;
     }
   }
   
+  // ============== 落盘 ==============
+  // 等待异步后端把写入落盘，并回读校验槽位主存档；失败时 reject SaveError
+  public async flush(slot?: number): Promise<void> {
+    try {
+      await this.storage.flush?.();
+    } catch (error) {
+      throw this.reportWriteError(`存档落盘失败: ${(error as Error).message}`);
+    }
+    
+    if (slot === undefined || !this.storage.readPersisted) return;
+    
+    const key = this.getSlotKey(slot);
+    const persisted = await this.storage.readPersisted(key);
+    if (persisted !== this.storage.getItem(key)) {
+      throw this.reportWriteError(`槽位 ${slot} 落盘校验失败`);
+    }
+  }
+  
+  private reportWriteError(message: string): SaveError {
+    const error = new SaveError('write_failed', message);
+    this.lastError = error;
+    console.error(`[SaveSystem] ${message}`);
+    return error;
+  }
+  
   // ============== 读取 ==============
+  // 主存档损坏时按从新到旧尝试备份，成功后用备份修复主存档
   public load(slot: number): SaveData | null {
+    this.lastError = null;
+    
+    const stored = this.storage.getItem(this.getSlotKey(slot));
+    if (!stored) {
+      console.log(`[SaveSystem] 槽位 ${slot} 无存档`);
+      return null;
+    }
+    
+    let mainError: SaveError;
     try {
-      const key = this.getSlotKey(slot);
-      const data = localStorage.getItem(key);
-      
-      if (!data) {
-        console.log(`[SaveSystem] 槽位 ${slot} 无存档`);
-        return null;
-      }
-      
-      const saveData: SaveData = JSON.parse(data);
+      const saveData = this.readStored(stored);
       console.log(`[SaveSystem] 读取存档: 槽位 ${slot}`, new Date(saveData.timestamp));
       return saveData;
     } catch (error) {
-      console.error('[SaveSystem] 读取失败:', error);
+      mainError = this.toSaveError(error);
+      console.error(`[SaveSystem] 读取失败: 槽位 ${slot}`, mainError.message);
+    }
+    
+    // 版本过新不是损坏，回退旧备份会丢失进度
+    if (mainError.reason === 'newer_version') {
+      this.lastError = mainError;
       return null;
     }
+    
+    const recovered = this.recoverFromBackup(slot, mainError);
+    if (!recovered) {
+      this.lastError = mainError;
+    }
+    return recovered;
+  }
+  
+  // 只读查看槽位：不修复主存档、不记录错误，主存档不可用时取最新的有效备份
+  private peek(slot: number): SaveData | null {
+    const keys = [this.getSlotKey(slot)];
+    for (let i = 0; i < this.backupCount; i++) {
+      keys.push(this.getBackupKey(slot, i));
+    }
+    
+    for (const key of keys) {
+      const stored = this.storage.getItem(key);
+      if (!stored) continue;
+      try {
+        return this.readStored(stored);
+      } catch (error) {
+        // 版本过新的主存档不回退到旧备份，与 load 一致
+        if (key === keys[0] && this.toSaveError(error).reason === 'newer_version') return null;
+      }
+    }
+    return null;
+  }
+  
+  private recoverFromBackup(slot: number, mainError: SaveError): SaveData | null {
+    for (let i = 0; i < this.backupCount; i++) {
+      const backup = this.storage.getItem(this.getBackupKey(slot, i));
+      if (!backup) continue;
+      
+      try {
+        const saveData = this.readStored(backup);
+        this.storage.setItem(this.getSlotKey(slot), backup);
+        
+        const recovery: SaveRecovery = {
+          slot,
+          backupIndex: i,
+          timestamp: saveData.timestamp,
+          reason: mainError.message,
+        };
+        this.lastRecovery = recovery;
+        console.warn(`[SaveSystem] 槽位 ${slot} 已从备份 #${i} 恢复`, new Date(saveData.timestamp));
+        this.recoveryListeners.forEach(listener => listener(recovery));
+        return saveData;
+      } catch (error) {
+        console.warn(`[SaveSystem] 槽位 ${slot} 备份 #${i} 不可用:`, this.toSaveError(error).message);
+      }
+    }
+    
+    console.error(`[SaveSystem] 槽位 ${slot} 无可用备份`);
+    return null;
+  }
+  
+  // 存储层记录 → 校验和检查 → 解析
+  private readStored(stored: string): SaveData {
+    let payload: string | null;
+    try {
+      payload = unwrapChecksum(stored);
+    } catch (error) {
+      throw new SaveError('parse', `存档损坏: ${(error as Error).message}`);
+    }
+    if (payload === null) {
+      throw new SaveError('checksum', '存档校验和不匹配');
+    }
+    return this.parse(payload);
+  }
+  
+  private toSaveError(error: unknown): SaveError {
+    return error instanceof SaveError
+      ? error
+      : new SaveError('parse', `存档损坏: ${(error as Error).message}`);
+  }
+  
+  // 解析 → 迁移到当前版本 → 校验，任一步失败抛出 SaveError
+  public parse(json: string): SaveData {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch (error) {
+      throw new SaveError('parse', `存档损坏: ${(error as Error).message}`);
+    }
+    
+    const migrated = this.migrator.migrate(raw);
+    
+    const errors = validateSaveData(migrated);
+    if (errors.length > 0) {
+      throw new SaveError('invalid', `存档校验失败: ${errors.join('; ')}`, migrated.version as number);
+    }
+    
+    return reviveSaveValues(migrated) as unknown as SaveData;
+  }
+  
+  // ============== 子系统存档 ==============
+  public registerParticipant(participant: SaveParticipant): void {
+    if (this.participants.has(participant.saveKey)) {
+      console.warn(`[SaveSystem] 存档分区重复注册: ${participant.saveKey}`);
+    }
+    this.participants.set(participant.saveKey, participant);
+    
+    // 读档早于注册时补恢复
+    if (participant.saveKey in this.pendingSections) {
+      this.restoreSection(participant, this.pendingSections[participant.saveKey]);
+      delete this.pendingSections[participant.saveKey];
+    }
+  }
+  
+  public unregisterParticipant(saveKey: string): void {
+    this.participants.delete(saveKey);
+  }
+  
+  public captureParticipants(): Record<string, unknown> {
+    const sections: Record<string, unknown> = { ...this.pendingSections };
+    
+    this.participants.forEach((participant, key) => {
+      try {
+        sections[key] = participant.captureSave();
+      } catch (error) {
+        console.error(`[SaveSystem] 存档分区 ${key} 保存失败:`, error);
+      }
+    });
+    
+    return sections;
+  }
+  
+  public restoreParticipants(sections: Record<string, unknown>): void {
+    this.pendingSections = {};
+    
+    Object.entries(sections).forEach(([key, data]) => {
+      const participant = this.participants.get(key);
+      if (participant) {
+        this.restoreSection(participant, data);
+      } else {
+        this.pendingSections[key] = data;
+      }
+    });
+  }
+  
+  private restoreSection(participant: SaveParticipant, data: unknown): void {
+    try {
+      participant.restoreSave(data);
+    } catch (error) {
+      console.error(`[SaveSystem] 存档分区 ${participant.saveKey} 恢复失败:`, error);
+    }
+  }
+  
+  // ============== 迁移 ==============
+  public registerMigration(migration: SaveMigration): void {
+    this.migrator.register(migration);
+  }
+  
+  public getLastError(): SaveError | null {
+    return this.lastError;
+  }
+  
+  // ============== 恢复通知 ==============
+  public getLastRecovery(): SaveRecovery | null {
+    return this.lastRecovery;
+  }
+  
+  public onRecovery(listener: SaveRecoveryListener): () => void {
+    this.recoveryListeners.add(listener);
+    return () => this.recoveryListeners.delete(listener);
+  }
+  
+  public onCloudDownload(listener: SaveDownloadListener): () => void {
+    this.downloadListeners.add(listener);
+    return () => this.downloadListeners.delete(listener);
   }
   
   // ============== 自动加载 ==============
@@ -77,8 +362,11 @@ export class SaveSystem {
   // ============== 删除 ==============
   public delete(slot: number): boolean {
     try {
-      const key = this.getSlotKey(slot);
-      localStorage.removeItem(key);
+      this.storage.removeItem(this.getSlotKey(slot));
+      this.storage.removeItem(this.getTempKey(slot));
+      for (let i = 0; i < this.backupCount; i++) {
+        this.storage.removeItem(this.getBackupKey(slot, i));
+      }
       console.log(`[SaveSystem] 已删除: 槽位 ${slot}`);
       return true;
     } catch (error) {
@@ -92,7 +380,7 @@ export class SaveSystem {
     const slots: SaveSlot[] = [];
     
     for (let i = 0; i < this.maxSlots; i++) {
-      const data = this.load(i);
+      const data = this.peek(i);
       slots.push({
         slot: i,
         data,
@@ -103,11 +391,180 @@ export class SaveSystem {
     return slots;
   }
   
-  // ============== 云同步 (预留) ==============
-  public async cloudSync(): Promise<boolean> {
-    // 预留云同步接口
-    console.log('[SaveSystem] 云同步功能预留');
-    return false;
+  // ============== 导出 / 导入 ==============
+  // 导出为可移植的存档 JSON (文件与云同步共用)；只读，不会用备份修复主存档
+  public exportSave(slot: number): string | null {
+    const data = this.peek(slot);
+    return data ? encodeSave(data) : null;
+  }
+  
+  // 导入前先迁移并校验，失败时抛出 SaveError
+  public importSave(slot: number, json: string): SaveData {
+    const data = this.parse(json);
+    this.writeSlot(slot, encodeSave(data));
+    console.log(`[SaveSystem] 已导入存档: 槽位 ${slot}`);
+    return data;
+  }
+  
+  public downloadSave(slot: number): boolean {
+    const json = this.exportSave(slot);
+    if (!json) return false;
+    
+    const blob = new Blob([json], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `ink-realm-slot${slot}-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+    return true;
+  }
+  
+  public async importSaveFile(file: Blob, slot: number): Promise<SaveData> {
+    return this.importSave(slot, await file.text());
+  }
+  
+  // ============== 云同步 ==============
+  public async cloudSync(): Promise<CloudSyncResult> {
+    const result: CloudSyncResult = { success: false, uploaded: [], downloaded: [], failed: [] };
+    
+    if (!this.cloud) {
+      console.warn('[SaveSystem] 未配置云同步');
+      result.error = '未配置云同步';
+      return result;
+    }
+    
+    try {
+      const remoteList = await this.cloud.list();
+      const remoteBySlot = new Map(remoteList.map(meta => [meta.slot, meta]));
+      
+      for (let slot = 0; slot < this.maxSlots; slot++) {
+        try {
+          await this.syncSlot(this.cloud, slot, remoteBySlot.get(slot) ?? null, result);
+        } catch (error) {
+          result.failed.push({ slot, error: (error as Error).message });
+          console.error(`[SaveSystem] 槽位 ${slot} 云同步失败:`, error);
+        }
+      }
+      
+      result.success = result.failed.length === 0;
+      console.log(`[SaveSystem] 云同步完成: 上传 ${result.uploaded.length}, 下载 ${result.downloaded.length}, 失败 ${result.failed.length}`);
+    } catch (error) {
+      result.error = (error as Error).message;
+      console.error('[SaveSystem] 云同步失败:', error);
+    }
+    
+    return result;
+  }
+  
+  private async syncSlot(cloud: CloudSyncAdapter, slot: number, remoteMeta: RemoteSaveMeta | null, result: CloudSyncResult): Promise<void> {
+    const local = this.getLocalMeta(slot);
+    const decision = resolveSaveConflict(local, remoteMeta);
+    
+    if (decision === 'upload' && local) {
+      const data = this.exportSave(slot);
+      if (!data) throw new Error(`槽位 ${slot} 无可导出的存档`);
+      
+      if (await cloud.upload({ ...local, data })) {
+        result.uploaded.push(slot);
+        return;
+      }
+      // 远端在此期间被其他设备更新，改为下载
+    } else if (decision !== 'download') {
+      return;
+    }
+    
+    const remote = await cloud.download(slot);
+    if (!remote) return;
+    
+    const data = this.importSave(slot, remote.data);
+    await this.flush(slot);
+    result.downloaded.push(slot);
+    this.downloadListeners.forEach(listener => listener(slot, data));
+  }
+  
+  private getLocalMeta(slot: number): RemoteSaveMeta | null {
+    const data = this.peek(slot);
+    if (!data) return null;
+    
+    return {
+      slot,
+      timestamp: data.timestamp,
+      deviceId: data.deviceId ?? this.getDeviceId(),
+    };
+  }
+  
+  public getDeviceId(): string {
+    if (this.deviceId) return this.deviceId;
+    
+    const key = `${this.storageKey}device_id`;
+    let deviceId = this.storage.getItem(key);
+    if (!deviceId) {
+      deviceId = `device_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`;
+      this.storage.setItem(key, deviceId);
+    }
+    
+    this.deviceId = deviceId;
+    return deviceId;
+  }
+  
+  // ============== 原子写入 ==============
+  // 先写临时键并回读校验，确认完整后轮换备份再替换主存档；
+  // 任一步中断时主存档保持原样
+  private writeSlot(slot: number, encoded: string): void {
+    this.assertWritable(slot);
+    
+    const stored = wrapWithChecksum(encoded);
+    const tempKey = this.getTempKey(slot);
+    
+    this.storage.setItem(tempKey, stored);
+    if (this.storage.getItem(tempKey) !== stored) {
+      this.storage.removeItem(tempKey);
+      throw new Error(`槽位 ${slot} 写入校验失败`);
+    }
+    
+    this.rotateBackups(slot);
+    this.storage.setItem(this.getSlotKey(slot), stored);
+    this.storage.removeItem(tempKey);
+  }
+  
+  // 版本过新的主存档并未损坏，只是当前版本读不了；覆盖后它只剩滚动备份，
+  // 几次自动存档后就会被挤掉，因此拒绝写入，需玩家更新游戏或先删除该槽位
+  private assertWritable(slot: number): void {
+    const current = this.storage.getItem(this.getSlotKey(slot));
+    if (!current) return;
+    
+    try {
+      this.readStored(current);
+    } catch (error) {
+      const saveError = this.toSaveError(error);
+      if (saveError.reason === 'newer_version') {
+        throw new SaveError('newer_version', `槽位 ${slot} 存有更新版本的存档，拒绝覆盖: ${saveError.message}`, saveError.saveVersion);
+      }
+    }
+  }
+  
+  // 当前主存档推入备份 #0，其余依次后移，超出数量的最旧备份被覆盖
+  private rotateBackups(slot: number): void {
+    if (this.backupCount <= 0) return;
+    
+    const current = this.storage.getItem(this.getSlotKey(slot));
+    if (!current) return;
+    
+    // 损坏的主存档不进入备份，避免挤掉有效备份
+    try {
+      this.readStored(current);
+    } catch {
+      console.warn(`[SaveSystem] 槽位 ${slot} 主存档已损坏，跳过备份`);
+      return;
+    }
+    
+    for (let i = this.backupCount - 1; i > 0; i--) {
+      const older = this.storage.getItem(this.getBackupKey(slot, i - 1));
+      if (older) {
+        this.storage.setItem(this.getBackupKey(slot, i), older);
+      }
+    }
+    this.storage.setItem(this.getBackupKey(slot, 0), current);
   }
   
   // ============== 工具 ==============
@@ -115,18 +572,26 @@ export class SaveSystem {
     return `${this.storageKey}slot_${slot}`;
   }
   
+  private getBackupKey(slot: number, index: number): string {
+    return `${this.getSlotKey(slot)}_backup_${index}`;
+  }
+  
+  private getTempKey(slot: number): string {
+    return `${this.getSlotKey(slot)}_tmp`;
+  }
+  
   public hasSave(slot: number): boolean {
-    const key = this.getSlotKey(slot);
-    return localStorage.getItem(key) !== null;
+    return this.storage.getItem(this.getSlotKey(slot)) !== null;
   }
   
-  public getSaveInfo(slot: number): { timestamp: number; version: string } | null {
-    const data = this.load(slot);
+  public getSaveInfo(slot: number): { timestamp: number; version: number; gameVersion: string } | null {
+    const data = this.peek(slot);
     if (!data) return null;
     
     return {
       timestamp: data.timestamp,
       version: data.version,
+      gameVersion: data.gameVersion,
     };
   }
 }
@@ -0,0 +1,259 @@
+/**
+ * Scheduler.ts - 系统调度器
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 系统按阶段顺序更新；固定频率的系统各自累积时间并以固定步长补帧，渲染用插值系数平滑
+ */
+
+import { GAME_CONFIG } from './constants';
+import { FrameProfiler, ProfilerOptions } from './FrameProfiler';
+
+// ============== 更新阶段 ==============
+export enum SystemPhase {
+  INPUT = 'input',
+  AI = 'ai',
+  PHYSICS = 'physics',
+  GAMEPLAY = 'gameplay',
+  UI = 'ui',
+  RENDER = 'render',
+}
+
+export const SYSTEM_PHASE_ORDER: SystemPhase[] = [
+  SystemPhase.INPUT,
+  SystemPhase.AI,
+  SystemPhase.PHYSICS,
+  SystemPhase.GAMEPLAY,
+  SystemPhase.UI,
+  SystemPhase.RENDER,
+];
+
+// ============== 帧时间 ==============
+export interface FrameTime {
+  deltaTime: number;     // 本次调用的步长 (固定系统为固定步长)
+  frameDelta: number;    // 本帧实际间隔
+  elapsedTime: number;
+  frame: number;
+  alpha: number;         // 基准固定步长的插值系数 [0, 1)
+}
+
+export type SystemUpdate = (deltaTime: number, time: FrameTime) => void;
+
+// ============== 系统注册 ==============
+export interface SystemRegistration {
+  name: string;
+  phase: SystemPhase;
+  update: SystemUpdate;
+  tickRate?: number;          // 每秒固定次数；省略为可变步长 (每帧一次)
+  order?: number;             // 同阶段内升序执行，默认 0
+  enabled?: boolean;
+  runWhilePaused?: boolean;   // 暂停 / 加载时仍更新 (UI、渲染)
+}
+
+export interface SystemInfo {
+  name: string;
+  phase: SystemPhase;
+  tickRate: number | null;
+  order: number;
+  enabled: boolean;
+  runWhilePaused: boolean;
+  alpha: number;
+}
+
+interface ScheduledSystem {
+  registration: SystemRegistration;
+  step: number | null;
+  accumulator: number;
+  sequence: number;
+}
+
+// ============== 调度器 ==============
+export class SystemScheduler {
+  private systems: Map<string, ScheduledSystem> = new Map();
+  private ordered: ScheduledSystem[] = [];
+  private sequence: number = 0;
+
+  // 基准固定步长 (与物理一致)，提供给渲染插值
+  private fixedStep: number;
+  private fixedAccumulator: number = 0;
+  private maxStepsPerFrame: number;
+
+  private elapsedTime: number = 0;
+  private frame: number = 0;
+
+  // 性能分析 (可选)，关闭时不计时
+  private profiler: FrameProfiler | null = null;
+
+  constructor(
+    fixedStep: number = GAME_CONFIG.PHYSICS_STEP,
+    maxStepsPerFrame: number = GAME_CONFIG.MAX_SUBSTEPS
+  ) {
+    this.fixedStep = fixedStep;
+    this.maxStepsPerFrame = maxStepsPerFrame;
+  }
+
+  // ============== 注册 ==============
+  public register(registration: SystemRegistration): () => void {
+    if (this.systems.has(registration.name)) {
+      console.warn(`[Scheduler] 系统重复注册，已替换: ${registration.name}`);
+    }
+
+    this.systems.set(registration.name, {
+      registration: { enabled: true, order: 0, ...registration },
+      step: registration.tickRate ? 1 / registration.tickRate : null,
+      accumulator: 0,
+      sequence: this.sequence++,
+    });
+    this.sortSystems();
+
+    return () => this.unregister(registration.name);
+  }
+
+  public unregister(name: string): void {
+    if (this.systems.delete(name)) {
+      this.sortSystems();
+    }
+  }
+
+  public has(name: string): boolean {
+    return this.systems.has(name);
+  }
+
+  // ============== 启用 / 禁用 ==============
+  public setEnabled(name: string, enabled: boolean): boolean {
+    const system = this.systems.get(name);
+    if (!system) return false;
+
+    system.registration.enabled = enabled;
+    // 重新启用时不补回禁用期间的时间
+    system.accumulator = 0;
+    return true;
+  }
+
+  public isEnabled(name: string): boolean {
+    return this.systems.get(name)?.registration.enabled ?? false;
+  }
+
+  // ============== 推进 ==============
+  // paused 时只运行 runWhilePaused 的系统，游戏时间不前进
+  public tick(frameDelta: number, paused: boolean = false): void {
+    this.profiler?.beginFrame();
+
+    if (!paused) {
+      this.elapsedTime += frameDelta;
+      this.frame++;
+      this.fixedAccumulator = (this.fixedAccumulator + frameDelta) % this.fixedStep;
+    }
+
+    const time: FrameTime = {
+      deltaTime: frameDelta,
+      frameDelta,
+      elapsedTime: this.elapsedTime,
+      frame: this.frame,
+      alpha: this.fixedAccumulator / this.fixedStep,
+    };
+
+    for (const system of this.ordered) {
+      const { registration } = system;
+      if (!registration.enabled) continue;
+      if (paused && !registration.runWhilePaused) continue;
+
+      if (system.step === null || paused) {
+        this.runSystem(system, frameDelta, time);
+        continue;
+      }
+
+      system.accumulator += frameDelta;
+      let steps = 0;
+      while (system.accumulator >= system.step && steps < this.maxStepsPerFrame) {
+        this.runSystem(system, system.step, { ...time, deltaTime: system.step });
+        system.accumulator -= system.step;
+        steps++;
+      }
+      // 达到单帧步数上限仍有积压时丢弃，避免死亡螺旋
+      if (system.accumulator >= system.step) {
+        system.accumulator %= system.step;
+      }
+    }
+
+    this.profiler?.endFrame();
+  }
+
+  // ============== 插值 ==============
+  // 省略 name 时返回基准固定步长的系数
+  public getAlpha(name?: string): number {
+    if (!name) return this.fixedAccumulator / this.fixedStep;
+
+    const system = this.systems.get(name);
+    if (!system || system.step === null) return 1;
+    return system.accumulator / system.step;
+  }
+
+  public getFixedStep(): number {
+    return this.fixedStep;
+  }
+
+  public setMaxStepsPerFrame(maxStepsPerFrame: number): void {
+    this.maxStepsPerFrame = Math.max(1, Math.floor(maxStepsPerFrame));
+  }
+
+  // ============== 调试 ==============
+  public getSystems(): SystemInfo[] {
+    return this.ordered.map(system => ({
+      name: system.registration.name,
+      phase: system.registration.phase,
+      tickRate: system.registration.tickRate ?? null,
+      order: system.registration.order ?? 0,
+      enabled: system.registration.enabled ?? true,
+      runWhilePaused: system.registration.runWhilePaused ?? false,
+      alpha: this.getAlpha(system.registration.name),
+    }));
+  }
+
+  // ============== 性能分析 ==============
+  public enableProfiler(options: ProfilerOptions = {}): FrameProfiler {
+    if (!this.profiler) {
+      this.profiler = new FrameProfiler(options);
+      console.log('[Scheduler] 性能分析已开启');
+    }
+    return this.profiler;
+  }
+
+  public disableProfiler(): void {
+    this.profiler = null;
+  }
+
+  public getProfiler(): FrameProfiler | null {
+    return this.profiler;
+  }
+
+  public clear(): void {
+    this.systems.clear();
+    this.ordered = [];
+    this.fixedAccumulator = 0;
+  }
+
+  private runSystem(system: ScheduledSystem, deltaTime: number, time: FrameTime): void {
+    const profiler = this.profiler;
+    const startedAt = profiler ? profiler.mark() : 0;
+
+    try {
+      system.registration.update(deltaTime, time);
+    } catch (error) {
+      console.error(`[Scheduler] 系统更新失败: ${system.registration.name}`, error);
+    }
+
+    profiler?.recordSystem(system.registration.name, system.registration.phase, startedAt);
+  }
+
+  private sortSystems(): void {
+    this.ordered = Array.from(this.systems.values()).sort((a, b) => {
+      const phaseDiff = SYSTEM_PHASE_ORDER.indexOf(a.registration.phase) -
+        SYSTEM_PHASE_ORDER.indexOf(b.registration.phase);
+      if (phaseDiff !== 0) return phaseDiff;
+
+      const orderDiff = (a.registration.order ?? 0) - (b.registration.order ?? 0);
+      return orderDiff !== 0 ? orderDiff : a.sequence - b.sequence;
+    });
+  }
+}
+
+export default SystemScheduler;
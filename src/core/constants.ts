@@ -4,6 +4,7 @@
  */
 
 // ============== 游戏配置 ==============
+// 默认值 (唯一定义)；运行时取值由 RuntimeConfig 叠加关卡、设置与调试覆盖后得到
 export const GAME_CONFIG = {
   // 渲染
   TARGET_FPS: 60,
@@ -27,8 +28,9 @@ export const GAME_CONFIG = {
   DEFAULT_HEARING_RANGE: 20,
   
   // 存档
-  AUTO_SAVE_INTERVAL: 60000,
+  AUTO_SAVE_INTERVAL: 60000, // 60秒
   MAX_SAVE_SLOTS: 3,
+  SAVE_BACKUP_COUNT: 3,      // 每个槽位保留的滚动备份数
   
   // 玩家
   PLAYER_HEIGHT: 1.8,
@@ -231,6 +233,9 @@ export const DEBUG = {
   GOD_MODE: false,
   INFINITE_AMMO: false,
   NO_RELOAD: false,
+  COLLECT_TELEMETRY: false,
+  DEV_CONSOLE: import.meta.env.DEV,   // 仅开发构建启用
+  PROFILER: import.meta.env.DEV,      // 仅开发构建启用
 } as const;
 
 export default GAME_CONFIG;
@@ -3,17 +3,60 @@
  * 墨境：孤军 (Ink Realm: Lone Army)
  */
 
-export { Core, GAME_CONFIG } from './Core';
-export type { PlayerData, InventoryItem, GameProgress, CheckpointData, QuestProgress } from './Core';
+export { Core } from './Core';
+export type { CoreOptions, PlayerData, InventoryItem, GameProgress, CheckpointData, QuestProgress } from './Core';
 
-export { GameState, GamePhase } from './GameState';
+export { GameState, GamePhase, PHASE_TRANSITIONS } from './GameState';
+export type {
+  PhaseGuard,
+  PhaseTransition,
+  PhaseHook,
+  PhaseTransitionRejection,
+  PhaseRejectionListener,
+} from './GameState';
 
 export { SaveSystem } from './SaveSystem';
-export type { SaveData, SaveSlot } from './SaveSystem';
+export type { SaveData, SaveSlot, SaveParticipant, SaveRecovery, SaveRecoveryListener } from './SaveSystem';
+export { SaveError, SaveMigrator, CURRENT_SAVE_VERSION } from './SaveMigrations';
+export type { SaveMigration, SaveErrorReason } from './SaveMigrations';
+export {
+  LocalStorageAdapter,
+  MemoryStorageAdapter,
+  IndexedDBStorageAdapter,
+  createDefaultStorage,
+} from './SaveStorage';
+export type { SaveStorageAdapter } from './SaveStorage';
+export { HttpSyncAdapter, resolveSaveConflict, createMockSyncServer } from './CloudSync';
+export type { CloudSyncAdapter, CloudSyncResult, CloudSyncFailure, RemoteSave, RemoteSaveMeta, HttpSyncConfig, MockSyncServer } from './CloudSync';
+
+export { SystemScheduler, SystemPhase, SYSTEM_PHASE_ORDER } from './Scheduler';
+export type { SystemRegistration, SystemUpdate, SystemInfo, FrameTime } from './Scheduler';
+
+export { SystemClock, ManualClock, getGameClock, setGameClock } from './Clock';
+export type { GameClock, TimerHandle } from './Clock';
 
 export { EventBus, GameEvent } from './EventBus';
+export type {
+  GameEventPayloads,
+  GameEventListener,
+  GameEventNamespace,
+  EventPattern,
+  EventContext,
+  SubscribeOptions,
+  Unsubscribe,
+} from './EventBus';
+
+export { EventJournal } from './EventJournal';
+export type { JournalEntry, JournalOptions, JournalFilter, JournalExport } from './EventJournal';
+
+export { FrameProfiler, summarize as summarizeProfile } from './FrameProfiler';
+export type { ProfileFrame, ProfileStat, ProfileSummary, ProfileCapture, RenderInfoSource, ProfilerOptions } from './FrameProfiler';
+
+export { RuntimeConfig, CONFIG_LAYER_ORDER, CONFIG_QUERY_PREFIX, validateConfigValue, parseConfigValue, parseConfigQuery } from './RuntimeConfig';
+export type { GameConfig, GameConfigKey, ConfigLayer, ConfigOverrides, ConfigIssue, ConfigListener } from './RuntimeConfig';
 
 export { 
+  GAME_CONFIG,
   GAME_CONFIG as CONFIG,
   EnemyType,
   Difficulty,
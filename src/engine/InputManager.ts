@@ -52,6 +52,7 @@ export class InputManager {
   // 鼠标灵敏度
   public sensitivity: number = 0.002;
   public aimSensitivity: number = 0.001;
+  public invertY: boolean = false;
   
   // 回调
   private keyDownCallbacks: Map<string, () => void> = new Map();
@@ -229,7 +230,7 @@ export class InputManager {
     const sens = this.state.aim ? this.aimSensitivity : this.sensitivity;
     return {
       x: this.state.mouseDeltaX * sens,
-      y: this.state.mouseDeltaY * sens,
+      y: this.state.mouseDeltaY * sens * (this.invertY ? -1 : 1),
     };
   }
   
@@ -293,6 +294,10 @@ export class InputManager {
   public setAimSensitivity(value: number): void {
     this.aimSensitivity = value;
   }
+  
+  public setInvertY(invert: boolean): void {
+    this.invertY = invert;
+  }
 }
 
 export default InputManager;
@@ -501,6 +501,18 @@ export class PhysicsWorld {
     this.world.step(this.fixedTimeStep, dt, this.maxSubSteps);
   }
 
+  /**
+   * 单步推进 (由 SystemScheduler 以固定频率调用，不做内部累积)
+   */
+  public step(deltaTime: number = this.fixedTimeStep): void {
+    if (this.isPaused) return;
+    this.world.step(deltaTime);
+  }
+
+  public getFixedTimeStep(): number {
+    return this.fixedTimeStep;
+  }
+
   /**
    * 暂停物理模拟
    */
@@ -55,6 +55,7 @@ export class Camera {
   private sprintMultiplier: number = 2;
   private lookSensitivity: number = 0.002;
   private touchSensitivity: number = 0.004;
+  private invertY: boolean = false;
 
   // 物理参数
   private velocity: THREE.Vector3 = new THREE.Vector3();
@@ -235,7 +236,7 @@ export class Camera {
     const movementY = event.movementY || 0;
 
     this.yaw -= movementX * this.lookSensitivity;
-    this.pitch -= movementY * this.lookSensitivity;
+    this.pitch -= movementY * this.lookSensitivity * (this.invertY ? -1 : 1);
 
     // 限制俯仰角
     this.pitch = Math.max(-Math.PI / 2 + 0.01, Math.min(Math.PI / 2 - 0.01, this.pitch));
@@ -317,6 +318,21 @@ export class Camera {
     this.lookSensitivity = sensitivity;
   }
 
+  /**
+   * 设置鼠标 Y 轴反转
+   */
+  public setInvertY(invert: boolean): void {
+    this.invertY = invert;
+  }
+
+  /**
+   * 设置视野角度
+   */
+  public setFov(fov: number): void {
+    this.camera.fov = fov;
+    this.camera.updateProjectionMatrix();
+  }
+
   /**
    * 启用/禁用摄像机
    */
@@ -26,18 +26,11 @@ export interface RenderQuality {
   postProcessing: boolean;
 }
 
-export class Renderer {
-  private renderer: THREE.WebGLRenderer;
-  private container: HTMLElement;
-  private width: number;
-  private height: number;
-  private isMobile: boolean;
-  private animationId: number | null = null;
-  private quality: RenderQuality;
-  private resizeCallback: (() => void) | null = null;
+// ============== 质量预设 ==============
+export type RenderQualityPreset = 'high' | 'medium' | 'low' | 'mobile';
 
-  // 默认质量配置
-  private readonly QUALITY_PRESETS = {
+export function getQualityPresets(): Record<RenderQualityPreset, RenderQuality> {
+  return {
     high: {
       shadows: true,
       shadowMapSize: 2048,
@@ -67,6 +60,26 @@ export class Renderer {
       postProcessing: false,
     },
   };
+}
+
+// 供未经 Renderer 封装的 WebGLRenderer 复用
+export function applyRenderQuality(renderer: THREE.WebGLRenderer, quality: RenderQuality): void {
+  renderer.setPixelRatio(quality.pixelRatio);
+  renderer.shadowMap.enabled = quality.shadows;
+}
+
+export class Renderer {
+  private renderer: THREE.WebGLRenderer;
+  private container: HTMLElement;
+  private width: number;
+  private height: number;
+  private isMobile: boolean;
+  private animationId: number | null = null;
+  private quality: RenderQuality;
+  private resizeCallback: (() => void) | null = null;
+
+  // 默认质量配置
+  private readonly QUALITY_PRESETS = getQualityPresets();
 
   constructor(config: RendererConfig) {
     this.container = config.container;
@@ -183,12 +196,11 @@ export class Renderer {
   /**
    * 设置质量预设
    */
-  public setQuality(preset: 'high' | 'medium' | 'low' | 'mobile'): void {
+  public setQuality(preset: RenderQualityPreset): void {
     const newQuality = this.QUALITY_PRESETS[preset];
     if (newQuality) {
       this.quality = { ...newQuality };
-      this.renderer.setPixelRatio(this.quality.pixelRatio);
-      this.renderer.shadowMap.enabled = this.quality.shadows;
+      applyRenderQuality(this.renderer, this.quality);
     }
   }
 
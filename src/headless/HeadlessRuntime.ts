@@ -0,0 +1,334 @@
+/**
+ * HeadlessRuntime.ts - 无头模拟运行时
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 不依赖 DOM / WebGL，在 Node 中以手动时钟驱动 Core、AI、关卡、任务与伤害结算
+ */
+
+import * as THREE from 'three';
+import { Core } from '../core/Core';
+import { GameEvent } from '../core/EventBus';
+import { GamePhase } from '../core/GameState';
+import { Difficulty } from '../core/constants';
+import { SystemPhase } from '../core/Scheduler';
+import { ManualClock, GameClock, getGameClock, setGameClock } from '../core/Clock';
+import { MemoryStorageAdapter, SaveStorageAdapter } from '../core/SaveStorage';
+import type { ConfigOverrides } from '../core/RuntimeConfig';
+import type { CloudSyncAdapter } from '../core/CloudSync';
+import { AIManager } from '../systems/ai/AIManager';
+import { AICharacter } from '../systems/ai/AICharacter';
+import { LevelManager, LevelConfig, LevelEnemy } from '../systems/level/LevelManager';
+import { DifficultyManager } from '../systems/level/DifficultyManager';
+import { DifficultyDirector } from '../systems/level/DifficultyDirector';
+import { QuestSystem, QuestData } from '../systems/npc/QuestSystem';
+import { DamageCalculator, DamageResult } from '../systems/rpg/DamageCalc';
+import type { DamageType } from '../systems/rpg/PlayerStats';
+
+// ============== 配置 ==============
+export interface HeadlessOptions {
+  storage?: SaveStorageAdapter;   // 默认内存存储
+  clock?: ManualClock;            // 默认从 0 开始的手动时钟
+  tickRate?: number;              // 每秒模拟帧数，默认 60
+  autoSave?: boolean;             // 默认关闭
+  levels?: LevelConfig[];
+  quests?: QuestData[];
+  damageCalculator?: DamageCalculator;
+  difficulty?: Difficulty;        // 默认普通
+  adaptiveDifficulty?: boolean;   // 动态难度，默认关闭以便结果可复现
+  config?: ConfigOverrides;       // 写入运行时配置的 debug 层
+  cloudSync?: CloudSyncAdapter;   // 如 HttpSyncAdapter + createMockSyncServer
+}
+
+export interface EnemyHitOptions {
+  damageType?: DamageType;
+  distance?: number;
+  isHeadshot?: boolean;
+  isCritical?: boolean;
+  weaponId?: string;
+}
+
+// 按关卡配置生成敌人
+export type EnemyFactory = (
+  enemy: LevelEnemy,
+  index: number,
+  position: THREE.Vector3
+) => AICharacter;
+
+export interface HeadlessReport {
+  time: number;           // 模拟秒数
+  frames: number;
+  phase: GamePhase;
+  player: {
+    health: number;
+    maxHealth: number;
+    armor: number;
+  };
+  enemies: {
+    spawned: number;
+    alive: number;
+  };
+  stats: ReturnType<Core['gameState']['getStats']>;
+  quests: {
+    active: string[];
+    completed: string[];
+  };
+}
+
+// ============== 运行时 ==============
+export class HeadlessRuntime {
+  public readonly clock: ManualClock;
+  public readonly core: Core;
+  public readonly aiManager: AIManager;
+  public readonly levelManager: LevelManager;
+  public readonly questSystem: QuestSystem;
+  public readonly damageCalculator: DamageCalculator;
+  public readonly difficulty: DifficultyManager;
+  public readonly director: DifficultyDirector;
+
+  private tickRate: number;
+  private frames: number = 0;
+  private enemies: Map<string, AICharacter> = new Map();
+  private previousClock: GameClock;
+
+  constructor(options: HeadlessOptions = {}) {
+    this.clock = options.clock ?? new ManualClock();
+    this.tickRate = options.tickRate ?? 60;
+
+    // 时钟需在 Core 之前注入，Core 的定时器挂在其上
+    this.previousClock = getGameClock();
+    setGameClock(this.clock);
+
+    this.core = Core.createInstance({
+      storage: options.storage ?? new MemoryStorageAdapter(),
+      autoSave: options.autoSave ?? false,
+    });
+
+    if (options.config) this.core.config.setLayer('debug', options.config);
+    if (options.cloudSync) this.core.saveSystem.setCloudSync(options.cloudSync);
+
+    this.aiManager = new AIManager();
+    this.aiManager.init(this.core.player);
+    this.aiManager.setRuntimeConfig(this.core.config);
+    this.core.scheduler.register({
+      name: 'ai',
+      phase: SystemPhase.AI,
+      update: deltaTime => {
+        if (!this.core.gameState.isPlaying()) return;
+        this.aiManager.updatePlayerPosition(this.core.player.position);
+        this.aiManager.update(deltaTime);
+      },
+    });
+
+    this.levelManager = new LevelManager();
+    this.levelManager.loadLevels(options.levels ?? []);
+    this.levelManager.setRuntimeConfig(this.core.config);
+    this.core.saveSystem.registerParticipant(this.levelManager);
+
+    this.questSystem = new QuestSystem();
+    this.questSystem.registerQuests(options.quests ?? []);
+
+    this.damageCalculator = options.damageCalculator ?? new DamageCalculator();
+
+    this.difficulty = new DifficultyManager(options.difficulty);
+    this.difficulty.attachDamageCalculator(this.damageCalculator);
+    this.aiManager.setDifficultyManager(this.difficulty);
+    this.director = new DifficultyDirector(this.difficulty, this.levelManager, {
+      enabled: options.adaptiveDifficulty ?? false,
+    });
+
+    this.core.initialize();
+  }
+
+  // ============== 流程 ==============
+  public startNewGame(): void {
+    this.core.startNewGame();
+  }
+
+  // 启动关卡并按出生点 / 延迟生成敌人
+  public startLevel(levelId: string, factory: EnemyFactory): LevelConfig | null {
+    const level = this.levelManager.startLevel(levelId);
+    if (!level) return null;
+
+    if (!this.core.gameState.isInPhase(GamePhase.PLAYING)) {
+      this.core.startNewGame();
+    }
+
+    const spawnPoints = new Map(level.spawnPoints.map(point => [point.id, point]));
+
+    this.difficulty.scaleLevelEnemies(level.enemies).forEach(enemyConfig => {
+      const points = enemyConfig.spawnPoints ?? [];
+
+      for (let i = 0; i < enemyConfig.count; i++) {
+        const point = spawnPoints.get(points[i % Math.max(1, points.length)]);
+        const position = point
+          ? new THREE.Vector3(point.position.x, point.position.y, point.position.z)
+          : new THREE.Vector3();
+
+        const spawn = () => this.spawnEnemy(factory(enemyConfig, i, position), position);
+        const delay = (enemyConfig.spawnDelay ?? 0) * i;
+        if (delay > 0) {
+          this.clock.setTimeout(spawn, delay);
+        } else {
+          spawn();
+        }
+      }
+    });
+
+    return level;
+  }
+
+  // ============== 推进 ==============
+  // 推进一帧：时钟 → Core (由调度器依次更新 AI 等系统)
+  public step(deltaTime: number = 1 / this.tickRate): void {
+    this.clock.advance(deltaTime * 1000);
+    this.core.update(this.clock.now());
+    this.frames++;
+  }
+
+  public run(seconds: number): void {
+    const steps = Math.round(seconds * this.tickRate);
+    for (let i = 0; i < steps; i++) {
+      this.step();
+    }
+  }
+
+  // 推进直到条件满足或超时，返回条件是否满足
+  public runUntil(predicate: (runtime: HeadlessRuntime) => boolean, maxSeconds: number): boolean {
+    const maxSteps = Math.round(maxSeconds * this.tickRate);
+    for (let i = 0; i < maxSteps; i++) {
+      if (predicate(this)) return true;
+      this.step();
+    }
+    return predicate(this);
+  }
+
+  // ============== 敌人 ==============
+  public spawnEnemy(enemy: AICharacter, position?: THREE.Vector3): AICharacter {
+    if (position) {
+      enemy.position.copy(position);
+    }
+
+    this.enemies.set(enemy.id, enemy);
+    this.aiManager.registerEnemy(enemy);
+    this.core.eventBus.emit(GameEvent.ENEMY_SPAWNED, {
+      enemyId: enemy.id,
+      type: enemy.type,
+      position: enemy.position.clone(),
+    });
+    return enemy;
+  }
+
+  public getEnemy(enemyId: string): AICharacter | undefined {
+    return this.enemies.get(enemyId);
+  }
+
+  public getAliveEnemies(): AICharacter[] {
+    return Array.from(this.enemies.values()).filter(enemy => enemy.isAlive);
+  }
+
+  // ============== 伤害结算 ==============
+  // 玩家命中敌人：伤害公式 → 扣血 → 事件与统计
+  public damageEnemy(enemyId: string, baseDamage: number, options: EnemyHitOptions = {}): DamageResult | null {
+    const enemy = this.enemies.get(enemyId);
+    if (!enemy || !enemy.isAlive) return null;
+
+    const result = this.damageCalculator.calculate({
+      baseDamage,
+      damageType: options.damageType ?? 'physical',
+      distance: options.distance ?? enemy.position.distanceTo(this.core.player.position),
+      targetArmor: enemy.armor,
+      targetHasHelmet: false,
+      isCritical: options.isCritical ?? false,
+      isHeadshot: options.isHeadshot ?? false,
+      attackerBonuses: {
+        weaponDamageBonus: 0,
+        fireRateBonus: 0,
+        criticalDamage: 150,
+        armorPiercing: 0,
+        headshotBonus: 0,
+      },
+      targetBonuses: {
+        damageReduction: 0,
+        dodgeChance: 0,
+        armor: enemy.armor,
+        hasHelmet: false,
+        helmetArmor: 0,
+      },
+    });
+
+    // 先发命中事件，致死时 ENEMY_KILLED 由 enemy.die() 随后发出
+    this.core.eventBus.emit(GameEvent.ENEMY_DAMAGED, {
+      enemyId,
+      damage: result.finalDamage,
+      position: enemy.position.clone(),
+      weaponId: options.weaponId,
+    });
+    enemy.takeDamage(result.finalDamage, this.core.player.position);
+    this.core.gameState.recordDamageDealt(result.finalDamage);
+    this.levelManager.updateDamage(this.currentLevelId(), result.finalDamage, 0);
+
+    if (!enemy.isAlive) {
+      this.core.gameState.recordEnemyKill();
+      this.levelManager.updateEnemiesDefeated(this.currentLevelId(), 1);
+    }
+
+    return result;
+  }
+
+  // 敌人命中玩家：统计护甲减免后实际损失的生命
+  public damagePlayer(amount: number, source?: string): void {
+    if (this.core.player.health <= 0) return;
+
+    const healthBefore = this.core.player.health;
+    this.core.takeDamage(amount, source);
+    const taken = healthBefore - this.core.player.health;
+
+    this.core.gameState.recordDamageTaken(taken);
+    this.levelManager.updateDamage(this.currentLevelId(), 0, taken);
+  }
+
+  private currentLevelId(): string {
+    return this.levelManager.getCurrentLevel()?.id ?? '';
+  }
+
+  public setPlayerPosition(position: THREE.Vector3): void {
+    this.core.updatePlayerPosition(position);
+  }
+
+  // ============== 报告 ==============
+  public getReport(): HeadlessReport {
+    const player = this.core.player;
+
+    return {
+      time: this.core.getElapsedTime(),
+      frames: this.frames,
+      phase: this.core.gameState.getPhase(),
+      player: {
+        health: player.health,
+        maxHealth: player.maxHealth,
+        armor: player.armor,
+      },
+      enemies: {
+        spawned: this.enemies.size,
+        alive: this.getAliveEnemies().length,
+      },
+      stats: this.core.gameState.getStats(),
+      quests: {
+        active: this.questSystem.getActiveQuests().map(quest => quest.id),
+        completed: this.questSystem.getCompletedQuests().map(quest => quest.id),
+      },
+    };
+  }
+
+  // ============== 释放 ==============
+  public dispose(): void {
+    this.aiManager.clear();
+    this.aiManager.setRuntimeConfig(null);
+    this.levelManager.setRuntimeConfig(null);
+    this.director.dispose();
+    this.difficulty.dispose();
+    this.core.dispose();
+    setGameClock(this.previousClock);
+  }
+}
+
+export default HeadlessRuntime;
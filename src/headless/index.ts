@@ -0,0 +1,7 @@
+/**
+ * headless/index.ts - 无头模拟导出
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ */
+
+export { HeadlessRuntime } from './HeadlessRuntime';
+export type { HeadlessOptions, HeadlessReport, EnemyHitOptions, EnemyFactory } from './HeadlessRuntime';
@@ -0,0 +1,380 @@
+/**
+ * simulate.ts - 无头平衡性检查 (命令行)
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ *
+ * 用法: npm run simulate -- --level level_1 --weapon m4a1 --runs 20 --accuracy 0.6 --difficulty hard --adaptive --telemetry
+ * 玩家原地向最近的敌人自动射击，敌人冲锋近战；输出每局结果与汇总 JSON
+ */
+
+import * as THREE from 'three';
+import { HeadlessRuntime } from './HeadlessRuntime';
+import { AICharacter } from '../systems/ai/AICharacter';
+import { BehaviorTree, BTAction, BTSelector, NodeStatus } from '../systems/ai/BehaviorTree';
+import { GameEvent } from '../core/EventBus';
+import { EnemyType, Difficulty } from '../core/constants';
+import type { LevelConfig } from '../systems/level/LevelManager';
+import type { QuestData } from '../systems/npc/QuestSystem';
+import type { AdaptiveAdjustment } from '../systems/level/DifficultyManager';
+import { TelemetryCollector, LevelTelemetrySummary } from '../systems/telemetry';
+import levelsData from '../data/levels.json';
+import enemiesData from '../data/enemies.json';
+import weaponsData from '../data/weapons.json';
+import questsData from '../data/quests.json';
+
+// 仅在 Node 中运行
+declare const process: { argv: string[]; exit(code?: number): never };
+
+// ============== 参数 ==============
+interface SimulationArgs {
+  level: string;
+  weapon: string;
+  enemy: string;       // enemies.json 中的敌人模板，关卡敌人类型无对应模板时使用
+  runs: number;
+  seconds: number;
+  accuracy: number;    // 命中率 0-1
+  headshot: number;    // 命中中爆头比例 0-1
+  difficulty: Difficulty;
+  adaptive: boolean;   // 启用动态难度
+  telemetry: boolean;  // 每局附带遥测汇总
+  verbose: boolean;
+}
+
+const USAGE = `用法: npm run simulate -- [选项]
+  --level <id>          关卡 (默认 level_1)
+  --weapon <id>         武器 (默认 m4a1)
+  --enemy <id>          关卡敌人类型无对应模板时使用的敌人模板 (默认 grunt_robot)
+  --runs <n>            模拟局数，正整数 (默认 10)
+  --seconds <n>         每局时长上限，秒 (默认 180)
+  --accuracy <0-1>      命中率 (默认 0.6)
+  --headshot <0-1>      命中中爆头比例 (默认 0.15)
+  --difficulty <name>   ${Object.values(Difficulty).join(' | ')} (默认 normal)
+  --adaptive            启用动态难度
+  --telemetry           每局附带遥测汇总
+  --verbose             输出各系统运行日志
+  --help                显示本帮助`;
+
+// 参数无效时抛出，由 main 输出用法
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): SimulationArgs | null {
+  const args: SimulationArgs = {
+    level: 'level_1',
+    weapon: 'm4a1',
+    enemy: 'grunt_robot',
+    runs: 10,
+    seconds: 180,
+    accuracy: 0.6,
+    headshot: 0.15,
+    difficulty: Difficulty.NORMAL,
+    adaptive: false,
+    telemetry: false,
+    verbose: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) throw new UsageError(`无法识别的参数: ${argv[i]}`);
+    const key = argv[i].slice(2);
+
+    // 取出选项的值并跳过
+    const next = (): string => {
+      const value = argv[i + 1];
+      if (value === undefined || value.startsWith('--')) throw new UsageError(`--${key} 缺少值`);
+      i++;
+      return value;
+    };
+
+    switch (key) {
+      case 'help':
+        return null;
+      case 'level':
+      case 'weapon':
+      case 'enemy':
+        args[key] = next();
+        break;
+      case 'runs':
+        args.runs = parseNumber(key, next(), value => Number.isInteger(value) && value > 0, '正整数');
+        break;
+      case 'seconds':
+        args.seconds = parseNumber(key, next(), value => value > 0, '正数');
+        break;
+      case 'accuracy':
+      case 'headshot':
+        args[key] = parseNumber(key, next(), value => value >= 0 && value <= 1, '介于 0 和 1 之间的数');
+        break;
+      case 'difficulty': {
+        const value = next();
+        if (!(Object.values(Difficulty) as string[]).includes(value)) {
+          throw new UsageError(`--difficulty 应为 ${Object.values(Difficulty).join(' / ')}: ${value}`);
+        }
+        args.difficulty = value as Difficulty;
+        break;
+      }
+      case 'adaptive':
+      case 'telemetry':
+      case 'verbose':
+        args[key] = true;
+        break;
+      default:
+        throw new UsageError(`未知选项: --${key}`);
+    }
+  }
+
+  return args;
+}
+
+function parseNumber(key: string, text: string, valid: (value: number) => boolean, expected: string): number {
+  const value = Number(text);
+  if (text.trim() === '' || !Number.isFinite(value) || !valid(value)) {
+    throw new UsageError(`--${key} 应为${expected}: ${text}`);
+  }
+  return value;
+}
+
+// ============== 敌人 ==============
+type EnemyTemplate = (typeof enemiesData.enemies)[number];
+
+class SimulatedEnemy extends AICharacter {
+  constructor(id: string, template: EnemyTemplate, private runtime: HeadlessRuntime) {
+    super(id, template.name, {
+      type: template.type as EnemyType,
+      health: template.health,
+      armor: template.armor,
+      damage: template.damage,
+    });
+    this.attackRange = template.behavior.attackRange;
+
+    const speed = template.speed;
+    const player = runtime.core.player;
+
+    // 冲锋: 进入攻击距离前追击，之后按冷却攻击
+    // 动作节点直接闭包引用敌人本身，上下文不设置 self
+    this.behaviorTree = new BehaviorTree(
+      new BTSelector('charge', [
+        new BTAction('attack', () => {
+          if (this.position.distanceTo(player.position) > this.attackRange) return NodeStatus.FAILURE;
+          this.stopMoving();
+          this.targetPosition.copy(player.position);
+          this.attack();
+          return NodeStatus.SUCCESS;
+        }),
+        new BTAction('chase', () => {
+          this.moveToward(player.position, 0, speed);
+          this.targetPosition.copy(player.position);
+          return NodeStatus.RUNNING;
+        }),
+      ]),
+      {}
+    );
+  }
+
+  protected performAttack(): void {
+    this.runtime.damagePlayer(this.damage, this.type);
+  }
+}
+
+// ============== 玩家射击 ==============
+type WeaponTemplate = (typeof weaponsData.weapons)[number];
+
+class AutoShooter {
+  private cooldown: number = 0;
+  private reloadTimer: number = 0;
+  private ammo: number;
+  public shotsFired: number = 0;
+  public shotsHit: number = 0;
+
+  constructor(private weapon: WeaponTemplate, private args: SimulationArgs) {
+    this.ammo = weapon.magSize;
+  }
+
+  update(runtime: HeadlessRuntime, deltaTime: number): void {
+    const ms = deltaTime * 1000;
+
+    if (this.reloadTimer > 0) {
+      this.reloadTimer -= ms;
+      if (this.reloadTimer <= 0) this.ammo = this.weapon.magSize;
+      return;
+    }
+
+    this.cooldown -= ms;
+    if (this.cooldown > 0) return;
+
+    const target = this.findTarget(runtime);
+    if (!target) return;
+
+    this.cooldown = 60000 / this.weapon.fireRate;
+    this.ammo--;
+    this.shotsFired++;
+    runtime.core.eventBus.emit(GameEvent.WEAPON_FIRED, { weaponId: this.weapon.id, ammo: this.ammo });
+
+    if (Math.random() < this.args.accuracy) {
+      this.shotsHit++;
+      runtime.damageEnemy(target.id, this.weapon.damage, {
+        isHeadshot: Math.random() < this.args.headshot,
+        weaponId: this.weapon.id,
+      });
+    }
+
+    if (this.ammo <= 0) {
+      this.reloadTimer = this.weapon.reloadTime;
+    }
+  }
+
+  private findTarget(runtime: HeadlessRuntime): AICharacter | null {
+    const origin = runtime.core.player.position;
+    let nearest: AICharacter | null = null;
+    let nearestDistance = this.weapon.maxRange;
+
+    runtime.getAliveEnemies().forEach(enemy => {
+      const distance = enemy.position.distanceTo(origin);
+      if (distance < nearestDistance) {
+        nearest = enemy;
+        nearestDistance = distance;
+      }
+    });
+
+    return nearest;
+  }
+}
+
+// ============== 单局 ==============
+interface RunResult {
+  run: number;
+  cleared: boolean;
+  survived: boolean;
+  time: number;
+  healthRemaining: number;
+  enemiesKilled: number;
+  damageTaken: number;
+  shotsFired: number;
+  shotsHit: number;
+  adjustment?: AdaptiveAdjustment;
+  telemetry?: LevelTelemetrySummary;
+}
+
+function simulateRun(run: number, args: SimulationArgs, weapon: WeaponTemplate): RunResult {
+  const runtime = new HeadlessRuntime({
+    levels: levelsData.levels as unknown as LevelConfig[],
+    quests: questsData.quests as unknown as QuestData[],
+    difficulty: args.difficulty,
+    adaptiveDifficulty: args.adaptive,
+  });
+  const templates = new Map(enemiesData.enemies.map(enemy => [enemy.id, enemy]));
+  const fallback = templates.get(args.enemy);
+  if (!fallback) {
+    throw new Error(`未知敌人模板: ${args.enemy}`);
+  }
+
+  const telemetry = args.telemetry ? new TelemetryCollector(runtime.levelManager) : null;
+
+  // 平衡性检查不受关卡解锁进度限制
+  runtime.levelManager.restoreSave({ unlockedLevels: levelsData.levels.map(level => level.id) });
+  const level = runtime.startLevel(args.level, (config, index, position) => {
+    const template = templates.get(config.type) ?? fallback;
+    return new SimulatedEnemy(`${config.id}_${index}`, template, runtime);
+  });
+  if (!level) {
+    throw new Error(`无法启动关卡: ${args.level}`);
+  }
+
+  const start = level.player.startingPosition;
+  if (start) {
+    runtime.setPlayerPosition(new THREE.Vector3(start.x, start.y, start.z));
+  }
+
+  const totalEnemies = runtime.difficulty.scaleLevelEnemies(level.enemies).reduce((sum, enemy) => sum + enemy.count, 0);
+  const shooter = new AutoShooter(weapon, args);
+  const deltaTime = 1 / 60;
+
+  runtime.runUntil(rt => {
+    shooter.update(rt, deltaTime);
+    const report = rt.getReport();
+    const allSpawned = report.enemies.spawned >= totalEnemies;
+    return report.player.health <= 0 || (allSpawned && report.enemies.alive === 0);
+  }, args.seconds);
+
+  const report = runtime.getReport();
+  const cleared = report.enemies.spawned >= totalEnemies && report.enemies.alive === 0;
+  // 结算关卡，遥测中的 levelState 反映本局结果 (无计分系统，以击杀数计分)
+  if (cleared) {
+    runtime.levelManager.completeLevel(level.id, report.time, report.stats.enemiesKilled);
+  } else {
+    runtime.levelManager.failLevel(level.id);
+  }
+
+  const adjustment = runtime.director.getAdjustment();
+  const telemetrySummary = telemetry?.getSummary(level.id);
+  telemetry?.dispose();
+  runtime.dispose();
+
+  return {
+    run,
+    cleared,
+    survived: report.player.health > 0,
+    time: Number(report.time.toFixed(2)),
+    healthRemaining: report.player.health,
+    enemiesKilled: report.stats.enemiesKilled,
+    damageTaken: report.stats.damageTaken,
+    shotsFired: shooter.shotsFired,
+    shotsHit: shooter.shotsHit,
+    adjustment: args.adaptive ? adjustment : undefined,
+    telemetry: telemetrySummary,
+  };
+}
+
+// ============== 入口 ==============
+function main(): void {
+  let args: SimulationArgs | null;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(error.message);
+    console.error(USAGE);
+    process.exit(1);
+  }
+  if (!args) {
+    console.log(USAGE);
+    return;
+  }
+
+  const weapon = weaponsData.weapons.find(w => w.id === args.weapon);
+  if (!weapon) {
+    console.error(`未知武器: ${args.weapon}`);
+    process.exit(1);
+  }
+
+  // 各系统的运行日志会淹没结果，默认静默
+  const log = console.log;
+  if (!args.verbose) {
+    console.log = () => {};
+    console.warn = () => {};
+  }
+
+  const results: RunResult[] = [];
+  for (let run = 1; run <= args.runs; run++) {
+    const result = simulateRun(run, args, weapon);
+    results.push(result);
+    log(JSON.stringify(result));
+  }
+
+  const average = (pick: (r: RunResult) => number) =>
+    Number((results.reduce((sum, r) => sum + pick(r), 0) / Math.max(1, results.length)).toFixed(2));
+  const cleared = results.filter(r => r.cleared);
+
+  log(JSON.stringify({
+    level: args.level,
+    weapon: args.weapon,
+    difficulty: args.difficulty,
+    runs: results.length,
+    clearRate: average(r => (r.cleared ? 1 : 0)),
+    survivalRate: average(r => (r.survived ? 1 : 0)),
+    avgClearTime: cleared.length > 0
+      ? Number((cleared.reduce((sum, r) => sum + r.time, 0) / cleared.length).toFixed(2))
+      : null,
+    avgHealthRemaining: average(r => r.healthRemaining),
+    avgDamageTaken: average(r => r.damageTaken),
+    hitRate: average(r => (r.shotsFired > 0 ? r.shotsHit / r.shotsFired : 0)),
+  }, null, 2));
+}
+
+main();
@@ -0,0 +1,63 @@
+/**
+ * LocaleCheck.ts - 翻译完整性检查
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 以基准语言为准逐语言报告缺失 / 多余的键、插值参数不一致与缺少 other 的复数形式
+ */
+
+import { getPlaceholders, LocaleData, StringValue } from './Localization';
+
+export interface LocaleReport {
+  locale: string;
+  missing: string[];                  // 基准语言或数据表需要、但本语言没有的键
+  extra: string[];                    // 基准语言中不存在的键
+  placeholderMismatch: string[];      // 插值参数与基准语言不一致
+  invalidPlural: string[];            // 复数形式缺少 other
+}
+
+// requiredKeys: 数据表 (技能、装备等) 引用的键，基准语言也必须包含
+export function checkLocales(
+  locales: LocaleData[],
+  baseLocale: string,
+  requiredKeys: string[] = []
+): LocaleReport[] {
+  const base = locales.find(data => data.metadata.locale === baseLocale);
+  const baseStrings = base?.strings ?? {};
+  const expected = Array.from(new Set([...Object.keys(baseStrings), ...requiredKeys])).sort();
+
+  return locales.map(data => {
+    const strings = data.strings;
+    const report: LocaleReport = {
+      locale: data.metadata.locale,
+      missing: expected.filter(key => strings[key] === undefined),
+      extra: Object.keys(strings).filter(key => baseStrings[key] === undefined && !requiredKeys.includes(key)),
+      placeholderMismatch: [],
+      invalidPlural: [],
+    };
+
+    Object.entries(strings).forEach(([key, value]) => {
+      if (typeof value !== 'string' && typeof value?.other !== 'string') {
+        report.invalidPlural.push(key);
+      }
+      const baseValue = baseStrings[key];
+      if (baseValue !== undefined && placeholdersOf(baseValue) !== placeholdersOf(value)) {
+        report.placeholderMismatch.push(key);
+      }
+    });
+
+    return report;
+  });
+}
+
+export function hasProblems(report: LocaleReport): boolean {
+  return report.missing.length > 0 ||
+    report.placeholderMismatch.length > 0 ||
+    report.invalidPlural.length > 0;
+}
+
+// 复数各形式的参数取并集 (count 可不出现在文本中)
+function placeholdersOf(value: StringValue): string {
+  const templates = typeof value === 'string' ? [value] : Object.values(value ?? {});
+  const names = new Set(templates.flatMap(template => getPlaceholders(String(template))));
+  names.delete('count');
+  return Array.from(names).sort().join(',');
+}
@@ -0,0 +1,138 @@
+/**
+ * Localization.ts - 本地化
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 按键查找字符串表，支持 {param} 插值与按 count 选择复数形式；缺失的键回退到基准语言，再回退到键本身
+ */
+
+import type { Unsubscribe } from '../core/EventBus';
+
+// ============== 字符串表 ==============
+// 复数形式按 Intl.PluralRules 的类别选择，other 必须提供
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type StringValue = string | PluralForms;
+export type StringTable = Record<string, StringValue>;
+
+export interface LocaleData {
+  metadata: {
+    locale: string;
+    name: string;         // 语言自称，用于语言选择
+  };
+  strings: StringTable;
+}
+
+export type TranslationParams = Record<string, string | number>;
+export type LocaleListener = (locale: string, previous: string) => void;
+
+// ============== 本地化 ==============
+export class Localization {
+  private locales: Map<string, LocaleData> = new Map();
+  private pluralRules: Map<string, Intl.PluralRules> = new Map();
+  private listeners: Set<LocaleListener> = new Set();
+  // 每个 locale:key 只警告一次
+  private reportedMissing: Set<string> = new Set();
+
+  private locale: string;
+
+  constructor(locales: LocaleData[], private baseLocale: string) {
+    locales.forEach(data => this.addLocale(data));
+    this.locale = baseLocale;
+  }
+
+  public addLocale(data: LocaleData): void {
+    this.locales.set(data.metadata.locale, data);
+  }
+
+  // ============== 语言 ==============
+  public getLocale(): string {
+    return this.locale;
+  }
+
+  public getBaseLocale(): string {
+    return this.baseLocale;
+  }
+
+  public getAvailableLocales(): { locale: string; name: string }[] {
+    return Array.from(this.locales.values()).map(({ metadata }) => ({
+      locale: metadata.locale,
+      name: metadata.name,
+    }));
+  }
+
+  public setLocale(locale: string): boolean {
+    if (!this.locales.has(locale)) {
+      console.warn(`[Localization] 未知语言: ${locale}`);
+      return false;
+    }
+    if (locale === this.locale) return true;
+
+    const previous = this.locale;
+    this.locale = locale;
+    this.listeners.forEach(listener => listener(locale, previous));
+    return true;
+  }
+
+  public onChange(listener: LocaleListener): Unsubscribe {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ============== 查找 ==============
+  public has(key: string, locale: string = this.locale): boolean {
+    return this.locales.get(locale)?.strings[key] !== undefined;
+  }
+
+  public t(key: string, params: TranslationParams = {}): string {
+    let locale = this.locale;
+    let value = this.locales.get(locale)?.strings[key];
+
+    if (value === undefined) {
+      this.reportMissing(locale, key);
+      locale = this.baseLocale;
+      value = this.locales.get(locale)?.strings[key];
+    }
+    if (value === undefined) return key;
+
+    const template = typeof value === 'string' ? value : this.selectPlural(value, locale, params.count);
+    return interpolate(template, params);
+  }
+
+  private selectPlural(forms: PluralForms, locale: string, count: string | number | undefined): string {
+    if (typeof count !== 'number') return forms.other;
+
+    let rules = this.pluralRules.get(locale);
+    if (!rules) {
+      rules = new Intl.PluralRules(locale);
+      this.pluralRules.set(locale, rules);
+    }
+    return forms[rules.select(count)] ?? forms.other;
+  }
+
+  private reportMissing(locale: string, key: string): void {
+    const id = `${locale}:${key}`;
+    if (this.reportedMissing.has(id)) return;
+
+    this.reportedMissing.add(id);
+    console.warn(`[Localization] 缺少翻译 (${locale}): ${key}`);
+  }
+
+  // ============== 校验 ==============
+  public getLocaleData(locale: string): LocaleData | undefined {
+    return this.locales.get(locale);
+  }
+}
+
+// ============== 插值 ==============
+// 未提供的参数保留原样，便于发现遗漏
+export function interpolate(template: string, params: TranslationParams): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+export function getPlaceholders(template: string): string[] {
+  return Array.from(template.matchAll(/\{(\w+)\}/g), match => match[1]).sort();
+}
+
+export default Localization;
@@ -0,0 +1,65 @@
+/**
+ * check.ts - 翻译完整性检查 (命令行)
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ *
+ * 用法: npm run i18n:check -- --json
+ * 逐语言列出缺失 / 多余的键、插值参数不一致与无效的复数形式；存在缺失或不一致时以状态码 1 退出
+ */
+
+import { LOCALES, BASE_LOCALE, checkLocales, hasProblems, LocaleReport } from './index';
+import { SKILL_DATABASE } from '../systems/rpg/SkillTree';
+import { EFFECT_DATABASE, EQUIPMENT_DATABASE, RARITY_CONFIG } from '../systems/rpg/Equipment';
+import { createDefaultPlayerStats } from '../systems/rpg/PlayerStats';
+import achievementsData from '../data/achievements.json';
+
+// 仅在 Node 中运行
+declare const process: { argv: string[]; exit(code?: number): never };
+
+// ============== 数据表引用的键 ==============
+function collectDataKeys(): string[] {
+  const named = [
+    ...Object.values(SKILL_DATABASE),
+    ...Object.values(EFFECT_DATABASE),
+    ...Object.values(EQUIPMENT_DATABASE),
+    ...achievementsData.achievements,
+  ].flatMap(entry => [entry.name, entry.description]);
+
+  return [
+    ...named,
+    ...Object.values(RARITY_CONFIG).map(rarity => rarity.name),
+    ...Object.keys(createDefaultPlayerStats()).map(stat => `stat.${stat}`),
+  ];
+}
+
+// ============== 输出 ==============
+function printReport(report: LocaleReport): void {
+  const sections: [string, string[]][] = [
+    ['缺失', report.missing],
+    ['参数不一致', report.placeholderMismatch],
+    ['复数形式无效', report.invalidPlural],
+    ['多余', report.extra],
+  ];
+
+  console.log(`[${report.locale}] ${hasProblems(report) ? '有问题' : '完整'}`);
+  sections.forEach(([label, keys]) => {
+    if (keys.length === 0) return;
+    console.log(`  ${label} (${keys.length}):`);
+    keys.forEach(key => console.log(`    ${key}`));
+  });
+}
+
+// ============== 入口 ==============
+function main(): void {
+  const json = process.argv.slice(2).includes('--json');
+  const reports = checkLocales(LOCALES, BASE_LOCALE, collectDataKeys());
+
+  if (json) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    reports.forEach(printReport);
+  }
+
+  if (reports.some(hasProblems)) process.exit(1);
+}
+
+main();
@@ -0,0 +1,38 @@
+/**
+ * i18n/index.ts - 本地化导出
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ */
+
+import { Localization, LocaleData, TranslationParams } from './Localization';
+import zhData from './locales/zh.json';
+import enData from './locales/en.json';
+
+export { Localization, interpolate, getPlaceholders } from './Localization';
+export type {
+  PluralForms,
+  StringValue,
+  StringTable,
+  LocaleData,
+  TranslationParams,
+  LocaleListener,
+} from './Localization';
+export { checkLocales, hasProblems } from './LocaleCheck';
+export type { LocaleReport } from './LocaleCheck';
+
+// 源文本为中文
+export const BASE_LOCALE = 'zh';
+export const LOCALES: LocaleData[] = [zhData as LocaleData, enData as LocaleData];
+
+// 默认实例
+export const i18n = new Localization(LOCALES, BASE_LOCALE);
+
+export function t(key: string, params?: TranslationParams): string {
+  return i18n.t(key, params);
+}
+
+// 用 data-i18n 属性标记的元素按键填充文本，切换语言后再次调用即可刷新
+export function translateElement(root: ParentNode): void {
+  root.querySelectorAll<HTMLElement>('[data-i18n]').forEach(element => {
+    element.textContent = t(element.dataset.i18n!);
+  });
+}
@@ -4,12 +4,52 @@
  */
 
 import * as THREE from 'three';
-import { Core, GameEvent } from './core';
-import { GAME_CONFIG } from './core/constants';
+import { Core, GameEvent, SystemPhase, parseConfigQuery } from './core';
+import { DEBUG, EnemyType } from './core/constants';
+import { defaultSkillTree, EquipmentManager } from './systems/rpg';
+import { AIManager } from './systems/ai/AIManager';
+import type { AICharacter } from './systems/ai/AICharacter';
+import { AIDebugOverlay } from './systems/ai/AIDebugOverlay';
+import { NavMesh } from './systems/ai/NavMesh';
+import { DifficultyManager } from './systems/level/DifficultyManager';
+import { DifficultyDirector } from './systems/level/DifficultyDirector';
+import { LevelManager } from './systems/level/LevelManager';
+import type { LevelConfig } from './systems/level/LevelManager';
+import { StoryEngine } from './systems/story/StoryEngine';
+import { DialogueSystem } from './systems/story/DialogueSystem';
+import { QuestSystem } from './systems/npc';
+import type { QuestData } from './systems/npc';
+import { TelemetryCollector } from './systems/telemetry';
+import { AchievementSystem, AchievementDefinition } from './systems/achievements';
+import achievementsData from './data/achievements.json';
+import levelsData from './data/levels.json';
+import questsData from './data/quests.json';
+import { SettingsManager, bindWebGLRenderer, bindLocalization, bindRuntimeConfig } from './systems/settings';
+import { i18n } from './i18n';
+import { UIManager } from './systems/ui';
+import { commands, registerGameplayCommands, createTemplateEnemy } from './systems/console';
+
+// 控制台生成的敌人按类型着色
+const ENEMY_COLORS: Record<EnemyType, number> = {
+  [EnemyType.GRUNT]: 0x66cc44,
+  [EnemyType.SOLDIER]: 0x4488ff,
+  [EnemyType.ELITE]: 0xffaa00,
+  [EnemyType.BOSS]: 0xff2244,
+};
 
 // ============== 游戏主类 ==============
 class Game {
   private core: Core;
+  private difficulty: DifficultyManager | null = null;
+  private director: DifficultyDirector | null = null;
+  private equipment: EquipmentManager | null = null;
+  private story: StoryEngine | null = null;
+  private levels: LevelManager | null = null;
+  private quests: QuestSystem | null = null;
+  private telemetry: TelemetryCollector | null = null;
+  private achievements: AchievementSystem | null = null;
+  private settings: SettingsManager | null = null;
+  private aiDebug: AIDebugOverlay | null = null;
   private renderer: THREE.WebGLRenderer | null = null;
   private scene: THREE.Scene | null = null;
   private camera: THREE.PerspectiveCamera | null = null;
@@ -27,6 +67,9 @@ class Game {
     console.log('[Game] 初始化墨境：孤军...');
     
     try {
+      // 运行时配置需先于各系统确定
+      this.initConfig();
+      
       // 更新加载状态
       this.updateLoadingStatus('初始化渲染器...', 10);
       
@@ -45,7 +88,8 @@ class Game {
       
       this.updateLoadingStatus('初始化核心系统...', 70);
       
-      // 初始化核心
+      // 初始化核心 (存储后端需先完成载入)
+      await this.core.saveSystem.init();
       this.initCore();
       
       this.updateLoadingStatus('初始化输入...', 85);
@@ -70,6 +114,18 @@ class Game {
     }
   }
   
+  // ============== 运行时配置 ==============
+  // URL 参数 config.<KEY>=<value> 写入 debug 层，如 ?config.MOVE_SPEED=8
+  private initConfig(): void {
+    const { config } = this.core;
+    config.setLayer('debug', parseConfigQuery(window.location.search));
+    
+    const issues = config.validate();
+    issues.forEach(issue => {
+      console.warn(`[Game] 配置无效 ${issue.layer}.${issue.key}: ${issue.message}`);
+    });
+  }
+  
   // ============== 渲染器初始化 ==============
   private async initRenderer(): Promise<void> {
     const container = document.getElementById('game-container');
@@ -78,7 +134,7 @@ class Game {
     // 创建 WebGL 2.0 渲染器
     const canvas = document.createElement('canvas');
     const context = canvas.getContext('webgl2', {
-      antialias: GAME_CONFIG.ANTIALIAS,
+      antialias: this.core.config.get('ANTIALIAS'),
       alpha: false,
       depth: true,
       stencil: false,
@@ -93,7 +149,7 @@ class Game {
     this.renderer = new THREE.WebGLRenderer({
       canvas,
       context: context as WebGLRenderingContext,
-      antialias: GAME_CONFIG.ANTIALIAS,
+      antialias: this.core.config.get('ANTIALIAS'),
       powerPreference: 'high-performance',
     });
     
@@ -123,13 +179,23 @@ class Game {
     this.scene.fog = new THREE.FogExp2(0x0a0a1a, 0.015);
     
     // 创建相机
+    const { config } = this.core;
     this.camera = new THREE.PerspectiveCamera(
-      GAME_CONFIG.FOV,
+      config.get('FOV'),
       window.innerWidth / window.innerHeight,
-      GAME_CONFIG.NEAR_PLANE,
-      GAME_CONFIG.FAR_PLANE
+      config.get('NEAR_PLANE'),
+      config.get('FAR_PLANE')
     );
-    this.camera.position.set(0, GAME_CONFIG.PLAYER_HEIGHT, 0);
+    this.camera.position.set(0, config.get('PLAYER_HEIGHT'), 0);
+    
+    // 视野由配置决定 (含设置层与调试覆盖)
+    config.watch(['FOV', 'NEAR_PLANE', 'FAR_PLANE'], values => {
+      if (!this.camera) return;
+      this.camera.fov = values.FOV;
+      this.camera.near = values.NEAR_PLANE;
+      this.camera.far = values.FAR_PLANE;
+      this.camera.updateProjectionMatrix();
+    });
     
     // 保存到 Core
     this.core.scene = this.scene;
@@ -142,12 +208,13 @@ class Game {
     const directionalLight = new THREE.DirectionalLight(0xffffff, 1);
     directionalLight.position.set(10, 20, 10);
     directionalLight.castShadow = true;
-    directionalLight.shadow.mapSize.width = GAME_CONFIG.SHADOW_MAP_SIZE;
-    directionalLight.shadow.mapSize.height = GAME_CONFIG.SHADOW_MAP_SIZE;
+    directionalLight.shadow.mapSize.width = config.get('SHADOW_MAP_SIZE');
+    directionalLight.shadow.mapSize.height = config.get('SHADOW_MAP_SIZE');
     this.scene.add(directionalLight);
     
     // 添加测试地面
     this.createTestEnvironment();
+    this.initNavigation();
     
     console.log('[Game] 场景已初始化');
   }
@@ -195,6 +262,18 @@ class Game {
     console.log('[Game] 测试环境已创建');
   }
   
+  // ============== 导航网格 ==============
+  // 由场景几何体生成：地面为可行走区域，测试方块为障碍
+  private initNavigation(): void {
+    if (!this.scene) return;
+    
+    const navMesh = NavMesh.fromScene(this.scene);
+    AIManager.getInstance().setNavMesh(navMesh);
+    
+    const stats = navMesh.getStats();
+    console.log(`[Game] 导航网格已生成 (${stats.cols}x${stats.rows}, 可行走 ${stats.walkableCells})`);
+  }
+  
   // ============== 物理初始化 ==============
   private async initPhysics(): Promise<void> {
     // 物理引擎将在此处初始化 Cannon-es
@@ -205,6 +284,30 @@ class Game {
   
   // ============== 核心初始化 ==============
   private initCore(): void {
+    // 注册子系统存档分区 (需在自动读档前)
+    this.core.saveSystem.registerParticipant(defaultSkillTree);
+    this.initGameplaySystems();
+    this.difficulty = new DifficultyManager();
+    AIManager.getInstance().init(this.core.player);
+    AIManager.getInstance().setDifficultyManager(this.difficulty);
+    AIManager.getInstance().setRuntimeConfig(this.core.config);
+    this.director = new DifficultyDirector(this.difficulty, this.levels);
+    this.achievements = new AchievementSystem(this.difficulty);
+    this.achievements.registerAchievements(achievementsData.achievements as AchievementDefinition[]);
+    if (DEBUG.COLLECT_TELEMETRY) {
+      this.telemetry = new TelemetryCollector();
+    }
+    // 界面需在自动读档前监听事件，以显示存档恢复等通知
+    UIManager.getInstance().init();
+    this.initSettings();
+    if (DEBUG.PROFILER) {
+      this.initProfiler();
+    }
+    this.initAIDebug();
+    if (DEBUG.DEV_CONSOLE) {
+      this.initConsole();
+    }
+    
     this.core.initialize();
     
     // 监听核心事件
@@ -212,17 +315,136 @@ class Game {
       console.log('[Game] 核心系统已就绪');
     });
     
+    // 升级通知由 UIManager 显示
     this.core.eventBus.on(GameEvent.LEVEL_UP, (level: number) => {
       console.log(`[Game] 升级到 ${level} 级!`);
-      this.showNotification(`升级到 ${level} 级!`);
     });
   }
   
+  // ============== 玩法系统 ==============
+  // 装备、剧情、关卡与任务，均作为存档分区注册
+  private initGameplaySystems(): void {
+    const { saveSystem } = this.core;
+    
+    this.equipment = new EquipmentManager();
+    saveSystem.registerParticipant(this.equipment);
+    
+    this.story = new StoryEngine(new DialogueSystem());
+    saveSystem.registerParticipant(this.story);
+    
+    this.levels = new LevelManager();
+    this.levels.loadLevels(levelsData.levels as unknown as LevelConfig[]);
+    this.levels.setStoryEngine(this.story);
+    this.levels.setRuntimeConfig(this.core.config);
+    saveSystem.registerParticipant(this.levels);
+    
+    // QuestSystem 构造时自行注册存档分区
+    this.quests = new QuestSystem();
+    this.quests.registerQuests(questsData.quests as unknown as QuestData[]);
+  }
+  
+  // ============== 设置 ==============
+  // 设置独立于存档持久化，载入后立即应用到运行时配置 (视野)、渲染器与语言
+  private initSettings(): void {
+    this.settings = new SettingsManager();
+    bindRuntimeConfig(this.settings, this.core.config);
+    if (this.renderer) bindWebGLRenderer(this.settings, this.renderer);
+    bindLocalization(this.settings, i18n);
+    UIManager.getInstance().setSettingsManager(this.settings);
+  }
+  
+  // ============== 性能分析 ==============
+  // 调度器逐帧计时；AI、物理等系统的自有统计作为计数器一并采样
+  private initProfiler(): void {
+    const profiler = this.core.scheduler.enableProfiler();
+    profiler.setRenderer(this.renderer);
+    
+    const ai = AIManager.getInstance();
+    profiler.addCounter('ai.updateMs', () => ai.getStats().updateTime);
+    profiler.addCounter('ai.active', () => ai.getStats().activeCount);
+    profiler.addCounter('ai.enemies', () => ai.getStats().totalEnemies);
+    profiler.addCounter('physics.bodies', () => this.core.physicsWorld?.getState().bodyCount ?? 0);
+  }
+  
+  // ============== AI 调试层 ==============
+  // 由控制台 aidebug 命令开关；配置了感知 / 路径显示时启动即打开
+  private initAIDebug(): void {
+    if (!this.scene || !this.camera) return;
+    if (!DEBUG.DEV_CONSOLE && !DEBUG.SHOW_SENSES && !DEBUG.SHOW_PATHS) return;
+
+    this.aiDebug = new AIDebugOverlay(this.scene, this.camera);
+    if (DEBUG.SHOW_SENSES || DEBUG.SHOW_PATHS) {
+      this.aiDebug.show();
+    }
+  }
+  
+  // ============== 开发者控制台 ==============
+  // 仅注册主程序持有的系统；其余系统可自行向 commands 注册命令
+  private initConsole(): void {
+    registerGameplayCommands(commands, {
+      core: this.core,
+      ai: AIManager.getInstance(),
+      spawnFactory: (type, position, index) => this.spawnEnemy(type, position, index),
+      aiDebug: this.aiDebug ?? undefined,
+      profiler: this.core.scheduler.getProfiler() ?? undefined,
+      togglePerfHud: () => UIManager.getInstance().togglePerfHud(),
+      toggleEventTimeline: () => UIManager.getInstance().toggleEventTimeline(),
+      equipment: this.equipment ?? undefined,
+      story: this.story ?? undefined,
+      quests: this.quests ?? undefined,
+      levels: this.levels ?? undefined,
+      difficulty: this.difficulty ?? undefined,
+      director: this.director ?? undefined,
+      toggleDifficultyReadout: () => UIManager.getInstance().toggleDifficultyReadout(),
+      behaviorTreePanel: {
+        toggle: () => UIManager.getInstance().toggleBehaviorTreePanel(),
+        show: enemyId => UIManager.getInstance().showBehaviorTreePanel(enemyId),
+      },
+    });
+    UIManager.getInstance().setCommandRegistry(commands);
+  }
+  
+  // 按模板创建敌人并放入场景，位置由敌人自身每帧同步
+  private spawnEnemy(type: EnemyType, position: THREE.Vector3, index: number): AICharacter {
+    const enemy = createTemplateEnemy(type, position, index);
+    if (this.scene) {
+      const mesh = new THREE.Mesh(
+        new THREE.CapsuleGeometry(0.4, 1.0, 4, 8),
+        new THREE.MeshStandardMaterial({ color: ENEMY_COLORS[type], roughness: 0.6 })
+      );
+      mesh.name = enemy.id;
+      mesh.position.copy(enemy.position);
+      mesh.castShadow = true;
+      mesh.userData.navIgnore = true;
+      this.scene.add(mesh);
+      enemy.mesh = mesh;
+    }
+    return enemy;
+  }
+  
   // ============== 输入初始化 ==============
   private initInput(): void {
     // 窗口大小调整
     window.addEventListener('resize', () => this.onWindowResize());
     
+    // 开发者控制台
+    if (DEBUG.DEV_CONSOLE) {
+      window.addEventListener('keydown', (event) => {
+        if (event.code !== 'Backquote') return;
+        event.preventDefault();
+        UIManager.getInstance().toggleDevConsole();
+      });
+    }
+    
+    // 性能 HUD
+    if (DEBUG.PROFILER) {
+      window.addEventListener('keydown', (event) => {
+        if (event.code !== 'F3') return;
+        event.preventDefault();
+        UIManager.getInstance().togglePerfHud();
+      });
+    }
+    
     // 点击启动
     document.addEventListener('click', () => {
       if (!this.core.gameState.isPlaying()) {
@@ -235,16 +457,35 @@ class Game {
   
   // ============== 游戏循环 ==============
   private startGameLoop(): void {
+    // AI 跟随玩家位置，仅在游戏进行中更新
+    const ai = AIManager.getInstance();
+    this.core.scheduler.register({
+      name: 'ai',
+      phase: SystemPhase.AI,
+      update: deltaTime => {
+        if (!this.core.gameState.isPlaying()) return;
+        ai.updatePlayerPosition(this.core.player.position);
+        ai.update(deltaTime);
+      },
+    });
+    
+    // 渲染在所有系统之后，暂停时继续
+    this.core.scheduler.register({
+      name: 'render',
+      phase: SystemPhase.RENDER,
+      runWhilePaused: true,
+      update: () => {
+        if (this.renderer && this.scene && this.camera) {
+          this.renderer.render(this.scene, this.camera);
+        }
+      },
+    });
+    
     const gameLoop = (time: number) => {
       requestAnimationFrame(gameLoop);
       
-      // 更新核心
+      // 更新核心 (调度各系统并渲染)
       this.core.update(time);
-      
-      // 渲染场景
-      if (this.renderer && this.scene && this.camera) {
-        this.renderer.render(this.scene, this.camera);
-      }
     };
     
     requestAnimationFrame(gameLoop);
@@ -278,30 +519,6 @@ class Game {
     }
   }
   
-  // ============== 通知 ==============
-  private showNotification(message: string): void {
-    // 简单的通知实现
-    const notification = document.createElement('div');
-    notification.style.cssText = `
-      position: fixed;
-      top: 20%;
-      left: 50%;
-      transform: translateX(-50%);
-      background: linear-gradient(90deg, #ff00ff, #00ffff);
-      color: white;
-      padding: 15px 30px;
-      border-radius: 8px;
-      font-size: 24px;
-      font-weight: bold;
-      z-index: 1001;
-      animation: fadeOut 2s forwards;
-    `;
-    notification.textContent = message;
-    document.body.appendChild(notification);
-    
-    setTimeout(() => notification.remove(), 2000);
-  }
-  
   // ============== 错误显示 ==============
   private showError(message: string): void {
     const loadingScreen = document.getElementById('loading-screen');
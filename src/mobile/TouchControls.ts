@@ -389,6 +389,20 @@ export class TouchControls {
     this.joystick.setDeadZone(deadZone);
   }
 
+  /**
+   * 设置摇杆透明度
+   */
+  public setOpacity(opacity: number): void {
+    this.joystick.setOpacity(opacity);
+  }
+
+  /**
+   * 设置视角滑动灵敏度
+   */
+  public setLookSensitivity(sensitivity: number): void {
+    this.config.lookSensitivity = sensitivity;
+  }
+
   /**
    * 启用/禁用触控控制
    */
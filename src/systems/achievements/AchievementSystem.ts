@@ -0,0 +1,365 @@
+/**
+ * AchievementSystem.ts - 成就系统
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 成就由数据定义：事件计数、标志、统计及其组合；进度来自 EventBus 与 GameState，随存档保存
+ */
+
+import { Core, GameEvent, SystemPhase } from '../../core';
+import type { SaveParticipant } from '../../core/SaveSystem';
+import type { Unsubscribe } from '../../core/EventBus';
+import type { GameState } from '../../core/GameState';
+import type { DifficultyManager } from '../level/DifficultyManager';
+import { t } from '../../i18n';
+
+// ============== 条件定义 ==============
+export type GameStatKey = keyof ReturnType<GameState['getStats']>;
+
+// 载荷匹配：原始值直接比较，对象逐字段比较
+export type EventMatch = string | number | boolean | Record<string, string | number | boolean>;
+
+export interface EventTrigger {
+  event: string;
+  match?: EventMatch;
+}
+
+export interface EventCondition extends EventTrigger {
+  type: 'event';
+  count: number;
+  difficulty?: string[];        // 仅在这些难度下计数
+  startOn?: EventTrigger;       // 窗口开启后才计数
+  resetOn?: EventTrigger[];     // 清零并关闭窗口
+}
+
+export interface FlagCondition {
+  type: 'flag';
+  flag: string;
+  value?: boolean;              // 默认 true
+}
+
+export interface StatCondition {
+  type: 'stat';
+  stat: GameStatKey;
+  min: number;
+}
+
+export interface CompositeCondition {
+  type: 'all' | 'any';
+  conditions: AchievementCondition[];
+}
+
+export type AchievementCondition = EventCondition | FlagCondition | StatCondition | CompositeCondition;
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;                 // 本地化键
+  description: string;          // 本地化键
+  icon?: string;
+  hidden?: boolean;             // 解锁前不显示描述
+  condition: AchievementCondition;
+}
+
+// ============== 进度 ==============
+export interface AchievementStatus {
+  id: string;
+  name: string;
+  description: string;
+  icon?: string;
+  hidden: boolean;
+  unlocked: boolean;
+  unlockedAt: number | null;
+  progress: number;             // 0-1
+}
+
+interface CounterState {
+  count: number;
+  active: boolean;
+}
+
+export interface AchievementSaveData {
+  unlocked: [string, number][];
+  counters: Record<string, CounterState>;
+}
+
+// ============== 成就系统 ==============
+export class AchievementSystem implements SaveParticipant<AchievementSaveData> {
+  readonly saveKey = 'achievements';
+  private core: Core;
+
+  private definitions: Map<string, AchievementDefinition> = new Map();
+  private unlocked: Map<string, number> = new Map();
+  // key: `${achievementId}:${条件路径}`
+  private counters: Map<string, CounterState> = new Map();
+
+  private eventSubscriptions: Map<string, Unsubscribe> = new Map();
+  private unsubscribers: Unsubscribe[] = [];
+
+  constructor(private difficulty: DifficultyManager | null = null) {
+    this.core = Core.getInstance();
+
+    // 标志与统计没有对应事件，定期检查
+    this.unsubscribers.push(this.core.scheduler.register({
+      name: 'achievements',
+      phase: SystemPhase.GAMEPLAY,
+      tickRate: 2,
+      update: () => this.evaluateAll(),
+    }));
+    this.core.saveSystem.registerParticipant(this);
+  }
+
+  // ============== 注册 ==============
+  public registerAchievements(definitions: AchievementDefinition[]): void {
+    definitions.forEach(definition => {
+      const error = this.validate(definition.condition);
+      if (error) {
+        console.warn(`[AchievementSystem] 成就定义无效: ${definition.id} (${error})`);
+        return;
+      }
+
+      this.definitions.set(definition.id, definition);
+      this.collectTriggers(definition.condition).forEach(event => this.subscribe(event));
+    });
+  }
+
+  private validate(condition: AchievementCondition): string | null {
+    const events = Object.values(GameEvent) as string[];
+
+    switch (condition.type) {
+      case 'event': {
+        const triggers = [condition, condition.startOn, ...(condition.resetOn ?? [])];
+        const unknown = triggers.find(trigger => trigger && !events.includes(trigger.event));
+        if (unknown) return `未知事件 ${unknown.event}`;
+        return condition.count > 0 ? null : 'count 必须大于 0';
+      }
+      case 'flag':
+        return condition.flag ? null : '缺少 flag';
+      case 'stat':
+        return condition.stat ? null : '缺少 stat';
+      case 'all':
+      case 'any':
+        if (!condition.conditions?.length) return '组合条件为空';
+        for (const child of condition.conditions) {
+          const error = this.validate(child);
+          if (error) return error;
+        }
+        return null;
+      default:
+        return `未知条件类型 ${(condition as { type: string }).type}`;
+    }
+  }
+
+  private collectTriggers(condition: AchievementCondition): string[] {
+    switch (condition.type) {
+      case 'event':
+        return [
+          condition.event,
+          ...(condition.startOn ? [condition.startOn.event] : []),
+          ...(condition.resetOn ?? []).map(trigger => trigger.event),
+        ];
+      case 'all':
+      case 'any':
+        return condition.conditions.flatMap(child => this.collectTriggers(child));
+      default:
+        return [];
+    }
+  }
+
+  private subscribe(event: string): void {
+    if (this.eventSubscriptions.has(event)) return;
+
+    const unsubscribe = this.core.eventBus.on(event as GameEvent, (payload: unknown) => {
+      this.handleEvent(event, payload);
+    });
+    this.eventSubscriptions.set(event, unsubscribe);
+  }
+
+  // ============== 事件计数 ==============
+  private handleEvent(event: string, payload: unknown): void {
+    this.definitions.forEach(definition => {
+      if (this.unlocked.has(definition.id)) return;
+
+      if (this.updateCounters(definition.id, definition.condition, '0', event, payload)) {
+        this.evaluate(definition);
+      }
+    });
+  }
+
+  // 返回是否有计数变化
+  private updateCounters(
+    achievementId: string,
+    condition: AchievementCondition,
+    path: string,
+    event: string,
+    payload: unknown
+  ): boolean {
+    if (condition.type === 'all' || condition.type === 'any') {
+      return condition.conditions
+        .map((child, i) => this.updateCounters(achievementId, child, `${path}.${i}`, event, payload))
+        .some(Boolean);
+    }
+    if (condition.type !== 'event') return false;
+
+    const state = this.getCounter(achievementId, path, condition);
+    let changed = false;
+
+    if (condition.resetOn?.some(trigger => matchesTrigger(trigger, event, payload))) {
+      state.count = 0;
+      state.active = !condition.startOn;
+      changed = true;
+    }
+    if (condition.startOn && matchesTrigger(condition.startOn, event, payload)) {
+      state.count = 0;
+      state.active = true;
+      changed = true;
+    }
+    if (state.active && matchesTrigger(condition, event, payload) && this.matchesDifficulty(condition)) {
+      state.count++;
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  private getCounter(achievementId: string, path: string, condition: EventCondition): CounterState {
+    const key = `${achievementId}:${path}`;
+    let state = this.counters.get(key);
+    if (!state) {
+      state = { count: 0, active: !condition.startOn };
+      this.counters.set(key, state);
+    }
+    return state;
+  }
+
+  private matchesDifficulty(condition: EventCondition): boolean {
+    if (!condition.difficulty?.length) return true;
+    const current = this.difficulty?.getDifficulty();
+    return current !== undefined && condition.difficulty.includes(current);
+  }
+
+  // ============== 判定 ==============
+  private evaluateAll(): void {
+    this.definitions.forEach(definition => {
+      if (!this.unlocked.has(definition.id)) this.evaluate(definition);
+    });
+  }
+
+  private evaluate(definition: AchievementDefinition): void {
+    if (this.getConditionProgress(definition.id, definition.condition, '0') >= 1) {
+      this.unlock(definition.id);
+    }
+  }
+
+  private getConditionProgress(achievementId: string, condition: AchievementCondition, path: string): number {
+    switch (condition.type) {
+      case 'event': {
+        const count = this.counters.get(`${achievementId}:${path}`)?.count ?? 0;
+        return Math.min(1, count / condition.count);
+      }
+      case 'flag':
+        return this.core.gameState.getFlag(condition.flag) === (condition.value ?? true) ? 1 : 0;
+      case 'stat': {
+        const value = this.core.gameState.getStats()[condition.stat] ?? 0;
+        return condition.min > 0 ? Math.min(1, value / condition.min) : 1;
+      }
+      case 'all':
+      case 'any': {
+        const progress = condition.conditions.map((child, i) =>
+          this.getConditionProgress(achievementId, child, `${path}.${i}`)
+        );
+        return condition.type === 'all'
+          ? progress.reduce((sum, p) => sum + p, 0) / progress.length
+          : Math.max(...progress);
+      }
+    }
+  }
+
+  // ============== 解锁 ==============
+  public unlock(achievementId: string): boolean {
+    const definition = this.definitions.get(achievementId);
+    if (!definition || this.unlocked.has(achievementId)) return false;
+
+    this.unlocked.set(achievementId, Date.now());
+    console.log(`[AchievementSystem] 成就解锁: ${achievementId}`);
+
+    this.core.eventBus.emit(GameEvent.ACHIEVEMENT_UNLOCKED, {
+      achievementId,
+      name: t(definition.name),
+      description: t(definition.description),
+    });
+    return true;
+  }
+
+  public isUnlocked(achievementId: string): boolean {
+    return this.unlocked.has(achievementId);
+  }
+
+  // ============== 查询 ==============
+  public getAchievement(achievementId: string): AchievementStatus | null {
+    const definition = this.definitions.get(achievementId);
+    if (!definition) return null;
+
+    const unlocked = this.unlocked.has(achievementId);
+    return {
+      id: definition.id,
+      name: t(definition.name),
+      description: t(definition.hidden && !unlocked ? 'achievement.hidden_description' : definition.description),
+      icon: definition.icon,
+      hidden: definition.hidden ?? false,
+      unlocked,
+      unlockedAt: this.unlocked.get(achievementId) ?? null,
+      progress: unlocked ? 1 : this.getConditionProgress(achievementId, definition.condition, '0'),
+    };
+  }
+
+  public getAchievements(): AchievementStatus[] {
+    return Array.from(this.definitions.keys()).map(id => this.getAchievement(id)!);
+  }
+
+  public getUnlockedCount(): number {
+    return this.unlocked.size;
+  }
+
+  // ============== 存档 ==============
+  captureSave(): AchievementSaveData {
+    const counters: Record<string, CounterState> = {};
+    this.counters.forEach((state, key) => {
+      counters[key] = { ...state };
+    });
+
+    return {
+      unlocked: Array.from(this.unlocked.entries()),
+      counters,
+    };
+  }
+
+  restoreSave(data: Partial<AchievementSaveData>): void {
+    this.unlocked = new Map(data.unlocked ?? []);
+    this.counters = new Map(
+      Object.entries(data.counters ?? {}).map(([key, state]) => [key, { ...state }])
+    );
+  }
+
+  // ============== 释放 ==============
+  public dispose(): void {
+    this.eventSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.eventSubscriptions.clear();
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.core.saveSystem.unregisterParticipant(this.saveKey);
+  }
+}
+
+// ============== 匹配 ==============
+function matchesTrigger(trigger: EventTrigger, event: string, payload: unknown): boolean {
+  if (trigger.event !== event) return false;
+  if (trigger.match === undefined) return true;
+
+  if (typeof trigger.match !== 'object') {
+    return payload === trigger.match;
+  }
+  if (!payload || typeof payload !== 'object') return false;
+
+  const fields = payload as Record<string, unknown>;
+  return Object.entries(trigger.match).every(([key, value]) => fields[key] === value);
+}
+
+export default AchievementSystem;
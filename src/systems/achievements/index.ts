@@ -0,0 +1,19 @@
+/**
+ * systems/achievements/index.ts - 成就系统导出
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ */
+
+export { AchievementSystem } from './AchievementSystem';
+export type {
+  AchievementDefinition,
+  AchievementCondition,
+  AchievementStatus,
+  AchievementSaveData,
+  EventCondition,
+  EventTrigger,
+  EventMatch,
+  FlagCondition,
+  StatCondition,
+  CompositeCondition,
+  GameStatKey,
+} from './AchievementSystem';
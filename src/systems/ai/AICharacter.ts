@@ -8,7 +8,11 @@ import * as THREE from 'three';
 import { BehaviorTree } from './BehaviorTree';
 import { PerceptionResult, PerceptionConfig, DEFAULT_PERCEPTION_CONFIG } from './Perception';
 import { CoverState, CoverSpot } from './CoverSystem';
+import type { NavMesh } from './NavMesh';
 import { AIState, EnemyType } from '../../core/constants';
+import { getGameClock } from '../../core/Clock';
+import { Core } from '../../core/Core';
+import { GameEvent } from '../../core/EventBus';
 
 // ============== AI 配置 ==============
 export interface AIConfig {
@@ -34,6 +38,8 @@ export interface AIConfig {
   };
 }
 
+export type MovementConfig = AIConfig['movement'];
+
 // ============== 默认 AI 配置 ==============
 export const DEFAULT_AI_CONFIG: AIConfig = {
   type: EnemyType.GRUNT,
@@ -58,6 +64,14 @@ export const DEFAULT_AI_CONFIG: AIConfig = {
   },
 };
 
+// ============== 寻路参数 ==============
+// 目标移动超过该距离 (米) 时重新寻路
+const REPATH_DISTANCE = 1.0;
+// 两次重新寻路的最短间隔 (毫秒)
+const REPATH_INTERVAL = 250;
+// 到达路径点的判定半径 (米)
+const WAYPOINT_RADIUS = 0.5;
+
 // ============== AI 角色类 ==============
 export class AICharacter {
   // 基础属性
@@ -69,6 +83,7 @@ export class AICharacter {
   public position: THREE.Vector3 = new THREE.Vector3();
   public rotation: THREE.Euler = new THREE.Euler();
   public velocity: THREE.Vector3 = new THREE.Vector3();
+  public mesh: THREE.Object3D | null = null;
   
   // 战斗属性
   public health: number = 100;
@@ -82,6 +97,11 @@ export class AICharacter {
   public isMoving: boolean = false;
   public isAttacking: boolean = false;
   public isInCover: boolean = false;
+  public isStunned: boolean = false;
+  public stunTime: number = 0;
+  
+  // 移动参数 (子类按阶段 / 狂暴调整)
+  public movementConfig: MovementConfig;
   
   // 行为树
   public behaviorTree: BehaviorTree | null = null;
@@ -90,6 +110,10 @@ export class AICharacter {
   public perception: PerceptionResult | null = null;
   public perceptionConfig: PerceptionConfig = DEFAULT_PERCEPTION_CONFIG;
   
+  // 最近一次受伤 (感知据此判断是否正受到攻击)
+  public lastDamageSource: THREE.Vector3 | null = null;
+  public lastDamageTime: number = -Infinity;
+  
   // 掩体
   public canUseCover: boolean = false;
   public coverState: CoverState = {
@@ -100,7 +124,8 @@ export class AICharacter {
     retreatHealthThreshold: 0.3,
   };
   
-  // 目标
+  // 目标 (由 AIManager 指向玩家)
+  public target: { position: THREE.Vector3 } | null = null;
   public targetPosition: THREE.Vector3 = new THREE.Vector3();
   public alertTarget: THREE.Vector3 | null = null;
   
@@ -108,14 +133,22 @@ export class AICharacter {
   public patrolPoints: THREE.Vector3[] = [];
   public currentPatrolIndex: number = 0;
   
-  // 寻路
+  // 寻路 (导航网格由 AIManager 注入)
+  public navMesh: NavMesh | null = null;
   public navigationPath: THREE.Vector3[] = [];
+  private navigationGoal: THREE.Vector3 | null = null;
+  private navigationVersion: number = -1;
+  private lastRepathTime: number = -Infinity;
   
   // 攻击
   public lastAttackTime: number = 0;
   public attackCooldown: number = 1000;
   public attackRange: number = 10;
   
+  // 难度调节 (由 DifficultyManager 写入)
+  public accuracy: number = 1;     // 命中率倍率
+  public aggression: number = 1;   // 攻击频率倍率
+  
   // 临时向量
   protected tempVector: THREE.Vector3 = new THREE.Vector3();
   protected tempQuaternion: THREE.Quaternion = new THREE.Quaternion();
@@ -130,6 +163,7 @@ export class AICharacter {
     this.maxHealth = finalConfig.health;
     this.armor = finalConfig.armor;
     this.damage = finalConfig.damage;
+    this.movementConfig = { ...finalConfig.movement };
     
     // 设置感知配置
     this.perceptionConfig = {
@@ -152,6 +186,11 @@ export class AICharacter {
     
     // 状态更新
     this.updateState();
+    
+    if (this.mesh) {
+      this.mesh.position.copy(this.position);
+      this.mesh.rotation.y = this.rotation.y;
+    }
   }
   
   // ============== 基础更新 ==============
@@ -228,10 +267,62 @@ export class AICharacter {
     this.velocity.copy(this.tempVector.multiplyScalar(moveSpeed));
   }
   
+  // ============== 寻路 ==============
+  public setNavMesh(navMesh: NavMesh | null): void {
+    this.navMesh = navMesh;
+    this.clearNavigation();
+  }
+  
+  // 沿导航路径移动，没有导航网格时直线移动
+  public navigateTo(goal: THREE.Vector3, deltaTime: number, speed?: number): void {
+    this.moveToward(this.nextWaypoint(goal), deltaTime, speed);
+  }
+  
+  // 前往 goal 的下一个路径点；无导航网格或找不到路径时返回 goal 本身
+  public nextWaypoint(goal: THREE.Vector3): THREE.Vector3 {
+    if (!this.navMesh) return goal;
+    if (this.needsRepath(goal, this.navMesh)) {
+      this.navigationPath = this.navMesh.findPath(this.position, goal) ?? [];
+      this.navigationGoal = goal.clone();
+      this.navigationVersion = this.navMesh.getVersion();
+      this.lastRepathTime = getGameClock().now();
+    }
+    
+    // 保留最后一个点，由调用方判断是否到达
+    while (this.navigationPath.length > 1 && this.horizontalDistanceTo(this.navigationPath[0]) < WAYPOINT_RADIUS) {
+      this.navigationPath.shift();
+    }
+    return this.navigationPath[0] ?? goal;
+  }
+  
+  // 目标切换 (如到达巡逻点) 后调用，下一次移动立即重新寻路
+  public clearNavigation(): void {
+    this.navigationPath = [];
+    this.navigationGoal = null;
+  }
+  
+  // 目标移动过远 (按间隔节流)，或障碍物变化挡住了剩余路径
+  private needsRepath(goal: THREE.Vector3, navMesh: NavMesh): boolean {
+    if (!this.navigationGoal) return true;
+    
+    if (navMesh.getVersion() !== this.navigationVersion) {
+      this.navigationVersion = navMesh.getVersion();
+      if (!navMesh.isPathClear([this.position, ...this.navigationPath])) return true;
+    }
+    
+    return this.navigationGoal.distanceTo(goal) > REPATH_DISTANCE
+      && getGameClock().now() - this.lastRepathTime >= REPATH_INTERVAL;
+  }
+  
+  private horizontalDistanceTo(point: THREE.Vector3): number {
+    return Math.hypot(point.x - this.position.x, point.z - this.position.z);
+  }
+  
   // ============== 停止移动 ==============
   public stopMoving(): void {
     this.velocity.set(0, 0, 0);
     this.isMoving = false;
+    this.clearNavigation();
   }
   
   // ============== 旋转 ==============
@@ -258,8 +349,8 @@ export class AICharacter {
   
   // ============== 攻击 ==============
   public attack(): void {
-    const now = Date.now();
-    if (now - this.lastAttackTime < this.attackCooldown) return;
+    const now = getGameClock().now();
+    if (now - this.lastAttackTime < this.attackCooldown / this.aggression) return;
     
     this.lastAttackTime = now;
     this.isAttacking = true;
@@ -272,13 +363,18 @@ export class AICharacter {
     // 由子类重写
   }
   
+  // 按基础命中率与难度倍率判定是否命中
+  protected rollHit(baseChance: number): boolean {
+    return Math.random() < Math.min(1, baseChance * this.accuracy);
+  }
+  
   // ============== 巡逻 ==============
   public startPatrol(): void {
     if (this.patrolPoints.length === 0) return;
     this.currentPatrolIndex = 0;
   }
   
-  public patrol(): void {
+  public patrol(deltaTime: number = 0.016, speed: number = 1.5): void {
     if (this.patrolPoints.length === 0) return;
     
     const target = this.patrolPoints[this.currentPatrolIndex];
@@ -287,11 +383,16 @@ export class AICharacter {
     if (distance < 1) {
       // 前往下一个点
       this.currentPatrolIndex = (this.currentPatrolIndex + 1) % this.patrolPoints.length;
+      this.clearNavigation();
     } else {
-      this.moveToward(target, 0.016, 1.5);
+      this.navigateTo(target, deltaTime, speed);
     }
   }
   
+  protected executePatrol(deltaTime: number): void {
+    this.patrol(deltaTime);
+  }
+  
   // ============== 掩体 ==============
   public setTargetCover(cover: CoverSpot): void {
     this.coverState.targetCover = cover;
@@ -322,7 +423,7 @@ export class AICharacter {
     );
     
     this.targetPosition.copy(target).add(offset);
-    this.moveToward(this.targetPosition, 0.016, 4.0);
+    this.navigateTo(this.targetPosition, 0.016, 4.0);
   }
   
   // ============== 撤退 ==============
@@ -339,9 +440,13 @@ export class AICharacter {
   }
   
   // ============== 伤害 ==============
-  public takeDamage(amount: number): void {
+  // source 为攻击者位置，写入黑板供掩体决策使用
+  public takeDamage(amount: number, source?: THREE.Vector3): void {
     if (!this.isAlive) return;
     
+    this.lastDamageTime = getGameClock().now();
+    if (source) this.lastDamageSource = source.clone();
+    
     // 护甲减免
     let damage = amount;
     if (this.armor > 0) {
@@ -357,12 +462,30 @@ export class AICharacter {
     }
   }
   
+  // ============== 击晕 ==============
+  // 击晕期间子类跳过 AI 逻辑，计时结束后恢复
+  public stun(duration: number): void {
+    if (!this.isAlive) return;
+    
+    this.isStunned = true;
+    this.stunTime = Math.max(this.stunTime, duration);
+    this.velocity.set(0, 0, 0);
+  }
+  
   // ============== 死亡 ==============
   public die(): void {
     this.isAlive = false;
     this.state = AIState.DEAD;
     this.velocity.set(0, 0, 0);
     this.isAttacking = false;
+    this.clearNavigation();
+    if (this.mesh) this.mesh.visible = false;
+    
+    Core.getInstance().eventBus.emit(GameEvent.ENEMY_KILLED, {
+      enemyId: this.id,
+      type: this.type,
+      position: this.position.clone(),
+    });
   }
   
   // ============== 复活 ==============
@@ -372,6 +495,15 @@ export class AICharacter {
     this.armor = 0;
     this.isAlive = true;
     this.state = AIState.IDLE;
+    this.isStunned = false;
+    this.stunTime = 0;
+    this.lastDamageSource = null;
+    this.lastDamageTime = -Infinity;
+    this.clearNavigation();
+    if (this.mesh) {
+      this.mesh.position.copy(position);
+      this.mesh.visible = true;
+    }
   }
   
   // ============== 设置行为树 ==============
@@ -0,0 +1,498 @@
+/**
+ * AIDebugOverlay.ts - AI 调试可视化
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 视野锥、听觉圈、状态 / 行为树标签、导航路径与导航网格、掩体与警报传播连线
+ * 变换每帧同步，其余内容按固定频率刷新，试玩时常开也不影响帧率
+ */
+
+import * as THREE from 'three';
+import { AIManager } from './AIManager';
+import { AICharacter } from './AICharacter';
+import { PerceptionSystem } from './Perception';
+import type { NavMesh } from './NavMesh';
+import { Core, SystemPhase, DEBUG } from '../../core';
+
+// ============== 类型 ==============
+export type AIDebugLayer = 'vision' | 'hearing' | 'labels' | 'paths' | 'navmesh' | 'cover' | 'alerts';
+
+export const AI_DEBUG_LAYERS: AIDebugLayer[] = ['vision', 'hearing', 'labels', 'paths', 'navmesh', 'cover', 'alerts'];
+
+// 单个敌人的可视化对象，按 id 复用
+interface EnemyVisual {
+  root: THREE.Group;
+  vision: THREE.Mesh;
+  visionKey: string;
+  hearing: THREE.Mesh;
+  hearingRange: number;
+  path: THREE.Line;
+  coverLine: THREE.Line;
+  label: HTMLElement;
+  labelText: string;
+}
+
+// 文本与路径等的刷新频率 (Hz)
+const REFRESH_RATE = 10;
+// 路径最多绘制的节点数
+const MAX_PATH_POINTS = 64;
+// 标签在敌人头顶的高度
+const LABEL_HEIGHT = 2.2;
+// 线条离地高度，避免与地面 z-fighting
+const LINE_HEIGHT = 0.1;
+// 顶点缓冲的初始容量 (顶点数)，不足时翻倍
+const MIN_BUFFER_VERTICES = 64;
+
+const COLORS = {
+  vision: 0xff4444,
+  hearing: 0x44ff88,
+  path: 0x00ffff,
+  navBlocked: 0x334466,
+  navCarved: 0xff6600,
+  cover: 0xffaa00,
+  coverSpot: 0x886633,
+  alert: 0xff00ff,
+};
+
+// ============== AI 调试层 ==============
+export class AIDebugOverlay {
+  private core: Core = Core.getInstance();
+
+  private root: THREE.Group = new THREE.Group();
+  private visuals: Map<string, EnemyVisual> = new Map();
+  private layers: Record<AIDebugLayer, boolean>;
+  private filter: string | null = null;
+  private visible: boolean = false;
+
+  // 共享资源
+  private coneGeometries: Map<string, THREE.BufferGeometry> = new Map();
+  private ringGeometries: Map<number, THREE.BufferGeometry> = new Map();
+  private visionMaterial: THREE.Material;
+  private hearingMaterial: THREE.Material;
+  private pathMaterial = new THREE.LineBasicMaterial({ color: COLORS.path });
+  private coverLineMaterial = new THREE.LineBasicMaterial({ color: COLORS.cover });
+  private alertMaterial = new THREE.LineBasicMaterial({ color: COLORS.alert });
+  private coverSpotMaterial = new THREE.PointsMaterial({ color: COLORS.coverSpot, size: 0.4 });
+  private navBlockedMaterial = new THREE.PointsMaterial({ color: COLORS.navBlocked, size: 0.25 });
+  private navCarvedMaterial = new THREE.PointsMaterial({ color: COLORS.navCarved, size: 0.25 });
+
+  // 全局对象
+  private coverSpots: THREE.Points;
+  private alertLines: THREE.LineSegments;
+  private navBlocked: THREE.Points;
+  private navCarved: THREE.Points;
+  // 导航网格只在更换或障碍物变化后重建
+  private drawnNavMesh: NavMesh | null = null;
+  private drawnNavVersion: number = -1;
+
+  private labelContainer: HTMLElement;
+  private unsubscribers: Array<() => void> = [];
+
+  // 临时向量
+  private tempVector: THREE.Vector3 = new THREE.Vector3();
+
+  constructor(
+    private scene: THREE.Scene,
+    private camera: THREE.Camera,
+    private ai: AIManager = AIManager.getInstance(),
+    parent: HTMLElement = document.body
+  ) {
+    this.layers = {
+      vision: DEBUG.SHOW_SENSES,
+      hearing: DEBUG.SHOW_SENSES,
+      labels: true,
+      paths: DEBUG.SHOW_PATHS,
+      navmesh: DEBUG.SHOW_PATHS,
+      cover: true,
+      alerts: true,
+    };
+
+    // 材质取自感知系统的默认可视化，保证与其他调试工具一致
+    const templateCone = PerceptionSystem.createVisionConeMesh(1, Math.PI / 2, COLORS.vision);
+    const templateRing = PerceptionSystem.createHearingCircleMesh(1, COLORS.hearing);
+    this.visionMaterial = templateCone.material as THREE.Material;
+    this.hearingMaterial = templateRing.material as THREE.Material;
+    templateCone.geometry.dispose();
+    templateRing.geometry.dispose();
+
+    this.coverSpots = new THREE.Points(new THREE.BufferGeometry(), this.coverSpotMaterial);
+    this.alertLines = new THREE.LineSegments(new THREE.BufferGeometry(), this.alertMaterial);
+    this.navBlocked = new THREE.Points(new THREE.BufferGeometry(), this.navBlockedMaterial);
+    this.navCarved = new THREE.Points(new THREE.BufferGeometry(), this.navCarvedMaterial);
+    this.root.add(this.coverSpots, this.alertLines, this.navBlocked, this.navCarved);
+    this.root.name = 'ai-debug-overlay';
+    this.root.visible = false;
+
+    this.labelContainer = document.createElement('div');
+    this.labelContainer.className = 'ai-debug-labels';
+    this.labelContainer.style.display = 'none';
+    parent.appendChild(this.labelContainer);
+    this.addStyles();
+
+    this.scene.add(this.root);
+
+    // 内容按固定频率刷新，变换与标签每帧同步
+    this.unsubscribers.push(this.core.scheduler.register({
+      name: 'aiDebugOverlay.refresh',
+      phase: SystemPhase.RENDER,
+      tickRate: REFRESH_RATE,
+      order: -2,
+      runWhilePaused: true,
+      update: () => {
+        if (this.visible) this.refresh();
+      },
+    }));
+    this.unsubscribers.push(this.core.scheduler.register({
+      name: 'aiDebugOverlay.sync',
+      phase: SystemPhase.RENDER,
+      order: -1,
+      runWhilePaused: true,
+      update: () => {
+        if (this.visible) this.syncTransforms();
+      },
+    }));
+  }
+
+  // ============== 显示控制 ==============
+  public show(): void {
+    this.visible = true;
+    this.root.visible = true;
+    this.labelContainer.style.display = '';
+    this.refresh();
+    this.syncTransforms();
+  }
+
+  public hide(): void {
+    this.visible = false;
+    this.root.visible = false;
+    this.labelContainer.style.display = 'none';
+  }
+
+  public toggle(): void {
+    if (this.visible) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  public isVisible(): boolean {
+    return this.visible;
+  }
+
+  public setLayerVisible(layer: AIDebugLayer, visible: boolean): void {
+    this.layers[layer] = visible;
+    if (this.visible) this.refresh();
+  }
+
+  public getLayers(): Readonly<Record<AIDebugLayer, boolean>> {
+    return { ...this.layers };
+  }
+
+  // 仅显示 id 包含 filter 的敌人，null 显示全部
+  public setFilter(filter: string | null): void {
+    this.filter = filter ? filter.toLowerCase() : null;
+    if (this.visible) this.refresh();
+  }
+
+  public getFilter(): string | null {
+    return this.filter;
+  }
+
+  // ============== 刷新 ==============
+  public refresh(): void {
+    const enemies = this.ai.getEnemies().filter(enemy => this.matches(enemy.id));
+    const seen = new Set<string>();
+
+    enemies.forEach(enemy => {
+      seen.add(enemy.id);
+      const visual = this.visuals.get(enemy.id) ?? this.createVisual(enemy);
+      const alive = enemy.isAlive;
+
+      this.updateSenses(visual, enemy);
+      visual.vision.visible = this.layers.vision && alive;
+      visual.hearing.visible = this.layers.hearing && alive;
+
+      visual.path.visible = this.layers.paths && alive && enemy.navigationPath.length > 0;
+      if (visual.path.visible) {
+        this.setLinePoints(visual.path, [enemy.position, ...enemy.navigationPath.slice(0, MAX_PATH_POINTS)]);
+      }
+
+      const cover = enemy.coverState.targetCover ?? enemy.coverState.currentCover;
+      visual.coverLine.visible = this.layers.cover && alive && !!cover;
+      if (cover) this.setLinePoints(visual.coverLine, [enemy.position, cover.position]);
+
+      this.updateLabel(visual, enemy);
+    });
+
+    // 移除已不存在或被过滤的敌人
+    this.visuals.forEach((visual, id) => {
+      if (!seen.has(id)) this.removeVisual(id);
+    });
+
+    this.updateCoverSpots();
+    this.updateAlertLinks();
+    this.updateNavMesh();
+  }
+
+  // 每帧同步位置与朝向，避免移动中的敌人与可视化脱节
+  private syncTransforms(): void {
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+
+    this.visuals.forEach((visual, id) => {
+      const enemy = this.ai.getEnemy(id);
+      if (!enemy) return;
+
+      visual.root.position.copy(enemy.position);
+      visual.vision.rotation.y = enemy.rotation.y;
+
+      if (!this.layers.labels || !enemy.isAlive) {
+        visual.label.style.display = 'none';
+        return;
+      }
+
+      this.tempVector.copy(enemy.position);
+      this.tempVector.y += LABEL_HEIGHT;
+      this.tempVector.project(this.camera);
+
+      // 相机背后或视口外不显示
+      if (this.tempVector.z > 1 || Math.abs(this.tempVector.x) > 1 || Math.abs(this.tempVector.y) > 1) {
+        visual.label.style.display = 'none';
+        return;
+      }
+
+      visual.label.style.display = '';
+      visual.label.style.transform =
+        `translate(${(this.tempVector.x + 1) / 2 * width}px, ${(1 - this.tempVector.y) / 2 * height}px) translate(-50%, -100%)`;
+    });
+  }
+
+  // ============== 敌人可视化 ==============
+  private createVisual(enemy: AICharacter): EnemyVisual {
+    const root = new THREE.Group();
+    root.name = `ai-debug-${enemy.id}`;
+
+    // 视野锥：尖端在敌人处，沿 +Z (敌人前方) 展开
+    const vision = new THREE.Mesh(undefined, this.visionMaterial);
+    const hearing = new THREE.Mesh(undefined, this.hearingMaterial);
+    hearing.rotation.x = -Math.PI / 2;
+    hearing.position.y = LINE_HEIGHT;
+
+    const path = new THREE.Line(new THREE.BufferGeometry(), this.pathMaterial);
+    const coverLine = new THREE.Line(new THREE.BufferGeometry(), this.coverLineMaterial);
+    // 线条使用世界坐标，不随 root 移动
+    this.root.add(path, coverLine);
+    root.add(vision, hearing);
+    this.root.add(root);
+
+    const label = document.createElement('div');
+    label.className = 'ai-debug-label';
+    this.labelContainer.appendChild(label);
+
+    const visual: EnemyVisual = {
+      root, vision, visionKey: '', hearing, hearingRange: -1, path, coverLine, label, labelText: '',
+    };
+    this.visuals.set(enemy.id, visual);
+    return visual;
+  }
+
+  // 感知参数变化时 (难度缩放等) 更换几何体
+  private updateSenses(visual: EnemyVisual, enemy: AICharacter): void {
+    const { viewDistance, viewAngle, hearingRange } = enemy.perceptionConfig;
+
+    const visionKey = `${viewDistance.toFixed(2)}:${viewAngle.toFixed(3)}`;
+    if (visual.visionKey !== visionKey) {
+      visual.visionKey = visionKey;
+      visual.vision.geometry = this.getConeGeometry(visionKey, viewDistance, viewAngle);
+    }
+
+    if (visual.hearingRange !== hearingRange) {
+      visual.hearingRange = hearingRange;
+      visual.hearing.geometry = this.getRingGeometry(hearingRange);
+    }
+  }
+
+  private updateLabel(visual: EnemyVisual, enemy: AICharacter): void {
+    const path = enemy.behaviorTree?.getActivePath() ?? [];
+    // 省略根节点，只保留最后几层
+    const nodes = path.slice(1).slice(-3).join(' › ');
+    const text = `${enemy.id} [${enemy.state}]${nodes ? `\n${nodes}` : ''}`;
+
+    // 文本未变时不触碰 DOM
+    if (visual.labelText !== text) {
+      visual.labelText = text;
+      visual.label.textContent = text;
+    }
+  }
+
+  private removeVisual(id: string): void {
+    const visual = this.visuals.get(id);
+    if (!visual) return;
+
+    this.root.remove(visual.root, visual.path, visual.coverLine);
+    visual.path.geometry.dispose();
+    visual.coverLine.geometry.dispose();
+    visual.label.remove();
+    this.visuals.delete(id);
+  }
+
+  // ============== 全局可视化 ==============
+  private updateCoverSpots(): void {
+    this.coverSpots.visible = this.layers.cover;
+    if (!this.layers.cover) return;
+
+    const positions = this.ai.getCoverSystem().getDebugCovers()
+      .flatMap(cover => [cover.position[0], cover.position[1] + LINE_HEIGHT, cover.position[2]]);
+    this.writePositions(this.coverSpots.geometry, positions);
+  }
+
+  private updateAlertLinks(): void {
+    this.alertLines.visible = this.layers.alerts;
+    if (!this.layers.alerts) return;
+
+    const positions: number[] = [];
+    this.ai.getAlertLinks().forEach(link => {
+      if (!this.matches(link.sourceId) && !this.matches(link.targetId)) return;
+      const source = this.ai.getEnemy(link.sourceId);
+      const target = this.ai.getEnemy(link.targetId);
+      if (!source || !target) return;
+
+      positions.push(
+        source.position.x, source.position.y + LINE_HEIGHT, source.position.z,
+        target.position.x, target.position.y + LINE_HEIGHT, target.position.z
+      );
+    });
+    this.writePositions(this.alertLines.geometry, positions);
+  }
+
+  // 静态障碍与动态挖洞分色显示
+  private updateNavMesh(): void {
+    const navMesh = this.ai.getNavMesh();
+    this.navBlocked.visible = this.layers.navmesh && !!navMesh;
+    this.navCarved.visible = this.layers.navmesh && !!navMesh;
+    if (!this.layers.navmesh || !navMesh) return;
+    if (navMesh === this.drawnNavMesh && navMesh.getVersion() === this.drawnNavVersion) return;
+
+    if (navMesh !== this.drawnNavMesh) {
+      this.setPointPositions(this.navBlocked, navMesh.getBlockedCells());
+    }
+    this.setPointPositions(this.navCarved, navMesh.getBlockedCells(true));
+    this.drawnNavMesh = navMesh;
+    this.drawnNavVersion = navMesh.getVersion();
+  }
+
+  // ============== 工具 ==============
+  private matches(id: string): boolean {
+    return !this.filter || id.toLowerCase().includes(this.filter);
+  }
+
+  private setPointPositions(points: THREE.Points, positions: number[]): void {
+    for (let i = 1; i < positions.length; i += 3) positions[i] += LINE_HEIGHT;
+    this.writePositions(points.geometry, positions);
+  }
+
+  private setLinePoints(line: THREE.Line, points: THREE.Vector3[]): void {
+    const positions: number[] = [];
+    points.forEach(point => positions.push(point.x, point.y + LINE_HEIGHT, point.z));
+    this.writePositions(line.geometry, positions);
+  }
+
+  // 复用已上传的顶点缓冲，只更新内容与绘制范围；容量不足时先释放旧缓冲再扩容
+  private writePositions(geometry: THREE.BufferGeometry, positions: number[]): void {
+    let attribute = geometry.getAttribute('position') as THREE.BufferAttribute | undefined;
+    if (!attribute || attribute.array.length < positions.length) {
+      const vertices = Math.max(MIN_BUFFER_VERTICES, positions.length / 3, (attribute?.count ?? 0) * 2);
+      geometry.dispose();
+      attribute = new THREE.BufferAttribute(new Float32Array(vertices * 3), 3);
+      attribute.setUsage(THREE.DynamicDrawUsage);
+      geometry.setAttribute('position', attribute);
+    }
+
+    (attribute.array as Float32Array).set(positions);
+    attribute.needsUpdate = true;
+    geometry.setDrawRange(0, positions.length / 3);
+    // 内容变化后按需重新计算包围球，避免被视锥剔除
+    geometry.boundingSphere = null;
+  }
+
+  private getConeGeometry(key: string, viewDistance: number, viewAngle: number): THREE.BufferGeometry {
+    let geometry = this.coneGeometries.get(key);
+    if (!geometry) {
+      const cone = PerceptionSystem.createVisionConeMesh(viewDistance, viewAngle);
+      (cone.material as THREE.Material).dispose();
+      geometry = cone.geometry;
+      // ConeGeometry 尖端朝 +Y：转到 -Z 后平移，使尖端位于原点、底面朝 +Z
+      geometry.rotateX(-Math.PI / 2);
+      geometry.translate(0, 0, viewDistance / 2);
+      this.coneGeometries.set(key, geometry);
+    }
+    return geometry;
+  }
+
+  private getRingGeometry(radius: number): THREE.BufferGeometry {
+    let geometry = this.ringGeometries.get(radius);
+    if (!geometry) {
+      const ring = PerceptionSystem.createHearingCircleMesh(radius);
+      (ring.material as THREE.Material).dispose();
+      geometry = ring.geometry;
+      this.ringGeometries.set(radius, geometry);
+    }
+    return geometry;
+  }
+
+  // ============== 清理 ==============
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+
+    [...this.visuals.keys()].forEach(id => this.removeVisual(id));
+    this.coneGeometries.forEach(geometry => geometry.dispose());
+    this.ringGeometries.forEach(geometry => geometry.dispose());
+    this.coneGeometries.clear();
+    this.ringGeometries.clear();
+
+    this.coverSpots.geometry.dispose();
+    this.alertLines.geometry.dispose();
+    this.navBlocked.geometry.dispose();
+    this.navCarved.geometry.dispose();
+    [
+      this.visionMaterial, this.hearingMaterial, this.pathMaterial,
+      this.coverLineMaterial, this.alertMaterial, this.coverSpotMaterial,
+      this.navBlockedMaterial, this.navCarvedMaterial,
+    ].forEach(material => material.dispose());
+
+    this.scene.remove(this.root);
+    this.labelContainer.remove();
+  }
+
+  // ============== 样式 ==============
+  private addStyles(): void {
+    if (document.getElementById('ai-debug-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'ai-debug-styles';
+    style.textContent = `
+      .ai-debug-labels {
+        position: fixed;
+        inset: 0;
+        pointer-events: none;
+        overflow: hidden;
+        z-index: 900;
+      }
+      .ai-debug-label {
+        position: absolute;
+        top: 0;
+        left: 0;
+        padding: 2px 6px;
+        background: rgba(0, 0, 0, 0.6);
+        border: 1px solid #ff00ff;
+        color: #fff;
+        font: 11px monospace;
+        white-space: pre;
+        text-align: center;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+}
+
+export default AIDebugOverlay;
@@ -5,11 +5,29 @@
  */
 
 import * as THREE from 'three';
-import { AICharacter, AIState } from './AICharacter';
+import { AICharacter } from './AICharacter';
 import { PerceptionSystem } from './Perception';
+import type { PerceptionResult } from './Perception';
 import { CoverSystem } from './CoverSystem';
 import { BehaviorTree } from './BehaviorTree';
-import { GAME_CONFIG } from '../../core/constants';
+import { BlackboardRegistry } from './Blackboard';
+import { behaviorTrees } from './DefaultBehaviorTrees';
+import type { NavMesh } from './NavMesh';
+import { GAME_CONFIG, AIState } from '../../core/constants';
+import { getGameClock } from '../../core/Clock';
+import type { Unsubscribe } from '../../core/EventBus';
+import type { RuntimeConfig } from '../../core/RuntimeConfig';
+import type { DifficultyManager } from '../level/DifficultyManager';
+
+// ============== 警报传播记录 (调试) ==============
+export interface AlertLink {
+  sourceId: string;
+  targetId: string;
+  time: number;
+}
+
+// 警报连线保留时长 (毫秒)
+const ALERT_LINK_LIFETIME = 3000;
 
 // ============== AI 调度器 ==============
 export class AIManager {
@@ -31,13 +49,28 @@ export class AIManager {
   // 掩体系统
   private coverSystem: CoverSystem;
   
+  // 难度缩放 (可选)
+  private difficulty: DifficultyManager | null = null;
+  
+  // 个体 / 小队 / 全局黑板
+  private blackboards: BlackboardRegistry = new BlackboardRegistry();
+  
+  // 导航网格 (所有敌人共享)
+  private navMesh: NavMesh | null = null;
+  
+  // 最近的警报传播，键为 source→target
+  private alertLinks: Map<string, AlertLink> = new Map();
+  
   // 玩家引用
   private player: any = null;
-  private playerPosition: THREE.Vector3 = new THREE.Vector3();
+  // 敌人与行为树的追击目标，playerPosition 即其位置
+  private playerTarget: THREE.Object3D = new THREE.Object3D();
+  private playerPosition: THREE.Vector3 = this.playerTarget.position;
   
   // 时间预算
   private timeBudget: number = GAME_CONFIG.AI_TIME_BUDGET_MS;
   private batchSize: number = GAME_CONFIG.AI_BATCH_SIZE;
+  private configUnsubscribe: Unsubscribe | null = null;
   private currentBatchIndex: number = 0;
   
   // LOD 距离阈值
@@ -62,15 +95,58 @@ export class AIManager {
     console.log('[AIManager] 初始化完成');
   }
   
+  public setDifficultyManager(difficulty: DifficultyManager | null): void {
+    this.difficulty = difficulty;
+    this.enemies.forEach(enemy => difficulty?.applyToEnemy(enemy));
+  }
+  
+  // 时间预算与批大小随运行时配置更新
+  public setRuntimeConfig(config: RuntimeConfig | null): void {
+    this.configUnsubscribe?.();
+    this.configUnsubscribe = config?.watch(['AI_TIME_BUDGET_MS', 'AI_BATCH_SIZE'], values => {
+      this.timeBudget = values.AI_TIME_BUDGET_MS;
+      this.batchSize = values.AI_BATCH_SIZE;
+    }) ?? null;
+  }
+  
+  // 关卡载入后设置；已注册的敌人立即改用新网格
+  public setNavMesh(navMesh: NavMesh | null): void {
+    this.navMesh = navMesh;
+    this.enemies.forEach(enemy => enemy.setNavMesh(navMesh));
+  }
+  
   // ============== 注册敌人 ==============
-  public registerEnemy(enemy: AICharacter): void {
+  public registerEnemy(enemy: AICharacter, squadId: string | null = null): void {
     this.enemies.set(enemy.id, enemy);
+    this.difficulty?.applyToEnemy(enemy);
+    enemy.setNavMesh(this.navMesh);
+    enemy.target = this.playerTarget;
+    enemy.behaviorTree?.setBlackboard(this.blackboards.forAgent(enemy.id, squadId));
     console.log(`[AIManager] 注册敌人: ${enemy.id}`);
   }
   
   // ============== 移除敌人 ==============
   public removeEnemy(enemyId: string): void {
+    const enemy = this.enemies.get(enemyId);
+    if (enemy) this.detachEnemy(enemy);
     this.enemies.delete(enemyId);
+    this.blackboards.removeAgent(enemyId);
+  }
+  
+  // 断开敌人与管理器共享资源的引用；已移除的敌人不再参与行为树热重载
+  private detachEnemy(enemy: AICharacter): void {
+    if (enemy.behaviorTree) {
+      enemy.behaviorTree.setBlackboard(null);
+      behaviorTrees.release(enemy.behaviorTree);
+    }
+    enemy.setNavMesh(null);
+    enemy.target = null;
+    this.difficulty?.releaseEnemy(enemy.id);
+  }
+  
+  // 同一小队共享 squad 层事实 (如目标最后出现位置)
+  public setSquad(enemyId: string, squadId: string | null): void {
+    this.blackboards.setSquad(enemyId, squadId);
   }
   
   // ============== 更新玩家位置 ==============
@@ -80,7 +156,10 @@ export class AIManager {
   
   // ============== 主更新循环 ==============
   public update(deltaTime: number): void {
-    const startTime = performance.now();
+    const startTime = getGameClock().now();
+    
+    // 清理过期事实 (触发行为树观察者)
+    this.blackboards.prune();
     
     // 排序: 按距离/重要性
     const sortedEnemies = this.sortEnemiesByPriority();
@@ -89,7 +168,7 @@ export class AIManager {
     let processed = 0;
     for (let i = this.currentBatchIndex; i < sortedEnemies.length; i++) {
       if (processed >= this.batchSize) break;
-      if (performance.now() - startTime > this.timeBudget) break;
+      if (getGameClock().now() - startTime > this.timeBudget) break;
       
       const enemy = sortedEnemies[i];
       this.updateEnemy(enemy, deltaTime);
@@ -103,7 +182,7 @@ export class AIManager {
     this.updateGroupAI();
     
     // 更新性能统计
-    this.updateTime = performance.now() - startTime;
+    this.updateTime = getGameClock().now() - startTime;
     this.activeCount = this.enemies.size;
   }
   
@@ -130,6 +209,7 @@ export class AIManager {
     // 1. 感知更新
     const perceptionResult = this.perception.update(enemy, this.playerPosition);
     enemy.perception = perceptionResult;
+    this.publishPerception(enemy, perceptionResult);
     
     // 2. 掩体决策
     if (enemy.canUseCover) {
@@ -139,7 +219,7 @@ export class AIManager {
     // 3. 行为树更新
     if (enemy.behaviorTree) {
       enemy.behaviorTree.setContext({
-        targetPosition: this.playerPosition,
+        target: this.playerTarget,
         hasLineOfSight: perceptionResult.hasLineOfSight,
         distanceToTarget: perceptionResult.distanceToTarget,
         isInCover: enemy.isInCover,
@@ -155,6 +235,13 @@ export class AIManager {
     enemy.update(deltaTime);
   }
   
+  private publishPerception(enemy: AICharacter, result: PerceptionResult): void {
+    const blackboard = this.blackboards.getAgent(enemy.id);
+    if (blackboard) {
+      this.perception.publish(result, blackboard, this.playerPosition, enemy.perceptionConfig);
+    }
+  }
+  
   // ============== 简化 AI 更新 ==============
   private updateEnemySimplified(enemy: AICharacter, deltaTime: number): void {
     if (!enemy.isAlive) return;
@@ -162,10 +249,11 @@ export class AIManager {
     // 仅感知和基本状态更新
     const perceptionResult = this.perception.update(enemy, this.playerPosition);
     enemy.perception = perceptionResult;
+    this.publishPerception(enemy, perceptionResult);
     
     // 简化移动
     if (perceptionResult.hasLineOfSight) {
-      enemy.moveToward(this.playerPosition, deltaTime);
+      enemy.navigateTo(this.playerPosition, deltaTime);
     }
     
     enemy.update(deltaTime);
@@ -202,6 +290,11 @@ export class AIManager {
         // 转换为警戒状态
         enemy.transitionTo(AIState.ALERT);
         enemy.setAlertTarget(this.playerPosition);
+        this.alertLinks.set(`${sourceEnemy.id}→${enemy.id}`, {
+          sourceId: sourceEnemy.id,
+          targetId: enemy.id,
+          time: getGameClock().now(),
+        });
         
         // 战术分配
         if (enemy.type === 'flanker') {
@@ -261,11 +354,62 @@ export class AIManager {
   
   // ============== 清理 ==============
   public clear(): void {
+    this.enemies.forEach(enemy => this.detachEnemy(enemy));
     this.enemies.clear();
+    this.blackboards.clear();
+    this.alertLinks.clear();
     this.currentBatchIndex = 0;
   }
   
   // ============== 调试 ==============
+  public getEnemies(): AICharacter[] {
+    return Array.from(this.enemies.values());
+  }
+  
+  public getEnemy(id: string): AICharacter | undefined {
+    return this.enemies.get(id);
+  }
+  
+  // 射线命中的物体 (或其子物体) 所属的敌人
+  public getEnemyByObject(object: THREE.Object3D): AICharacter | undefined {
+    for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+      for (const enemy of this.enemies.values()) {
+        if (enemy.mesh === current) return enemy;
+      }
+    }
+    return undefined;
+  }
+  
+  public getCoverSystem(): CoverSystem {
+    return this.coverSystem;
+  }
+  
+  public getPerceptionSystem(): PerceptionSystem {
+    return this.perception;
+  }
+  
+  public getBlackboards(): BlackboardRegistry {
+    return this.blackboards;
+  }
+  
+  public getNavMesh(): NavMesh | null {
+    return this.navMesh;
+  }
+  
+  // 仅返回仍在保留时长内的连线
+  public getAlertLinks(): AlertLink[] {
+    const now = getGameClock().now();
+    const links: AlertLink[] = [];
+    this.alertLinks.forEach((link, key) => {
+      if (now - link.time > ALERT_LINK_LIFETIME) {
+        this.alertLinks.delete(key);
+      } else {
+        links.push(link);
+      }
+    });
+    return links;
+  }
+  
   public getDebugInfo(): any {
     const enemies: any[] = [];
     this.enemies.forEach(enemy => {
@@ -4,6 +4,9 @@
  */
 
 import * as THREE from 'three';
+import { getGameClock } from '../../core/Clock';
+import type { Unsubscribe } from '../../core/EventBus';
+import type { AgentBlackboard, BlackboardKey } from './Blackboard';
 
 // ============== 节点类型定义 ==============
 export enum NodeType {
@@ -32,8 +35,59 @@ export interface BTNodeConfig {
 export interface BTNode {
   type: NodeType;
   name: string;
+  // 最近一次决定本节点结果的子节点 (调试显示用)
+  activeChild?: BTNode | null;
   execute(context: BTContext): NodeStatus;
   reset(): void;
+  // 中断仍在运行的节点 (收尾后重置)；未实现时等同 reset
+  abort?(context: BTContext): void;
+}
+
+export function abortNode(node: BTNode, context: BTContext): void {
+  if (node.abort) {
+    node.abort(context);
+  } else {
+    node.reset();
+  }
+}
+
+// ============== 执行记录 ==============
+// 每次 tick 中被访问节点的结果，供调试器回放
+export interface BTTickRecorder {
+  record(root: BTNode, visited: Map<BTNode, NodeStatus>, status: NodeStatus): void;
+}
+
+// 当前 tick 的记录表；仅在挂接了记录器的树 update 期间非空 (tick 同步执行，不会交错)
+let activeTrace: Map<BTNode, NodeStatus> | null = null;
+
+// 组合 / 装饰节点执行子节点统一经过此处
+export function executeNode(node: BTNode, context: BTContext): NodeStatus {
+  const status = node.execute(context);
+  activeTrace?.set(node, status);
+  return status;
+}
+
+// 本帧运行中的子节点与上一帧不同时，中断上一帧的分支 (如更高优先级分支接管)
+function interruptPrevious(previous: BTNode | null, next: BTNode | null, context: BTContext): BTNode | null {
+  if (previous && previous !== next) abortNode(previous, context);
+  return next;
+}
+
+// ============== 遍历 ==============
+export function childrenOf(node: BTNode): BTNode[] {
+  if ('children' in node && Array.isArray(node.children)) return node.children as BTNode[];
+  if ('child' in node && node.child) return [node.child as BTNode];
+  return [];
+}
+
+export function visitNodes(node: BTNode, visit: (node: BTNode) => void): void {
+  visit(node);
+  childrenOf(node).forEach(child => visitNodes(child, visit));
+}
+
+function containsNode(root: BTNode, target: BTNode): boolean {
+  if (root === target) return true;
+  return childrenOf(root).some(child => containsNode(child, target));
 }
 
 // ============== 行为树上下文 ==============
@@ -57,6 +111,7 @@ export interface BTContext {
   hasLineOfSight: boolean;
   distanceToTarget: number;
   isInCover: boolean;
+  isUnderFire: boolean;
   
   // 寻路数据
   patrolPoints: THREE.Vector3[];
@@ -65,6 +120,9 @@ export interface BTContext {
   
   // 自定义数据
   custom: Record<string, unknown>;
+
+  // 个体 / 小队 / 全局共享事实
+  blackboard: AgentBlackboard | null;
 }
 
 // ============== 序列节点 - 顺序执行子节点 ==============
@@ -72,6 +130,8 @@ export class BTSequence implements BTNode {
   type = NodeType.SEQUENCE;
   name: string;
   children: BTNode[];
+  activeChild: BTNode | null = null;
+  private running: BTNode | null = null;
 
   constructor(name: string, children: BTNode[]) {
     this.name = name;
@@ -79,21 +139,39 @@ export class BTSequence implements BTNode {
   }
 
   execute(context: BTContext): NodeStatus {
+    let status = NodeStatus.SUCCESS;
+    let running: BTNode | null = null;
+
     for (const child of this.children) {
-      const result = child.execute(context);
+      this.activeChild = child;
+      const result = executeNode(child, context);
       if (result === NodeStatus.FAILURE) {
-        return NodeStatus.FAILURE;
+        status = NodeStatus.FAILURE;
+        break;
       }
       if (result === NodeStatus.RUNNING) {
-        return NodeStatus.RUNNING;
+        status = NodeStatus.RUNNING;
+        running = child;
+        break;
       }
     }
-    return NodeStatus.SUCCESS;
+
+    this.running = interruptPrevious(this.running, running, context);
+    return status;
   }
 
   reset(): void {
+    this.activeChild = null;
+    this.running = null;
     this.children.forEach(child => child.reset());
   }
+
+  // 只中断运行中的分支，其余子节点的冷却等状态保留
+  abort(context: BTContext): void {
+    if (this.running) abortNode(this.running, context);
+    this.running = null;
+    this.activeChild = null;
+  }
 }
 
 // ============== 选择节点 - 优先级选择 ==============
@@ -101,6 +179,8 @@ export class BTSelector implements BTNode {
   type = NodeType.SELECTOR;
   name: string;
   children: BTNode[];
+  activeChild: BTNode | null = null;
+  private running: BTNode | null = null;
 
   constructor(name: string, children: BTNode[]) {
     this.name = name;
@@ -108,21 +188,124 @@ export class BTSelector implements BTNode {
   }
 
   execute(context: BTContext): NodeStatus {
+    let status = NodeStatus.FAILURE;
+    let running: BTNode | null = null;
+
     for (const child of this.children) {
-      const result = child.execute(context);
+      this.activeChild = child;
+      const result = executeNode(child, context);
       if (result === NodeStatus.SUCCESS) {
-        return NodeStatus.SUCCESS;
+        status = NodeStatus.SUCCESS;
+        break;
       }
       if (result === NodeStatus.RUNNING) {
-        return NodeStatus.RUNNING;
+        status = NodeStatus.RUNNING;
+        running = child;
+        break;
       }
     }
-    return NodeStatus.FAILURE;
+
+    this.running = interruptPrevious(this.running, running, context);
+    return status;
   }
 
   reset(): void {
+    this.activeChild = null;
+    this.running = null;
     this.children.forEach(child => child.reset());
   }
+
+  abort(context: BTContext): void {
+    if (this.running) abortNode(this.running, context);
+    this.running = null;
+    this.activeChild = null;
+  }
+}
+
+// ============== 并行节点 - 同时执行子节点 ==============
+export enum ParallelPolicy {
+  REQUIRE_ONE = 'requireOne',   // 任一子节点达成即可
+  REQUIRE_ALL = 'requireAll',   // 需全部子节点达成
+}
+
+// 已完成的子节点保留结果不再执行，直到本节点结束；结束时中断仍在运行的子节点
+export class BTParallel implements BTNode {
+  type = NodeType.PARALLEL;
+  name: string;
+  children: BTNode[];
+  successPolicy: ParallelPolicy;
+  failurePolicy: ParallelPolicy;
+  activeChild: BTNode | null = null;
+  private results: Map<BTNode, NodeStatus> = new Map();
+
+  constructor(
+    name: string,
+    children: BTNode[],
+    successPolicy: ParallelPolicy = ParallelPolicy.REQUIRE_ALL,
+    failurePolicy: ParallelPolicy = ParallelPolicy.REQUIRE_ONE
+  ) {
+    this.name = name;
+    this.children = children;
+    this.successPolicy = successPolicy;
+    this.failurePolicy = failurePolicy;
+  }
+
+  execute(context: BTContext): NodeStatus {
+    let successCount = 0;
+    let failureCount = 0;
+    this.activeChild = null;
+
+    for (const child of this.children) {
+      let result = this.results.get(child);
+      if (result === undefined) {
+        result = executeNode(child, context);
+        if (result !== NodeStatus.RUNNING) this.results.set(child, result);
+      }
+
+      if (result === NodeStatus.SUCCESS) successCount++;
+      if (result === NodeStatus.FAILURE) failureCount++;
+      if (result === NodeStatus.RUNNING && !this.activeChild) this.activeChild = child;
+    }
+
+    const total = this.children.length;
+    // 同一帧两种策略都满足时以失败为准
+    if (this.isMet(this.failurePolicy, failureCount, total)) {
+      this.finish(context);
+      return NodeStatus.FAILURE;
+    }
+    if (this.isMet(this.successPolicy, successCount, total)) {
+      this.finish(context);
+      return NodeStatus.SUCCESS;
+    }
+    // 全部结束但未满足任何策略 (如成功需全部、失败也需全部)
+    if (successCount + failureCount === total) {
+      this.finish(context);
+      return NodeStatus.FAILURE;
+    }
+    return NodeStatus.RUNNING;
+  }
+
+  private isMet(policy: ParallelPolicy, count: number, total: number): boolean {
+    return policy === ParallelPolicy.REQUIRE_ONE ? count > 0 : count === total;
+  }
+
+  private finish(context: BTContext): void {
+    this.children.forEach(child => {
+      if (!this.results.has(child)) abortNode(child, context);
+    });
+    this.results.clear();
+  }
+
+  reset(): void {
+    this.activeChild = null;
+    this.results.clear();
+    this.children.forEach(child => child.reset());
+  }
+
+  abort(context: BTContext): void {
+    this.finish(context);
+    this.activeChild = null;
+  }
 }
 
 // ============== 条件节点 - 判断条件 ==============
@@ -154,11 +337,14 @@ export class BTAction implements BTNode {
   type = NodeType.ACTION;
   name: string;
   action: ActionFn;
+  // 运行中被中断时的收尾 (如结束引导攻击)
+  onAbort?: (context: BTContext) => void;
   private lastStatus: NodeStatus = NodeStatus.SUCCESS;
 
-  constructor(name: string, action: ActionFn) {
+  constructor(name: string, action: ActionFn, onAbort?: (context: BTContext) => void) {
     this.name = name;
     this.action = action;
+    this.onAbort = onAbort;
   }
 
   execute(context: BTContext): NodeStatus {
@@ -169,6 +355,11 @@ export class BTAction implements BTNode {
   reset(): void {
     this.lastStatus = NodeStatus.SUCCESS;
   }
+
+  abort(context: BTContext): void {
+    if (this.lastStatus === NodeStatus.RUNNING) this.onAbort?.(context);
+    this.reset();
+  }
 }
 
 // ============== 装饰器节点 ==============
@@ -178,29 +369,75 @@ export enum DecoratorType {
   TIMEOUT = 'timeout',        // 超时限制
   SUCCESS_RATE = 'success',   // 强制成功
   FAILURE_RATE = 'failure',   // 强制失败
+  COOLDOWN = 'cooldown',      // 结束后冷却
+  RETRY = 'retry',            // 失败后重试
+  WHILE = 'while',            // 条件成立期间运行
 }
 
+// 各装饰器读取的 params (时间单位为秒)：
+//   TIMEOUT  { duration } 运行超过时限则中断子节点并失败
+//   COOLDOWN { duration } 子节点结束 (或被中断) 后的冷却期内直接失败
+//   RETRY    { attempts } 子节点失败时重置并重试，共尝试 attempts 次
+//   WHILE    构造时传入 condition，条件不成立时中断子节点并失败
+
 export class BTDecorator implements BTNode {
   type = NodeType.DECORATOR;
   name: string;
   child: BTNode;
   decoratorType: DecoratorType;
   params: Record<string, number>;
+  condition: ConditionFn | null;
+  activeChild: BTNode | null = null;
+
+  // 运行状态
+  private childRunning: boolean = false;
+  private startedAt: number | null = null;   // TIMEOUT
+  private readyAt: number = 0;               // COOLDOWN
+  private failures: number = 0;              // RETRY
 
   constructor(
     name: string,
     decoratorType: DecoratorType,
     child: BTNode,
-    params: Record<string, number> = {}
+    params: Record<string, number> = {},
+    condition: ConditionFn | null = null
   ) {
     this.name = name;
     this.decoratorType = decoratorType;
     this.child = child;
     this.params = params;
+    this.condition = condition;
   }
 
   execute(context: BTContext): NodeStatus {
-    const result = this.child.execute(context);
+    const now = getGameClock().now();
+
+    // 执行子节点之前的拦截
+    switch (this.decoratorType) {
+      case DecoratorType.COOLDOWN:
+        if (now < this.readyAt) return NodeStatus.FAILURE;
+        break;
+
+      case DecoratorType.TIMEOUT:
+        if (this.startedAt === null) this.startedAt = now;
+        if (now - this.startedAt >= (this.params.duration ?? 0) * 1000) {
+          this.interrupt(context);
+          return NodeStatus.FAILURE;
+        }
+        break;
+
+      case DecoratorType.WHILE:
+        if (!this.condition?.(context)) {
+          this.interrupt(context);
+          return NodeStatus.FAILURE;
+        }
+        break;
+    }
+
+    this.activeChild = this.child;
+    const result = executeNode(this.child, context);
+    this.childRunning = result === NodeStatus.RUNNING;
+    if (!this.childRunning) this.onChildFinished(now);
     
     switch (this.decoratorType) {
       case DecoratorType.INVERTER:
@@ -216,14 +453,128 @@ export class BTDecorator implements BTNode {
       case DecoratorType.FAILURE_RATE:
         return NodeStatus.FAILURE;
       
+      case DecoratorType.RETRY:
+        if (result !== NodeStatus.FAILURE) {
+          this.failures = 0;
+          return result;
+        }
+        this.failures++;
+        if (this.failures >= (this.params.attempts ?? 1)) {
+          this.failures = 0;
+          return NodeStatus.FAILURE;
+        }
+        // 下一帧重新开始
+        this.child.reset();
+        return NodeStatus.RUNNING;
+      
       default:
         return result;
     }
   }
 
+  private onChildFinished(now: number): void {
+    this.startedAt = null;
+    if (this.decoratorType === DecoratorType.COOLDOWN) {
+      this.readyAt = now + (this.params.duration ?? 0) * 1000;
+    }
+  }
+
+  // 中断运行中的子节点；冷却从中断时开始计算
+  private interrupt(context: BTContext): void {
+    if (this.childRunning) abortNode(this.child, context);
+    this.childRunning = false;
+    this.failures = 0;
+    this.onChildFinished(getGameClock().now());
+  }
+
   reset(): void {
+    this.activeChild = null;
+    this.childRunning = false;
+    this.startedAt = null;
+    this.readyAt = 0;
+    this.failures = 0;
     this.child.reset();
   }
+
+  abort(context: BTContext): void {
+    if (this.childRunning) {
+      this.interrupt(context);
+    } else {
+      this.startedAt = null;
+      this.failures = 0;
+    }
+    this.activeChild = null;
+  }
+}
+
+// ============== 黑板条件节点 ==============
+// 键变化时由 BehaviorTree 立即重新判断，不必等到下一次 update：
+//   SELF           条件不再成立时中断本节点运行中的子节点
+//   LOWER_PRIORITY 条件变为成立时中断所在选择节点中排在后面的运行分支
+export enum ObserverAbort {
+  NONE = 'none',
+  SELF = 'self',
+  LOWER_PRIORITY = 'lowerPriority',
+  BOTH = 'both',
+}
+
+export type BlackboardPredicate = (value: unknown) => boolean;
+
+export class BTBlackboardCondition implements BTNode {
+  type = NodeType.DECORATOR;
+  name: string;
+  key: BlackboardKey;
+  predicate: BlackboardPredicate;
+  child: BTNode;
+  abortMode: ObserverAbort;
+  activeChild: BTNode | null = null;
+  private childRunning: boolean = false;
+
+  constructor(
+    name: string,
+    key: BlackboardKey,
+    child: BTNode,
+    predicate: BlackboardPredicate = value => value !== undefined,
+    abortMode: ObserverAbort = ObserverAbort.NONE
+  ) {
+    this.name = name;
+    this.key = key;
+    this.child = child;
+    this.predicate = predicate;
+    this.abortMode = abortMode;
+  }
+
+  check(context: BTContext): boolean {
+    return this.predicate(context.blackboard?.get(this.key));
+  }
+
+  isRunning(): boolean {
+    return this.childRunning;
+  }
+
+  execute(context: BTContext): NodeStatus {
+    if (!this.check(context)) {
+      this.abort(context);
+      return NodeStatus.FAILURE;
+    }
+
+    this.activeChild = this.child;
+    const result = executeNode(this.child, context);
+    this.childRunning = result === NodeStatus.RUNNING;
+    return result;
+  }
+
+  reset(): void {
+    this.activeChild = null;
+    this.childRunning = false;
+    this.child.reset();
+  }
+
+  abort(context: BTContext): void {
+    if (this.childRunning) abortNode(this.child, context);
+    this.childRunning = false;
+    this.activeChild = null;
+  }
 }
 
 // ============== 行为树类 ==============
@@ -231,11 +582,14 @@ export class BehaviorTree {
   root: BTNode;
   private context: BTContext;
   private lastStatus: NodeStatus = NodeStatus.SUCCESS;
+  private observerUnsubscribe: Unsubscribe | null = null;
+  private recorder: BTTickRecorder | null = null;
 
   constructor(root: BTNode, initialContext: Partial<BTContext>) {
     this.root = root;
     this.context = this.createDefaultContext();
     Object.assign(this.context, initialContext);
+    this.observeBlackboard();
   }
 
   private createDefaultContext(): BTContext {
@@ -252,10 +606,12 @@ export class BehaviorTree {
       hasLineOfSight: false,
       distanceToTarget: Infinity,
       isInCover: false,
+      isUnderFire: false,
       patrolPoints: [],
       currentPatrolIndex: 0,
       coverSpots: [],
       custom: {},
+      blackboard: null,
     };
   }
 
@@ -264,17 +620,64 @@ export class BehaviorTree {
       return NodeStatus.FAILURE;
     }
 
-    this.lastStatus = this.root.execute(this.context);
+    if (!this.recorder) {
+      this.lastStatus = this.root.execute(this.context);
+      return this.lastStatus;
+    }
+
+    const previous = activeTrace;
+    const visited = new Map<BTNode, NodeStatus>();
+    activeTrace = visited;
+    try {
+      this.lastStatus = executeNode(this.root, this.context);
+    } finally {
+      activeTrace = previous;
+    }
+    this.recorder.record(this.root, visited, this.lastStatus);
     return this.lastStatus;
   }
 
+  // 挂接后每次 update 记录被访问节点的结果，传 null 停止
+  setRecorder(recorder: BTTickRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  getRecorder(): BTTickRecorder | null {
+    return this.recorder;
+  }
+
   reset(): void {
     this.root.reset();
     this.lastStatus = NodeStatus.SUCCESS;
   }
 
+  // 中断运行中的分支 (死亡、被击晕等)，保留冷却等状态
+  abort(): void {
+    abortNode(this.root, this.context);
+    this.lastStatus = NodeStatus.FAILURE;
+  }
+
   setContext(context: Partial<BTContext>): void {
+    const blackboard = this.context.blackboard;
     Object.assign(this.context, context);
+    if (this.context.blackboard !== blackboard) this.observeBlackboard();
+  }
+
+  setBlackboard(blackboard: AgentBlackboard | null): void {
+    this.setContext({ blackboard });
+  }
+
+  // 替换整棵树 (热重载)，重新登记黑板观察者
+  setRoot(root: BTNode): void {
+    abortNode(this.root, this.context);
+    this.root = root;
+    this.reset();
+    this.observeBlackboard();
+  }
+
+  dispose(): void {
+    this.observerUnsubscribe?.();
+    this.observerUnsubscribe = null;
   }
 
   getContext(): BTContext {
@@ -284,50 +687,73 @@ export class BehaviorTree {
   getLastStatus(): NodeStatus {
     return this.lastStatus;
   }
-}
 
-// ============== 工具函数 - 创建常用行为树 ==============
-export function createEnemyBehaviorTree(): BehaviorTree {
-  // 敌人AI行为树结构
-  // 优先级: 低血量撤退 > 发现目标攻击 > 巡逻
-  
-  const root = new BTSelector('root', [
-    // 序列1: 低血量时撤退
-    new BTSequence('retreatWhenLowHealth', [
-      new BTCondition('isHealthLow', (ctx) => ctx.health < ctx.maxHealth * 0.3),
-      new BTAction('retreat', (ctx) => {
-        ctx.self.onRetreat();
-        return NodeStatus.SUCCESS;
-      }),
-    ]),
-    
-    // 序列2: 有视线时攻击
-    new BTSequence('attackWhenVisible', [
-      new BTCondition('hasLineOfSight', (ctx) => ctx.hasLineOfSight),
-      new BTAction('approach', (ctx) => {
-        ctx.self.onApproachTarget(ctx.target!);
-        return NodeStatus.RUNNING;
-      }),
-      new BTAction('attack', (ctx) => {
-        ctx.self.onAttack(ctx.target!);
-        return NodeStatus.SUCCESS;
-      }),
-    ]),
-    
-    // 默认: 巡逻
-    new BTAction('patrol', (ctx) => {
-      ctx.self.onPatrol();
-      return NodeStatus.SUCCESS;
-    }),
-  ]);
-
-  return new BehaviorTree(root, {
-    custom: {
-      attackRange: 20,
-      retreatHealthThreshold: 0.3,
-      patrolWaitTime: 2.0,
-    },
-  });
+  // 根节点到最近执行的叶节点的名称路径
+  getActivePath(): string[] {
+    const path: string[] = [];
+    let node: BTNode | null | undefined = this.root;
+    while (node) {
+      path.push(node.name);
+      node = node.activeChild;
+    }
+    return path;
+  }
+
+  // ============== 黑板观察 ==============
+  private observeBlackboard(): void {
+    this.dispose();
+    const blackboard = this.context.blackboard;
+    if (!blackboard) return;
+
+    const observers: BTBlackboardCondition[] = [];
+    visitNodes(this.root, node => {
+      if (node instanceof BTBlackboardCondition && node.abortMode !== ObserverAbort.NONE) observers.push(node);
+    });
+    if (observers.length === 0) return;
+
+    // 只在条件结果翻转时处理
+    const passed = new Map(observers.map(node => [node, node.check(this.context)]));
+    const keys = Array.from(new Set(observers.map(node => node.key)));
+
+    this.observerUnsubscribe = blackboard.onChange(keys, key => {
+      observers.forEach(node => {
+        if (node.key !== key) return;
+        const current = node.check(this.context);
+        if (current === passed.get(node)) return;
+        passed.set(node, current);
+
+        const mode = node.abortMode;
+        if (!current && node.isRunning() && (mode === ObserverAbort.SELF || mode === ObserverAbort.BOTH)) {
+          node.abort(this.context);
+        }
+        if (current && (mode === ObserverAbort.LOWER_PRIORITY || mode === ObserverAbort.BOTH)) {
+          this.abortLowerPriority(node);
+        }
+      });
+    });
+  }
+
+  // 沿运行路径向下，找到同时包含观察节点与运行分支的选择节点；
+  // 运行分支排在观察节点之后时中断该选择节点，下次 update 从高优先级重新选择
+  private abortLowerPriority(observer: BTNode): void {
+    if (this.lastStatus !== NodeStatus.RUNNING) return;
+
+    let node: BTNode | null | undefined = this.root;
+    while (node && node.activeChild) {
+      const children = childrenOf(node);
+      const observerIndex = children.findIndex(child => containsNode(child, observer));
+      const runningIndex = children.indexOf(node.activeChild);
+      if (observerIndex === -1 || runningIndex === -1) return;
+
+      if (observerIndex !== runningIndex) {
+        if (node.type === NodeType.SELECTOR && observerIndex < runningIndex) {
+          abortNode(node, this.context);
+        }
+        return;
+      }
+      node = node.activeChild;
+    }
+  }
 }
 
 // ============== AICharacter 引用（前置声明） ==============
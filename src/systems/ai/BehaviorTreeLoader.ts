@@ -0,0 +1,477 @@
+/**
+ * BehaviorTreeLoader.ts - 数据驱动行为树
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 从 JSON 定义构建行为树：条件与动作按名称引用，由代码注册或在构建时按角色绑定；
+ * 树之间可通过 subtree 节点复用，开发时可热重载替换正在运行的树
+ */
+
+import {
+  BehaviorTree,
+  BTAction,
+  BTBlackboardCondition,
+  BTCondition,
+  BTContext,
+  BTDecorator,
+  BTNode,
+  BTParallel,
+  BTSelector,
+  BTSequence,
+  DecoratorType,
+  NodeStatus,
+  ObserverAbort,
+  ParallelPolicy,
+} from './BehaviorTree';
+import type { BlackboardPredicate } from './BehaviorTree';
+import { BlackboardKey } from './Blackboard';
+import type { Unsubscribe } from '../../core/EventBus';
+
+// ============== 定义格式 ==============
+export type BTParams = Record<string, number | string | boolean>;
+
+export type BTNodeDefinition =
+  | { type: 'sequence' | 'selector'; name?: string; children: BTNodeDefinition[] }
+  | {
+    type: 'parallel';
+    name?: string;
+    success?: ParallelPolicy;
+    failure?: ParallelPolicy;
+    children: BTNodeDefinition[];
+  }
+  | { type: 'condition'; name?: string; condition: string; params?: BTParams }
+  | { type: 'action'; name?: string; action: string; params?: BTParams }
+  | {
+    type: 'decorator';
+    name?: string;
+    decorator: DecoratorType;
+    params?: Record<string, number>;
+    condition?: string;                     // WHILE 使用
+    child: BTNodeDefinition;
+  }
+  | {
+    type: 'blackboard';
+    name?: string;
+    key: BlackboardKey;
+    check?: BlackboardCheck;                // 默认 isSet
+    value?: number | string | boolean;      // equals 使用
+    abort?: ObserverAbort;
+    child: BTNodeDefinition;
+  }
+  | { type: 'subtree'; name?: string; tree: string };
+
+export type BlackboardCheck = 'isSet' | 'isNotSet' | 'equals';
+
+export interface BehaviorTreeDefinition {
+  id: string;
+  description?: string;
+  custom?: Record<string, unknown>;         // 构建时并入上下文的默认自定义数据
+  root: BTNodeDefinition;
+}
+
+export interface BehaviorTreeFile {
+  trees: BehaviorTreeDefinition[];
+}
+
+export interface BTDefinitionIssue {
+  tree: string;
+  path: string;
+  message: string;
+}
+
+// ============== 条件 / 动作 ==============
+export type BTConditionHandler = (context: BTContext, params: BTParams) => boolean;
+
+export interface BTActionHandler {
+  run(context: BTContext, params: BTParams): NodeStatus;
+  abort?(context: BTContext, params: BTParams): void;
+}
+
+export type BTActionBinding = BTActionHandler | BTActionHandler['run'];
+
+// 构建时提供的角色专属实现，优先于全局注册
+export interface BTBindings {
+  conditions?: Record<string, BTConditionHandler>;
+  actions?: Record<string, BTActionBinding>;
+}
+
+export type BehaviorTreeReloadListener = (ids: string[]) => void;
+
+// 引用了未注册的条件 / 动作或不存在的树
+export class BehaviorTreeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BehaviorTreeError';
+  }
+}
+
+const NODE_TYPES = ['sequence', 'selector', 'parallel', 'condition', 'action', 'decorator', 'blackboard', 'subtree'];
+const DECORATOR_TYPES = Object.values(DecoratorType) as string[];
+const PARALLEL_POLICIES = Object.values(ParallelPolicy) as string[];
+const BLACKBOARD_KEYS = Object.values(BlackboardKey) as string[];
+const BLACKBOARD_CHECKS: BlackboardCheck[] = ['isSet', 'isNotSet', 'equals'];
+const OBSERVER_ABORTS = Object.values(ObserverAbort) as string[];
+
+interface TrackedTree {
+  id: string;
+  bindings: BTBindings;
+}
+
+// ============== 行为树库 ==============
+export class BehaviorTreeLibrary {
+  private definitions: Map<string, BehaviorTreeDefinition> = new Map();
+  private conditions: Map<string, BTConditionHandler> = new Map();
+  private actions: Map<string, BTActionHandler> = new Map();
+
+  // 热重载时需要替换的树
+  private tracked: Map<BehaviorTree, TrackedTree> = new Map();
+  private trackTrees: boolean = false;
+  private reloadListeners: Set<BehaviorTreeReloadListener> = new Set();
+
+  // ============== 注册 ==============
+  public registerCondition(name: string, handler: BTConditionHandler): Unsubscribe {
+    this.conditions.set(name, handler);
+    return () => {
+      if (this.conditions.get(name) === handler) this.conditions.delete(name);
+    };
+  }
+
+  public registerAction(name: string, binding: BTActionBinding): Unsubscribe {
+    const handler = toActionHandler(binding);
+    this.actions.set(name, handler);
+    return () => {
+      if (this.actions.get(name) === handler) this.actions.delete(name);
+    };
+  }
+
+  // ============== 加载 ==============
+  // 结构无效的树不加载 (重载时保留旧版本)，返回全部问题
+  public load(data: BehaviorTreeFile): BTDefinitionIssue[] {
+    const issues: BTDefinitionIssue[] = [];
+    if (!data || !Array.isArray(data.trees)) {
+      issues.push({ tree: '*', path: '', message: '缺少 trees 数组' });
+      this.report(issues);
+      return issues;
+    }
+
+    const incoming = new Map<string, BehaviorTreeDefinition>();
+    data.trees.forEach((tree, i) => {
+      if (!tree || typeof tree.id !== 'string' || tree.id === '') {
+        issues.push({ tree: `#${i}`, path: '', message: '缺少 id' });
+        return;
+      }
+      if (incoming.has(tree.id)) {
+        issues.push({ tree: tree.id, path: '', message: 'id 重复' });
+        return;
+      }
+
+      const treeIssues = validateNode(tree.root, tree.id, 'root');
+      issues.push(...treeIssues);
+      if (treeIssues.length === 0) incoming.set(tree.id, tree);
+    });
+
+    const previous = new Map<string, BehaviorTreeDefinition | undefined>();
+    incoming.forEach((tree, id) => {
+      previous.set(id, this.definitions.get(id));
+      this.definitions.set(id, tree);
+    });
+
+    // 子树引用需在全部树载入后检查，有问题的树回退到旧版本
+    incoming.forEach((tree, id) => {
+      const subtreeIssues = this.checkSubtrees(id, tree.root, 'root', [id]);
+      if (subtreeIssues.length === 0) return;
+
+      issues.push(...subtreeIssues);
+      const old = previous.get(id);
+      if (old) {
+        this.definitions.set(id, old);
+      } else {
+        this.definitions.delete(id);
+      }
+    });
+
+    this.report(issues);
+    return issues;
+  }
+
+  public has(id: string): boolean {
+    return this.definitions.has(id);
+  }
+
+  public getIds(): string[] {
+    return Array.from(this.definitions.keys()).sort();
+  }
+
+  public getDefinition(id: string): BehaviorTreeDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  // ============== 构建 ==============
+  public build(id: string, bindings: BTBindings = {}, initialContext: Partial<BTContext> = {}): BehaviorTree {
+    const definition = this.definitions.get(id);
+    if (!definition) throw new BehaviorTreeError(`未知行为树: ${id}`);
+
+    const tree = new BehaviorTree(this.buildRoot(id, bindings), {
+      ...initialContext,
+      custom: { ...definition.custom, ...initialContext.custom },
+    });
+    if (this.trackTrees) this.tracked.set(tree, { id, bindings });
+    return tree;
+  }
+
+  // 返回定义引用但当前无法解析的条件 / 动作 / 子树名
+  public findMissing(id: string, bindings: BTBindings = {}): string[] {
+    const missing = new Set<string>();
+    this.walk(id, node => {
+      if (node.type === 'subtree' && !this.definitions.has(node.tree)) {
+        missing.add(`tree:${node.tree}`);
+      }
+      if (node.type === 'action' && !this.resolveAction(node.action, bindings)) {
+        missing.add(`action:${node.action}`);
+      }
+      if ((node.type === 'condition' || (node.type === 'decorator' && node.condition))
+        && !this.resolveCondition(node.condition!, bindings)) {
+        missing.add(`condition:${node.condition}`);
+      }
+    });
+    return Array.from(missing);
+  }
+
+  private buildRoot(id: string, bindings: BTBindings): BTNode {
+    const missing = this.findMissing(id, bindings);
+    if (missing.length > 0) {
+      throw new BehaviorTreeError(`行为树 ${id} 引用了未注册的 ${missing.join(', ')}`);
+    }
+    return this.buildNode(this.definitions.get(id)!.root, bindings);
+  }
+
+  private buildNode(node: BTNodeDefinition, bindings: BTBindings): BTNode {
+    switch (node.type) {
+      case 'sequence':
+        return new BTSequence(node.name ?? 'sequence', node.children.map(child => this.buildNode(child, bindings)));
+
+      case 'selector':
+        return new BTSelector(node.name ?? 'selector', node.children.map(child => this.buildNode(child, bindings)));
+
+      case 'parallel':
+        return new BTParallel(
+          node.name ?? 'parallel',
+          node.children.map(child => this.buildNode(child, bindings)),
+          node.success,
+          node.failure
+        );
+
+      case 'condition': {
+        const handler = this.resolveCondition(node.condition, bindings)!;
+        const params = node.params ?? {};
+        return new BTCondition(node.name ?? node.condition, context => handler(context, params));
+      }
+
+      case 'action': {
+        const handler = this.resolveAction(node.action, bindings)!;
+        const params = node.params ?? {};
+        return new BTAction(
+          node.name ?? node.action,
+          context => handler.run(context, params),
+          handler.abort && (context => handler.abort!(context, params))
+        );
+      }
+
+      case 'decorator': {
+        const handler = node.condition ? this.resolveCondition(node.condition, bindings)! : null;
+        return new BTDecorator(
+          node.name ?? node.decorator,
+          node.decorator,
+          this.buildNode(node.child, bindings),
+          node.params ?? {},
+          handler && (context => handler(context, {}))
+        );
+      }
+
+      case 'blackboard':
+        return new BTBlackboardCondition(
+          node.name ?? node.key,
+          node.key,
+          this.buildNode(node.child, bindings),
+          blackboardPredicate(node.check ?? 'isSet', node.value),
+          node.abort
+        );
+
+      case 'subtree': {
+        const root = this.buildNode(this.definitions.get(node.tree)!.root, bindings);
+        if (node.name) root.name = node.name;
+        return root;
+      }
+    }
+  }
+
+  private resolveCondition(name: string, bindings: BTBindings): BTConditionHandler | undefined {
+    return bindings.conditions?.[name] ?? this.conditions.get(name);
+  }
+
+  private resolveAction(name: string, bindings: BTBindings): BTActionHandler | undefined {
+    const bound = bindings.actions?.[name];
+    return bound ? toActionHandler(bound) : this.actions.get(name);
+  }
+
+  // ============== 热重载 ==============
+  // 开启后 build 出的树会被记录，重载时原地替换根节点
+  public setHotReload(enabled: boolean): void {
+    this.trackTrees = enabled;
+    if (!enabled) this.tracked.clear();
+  }
+
+  // 敌人销毁时调用，避免热重载记录持有已失效的树
+  public release(tree: BehaviorTree): void {
+    this.tracked.delete(tree);
+  }
+
+  public reload(data: BehaviorTreeFile): BTDefinitionIssue[] {
+    const issues = this.load(data);
+    const ids = data?.trees?.map(tree => tree?.id).filter((id): id is string => typeof id === 'string') ?? [];
+
+    let replaced = 0;
+    this.tracked.forEach(({ id, bindings }, tree) => {
+      try {
+        tree.setRoot(this.buildRoot(id, bindings));
+        replaced++;
+      } catch (error) {
+        console.warn(`[BehaviorTreeLibrary] 重载 ${id} 失败，保留旧版本:`, (error as Error).message);
+      }
+    });
+
+    console.log(`[BehaviorTreeLibrary] 已重载 ${ids.length} 棵行为树，替换 ${replaced} 个运行实例`);
+    this.reloadListeners.forEach(listener => listener(ids));
+    return issues;
+  }
+
+  public onReload(listener: BehaviorTreeReloadListener): Unsubscribe {
+    this.reloadListeners.add(listener);
+    return () => this.reloadListeners.delete(listener);
+  }
+
+  // ============== 工具 ==============
+  // 深度优先遍历树及其引用的子树
+  private walk(id: string, visit: (node: BTNodeDefinition) => void, seen: Set<string> = new Set()): void {
+    const definition = this.definitions.get(id);
+    if (!definition || seen.has(id)) return;
+    seen.add(id);
+
+    const stack: BTNodeDefinition[] = [definition.root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      visit(node);
+      if ('children' in node) stack.push(...[...node.children].reverse());
+      if ('child' in node) stack.push(node.child);
+      if (node.type === 'subtree') this.walk(node.tree, visit, seen);
+    }
+  }
+
+  private checkSubtrees(id: string, node: BTNodeDefinition, path: string, chain: string[]): BTDefinitionIssue[] {
+    if (node.type === 'subtree') {
+      if (chain.includes(node.tree)) {
+        return [{ tree: id, path, message: `子树循环引用: ${[...chain, node.tree].join(' → ')}` }];
+      }
+      const subtree = this.definitions.get(node.tree);
+      if (!subtree) return [{ tree: id, path, message: `未知子树: ${node.tree}` }];
+      return this.checkSubtrees(id, subtree.root, path, [...chain, node.tree]);
+    }
+
+    if ('children' in node) {
+      return node.children.flatMap((child, i) => this.checkSubtrees(id, child, `${path}.children[${i}]`, chain));
+    }
+    if ('child' in node) {
+      return this.checkSubtrees(id, node.child, `${path}.child`, chain);
+    }
+    return [];
+  }
+
+  private report(issues: BTDefinitionIssue[]): void {
+    issues.forEach(issue => {
+      console.warn(`[BehaviorTreeLibrary] ${issue.tree} ${issue.path}: ${issue.message}`);
+    });
+  }
+}
+
+// ============== 结构校验 ==============
+export function validateNode(node: BTNodeDefinition, tree: string, path: string): BTDefinitionIssue[] {
+  const issue = (message: string): BTDefinitionIssue[] => [{ tree, path, message }];
+
+  if (!node || typeof node !== 'object') return issue('节点应为对象');
+  if (!NODE_TYPES.includes(node.type)) return issue(`未知节点类型: ${(node as { type: unknown }).type}`);
+  if (node.name !== undefined && typeof node.name !== 'string') return issue('name 应为字符串');
+
+  switch (node.type) {
+    case 'sequence':
+    case 'selector':
+    case 'parallel': {
+      if (!Array.isArray(node.children) || node.children.length === 0) return issue('children 应为非空数组');
+      const issues: BTDefinitionIssue[] = [];
+      if (node.type === 'parallel') {
+        if (node.success !== undefined && !PARALLEL_POLICIES.includes(node.success)) {
+          issues.push(...issue(`未知成功策略: ${node.success}`));
+        }
+        if (node.failure !== undefined && !PARALLEL_POLICIES.includes(node.failure)) {
+          issues.push(...issue(`未知失败策略: ${node.failure}`));
+        }
+      }
+      node.children.forEach((child, i) => issues.push(...validateNode(child, tree, `${path}.children[${i}]`)));
+      return issues;
+    }
+
+    case 'condition':
+      return typeof node.condition === 'string' && node.condition ? [] : issue('缺少 condition');
+
+    case 'action':
+      return typeof node.action === 'string' && node.action ? [] : issue('缺少 action');
+
+    case 'decorator': {
+      if (!DECORATOR_TYPES.includes(node.decorator)) return issue(`未知装饰器: ${node.decorator}`);
+      const issues: BTDefinitionIssue[] = [];
+      Object.entries(node.params ?? {}).forEach(([key, value]) => {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          issues.push(...issue(`参数 ${key} 应为数字`));
+        }
+      });
+      if (node.decorator === DecoratorType.WHILE && !node.condition) {
+        issues.push(...issue('while 装饰器缺少 condition'));
+      }
+      if (!node.child) return [...issues, ...issue('缺少 child')];
+      return [...issues, ...validateNode(node.child, tree, `${path}.child`)];
+    }
+
+    case 'blackboard': {
+      if (!BLACKBOARD_KEYS.includes(node.key)) return issue(`未知黑板键: ${node.key}`);
+      const issues: BTDefinitionIssue[] = [];
+      if (node.check !== undefined && !BLACKBOARD_CHECKS.includes(node.check)) {
+        issues.push(...issue(`未知黑板判断: ${node.check}`));
+      }
+      if (node.check === 'equals' && node.value === undefined) {
+        issues.push(...issue('equals 判断缺少 value'));
+      }
+      if (node.abort !== undefined && !OBSERVER_ABORTS.includes(node.abort)) {
+        issues.push(...issue(`未知中断模式: ${node.abort}`));
+      }
+      if (!node.child) return [...issues, ...issue('缺少 child')];
+      return [...issues, ...validateNode(node.child, tree, `${path}.child`)];
+    }
+
+    case 'subtree':
+      return typeof node.tree === 'string' && node.tree ? [] : issue('缺少 tree');
+  }
+}
+
+function blackboardPredicate(check: BlackboardCheck, expected: unknown): BlackboardPredicate {
+  switch (check) {
+    case 'isNotSet':
+      return value => value === undefined;
+    case 'equals':
+      return value => value === expected;
+    default:
+      return value => value !== undefined;
+  }
+}
+
+function toActionHandler(binding: BTActionBinding): BTActionHandler {
+  return typeof binding === 'function' ? { run: binding } : binding;
+}
+
+export default BehaviorTreeLibrary;
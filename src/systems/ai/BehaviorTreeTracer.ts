@@ -0,0 +1,141 @@
+/**
+ * BehaviorTreeTracer.ts - 行为树执行记录
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 挂接到 BehaviorTree 后逐 tick 记录每个被访问节点的结果，保留最近 N 次 tick；
+ * 可导出 JSON 附在缺陷报告中
+ */
+
+import { childrenOf } from './BehaviorTree';
+import type { BTNode, BTTickRecorder, NodeStatus, NodeType } from './BehaviorTree';
+import { getGameClock } from '../../core/Clock';
+
+// ============== 记录格式 ==============
+// 节点按先序遍历编号，子树在父节点之后
+export interface BTTraceNode {
+  id: number;
+  name: string;
+  type: NodeType;
+  depth: number;
+  parent: number | null;
+}
+
+export interface BTTraceTick {
+  tick: number;
+  time: number;                             // 游戏时钟 (毫秒)
+  status: NodeStatus;                       // 根节点结果
+  statuses: (NodeStatus | null)[];          // 按节点编号，null 表示本次未访问
+}
+
+export interface BTTraceExport {
+  version: number;
+  label: string;
+  exportedAt: number;
+  nodes: BTTraceNode[];
+  ticks: BTTraceTick[];
+  extra?: Record<string, unknown>;          // 黑板快照等附加信息
+}
+
+const TRACE_FORMAT_VERSION = 1;
+const DEFAULT_TRACE_TICKS = 120;
+
+// ============== 执行记录器 ==============
+export class BehaviorTreeTracer implements BTTickRecorder {
+  private root: BTNode | null = null;
+  private layout: BTTraceNode[] = [];
+  private ids: Map<BTNode, number> = new Map();
+
+  private ticks: BTTraceTick[] = [];
+  private tickCount: number = 0;
+  private paused: boolean = false;
+
+  constructor(private capacity: number = DEFAULT_TRACE_TICKS) {}
+
+  // ============== 记录 ==============
+  // 根节点被替换 (热重载) 时节点编号失效，清空已有记录
+  public record(root: BTNode, visited: Map<BTNode, NodeStatus>, status: NodeStatus): void {
+    if (this.paused) return;
+    if (root !== this.root) this.setRoot(root);
+
+    const statuses: (NodeStatus | null)[] = this.layout.map(() => null);
+    visited.forEach((nodeStatus, node) => {
+      const id = this.ids.get(node);
+      if (id !== undefined) statuses[id] = nodeStatus;
+    });
+
+    this.ticks.push({ tick: this.tickCount++, time: getGameClock().now(), status, statuses });
+    if (this.ticks.length > this.capacity) {
+      this.ticks.splice(0, this.ticks.length - this.capacity);
+    }
+  }
+
+  private setRoot(root: BTNode): void {
+    this.root = root;
+    this.layout = [];
+    this.ids.clear();
+    this.ticks = [];
+
+    const visit = (node: BTNode, depth: number, parent: number | null) => {
+      const id = this.layout.length;
+      this.ids.set(node, id);
+      this.layout.push({ id, name: node.name, type: node.type, depth, parent });
+      childrenOf(node).forEach(child => visit(child, depth + 1, id));
+    };
+    visit(root, 0, null);
+  }
+
+  // ============== 控制 ==============
+  // 暂停后保留现有记录，便于逐 tick 查看
+  public setPaused(paused: boolean): void {
+    this.paused = paused;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  public setCapacity(capacity: number): void {
+    this.capacity = Math.max(1, Math.floor(capacity));
+    if (this.ticks.length > this.capacity) {
+      this.ticks.splice(0, this.ticks.length - this.capacity);
+    }
+  }
+
+  public clear(): void {
+    this.ticks = [];
+  }
+
+  // ============== 查询 ==============
+  public getLayout(): readonly BTTraceNode[] {
+    return this.layout;
+  }
+
+  public getTicks(): readonly BTTraceTick[] {
+    return this.ticks;
+  }
+
+  public getLatest(): BTTraceTick | null {
+    return this.ticks[this.ticks.length - 1] ?? null;
+  }
+
+  // 以缩进文本列出某次 tick 访问过的节点及结果 (控制台输出用)
+  public describe(tick: BTTraceTick | null = this.getLatest()): string[] {
+    if (!tick) return [];
+    return this.layout
+      .filter(node => tick.statuses[node.id] !== null)
+      .map(node => `${'  '.repeat(node.depth)}${node.name}: ${tick.statuses[node.id]}`);
+  }
+
+  public export(label: string = '', extra?: Record<string, unknown>): string {
+    const capture: BTTraceExport = {
+      version: TRACE_FORMAT_VERSION,
+      label,
+      exportedAt: Date.now(),
+      nodes: [...this.layout],
+      ticks: [...this.ticks],
+      ...(extra && { extra }),
+    };
+    return JSON.stringify(capture, null, 2);
+  }
+}
+
+export default BehaviorTreeTracer;
@@ -0,0 +1,294 @@
+/**
+ * Blackboard.ts - 分层黑板
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 个体 / 小队 / 全局三级共享的事实存储：键带类型，可设置过期时间，
+ * 变化时通知观察者 (行为树据此中断低优先级分支)
+ */
+
+import * as THREE from 'three';
+import { getGameClock } from '../../core/Clock';
+import type { Unsubscribe } from '../../core/EventBus';
+
+// ============== 键定义 ==============
+// 格式为 "主题:名称"，新增键时同时在 BlackboardValues 中声明值类型
+export enum BlackboardKey {
+  TARGET_VISIBLE = 'target:visible',
+  TARGET_DISTANCE = 'target:distance',
+  TARGET_LAST_SEEN = 'target:lastSeen',
+  TARGET_LAST_HEARD = 'target:lastHeard',
+
+  THREAT_DAMAGE_SOURCE = 'threat:damageSource',
+  THREAT_GRENADE = 'threat:grenade',
+
+  SQUAD_ORDER = 'squad:order',
+}
+
+// ============== 键 → 值类型映射 ==============
+export interface BlackboardValues {
+  [BlackboardKey.TARGET_VISIBLE]: boolean;
+  [BlackboardKey.TARGET_DISTANCE]: number;
+  [BlackboardKey.TARGET_LAST_SEEN]: THREE.Vector3;
+  [BlackboardKey.TARGET_LAST_HEARD]: THREE.Vector3;
+
+  [BlackboardKey.THREAT_DAMAGE_SOURCE]: THREE.Vector3;
+  [BlackboardKey.THREAT_GRENADE]: THREE.Vector3;
+
+  [BlackboardKey.SQUAD_ORDER]: string;
+}
+
+export type BlackboardScope = 'agent' | 'squad' | 'global';
+
+export interface BlackboardWriteOptions {
+  scope?: BlackboardScope;           // 默认 agent
+  ttl?: number;                      // 过期时间 (毫秒)，省略则不过期
+}
+
+// value 为 undefined 表示被删除或已过期
+export type BlackboardListener = <K extends BlackboardKey>(key: K, value: BlackboardValues[K] | undefined) => void;
+
+interface BlackboardEntry {
+  value: unknown;
+  expiresAt: number | null;
+}
+
+// 由近到远，近处覆盖远处
+export const BLACKBOARD_SCOPES: readonly BlackboardScope[] = ['agent', 'squad', 'global'];
+
+// ============== 单层黑板 ==============
+export class Blackboard {
+  private entries: Map<BlackboardKey, BlackboardEntry> = new Map();
+  private listeners: Set<BlackboardListener> = new Set();
+
+  constructor(public readonly scope: BlackboardScope, public readonly id: string) {}
+
+  // 已过期但尚未清理的事实视为不存在
+  public get<K extends BlackboardKey>(key: K): BlackboardValues[K] | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || this.isExpired(entry, getGameClock().now())) return undefined;
+    return entry.value as BlackboardValues[K];
+  }
+
+  public has(key: BlackboardKey): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  public set<K extends BlackboardKey>(key: K, value: BlackboardValues[K], ttl?: number): void {
+    const previous = this.get(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: ttl === undefined ? null : getGameClock().now() + ttl,
+    });
+    if (!Object.is(previous, value)) this.notify(key, value);
+  }
+
+  public delete(key: BlackboardKey): void {
+    const previous = this.get(key);
+    this.entries.delete(key);
+    if (previous !== undefined) this.notify(key, undefined);
+  }
+
+  public clear(): void {
+    const keys = Array.from(this.entries.keys()).filter(key => this.has(key));
+    this.entries.clear();
+    keys.forEach(key => this.notify(key, undefined));
+  }
+
+  // 剩余有效时间 (毫秒)，不过期为 Infinity，不存在为 0
+  public getRemaining(key: BlackboardKey): number {
+    const entry = this.entries.get(key);
+    const now = getGameClock().now();
+    if (!entry || this.isExpired(entry, now)) return 0;
+    return entry.expiresAt === null ? Infinity : entry.expiresAt - now;
+  }
+
+  // 移除过期事实并通知观察者
+  public prune(now: number = getGameClock().now()): void {
+    const expired: BlackboardKey[] = [];
+    this.entries.forEach((entry, key) => {
+      if (this.isExpired(entry, now)) expired.push(key);
+    });
+    expired.forEach(key => {
+      this.entries.delete(key);
+      this.notify(key, undefined);
+    });
+  }
+
+  public onChange(listener: BlackboardListener): Unsubscribe {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // 调试：当前有效的全部事实
+  public snapshot(): Partial<BlackboardValues> {
+    const result: Partial<Record<BlackboardKey, unknown>> = {};
+    this.entries.forEach((_, key) => {
+      const value = this.get(key);
+      if (value !== undefined) result[key] = value;
+    });
+    return result as Partial<BlackboardValues>;
+  }
+
+  private isExpired(entry: BlackboardEntry, now: number): boolean {
+    return entry.expiresAt !== null && now >= entry.expiresAt;
+  }
+
+  private notify<K extends BlackboardKey>(key: K, value: BlackboardValues[K] | undefined): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(key, value);
+      } catch (error) {
+        console.error(`[Blackboard] 监听器出错: ${this.scope}/${this.id} ${key}`, error);
+      }
+    });
+  }
+}
+
+// ============== 个体视图 ==============
+// 读取时按 个体 → 小队 → 全局 查找；观察者在任一层变化时收到生效值
+export class AgentBlackboard {
+  public readonly local: Blackboard;
+  private squad: Blackboard | null = null;
+  private layerUnsubscribes: Map<BlackboardScope, Unsubscribe> = new Map();
+  private listeners: Map<BlackboardListener, Set<BlackboardKey>> = new Map();
+
+  constructor(public readonly agentId: string, private global: Blackboard, squad: Blackboard | null = null) {
+    this.local = new Blackboard('agent', agentId);
+    this.attach(this.local);
+    this.attach(global);
+    this.setSquad(squad);
+  }
+
+  public get<K extends BlackboardKey>(key: K): BlackboardValues[K] | undefined {
+    return this.local.get(key) ?? this.squad?.get(key) ?? this.global.get(key);
+  }
+
+  public has(key: BlackboardKey): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  // 生效值所在的层
+  public getScope(key: BlackboardKey): BlackboardScope | null {
+    return BLACKBOARD_SCOPES.find(scope => this.getLayer(scope)?.has(key)) ?? null;
+  }
+
+  // 未加入小队时写入 squad 层会落到个体层
+  public set<K extends BlackboardKey>(key: K, value: BlackboardValues[K], options: BlackboardWriteOptions = {}): void {
+    this.resolveLayer(options.scope ?? 'agent').set(key, value, options.ttl);
+  }
+
+  public delete(key: BlackboardKey, scope: BlackboardScope = 'agent'): void {
+    this.resolveLayer(scope).delete(key);
+  }
+
+  public getLayer(scope: BlackboardScope): Blackboard | null {
+    if (scope === 'agent') return this.local;
+    if (scope === 'squad') return this.squad;
+    return this.global;
+  }
+
+  public getSquadId(): string | null {
+    return this.squad?.id ?? null;
+  }
+
+  // 由 BlackboardRegistry 调用；换队后通知所有被观察的键
+  public setSquad(squad: Blackboard | null): void {
+    if (squad === this.squad) return;
+    this.layerUnsubscribes.get('squad')?.();
+    this.layerUnsubscribes.delete('squad');
+    this.squad = squad;
+    if (squad) this.attach(squad);
+
+    const keys = new Set<BlackboardKey>();
+    this.listeners.forEach(watched => watched.forEach(key => keys.add(key)));
+    keys.forEach(key => this.notify(key));
+  }
+
+  public onChange(keys: BlackboardKey[], listener: BlackboardListener): Unsubscribe {
+    this.listeners.set(listener, new Set(keys));
+    return () => this.listeners.delete(listener);
+  }
+
+  public dispose(): void {
+    this.layerUnsubscribes.forEach(unsubscribe => unsubscribe());
+    this.layerUnsubscribes.clear();
+    this.listeners.clear();
+    this.squad = null;
+  }
+
+  private attach(layer: Blackboard): void {
+    this.layerUnsubscribes.set(layer.scope, layer.onChange(key => this.notify(key)));
+  }
+
+  private resolveLayer(scope: BlackboardScope): Blackboard {
+    return this.getLayer(scope) ?? this.local;
+  }
+
+  private notify(key: BlackboardKey): void {
+    const value = this.get(key);
+    this.listeners.forEach((watched, listener) => {
+      if (watched.has(key)) listener(key, value);
+    });
+  }
+}
+
+// ============== 黑板注册表 ==============
+export class BlackboardRegistry {
+  public readonly global: Blackboard = new Blackboard('global', 'global');
+  private squads: Map<string, Blackboard> = new Map();
+  private agents: Map<string, AgentBlackboard> = new Map();
+
+  public getSquad(squadId: string): Blackboard {
+    let squad = this.squads.get(squadId);
+    if (!squad) {
+      squad = new Blackboard('squad', squadId);
+      this.squads.set(squadId, squad);
+    }
+    return squad;
+  }
+
+  // 已存在时仅在传入 squadId 时更新所属小队
+  public forAgent(agentId: string, squadId?: string | null): AgentBlackboard {
+    let agent = this.agents.get(agentId);
+    if (!agent) {
+      agent = new AgentBlackboard(agentId, this.global);
+      this.agents.set(agentId, agent);
+    }
+    if (squadId !== undefined) this.setSquad(agentId, squadId);
+    return agent;
+  }
+
+  public getAgent(agentId: string): AgentBlackboard | undefined {
+    return this.agents.get(agentId);
+  }
+
+  public setSquad(agentId: string, squadId: string | null): void {
+    this.agents.get(agentId)?.setSquad(squadId === null ? null : this.getSquad(squadId));
+  }
+
+  public getSquadMembers(squadId: string): string[] {
+    return Array.from(this.agents.values())
+      .filter(agent => agent.getSquadId() === squadId)
+      .map(agent => agent.agentId);
+  }
+
+  public removeAgent(agentId: string): void {
+    this.agents.get(agentId)?.dispose();
+    this.agents.delete(agentId);
+  }
+
+  public prune(): void {
+    const now = getGameClock().now();
+    this.global.prune(now);
+    this.squads.forEach(squad => squad.prune(now));
+    this.agents.forEach(agent => agent.local.prune(now));
+  }
+
+  public clear(): void {
+    this.agents.forEach(agent => agent.dispose());
+    this.agents.clear();
+    this.squads.clear();
+    this.global.clear();
+  }
+}
+
+export default BlackboardRegistry;
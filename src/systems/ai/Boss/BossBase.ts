@@ -4,11 +4,19 @@
  */
 
 import * as THREE from 'three';
-import { AICharacter, AICharacterType, AIState, AIConfig, MovementConfig } from '../AICharacter';
+import { AICharacter, AIConfig, MovementConfig } from '../AICharacter';
+import { EnemyType } from '../../../core/constants';
+import { NodeStatus } from '../BehaviorTree';
+import type { BTActionHandler } from '../BehaviorTreeLoader';
+import { getGameClock } from '../../../core/Clock';
+import { Core } from '../../../core/Core';
+import { GameEvent } from '../../../core/EventBus';
+import type { BossPayload } from '../../../core/EventBus';
+import { t } from '../../../i18n';
 
 // ============== Boss阶段配置 ==============
 export interface BossPhaseConfig {
-  name: string;
+  name: string;                // 本地化键
   health: number;              // 该阶段血量
   damageMultiplier: number;    // 伤害倍率
   speedMultiplier: number;     // 速度倍率
@@ -27,13 +35,14 @@ export interface BossEvents {
 
 // ============== Boss配置 ==============
 export interface BossConfig extends AIConfig {
+  bossType: string;            // 稳定 id (如 trainer)，不随显示名 / 本地化变化
   phases: BossPhaseConfig[];
   enrageThreshold: number;     // 狂暴血量百分比（如0.2=20%）
   enrageEffects?: {
     damageMultiplier: number;
     speedMultiplier: number;
   };
-  introDialogue?: string[];
+  introDialogue?: string[];    // 本地化键
   victoryDialogue?: string[];
 }
 
@@ -52,6 +61,8 @@ const DEFAULT_BOSS_MOVEMENT: MovementConfig = {
 
 // ============== Boss基类 ==============
 export class BossBase extends AICharacter {
+  readonly bossType: string;
+  
   // 阶段系统
   private phases: BossPhaseConfig[] = [];
   private currentPhaseIndex: number = 0;
@@ -60,7 +71,7 @@ export class BossBase extends AICharacter {
   // 狂暴状态
   isEnraged: boolean = false;
   private enrageThreshold: number = 0.2;
-  private enrageEffects = {
+  protected enrageEffects = {
     damageMultiplier: 1.5,
     speedMultiplier: 1.3,
   };
@@ -76,6 +87,9 @@ export class BossBase extends AICharacter {
   introDialogue: string[] = [];
   victoryDialogue: string[] = [];
   
+  // 首次更新时广播登场
+  private announced: boolean = false;
+  
   // 事件
   events: BossEvents = {
     onPhaseChange: () => {},
@@ -97,7 +111,8 @@ export class BossBase extends AICharacter {
     super(id, name, initialConfig);
     
     // 设置类型为Boss
-    this.characterType = AICharacterType.BOSS;
+    this.type = EnemyType.BOSS;
+    this.bossType = config.bossType;
     
     // 初始化阶段
     this.phases = config.phases;
@@ -147,6 +162,11 @@ export class BossBase extends AICharacter {
     return this.currentPhaseIndex;
   }
 
+  // ========== 获取进行中的特殊攻击 ==========
+  getCurrentSpecialAttack(): string | null {
+    return this.currentSpecialAttack;
+  }
+
   // ========== 获取阶段数量 ==========
   getPhaseCount(): number {
     return this.phases.length;
@@ -176,7 +196,14 @@ export class BossBase extends AICharacter {
     }
     
     // 事件
-    this.events.onPhaseChange(this.currentPhaseIndex, newPhase.name);
+    const phaseName = t(newPhase.name);
+    this.events.onPhaseChange(this.currentPhaseIndex, phaseName);
+    Core.getInstance().eventBus.emit(GameEvent.BOSS_PHASE_CHANGED, {
+      bossId: this.id,
+      bossType: this.bossType,
+      phaseIndex: this.currentPhaseIndex,
+      phaseName,
+    });
     
     console.log(`${this.name} enters phase ${this.currentPhaseIndex + 1}: ${newPhase.name}`);
   }
@@ -221,6 +248,8 @@ export class BossBase extends AICharacter {
     
     this.isPerformingSpecial = true;
     this.currentSpecialAttack = attackName;
+    // 特殊攻击期间不执行 Boss AI，原地施放
+    this.velocity.set(0, 0, 0);
     
     console.log(`${this.name} performs special attack: ${attackName}`);
     this.events.onSpecialAttack(attackName);
@@ -233,8 +262,46 @@ export class BossBase extends AICharacter {
     this.specialAttackCooldown = 3.0;
   }
 
+  // ========== 引导攻击动作 ==========
+  // 供行为树动作绑定：持续 duration 秒后成功；canContinue 不再成立 (被击晕、被打断) 时失败并结束特殊攻击
+  protected createChannelAction(
+    attackName: string,
+    duration: number,
+    canContinue: () => boolean,
+    onStart?: () => void
+  ): BTActionHandler {
+    let startedAt: number | null = null;
+    const stop = (): void => {
+      startedAt = null;
+      this.endSpecialAttack();
+    };
+
+    return {
+      run: () => {
+        if (!canContinue()) {
+          if (startedAt !== null) stop();
+          return NodeStatus.FAILURE;
+        }
+
+        const now = getGameClock().now();
+        if (startedAt === null) {
+          startedAt = now;
+          onStart?.();
+          this.performSpecialAttack(attackName);
+        }
+        if (now - startedAt < duration * 1000) return NodeStatus.RUNNING;
+
+        stop();
+        return NodeStatus.SUCCESS;
+      },
+      abort: () => {
+        if (startedAt !== null) stop();
+      },
+    };
+  }
+
   // ========== 伤害处理 ==========
-  takeDamage(amount: number, source: THREE.Object3D | null = null): void {
+  takeDamage(amount: number, source?: THREE.Vector3): void {
     if (!this.isAlive) return;
     
     // Boss受击会有特殊效果
@@ -253,12 +320,16 @@ export class BossBase extends AICharacter {
   update(deltaTime: number): void {
     if (!this.isAlive) return;
     
+    if (!this.announced) {
+      this.announced = true;
+      Core.getInstance().eventBus.emit(GameEvent.BOSS_SPAWNED, this.getBossPayload());
+    }
+    
     // 击晕处理
     if (this.isStunned) {
       this.stunTime -= deltaTime;
       if (this.stunTime <= 0) {
         this.isStunned = false;
-        this.setState(this.previousState);
       }
       return;
     }
@@ -273,9 +344,6 @@ export class BossBase extends AICharacter {
       this.updateSpecialAttack(deltaTime);
     }
     
-    // 感知更新
-    this.updatePerception(deltaTime);
-    
     // Boss逻辑
     if (!this.isPerformingSpecial) {
       this.executeBossAI(deltaTime);
@@ -283,9 +351,6 @@ export class BossBase extends AICharacter {
     
     // 应用移动
     this.applyMovement(deltaTime);
-    
-    // 更新位置引用
-    this.position.copy(this.mesh?.position || this.position);
   }
 
   // ========== Boss AI执行（子类实现） ==========
@@ -300,31 +365,39 @@ export class BossBase extends AICharacter {
 
   // ========== 应用移动 ==========
   protected applyMovement(deltaTime: number): void {
+    this.position.x += this.velocity.x * deltaTime;
+    this.position.z += this.velocity.z * deltaTime;
+    
     if (this.mesh) {
-      this.mesh.position.x += this.velocity.x * deltaTime;
-      this.mesh.position.z += this.velocity.z * deltaTime;
+      this.mesh.position.copy(this.position);
       this.mesh.rotation.y = this.rotation.y;
     }
   }
 
   // ========== 获取对话 ==========
   getIntroDialogue(): string[] {
-    return this.introDialogue;
+    return this.introDialogue.map(key => t(key));
   }
 
   // ========== 获取胜利对话 ==========
   getVictoryDialogue(): string[] {
-    return this.victoryDialogue;
+    return this.victoryDialogue.map(key => t(key));
   }
 
   // ========== 死亡覆盖 ==========
   die(): void {
     super.die();
     this.events.onDefeat();
+    Core.getInstance().eventBus.emit(GameEvent.BOSS_DEFEATED, this.getBossPayload());
+  }
+
+  private getBossPayload(): BossPayload {
+    return { bossId: this.id, bossType: this.bossType, name: this.name };
   }
 
   // ========== 重置 ==========
   reset(): void {
+    this.announced = false;
     this.currentPhaseIndex = 0;
     this.isEnraged = false;
     this.health = this.maxHealth;
@@ -7,13 +7,16 @@
 
 import * as THREE from 'three';
 import { BossBase, BossPhaseConfig, BossConfig } from './BossBase';
-import { AIState } from '../AICharacter';
-import { BTSequence, BTSelector, BTCondition, BTAction, NodeStatus } from '../BehaviorTree';
+import { AIState, EnemyType } from '../../../core/constants';
+import { NodeStatus } from '../BehaviorTree';
+import { behaviorTrees } from '../DefaultBehaviorTrees';
+import { getGameClock } from '../../../core/Clock';
+import { t } from '../../../i18n';
 
 // ============== 训练官Boss配置 ==============
 const TRAINER_PHASES: BossPhaseConfig[] = [
   {
-    name: '训练模式',
+    name: 'trainer.phase.training',
     health: 500,
     damageMultiplier: 0.5,
     speedMultiplier: 0.7,
@@ -22,7 +25,7 @@ const TRAINER_PHASES: BossPhaseConfig[] = [
     onExit: () => console.log('Training phase ended'),
   },
   {
-    name: '实战模式',
+    name: 'trainer.phase.combat',
     health: 500,
     damageMultiplier: 1.0,
     speedMultiplier: 1.0,
@@ -33,7 +36,8 @@ const TRAINER_PHASES: BossPhaseConfig[] = [
 ];
 
 const TRAINER_CONFIG: BossConfig = {
-  type: 'boss' as any,
+  type: EnemyType.BOSS,
+  bossType: 'trainer',
   health: 1000,  // 总生命值（两阶段各500）
   armor: 50,
   damage: 25,
@@ -59,18 +63,13 @@ const TRAINER_CONFIG: BossConfig = {
     damageMultiplier: 1.5,
     speedMultiplier: 1.3,
   },
-  introDialogue: [
-    "欢迎来到训练营，新兵。",
-    "我是训练官X-1，将负责你的实战考核。",
-    "让我看看你有多少本事...",
-  ],
-  victoryDialogue: [
-    "不错嘛，竟然能把我逼到这一步...",
-    "但训练官的尊严不允许失败！",
-    "来，正式的战斗现在开始！",
-  ],
+  introDialogue: ['trainer.intro.1', 'trainer.intro.2', 'trainer.intro.3'],
+  victoryDialogue: ['trainer.victory.1', 'trainer.victory.2', 'trainer.victory.3'],
 };
 
+// 闪光弹引导时间 (秒)，期间不执行其他行动
+const FLASHBANG_CHANNEL_TIME = 1.5;
+
 // ============== 攻击模式 ==============
 enum AttackMode {
   DEMONSTRATION = 'demonstration',  // 演示
@@ -95,17 +94,17 @@ export class Trainer extends BossBase {
   private currentAnimation: string = 'idle';
   private animationTimer: number = 0;
   
-  // 教学提示
+  // 教学提示 (本地化键)
   private teachingTips: string[] = [
-    "按鼠标左键射击",
-    "按Shift键加速",
-    "按空格键跳跃",
-    "按R键换弹",
-    "瞄准头部造成更高伤害",
+    'trainer.tip.fire',
+    'trainer.tip.sprint',
+    'trainer.tip.jump',
+    'trainer.tip.reload',
+    'trainer.tip.headshot',
   ];
   private currentTipIndex: number = 0;
 
-  constructor(id: string, name: string = '训练官X-1') {
+  constructor(id: string, name: string = t('trainer.name')) {
     super(id, name, TRAINER_CONFIG);
     
     // 设置行为树
@@ -113,87 +112,57 @@ export class Trainer extends BossBase {
   }
 
   // ========== 训练官特定行为树 ==========
+  // 结构定义在 data/behaviorTrees.json (boss.trainer)
   private setupTrainerBehaviorTree(): void {
-    const root = new BTSelector('trainer_root', [
-      // 阶段1: 训练模式
-      new BTSequence('trainingPhase', [
-        new BTCondition('isTrainingPhase', () => this.getCurrentPhaseIndex() === 0),
-        new BTSelector('trainingActions', [
-          // 演示动作
-          new BTSequence('demonstration', [
-            new BTCondition('shouldDemonstrate', () => !this.demonstrationComplete),
-            new BTAction('performDemonstration', () => {
-              this.performDemonstration();
-              return NodeStatus.SUCCESS;
-            }),
-          ]),
-          
-          // 教学提示
-          new BTSequence('teaching', [
-            new BTCondition('shouldTeach', () => this.teachingTimer <= 0),
-            new BTAction('giveTip', () => {
-              this.giveTeachingTip();
-              return NodeStatus.SUCCESS;
-            }),
-          ]),
-          
-          // 邀请决斗
-          new BTAction('inviteDuel', () => {
-            this.inviteToDuel();
-            return NodeStatus.SUCCESS;
-          }),
-        ]),
-      ]),
-      
-      // 阶段2: 实战模式
-      new BTSequence('combatPhase', [
-        new BTCondition('isCombatPhase', () => this.getCurrentPhaseIndex() === 1),
-        new BTSelector('combatActions', [
-          // 连招攻击
-          new BTSequence('comboAttack', () => {
-            return this.comboCount < this.maxCombos ? NodeStatus.SUCCESS : NodeStatus.FAILURE;
-          }, [
-            new BTAction('performCombo', () => {
-              this.performComboAttack();
-              return NodeStatus.RUNNING;
-            }),
-          ]),
-          
-          // 闪光弹
-          new BTSequence('flashbang', [
-            new BTCondition('canFlashbang', () => this.flashbangCooldown <= 0),
-            new BTAction('throwFlashbang', () => {
-              this.throwFlashbang();
-              return NodeStatus.SUCCESS;
-            }),
-          ]),
-          
-          // 狂暴攻击
-          new BTSequence('enrageAttack', [
-            new BTCondition('isEnraged', () => this.isEnraged),
-            new BTAction('enrageAttacks', () => {
-              this.performEnrageAttack();
-              return NodeStatus.SUCCESS;
-            }),
-          ]),
-          
-          // 普通攻击
-          new BTAction('normalAttack', () => {
-            this.performNormalAttack();
-            return NodeStatus.SUCCESS;
-          }),
-        ]),
-      ]),
-      
-      // 默认: 待机
-      new BTAction('idle', () => {
-        this.setState(AIState.IDLE);
-        return NodeStatus.SUCCESS;
-      }),
-    ]);
-
-    const { BehaviorTree } = require('../BehaviorTree');
-    this.behaviorTree = new BehaviorTree(root, {});
+    this.behaviorTree = behaviorTrees.build('boss.trainer', {
+      conditions: {
+        inPhase: (ctx, params) => this.getCurrentPhaseIndex() === params.index,
+        shouldDemonstrate: () => !this.demonstrationComplete,
+        shouldTeach: () => this.teachingTimer <= 0,
+        canCombo: () => this.comboCount < this.maxCombos,
+        // 引导中保持成立，避免投掷时进入的冷却打断引导
+        canFlashbang: () => this.flashbangCooldown <= 0 || this.getCurrentSpecialAttack() === 'flashbang',
+        isEnraged: () => this.isEnraged,
+      },
+      actions: {
+        performDemonstration: () => {
+          this.performDemonstration();
+          return NodeStatus.SUCCESS;
+        },
+        giveTip: () => {
+          this.giveTeachingTip();
+          return NodeStatus.SUCCESS;
+        },
+        inviteDuel: () => {
+          this.inviteToDuel();
+          return NodeStatus.SUCCESS;
+        },
+        performCombo: () => {
+          this.performComboAttack();
+          return NodeStatus.RUNNING;
+        },
+        // 引导期间被击晕则中断
+        throwFlashbang: this.createChannelAction(
+          'flashbang',
+          FLASHBANG_CHANNEL_TIME,
+          () => !this.isStunned,
+          () => this.throwFlashbang()
+        ),
+        enrageAttack: () => {
+          this.performEnrageAttack();
+          return NodeStatus.SUCCESS;
+        },
+        normalAttack: () => {
+          this.performNormalAttack();
+          return NodeStatus.SUCCESS;
+        },
+        idle: () => {
+          this.transitionTo(AIState.IDLE);
+          this.velocity.set(0, 0, 0);
+          return NodeStatus.SUCCESS;
+        },
+      },
+    });
   }
 
   // ========== Boss AI执行 ==========
@@ -222,15 +191,16 @@ export class Trainer extends BossBase {
     
     if (distance > this.movementConfig.maxDistance * 0.8) {
       // 太远，靠近
-      this.setState(AIState.CHASE);
+      this.transitionTo(AIState.CHASE);
       this.moveTowardPlayer(this.movementConfig.walkSpeed);
     } else if (distance < this.movementConfig.minDistance * 2) {
       // 太近，后退
-      this.setState(AIState.RETREAT);
+      this.transitionTo(AIState.RETREAT);
       this.retreatFromPlayer();
     } else {
       // 距离合适，原地演示
-      this.setState(AIState.IDLE);
+      this.transitionTo(AIState.IDLE);
+      this.velocity.set(0, 0, 0);
       this.performIdleDemonstration(deltaTime);
     }
   }
@@ -254,7 +224,7 @@ export class Trainer extends BossBase {
     
     // 狂暴后攻击更激进
     if (this.isEnraged) {
-      this.setState(AIState.CHASE);
+      this.transitionTo(AIState.CHASE);
       this.moveTowardPlayer(this.movementConfig.runSpeed);
       
       // 偶尔使用特殊攻击
@@ -264,14 +234,14 @@ export class Trainer extends BossBase {
     } else {
       // 正常战斗AI
       if (distance > this.movementConfig.maxDistance * 0.7) {
-        this.setState(AIState.CHASE);
+        this.transitionTo(AIState.CHASE);
         this.moveTowardPlayer(this.movementConfig.runSpeed);
       } else if (distance < this.movementConfig.minDistance) {
-        this.setState(AIState.ATTACK);
+        this.transitionTo(AIState.COMBAT);
         this.comboAttack();
       } else {
         // 中距离，战术机动
-        this.setState(AIState.ATTACK);
+        this.transitionTo(AIState.COMBAT);
         this.tacticalMovement(deltaTime);
       }
     }
@@ -384,7 +354,7 @@ export class Trainer extends BossBase {
   // ========== 教学提示 ==========
   private giveTeachingTip(): void {
     if (this.currentTipIndex < this.teachingTips.length) {
-      const tip = this.teachingTips[this.currentTipIndex];
+      const tip = t(this.teachingTips[this.currentTipIndex]);
       console.log(`[训练官] 提示: ${tip}`);
       this.currentTipIndex++;
       this.teachingTimer = 10.0;
@@ -446,9 +416,6 @@ export class Trainer extends BossBase {
     
     console.log(`[训练官] 投掷闪光弹! 位置: ${targetPos}`);
     this.flashbangCooldown = 10.0;
-    
-    // 可以触发闪光效果
-    this.performSpecialAttack('flashbang');
   }
 
   // ========== 普通攻击 ==========
@@ -459,26 +426,13 @@ export class Trainer extends BossBase {
   // ========== 狂暴攻击 ==========
   private performEnrageAttack(): void {
     // 更快的攻击速度
-    const now = Date.now();
-    if (now - this.lastAttackTime > 300) {
+    const now = getGameClock().now();
+    if (now - this.lastAttackTime > 300 / this.aggression) {
       this.performAttack();
       this.lastAttackTime = now;
     }
   }
 
-  // ========== 特殊攻击更新 ==========
-  protected updateSpecialAttack(deltaTime: number): void {
-    if (this.currentSpecialAttack === 'flashbang') {
-      // 闪光弹效果持续时间
-      this.animationTimer -= deltaTime;
-      if (this.animationTimer <= 0) {
-        this.endSpecialAttack();
-      }
-    } else {
-      super.updateSpecialAttack(deltaTime);
-    }
-  }
-
   // ========== 阶段特定事件 ==========
   onPhaseEnter(phaseIndex: number): void {
     if (phaseIndex === 1) {
@@ -492,7 +446,7 @@ export class Trainer extends BossBase {
   // ========== 创建工厂 ==========
   static create(position: THREE.Vector3 = new THREE.Vector3()): Trainer {
     const id = `trainer_${Date.now()}`;
-    const trainer = new Trainer(id, '训练官X-1');
+    const trainer = new Trainer(id);
     trainer.position.copy(position);
     return trainer;
   }
@@ -220,9 +220,10 @@ export class CoverSystem {
       enemy.coverState.currentCover = enemy.coverState.targetCover;
       enemy.coverState.isMovingToCover = false;
       enemy.isInCover = true;
+      enemy.clearNavigation();
     } else {
-      // 移动向掩体
-      enemy.moveToward(targetPosition, 0.016);
+      // 沿导航路径移动向掩体
+      enemy.navigateTo(targetPosition, 0.016);
     }
   }
   
@@ -0,0 +1,72 @@
+/**
+ * DefaultBehaviorTrees.ts - 默认行为树库
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 载入 data/behaviorTrees.json 并注册通用条件与动作；
+ * 开发模式下修改 JSON 会热重载所有已构建的树
+ */
+
+import { NodeStatus } from './BehaviorTree';
+import type { BehaviorTree, BTContext } from './BehaviorTree';
+import { BehaviorTreeLibrary } from './BehaviorTreeLoader';
+import type { BehaviorTreeFile, BTBindings, BTParams } from './BehaviorTreeLoader';
+import behaviorTreesData from '../../data/behaviorTrees.json';
+
+export const behaviorTrees = new BehaviorTreeLibrary();
+
+// ============== 通用条件 ==============
+// 距离阈值：params.distance 或 custom[params.key]，再乘以 params.scale
+function rangeLimit(ctx: BTContext, params: BTParams): number {
+  const base = typeof params.key === 'string'
+    ? Number(ctx.custom[params.key])
+    : Number(params.distance);
+  return base * (typeof params.scale === 'number' ? params.scale : 1);
+}
+
+behaviorTrees.registerCondition('hasTarget', ctx => ctx.target !== null);
+behaviorTrees.registerCondition('hasLineOfSight', ctx => ctx.hasLineOfSight);
+behaviorTrees.registerCondition('isInCover', ctx => ctx.isInCover);
+behaviorTrees.registerCondition('healthBelow', (ctx, params) => ctx.health < ctx.maxHealth * Number(params.ratio));
+behaviorTrees.registerCondition('customFlag', (ctx, params) => Boolean(ctx.custom[String(params.key)]));
+behaviorTrees.registerCondition('targetWithin', (ctx, params) => ctx.distanceToTarget < rangeLimit(ctx, params));
+behaviorTrees.registerCondition('targetBeyond', (ctx, params) => ctx.distanceToTarget > rangeLimit(ctx, params));
+
+// ============== 通用动作 ==============
+// 依赖上下文中的 self，角色可在构建时用同名绑定覆盖
+behaviorTrees.registerAction('retreat', ctx => {
+  ctx.self.onRetreat();
+  return NodeStatus.SUCCESS;
+});
+
+behaviorTrees.registerAction('approachTarget', ctx => {
+  ctx.self.onApproachTarget(ctx.target!);
+  return NodeStatus.RUNNING;
+});
+
+behaviorTrees.registerAction('attackTarget', ctx => {
+  ctx.self.onAttack(ctx.target!);
+  return NodeStatus.SUCCESS;
+});
+
+behaviorTrees.registerAction('patrol', ctx => {
+  ctx.self.onPatrol();
+  return NodeStatus.SUCCESS;
+});
+
+behaviorTrees.load(behaviorTreesData as unknown as BehaviorTreeFile);
+
+// ============== 常用行为树 ==============
+// 通用敌人: 低血量撤退 > 发现目标攻击 > 巡逻 (enemy.basic)
+export function createEnemyBehaviorTree(bindings: BTBindings = {}, initialContext: Partial<BTContext> = {}): BehaviorTree {
+  return behaviorTrees.build('enemy.basic', bindings, initialContext);
+}
+
+// ============== 热重载 ==============
+// Vite 只识别字面量形式的 import.meta.hot.accept
+if (import.meta.hot) {
+  behaviorTrees.setHotReload(true);
+  import.meta.hot.accept('../../data/behaviorTrees.json', module => {
+    if (module) behaviorTrees.reload(module.default as BehaviorTreeFile);
+  });
+}
+
+export default behaviorTrees;
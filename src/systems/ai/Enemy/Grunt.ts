@@ -4,11 +4,15 @@
  */
 
 import * as THREE from 'three';
-import { AICharacter, AICharacterType, AIState, AIConfig, MovementConfig } from '../AICharacter';
+import { AICharacter, AIConfig } from '../AICharacter';
+import { NodeStatus } from '../BehaviorTree';
+import { createEnemyBehaviorTree } from '../DefaultBehaviorTrees';
+import { AIState, EnemyType } from '../../../core/constants';
+import { getGameClock } from '../../../core/Clock';
 
 // ============== 变异体配置 ==============
 const GRUNT_CONFIG: AIConfig = {
-  type: AICharacterType.GRUNT,
+  type: EnemyType.GRUNT,
   health: 50,
   armor: 0,
   damage: 10,
@@ -43,14 +47,39 @@ export class Grunt extends AICharacter {
       this.position.copy(position);
     }
     
-    // 变异体使用简单的追逐行为树
+    // 变异体使用通用敌人行为树
     this.setupBehaviorTree();
   }
 
   // ========== 设置行为树 ==========
+  // 结构定义在 data/behaviorTrees.json (enemy.basic)；变异体不会撤退，低血量时改为狂暴继续进攻
   private setupBehaviorTree(): void {
-    // 变异体使用内置的简单行为
-    // 不需要复杂的行为树，直接追逐攻击
+    this.behaviorTree = createEnemyBehaviorTree({
+      actions: {
+        retreat: () => {
+          if (!this.isEnraged) this.enterEnraged();
+          return NodeStatus.FAILURE;
+        },
+        approachTarget: (ctx) => {
+          if (ctx.distanceToTarget < this.movementConfig.minDistance) return NodeStatus.SUCCESS;
+          this.approach(ctx.distanceToTarget);
+          return NodeStatus.RUNNING;
+        },
+        attackTarget: () => {
+          this.melee();
+          return NodeStatus.SUCCESS;
+        },
+        patrol: () => {
+          if (this.patrolPoints.length > 0) {
+            this.executePatrol();
+          } else {
+            this.transitionTo(AIState.IDLE);
+            this.stopMoving();
+          }
+          return NodeStatus.SUCCESS;
+        },
+      },
+    });
   }
 
   // ========== 更新 ==========
@@ -62,7 +91,6 @@ export class Grunt extends AICharacter {
       this.stunTime -= deltaTime;
       if (this.stunTime <= 0) {
         this.isStunned = false;
-        this.setState(this.previousState);
       }
       return;
     }
@@ -77,69 +105,33 @@ export class Grunt extends AICharacter {
       this.enterEnraged();
     }
 
-    // 感知更新
-    this.updatePerception(deltaTime);
-
-    // AI逻辑
-    if (this.target && this.perception.hasLineOfSight) {
-      this.executeGruntAI(deltaTime);
-    } else if (this.patrolPoints.length > 0) {
-      this.executePatrol(deltaTime);
-    } else {
-      this.setState(AIState.IDLE);
-    }
-
-    // 应用移动
+    // 决策由行为树完成 (AIManager 在此之前执行)，这里只应用移动
     this.applyMovement(deltaTime);
-    
-    // 更新位置引用
-    this.position.copy(this.mesh?.position || this.position);
   }
 
-  // ========== 变异体专属AI ==========
-  private executeGruntAI(deltaTime: number): void {
-    const distance = this.perception.distanceToTarget;
+  // ========== 靠近 ==========
+  private approach(distance: number): void {
+    this.transitionTo(AIState.CHASE);
+    this.chase();
     
-    // 距离判断
-    if (distance < this.movementConfig.minDistance) {
-      // 太近了，后退一点然后继续
-      this.setState(AIState.ATTACK);
-      this.attack(deltaTime);
-    } else if (distance > this.movementConfig.maxDistance * 0.7) {
-      // 太远了，追击
-      this.setState(AIState.CHASE);
-      this.chase(deltaTime);
-    } else {
-      // 适中距离，靠近攻击
-      this.setState(AIState.CHASE);
-      this.chase(deltaTime);
-      
-      // 靠近后攻击
-      if (distance < this.movementConfig.minDistance + 2) {
-        this.attack(deltaTime);
-      }
+    // 靠近途中出手，不停下
+    if (distance < this.movementConfig.minDistance + 2) {
+      this.strike();
     }
   }
 
   // ========== 追逐 ==========
-  private chase(deltaTime: number): void {
+  // 沿导航路径绕开障碍物，目标移动时自动重新寻路
+  private chase(): void {
     if (!this.target) return;
     
     const direction = new THREE.Vector3().subVectors(
-      this.target.position,
+      this.nextWaypoint(this.target.position),
       this.position
     );
     direction.y = 0;
     direction.normalize();
     
-    // 旋转朝向目标
-    const targetRotation = Math.atan2(direction.x, direction.z);
-    this.rotation.y = THREE.MathUtils.lerp(
-      this.rotation.y,
-      targetRotation,
-      this.movementConfig.rotationSpeed * deltaTime
-    );
-    
     // 移动（狂暴时更快）
     const speed = this.isEnraged 
       ? this.movementConfig.runSpeed * 1.5 
@@ -149,14 +141,20 @@ export class Grunt extends AICharacter {
     this.velocity.z = direction.z * speed;
   }
 
-  // ========== 攻击 ==========
-  private attack(deltaTime: number): void {
-    this.setState(AIState.ATTACK);
-    
-    const now = Date.now();
+  // ========== 近战 ==========
+  // 贴身时原地攻击
+  private melee(): void {
+    this.transitionTo(AIState.COMBAT);
+    this.stopMoving();
+    this.strike();
+  }
+
+  // 按攻击间隔出手
+  private strike(): void {
+    const now = getGameClock().now();
     const attackInterval = this.isEnraged ? 500 : 1000;  // 狂暴攻速更快
     
-    if (now - this.lastAttackTime > attackInterval) {
+    if (now - this.lastAttackTime > attackInterval / this.aggression) {
       this.performAttack();
       this.lastAttackTime = now;
     }
@@ -200,41 +198,30 @@ export class Grunt extends AICharacter {
   }
 
   // ========== 巡逻 ==========
-  private executePatrol(deltaTime: number): void {
-    this.setState(AIState.PATROL);
-    
-    if (this.patrolPoints.length === 0) return;
-    
-    const targetPoint = this.patrolPoints[this.currentPatrolIndex];
-    const distance = this.position.distanceTo(targetPoint);
+  protected executePatrol(deltaTime?: number): void {
+    this.transitionTo(AIState.PATROL);
     
-    if (distance < 1.0) {
-      // 到达巡逻点
-      this.currentPatrolIndex = (this.currentPatrolIndex + 1) % this.patrolPoints.length;
-    } else {
-      // 移动向目标
-      const direction = new THREE.Vector3().subVectors(targetPoint, this.position);
-      direction.y = 0;
-      direction.normalize();
-      
-      this.velocity.x = direction.x * this.movementConfig.patrolSpeed;
-      this.velocity.z = direction.z * this.movementConfig.patrolSpeed;
-      
-      // 旋转
-      const targetRotation = Math.atan2(direction.x, direction.z);
+    // 沿导航路径前往当前巡逻点
+    this.patrol(deltaTime, this.movementConfig.patrolSpeed);
+  }
+
+  // ========== 应用移动 ==========
+  // 移动时转向移动方向
+  private applyMovement(deltaTime: number): void {
+    if (this.velocity.x !== 0 || this.velocity.z !== 0) {
+      const targetRotation = Math.atan2(this.velocity.x, this.velocity.z);
       this.rotation.y = THREE.MathUtils.lerp(
         this.rotation.y,
         targetRotation,
         this.movementConfig.rotationSpeed * deltaTime
       );
     }
-  }
-
-  // ========== 应用移动 ==========
-  private applyMovement(deltaTime: number): void {
+    
+    this.position.x += this.velocity.x * deltaTime;
+    this.position.z += this.velocity.z * deltaTime;
+    
     if (this.mesh) {
-      this.mesh.position.x += this.velocity.x * deltaTime;
-      this.mesh.position.z += this.velocity.z * deltaTime;
+      this.mesh.position.copy(this.position);
       this.mesh.rotation.y = this.rotation.y;
     }
   }
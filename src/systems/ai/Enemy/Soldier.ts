@@ -4,12 +4,15 @@
  */
 
 import * as THREE from 'three';
-import { AICharacter, AICharacterType, AIState, AIConfig } from '../AICharacter';
-import { BTSequence, BTSelector, BTCondition, BTAction, NodeStatus } from '../BehaviorTree';
+import { AICharacter, AIConfig } from '../AICharacter';
+import { AIState, EnemyType } from '../../../core/constants';
+import { NodeStatus } from '../BehaviorTree';
+import { behaviorTrees } from '../DefaultBehaviorTrees';
+import { getGameClock } from '../../../core/Clock';
 
 // ============== 精英士兵配置 ==============
 const SOLDIER_CONFIG: AIConfig = {
-  type: AICharacterType.SOLDIER,
+  type: EnemyType.SOLDIER,
   health: 120,
   armor: 30,
   damage: 20,
@@ -41,7 +44,8 @@ interface CoverState {
 // ============== 精英士兵AI ==============
 export class Soldier extends AICharacter {
   // 战术属性
-  private coverState: CoverState | null = null;
+  private tacticalCover: CoverState | null = null;
+  private coverTimer: number = 0;
   private coverSearchTimer: number = 0;
   private suppressTimer: number = 0;
   private repositionTimer: number = 0;
@@ -52,6 +56,10 @@ export class Soldier extends AICharacter {
   usesGrenades: boolean = true;
   suppressesEnemy: boolean = true;
   
+  // 预设掩体点 (为空时在附近搜索)
+  coverSpots: THREE.Vector3[] = [];
+  currentCoverSpot: THREE.Vector3 | null = null;
+  
   // 攻击模式
   private isSuppressing: boolean = false;
   private burstCount: number = 0;
@@ -78,72 +86,56 @@ export class Soldier extends AICharacter {
   }
 
   // ========== 战术行为树 ==========
+  // 结构定义在 data/behaviorTrees.json (soldier.tactical)，此处绑定士兵专属动作
   private setupTacticalBehaviorTree(): void {
-    // 精英士兵使用更复杂的行为树
-    // 优先级: 寻找掩体 > 压制射击 > 战术机动 > 巡逻
-    
-    const root = new BTSelector('soldier_root', [
-      // 序列1: 低血量时寻找掩体
-      new BTSequence('seekCover', [
-        new BTCondition('isHealthLow', (ctx) => ctx.health < ctx.maxHealth * 0.5),
-        new BTAction('findCover', (ctx) => {
-          this.findAndMoveToCover();
-          return NodeStatus.SUCCESS;
-        }),
-      ]),
-      
-      // 序列2: 被攻击时寻找掩体
-      new BTSequence('coverWhenUnderFire', [
-        new BTCondition('isTakingDamage', (ctx) => ctx.custom['isTakingDamage'] as boolean || false),
-        new BTAction('emergencyCover', (ctx) => {
+    this.behaviorTree = behaviorTrees.build('soldier.tactical', {
+      actions: {
+        findCover: () => {
           this.findAndMoveToCover();
           return NodeStatus.SUCCESS;
-        }),
-      ]),
-      
-      // 序列3: 有目标时战斗
-      new BTSequence('combat', [
-        new BTCondition('hasTarget', (ctx) => ctx.target !== null),
-        new BTSelector('combatActions', [
-          // 点射攻击
-          new BTSequence('burstFire', [
-            new BTCondition('inRange', (ctx) => ctx.distanceToTarget < ctx.custom['maxRange'] as number),
-            new BTAction('suppress', (ctx) => {
-              this.performBurstFire();
-              return NodeStatus.SUCCESS;
-            }),
-          ]),
-          
-          // 靠近或后退以保持距离
-          new BTSequence('maintainDistance', [
-            new BTCondition('outOfRange', (ctx) => ctx.distanceToTarget > (ctx.custom['maxRange'] as number) * 0.8),
-            new BTAction('advance', (ctx) => {
-              this.tacticalAdvance();
-              return NodeStatus.SUCCESS;
-            }),
-          ]),
-          
-          // 重新定位
-          new BTAction('reposition', (ctx) => {
-            this.tacticalReposition();
+        },
+        // 选定掩体后持续前往，中断时放弃该掩体以便下次重新选择
+        emergencyCover: {
+          run: () => {
+            if (this.tacticalCover) {
+              this.moveToCover(this.tacticalCover.position);
+            } else {
+              this.findAndMoveToCover();
+              if (!this.tacticalCover) return NodeStatus.FAILURE;
+            }
+            if (!this.isAtCover()) return NodeStatus.RUNNING;
+            this.tacticalCover = null;
             return NodeStatus.SUCCESS;
-          }),
-        ]),
-      ]),
-      
-      // 默认: 巡逻
-      new BTAction('patrol', (ctx) => {
-        this.onPatrol();
-        return NodeStatus.SUCCESS;
-      }),
-    ]);
-
-    // 使用自定义行为树
-    const { BehaviorTree } = require('../BehaviorTree');
-    this.behaviorTree = new BehaviorTree(root, {
+          },
+          abort: () => {
+            this.tacticalCover = null;
+          },
+        },
+        suppressingFire: (ctx) => {
+          if (!ctx.target) return NodeStatus.FAILURE;
+          this.performBurstFire();
+          return NodeStatus.RUNNING;
+        },
+        suppress: () => {
+          this.performBurstFire();
+          return NodeStatus.SUCCESS;
+        },
+        advance: () => {
+          this.tacticalAdvance();
+          return NodeStatus.SUCCESS;
+        },
+        reposition: () => {
+          this.tacticalReposition();
+          return NodeStatus.SUCCESS;
+        },
+        patrol: () => {
+          this.executePatrol(0.016);
+          return NodeStatus.SUCCESS;
+        },
+      },
+    }, {
       custom: {
         maxRange: this.movementConfig.maxDistance,
-        isTakingDamage: false,
       },
     });
   }
@@ -157,7 +149,6 @@ export class Soldier extends AICharacter {
       this.stunTime -= deltaTime;
       if (this.stunTime <= 0) {
         this.isStunned = false;
-        this.setState(this.previousState);
       }
       return;
     }
@@ -165,23 +156,18 @@ export class Soldier extends AICharacter {
     // 冷却更新
     this.updateTimers(deltaTime);
 
-    // 感知更新
-    this.updatePerception(deltaTime);
-
     // 战术AI
-    if (this.target && this.perception.hasLineOfSight) {
+    if (this.target && this.perception?.hasLineOfSight) {
       this.executeTacticalAI(deltaTime);
     } else if (this.patrolPoints.length > 0) {
       this.executePatrol(deltaTime);
     } else {
-      this.setState(AIState.IDLE);
+      this.transitionTo(AIState.IDLE);
+      this.stopMoving();
     }
 
     // 应用移动
     this.applyMovement(deltaTime);
-    
-    // 更新位置引用
-    this.position.copy(this.mesh?.position || this.position);
   }
 
   // ========== 更新计时器 ==========
@@ -190,12 +176,20 @@ export class Soldier extends AICharacter {
     if (this.suppressTimer > 0) this.suppressTimer -= deltaTime;
     if (this.repositionTimer > 0) this.repositionTimer -= deltaTime;
     if (this.grenadeCooldown > 0) this.grenadeCooldown -= deltaTime;
+    if (this.coverTimer > 0) this.coverTimer -= deltaTime;
   }
 
   // ========== 战术AI执行 ==========
   private executeTacticalAI(deltaTime: number): void {
     const distance = this.perception.distanceToTarget;
     
+    // 在掩体停留期间原地压制
+    if (this.coverTimer > 0) {
+      this.velocity.set(0, 0, 0);
+      this.performBurstFire();
+      return;
+    }
+    
     // 检查是否需要寻找掩体
     if (this.shouldSeekCover()) {
       this.findAndMoveToCover();
@@ -207,15 +201,16 @@ export class Soldier extends AICharacter {
     
     if (distance > idealDistance * 1.2) {
       // 太远，靠近
-      this.setState(AIState.CHASE);
+      this.transitionTo(AIState.CHASE);
       this.tacticalAdvance();
     } else if (distance < this.movementConfig.minDistance) {
       // 太近，后退
-      this.setState(AIState.RETREAT);
+      this.transitionTo(AIState.RETREAT);
       this.tacticalRetreat();
     } else {
-      // 距离合适，压制
-      this.setState(AIState.ATTACK);
+      // 距离合适，原地压制
+      this.transitionTo(AIState.COMBAT);
+      this.velocity.set(0, 0, 0);
       this.performBurstFire();
       
       // 偶尔重新定位
@@ -248,21 +243,29 @@ export class Soldier extends AICharacter {
 
   // ========== 寻找并移动到掩体 ==========
   findAndMoveToCover(): void {
-    this.setState(AIState.COVER);
+    this.transitionTo(AIState.COVER);
     
     if (this.coverSpots.length === 0) {
       // 没有预设掩体，搜索附近
-      this.coverState = this.searchForCover();
+      this.tacticalCover = this.searchForCover();
     } else {
       // 使用预设掩体
-      this.coverState = this.selectBestCover();
+      this.tacticalCover = this.selectBestCover();
     }
     
-    if (this.coverState) {
-      this.moveToCover(this.coverState.position);
+    if (this.tacticalCover) {
+      this.moveToCover(this.tacticalCover.position);
     }
   }
 
+  // ========== 是否已到达掩体 ==========
+  private isAtCover(): boolean {
+    if (!this.tacticalCover) return false;
+    const dx = this.tacticalCover.position.x - this.position.x;
+    const dz = this.tacticalCover.position.z - this.position.z;
+    return dx * dx + dz * dz <= 0.25;
+  }
+
   // ========== 搜索附近掩体 ==========
   private searchForCover(): CoverState | null {
     // 简化的掩体搜索（实际需要射线检测）
@@ -329,8 +332,9 @@ export class Soldier extends AICharacter {
   }
 
   // ========== 移动到掩体 ==========
+  // 沿导航路径接近掩体，终点不可达时停在最近的可达位置
   private moveToCover(coverPosition: THREE.Vector3): void {
-    const direction = new THREE.Vector3().subVectors(coverPosition, this.position);
+    const direction = new THREE.Vector3().subVectors(this.nextWaypoint(coverPosition), this.position);
     direction.y = 0;
     
     if (direction.length() > 0.5) {
@@ -350,6 +354,7 @@ export class Soldier extends AICharacter {
     } else {
       // 到达掩体
       this.velocity.set(0, 0, 0);
+      this.clearNavigation();
       this.coverTimer = 2.0 + Math.random() * 2.0;  // 在掩体停留
     }
   }
@@ -363,10 +368,10 @@ export class Soldier extends AICharacter {
     if (this.burstCount > 0) {
       this.attackCooldown = 0.15;  // 快速点射
       
-      if (Date.now() - this.lastAttackTime > this.attackCooldown * 1000) {
+      if (getGameClock().now() - this.lastAttackTime > this.attackCooldown * 1000 / this.aggression) {
         this.performAttack();
         this.burstCount--;
-        this.lastAttackTime = Date.now();
+        this.lastAttackTime = getGameClock().now();
       }
     } else {
       // 点射间隔
@@ -380,8 +385,16 @@ export class Soldier extends AICharacter {
     
     // 检查距离
     const distance = this.position.distanceTo(this.target.position);
-    if (distance > this.movementConfig.maxDistance) return;
-    
+    const maxDistance = this.movementConfig.maxDistance;
+    if (distance > maxDistance) return;
+
+    // 命中率随距离下降
+    const hitChance = 0.8 - (distance / maxDistance) * 0.4;
+    if (!this.rollHit(hitChance)) {
+      console.log(`${this.name} misses!`);
+      return;
+    }
+
     console.log(`${this.name} fires burst for ${this.damage} damage!`);
     
     // 压制计时
@@ -464,21 +477,23 @@ export class Soldier extends AICharacter {
 
   // ========== 应用移动 ==========
   private applyMovement(deltaTime: number): void {
+    this.position.x += this.velocity.x * deltaTime;
+    this.position.z += this.velocity.z * deltaTime;
+    
     if (this.mesh) {
-      this.mesh.position.x += this.velocity.x * deltaTime;
-      this.mesh.position.z += this.velocity.z * deltaTime;
+      this.mesh.position.copy(this.position);
       this.mesh.rotation.y = this.rotation.y;
     }
   }
 
   // ========== 巡逻 ==========
   protected executePatrol(deltaTime: number): void {
-    this.setState(AIState.PATROL);
+    this.transitionTo(AIState.PATROL);
     super.executePatrol(deltaTime);
   }
 
   // ========== 伤害处理覆盖 ==========
-  takeDamage(amount: number, source: THREE.Object3D | null = null): void {
+  takeDamage(amount: number, source?: THREE.Vector3): void {
     super.takeDamage(amount, source);
     
     // 被攻击时增加压制计时
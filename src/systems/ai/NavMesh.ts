@@ -0,0 +1,604 @@
+/**
+ * NavMesh.ts - 导航网格
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 将关卡几何体光栅化为可行走格子 (无几何体时退化为纯网格)，
+ * A* 寻路 + 视线平滑，支持动态障碍物挖洞
+ */
+
+import * as THREE from 'three';
+
+// ============== 配置 ==============
+export interface NavMeshConfig {
+  cellSize: number;        // 格子边长 (米)
+  agentRadius: number;     // 障碍物向外膨胀的距离 (米)
+  agentHeight: number;     // 高于 地面 + agentHeight 的几何体不阻挡
+  stepHeight: number;      // 低于 地面 + stepHeight 的几何体视为地面
+  floorHeight: number;     // 地面高度
+  minRegionArea: number;   // 小于该面积 (平方米) 的孤立区域视为不可达
+  maxSearchNodes: number;  // 单次 A* 最多展开的格子数
+}
+
+export const DEFAULT_NAVMESH_CONFIG: NavMeshConfig = {
+  cellSize: 0.5,
+  agentRadius: 0.4,
+  agentHeight: 1.8,
+  stepHeight: 0.3,
+  floorHeight: 0,
+  minRegionArea: 4,
+  maxSearchNodes: 4000,
+};
+
+export interface NavMeshBuildOptions extends Partial<NavMeshConfig> {
+  bounds?: THREE.Box3;     // 省略时取地面几何体的范围
+}
+
+export interface NavMeshStats {
+  cols: number;
+  rows: number;
+  cellSize: number;
+  walkableCells: number;
+  carvedCells: number;
+  obstacles: number;
+  version: number;
+}
+
+// 动态障碍物覆盖的格子范围 (含边界)
+interface CellRect {
+  minCol: number;
+  maxCol: number;
+  minRow: number;
+  maxRow: number;
+}
+
+// 场景中无地面时使用的默认范围
+const DEFAULT_HALF_EXTENT = 50;
+// 起点 / 终点不可行走时向外搜索的最大格数
+const NEAREST_SEARCH_RADIUS = 8;
+
+const SQRT2 = Math.SQRT2;
+const NEIGHBORS: ReadonlyArray<[number, number, number]> = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, SQRT2], [1, -1, SQRT2], [-1, 1, SQRT2], [-1, -1, SQRT2],
+];
+
+// 格子中心恰好落在三角形边上时的容差 (米)，避免相邻地面三角形之间漏格
+const EDGE_EPSILON = 1e-6;
+
+// 点 (x, z) 到三角形水平投影的距离，点在三角形内为 0；竖直三角形退化为线段
+function distanceToTriangleXZ(x: number, z: number, a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): number {
+  const d1 = (x - b.x) * (a.z - b.z) - (a.x - b.x) * (z - b.z);
+  const d2 = (x - c.x) * (b.z - c.z) - (b.x - c.x) * (z - c.z);
+  const d3 = (x - a.x) * (c.z - a.z) - (c.x - a.x) * (z - a.z);
+  const hasNegative = d1 < 0 || d2 < 0 || d3 < 0;
+  const hasPositive = d1 > 0 || d2 > 0 || d3 > 0;
+  if (!(hasNegative && hasPositive) && (hasNegative || hasPositive)) return 0;
+
+  return Math.min(
+    distanceToSegmentXZ(x, z, a, b),
+    distanceToSegmentXZ(x, z, b, c),
+    distanceToSegmentXZ(x, z, c, a)
+  );
+}
+
+function distanceToSegmentXZ(x: number, z: number, a: THREE.Vector3, b: THREE.Vector3): number {
+  const dx = b.x - a.x;
+  const dz = b.z - a.z;
+  const lengthSq = dx * dx + dz * dz;
+  const t = lengthSq > 0 ? THREE.MathUtils.clamp(((x - a.x) * dx + (z - a.z) * dz) / lengthSq, 0, 1) : 0;
+  return Math.hypot(x - (a.x + t * dx), z - (a.z + t * dz));
+}
+
+// ============== 导航网格 ==============
+export class NavMesh {
+  public readonly config: NavMeshConfig;
+  public readonly cols: number;
+  public readonly rows: number;
+  private originX: number;
+  private originZ: number;
+
+  // 静态可行走标记 (几何体光栅化结果) 与动态障碍物计数
+  private walkable: Uint8Array;
+  private carved: Uint16Array;
+  private obstacles: Map<string, CellRect> = new Map();
+  private version: number = 0;
+
+  // A* 复用缓冲区，按 searchId 区分不同次搜索
+  private searchId: number = 0;
+  private visited: Uint32Array;
+  private closed: Uint32Array;
+  private gScore: Float32Array;
+  private fScore: Float32Array;
+  private parent: Int32Array;
+  private heap: number[] = [];
+
+  constructor(bounds: THREE.Box3, config: Partial<NavMeshConfig> = {}) {
+    this.config = { ...DEFAULT_NAVMESH_CONFIG, ...config };
+    const { cellSize } = this.config;
+
+    this.originX = bounds.min.x;
+    this.originZ = bounds.min.z;
+    this.cols = Math.max(1, Math.ceil((bounds.max.x - bounds.min.x) / cellSize));
+    this.rows = Math.max(1, Math.ceil((bounds.max.z - bounds.min.z) / cellSize));
+
+    const count = this.cols * this.rows;
+    this.walkable = new Uint8Array(count).fill(1);
+    this.carved = new Uint16Array(count);
+    this.visited = new Uint32Array(count);
+    this.closed = new Uint32Array(count);
+    this.gScore = new Float32Array(count);
+    this.fScore = new Float32Array(count);
+    this.parent = new Int32Array(count);
+  }
+
+  // ============== 生成 ==============
+  // 光栅化 root 下所有网格：贴地三角形标记地面，处于角色高度范围内的三角形标记障碍；
+  // userData.navIgnore 为 true 的对象 (及其子对象) 不参与。
+  // 场景里没有地面三角形时整块范围都可行走 (纯网格)
+  public static fromScene(root: THREE.Object3D, options: NavMeshBuildOptions = {}): NavMesh {
+    const { bounds, ...config } = options;
+    const settings = { ...DEFAULT_NAVMESH_CONFIG, ...config };
+    const floorTop = settings.floorHeight + settings.stepHeight;
+    const ceiling = settings.floorHeight + settings.agentHeight;
+
+    const floors: THREE.Triangle[] = [];
+    const blockers: THREE.Triangle[] = [];
+    const floorBounds = new THREE.Box3();
+    NavMesh.collectTriangles(root, (triangle, extent) => {
+      if (extent.max.y <= floorTop) {
+        floors.push(triangle);
+        floorBounds.union(extent);
+      } else if (extent.min.y < ceiling) {
+        blockers.push(triangle);
+      }
+    });
+
+    const navMesh = new NavMesh(bounds ?? NavMesh.resolveBounds(floorBounds), settings);
+
+    // 地面按格子中心是否落在三角形内；障碍物再加半格，使轴对齐的墙与按格子重叠判定一致
+    if (floors.length > 0) {
+      navMesh.walkable.fill(0);
+      floors.forEach(triangle => navMesh.markTriangle(triangle, 0, 1));
+    }
+    const blockerPadding = settings.agentRadius + settings.cellSize / 2;
+    blockers.forEach(triangle => navMesh.markTriangle(triangle, blockerPadding, 0));
+    navMesh.removeSmallRegions();
+
+    return navMesh;
+  }
+
+  // 无关卡几何体时的纯网格 (如测试场地)
+  public static createGrid(bounds: THREE.Box3, config: Partial<NavMeshConfig> = {}): NavMesh {
+    return new NavMesh(bounds, config);
+  }
+
+  private static resolveBounds(floorBounds: THREE.Box3): THREE.Box3 {
+    if (!floorBounds.isEmpty()) return floorBounds;
+    console.warn('[NavMesh] 场景中没有地面几何体，使用默认范围');
+    return new THREE.Box3(
+      new THREE.Vector3(-DEFAULT_HALF_EXTENT, 0, -DEFAULT_HALF_EXTENT),
+      new THREE.Vector3(DEFAULT_HALF_EXTENT, 0, DEFAULT_HALF_EXTENT)
+    );
+  }
+
+  // 逐个输出世界坐标下的三角形及其包围盒
+  private static collectTriangles(
+    root: THREE.Object3D,
+    visit: (triangle: THREE.Triangle, extent: THREE.Box3) => void
+  ): void {
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+    root.updateMatrixWorld(true);
+
+    const traverse = (object: THREE.Object3D) => {
+      if (object.userData.navIgnore) return;
+      if (object instanceof THREE.Mesh && object.geometry instanceof THREE.BufferGeometry) {
+        const position = object.geometry.getAttribute('position');
+        const index = object.geometry.getIndex();
+        const count = index ? index.count : position?.count ?? 0;
+        for (let i = 0; i + 2 < count; i += 3) {
+          const [i0, i1, i2] = index
+            ? [index.getX(i), index.getX(i + 1), index.getX(i + 2)]
+            : [i, i + 1, i + 2];
+          a.fromBufferAttribute(position, i0).applyMatrix4(object.matrixWorld);
+          b.fromBufferAttribute(position, i1).applyMatrix4(object.matrixWorld);
+          c.fromBufferAttribute(position, i2).applyMatrix4(object.matrixWorld);
+          visit(new THREE.Triangle(a.clone(), b.clone(), c.clone()), new THREE.Box3().setFromPoints([a, b, c]));
+        }
+      }
+      object.children.forEach(traverse);
+    };
+    traverse(root);
+  }
+
+  // 移除过小的连通区域 (如被障碍物围住的箱子内部)
+  private removeSmallRegions(): void {
+    const minCells = this.config.minRegionArea / (this.config.cellSize * this.config.cellSize);
+    const region = new Int32Array(this.walkable.length).fill(-1);
+    const stack: number[] = [];
+
+    for (let start = 0; start < this.walkable.length; start++) {
+      if (!this.walkable[start] || region[start] !== -1) continue;
+
+      const cells: number[] = [];
+      region[start] = start;
+      stack.push(start);
+      while (stack.length > 0) {
+        const cell = stack.pop()!;
+        cells.push(cell);
+        const col = cell % this.cols;
+        const row = (cell - col) / this.cols;
+        for (let n = 0; n < 4; n++) {
+          const next = this.indexOf(col + NEIGHBORS[n][0], row + NEIGHBORS[n][1]);
+          if (next !== -1 && this.walkable[next] && region[next] === -1) {
+            region[next] = start;
+            stack.push(next);
+          }
+        }
+      }
+
+      if (cells.length < minCells) cells.forEach(cell => { this.walkable[cell] = 0; });
+    }
+  }
+
+  // ============== 动态障碍物 ==============
+  // 同一 id 再次添加视为移动；障碍物按包围盒挖洞并膨胀 agentRadius
+  public addObstacle(id: string, source: THREE.Box3 | THREE.Object3D): void {
+    const bounds = source instanceof THREE.Box3 ? source : new THREE.Box3().setFromObject(source);
+    const previous = this.obstacles.get(id);
+    if (previous) this.carveCells(previous, -1);
+
+    const { floorHeight, stepHeight, agentHeight, agentRadius } = this.config;
+    const blocking = !bounds.isEmpty()
+      && bounds.max.y > floorHeight + stepHeight
+      && bounds.min.y < floorHeight + agentHeight;
+    const rect = blocking ? this.getCellRect(bounds, agentRadius) : null;
+
+    if (rect) {
+      this.carveCells(rect, 1);
+      this.obstacles.set(id, rect);
+    } else {
+      this.obstacles.delete(id);
+    }
+    if (previous || rect) this.version++;
+  }
+
+  public removeObstacle(id: string): boolean {
+    const rect = this.obstacles.get(id);
+    if (!rect) return false;
+    this.carveCells(rect, -1);
+    this.obstacles.delete(id);
+    this.version++;
+    return true;
+  }
+
+  public getObstacleIds(): string[] {
+    return Array.from(this.obstacles.keys());
+  }
+
+  public clearObstacles(): void {
+    if (this.obstacles.size === 0) return;
+    this.carved.fill(0);
+    this.obstacles.clear();
+    this.version++;
+  }
+
+  // 每次障碍物变化递增，寻路方据此判断已有路径是否需要检查
+  public getVersion(): number {
+    return this.version;
+  }
+
+  // ============== 查询 ==============
+  public isWalkable(point: THREE.Vector3): boolean {
+    return this.isPassable(this.cellAt(point.x, point.z));
+  }
+
+  // 最近的可行走格子中心，搜索半径内没有则返回 null
+  public findNearestWalkable(point: THREE.Vector3): THREE.Vector3 | null {
+    const cell = this.findNearestCell(point);
+    return cell === -1 ? null : this.cellCenter(cell, point.y);
+  }
+
+  // 两点连线经过的格子是否都可行走 (对角穿过格点时两侧都需可行走)
+  public hasLineOfSight(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    const { cellSize } = this.config;
+    const x0 = (from.x - this.originX) / cellSize;
+    const z0 = (from.z - this.originZ) / cellSize;
+    const dx = (to.x - from.x) / cellSize;
+    const dz = (to.z - from.z) / cellSize;
+
+    let col = Math.floor(x0);
+    let row = Math.floor(z0);
+    const endCol = Math.floor(x0 + dx);
+    const endRow = Math.floor(z0 + dz);
+    const stepCol = Math.sign(dx);
+    const stepRow = Math.sign(dz);
+    const deltaX = stepCol !== 0 ? Math.abs(1 / dx) : Infinity;
+    const deltaZ = stepRow !== 0 ? Math.abs(1 / dz) : Infinity;
+    let maxX = stepCol === 0 ? Infinity : (stepCol > 0 ? col + 1 - x0 : x0 - col) * deltaX;
+    let maxZ = stepRow === 0 ? Infinity : (stepRow > 0 ? row + 1 - z0 : z0 - row) * deltaZ;
+
+    if (!this.isPassable(this.indexOf(col, row))) return false;
+    while (col !== endCol || row !== endRow) {
+      if (Math.abs(maxX - maxZ) < 1e-9) {
+        if (!this.isPassable(this.indexOf(col + stepCol, row))) return false;
+        if (!this.isPassable(this.indexOf(col, row + stepRow))) return false;
+        col += stepCol;
+        row += stepRow;
+        maxX += deltaX;
+        maxZ += deltaZ;
+      } else if (maxX < maxZ) {
+        col += stepCol;
+        maxX += deltaX;
+      } else {
+        row += stepRow;
+        maxZ += deltaZ;
+      }
+      if (!this.isPassable(this.indexOf(col, row))) return false;
+      if (maxX > 1 && maxZ > 1) break;
+    }
+    return true;
+  }
+
+  // 路径 (含起点) 的每一段是否仍然畅通
+  public isPathClear(points: THREE.Vector3[]): boolean {
+    for (let i = 1; i < points.length; i++) {
+      if (!this.hasLineOfSight(points[i - 1], points[i])) return false;
+    }
+    return true;
+  }
+
+  // ============== 寻路 ==============
+  // 返回平滑后的路径点 (不含起点，末点为终点)；终点不可达时走到离终点最近的可达格子。
+  // 起点或终点附近都没有可行走格子时返回 null
+  public findPath(from: THREE.Vector3, to: THREE.Vector3): THREE.Vector3[] | null {
+    const start = this.findNearestCell(from);
+    const goal = this.findNearestCell(to);
+    if (start === -1 || goal === -1) return null;
+
+    const cells = this.search(start, goal);
+    const reachedGoal = cells[cells.length - 1] === goal;
+    const points = cells.map(cell => this.cellCenter(cell, from.y));
+    // 终点所在格子可行走时以终点本身结尾，否则停在格子中心
+    if (reachedGoal && goal === this.cellAt(to.x, to.z)) {
+      points[points.length - 1] = to.clone();
+    } else {
+      points[points.length - 1].y = to.y;
+    }
+
+    return this.smooth(from, points);
+  }
+
+  // A* (八方向，不切角，八方向距离启发)；超出展开上限或不可达时返回到最接近终点的格子
+  private search(start: number, goal: number): number[] {
+    const id = ++this.searchId;
+    const goalCol = goal % this.cols;
+    const goalRow = (goal - goalCol) / this.cols;
+    const heuristic = (cell: number) => {
+      const col = cell % this.cols;
+      const dx = Math.abs(col - goalCol);
+      const dz = Math.abs((cell - col) / this.cols - goalRow);
+      return Math.max(dx, dz) + (SQRT2 - 1) * Math.min(dx, dz);
+    };
+
+    this.heap.length = 0;
+    this.visited[start] = id;
+    this.gScore[start] = 0;
+    this.parent[start] = -1;
+    this.push(start, heuristic(start));
+
+    let best = start;
+    let bestH = heuristic(start);
+    let expanded = 0;
+
+    while (this.heap.length > 0 && expanded < this.config.maxSearchNodes) {
+      const current = this.pop();
+      if (this.closed[current] === id) continue;
+      this.closed[current] = id;
+      expanded++;
+
+      const h = this.fScore[current] - this.gScore[current];
+      if (h < bestH) {
+        best = current;
+        bestH = h;
+      }
+      if (current === goal) break;
+
+      const col = current % this.cols;
+      const row = (current - col) / this.cols;
+      for (const [dCol, dRow, cost] of NEIGHBORS) {
+        const next = this.indexOf(col + dCol, row + dRow);
+        if (!this.isPassable(next) || this.closed[next] === id) continue;
+        // 对角移动要求两侧格子都可行走，避免擦过障碍物拐角
+        if (dCol !== 0 && dRow !== 0
+          && (!this.isPassable(this.indexOf(col + dCol, row)) || !this.isPassable(this.indexOf(col, row + dRow)))) {
+          continue;
+        }
+
+        const g = this.gScore[current] + cost;
+        if (this.visited[next] === id && g >= this.gScore[next]) continue;
+        this.visited[next] = id;
+        this.gScore[next] = g;
+        this.parent[next] = current;
+        this.push(next, g + heuristic(next));
+      }
+    }
+
+    const cells: number[] = [];
+    for (let cell = best; cell !== -1; cell = this.parent[cell]) cells.push(cell);
+    return cells.reverse();
+  }
+
+  // 视线平滑：从当前锚点尽量跳到最远的可直达路径点
+  private smooth(from: THREE.Vector3, points: THREE.Vector3[]): THREE.Vector3[] {
+    const result: THREE.Vector3[] = [];
+    let anchor = from;
+    let i = 0;
+    while (i < points.length) {
+      let next = i;
+      while (next + 1 < points.length && this.hasLineOfSight(anchor, points[next + 1])) next++;
+      result.push(points[next]);
+      anchor = points[next];
+      i = next + 1;
+    }
+    return result;
+  }
+
+  // ============== 二叉堆 (按 fScore) ==============
+  private push(cell: number, f: number): void {
+    this.fScore[cell] = f;
+    const heap = this.heap;
+    heap.push(cell);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const up = (i - 1) >> 1;
+      if (this.fScore[heap[up]] <= f) break;
+      heap[i] = heap[up];
+      i = up;
+    }
+    heap[i] = cell;
+  }
+
+  private pop(): number {
+    const heap = this.heap;
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      const f = this.fScore[last];
+      let i = 0;
+      for (;;) {
+        let child = i * 2 + 1;
+        if (child >= heap.length) break;
+        if (child + 1 < heap.length && this.fScore[heap[child + 1]] < this.fScore[heap[child]]) child++;
+        if (this.fScore[heap[child]] >= f) break;
+        heap[i] = heap[child];
+        i = child;
+      }
+      heap[i] = last;
+    }
+    return top;
+  }
+
+  // ============== 格子工具 ==============
+  private indexOf(col: number, row: number): number {
+    if (col < 0 || row < 0 || col >= this.cols || row >= this.rows) return -1;
+    return row * this.cols + col;
+  }
+
+  private cellAt(x: number, z: number): number {
+    const { cellSize } = this.config;
+    return this.indexOf(Math.floor((x - this.originX) / cellSize), Math.floor((z - this.originZ) / cellSize));
+  }
+
+  private cellCenter(cell: number, y: number): THREE.Vector3 {
+    const { cellSize } = this.config;
+    const col = cell % this.cols;
+    const row = (cell - col) / this.cols;
+    return new THREE.Vector3(
+      this.originX + (col + 0.5) * cellSize,
+      y,
+      this.originZ + (row + 0.5) * cellSize
+    );
+  }
+
+  private isPassable(cell: number): boolean {
+    return cell !== -1 && this.walkable[cell] === 1 && this.carved[cell] === 0;
+  }
+
+  // 逐圈向外查找，返回最近一圈中距离最近的可行走格子
+  private findNearestCell(point: THREE.Vector3): number {
+    const { cellSize } = this.config;
+    const col = Math.floor((point.x - this.originX) / cellSize);
+    const row = Math.floor((point.z - this.originZ) / cellSize);
+    if (this.isPassable(this.indexOf(col, row))) return this.indexOf(col, row);
+
+    for (let radius = 1; radius <= NEAREST_SEARCH_RADIUS; radius++) {
+      let best = -1;
+      let bestDistance = Infinity;
+      for (let dRow = -radius; dRow <= radius; dRow++) {
+        for (let dCol = -radius; dCol <= radius; dCol++) {
+          if (Math.max(Math.abs(dCol), Math.abs(dRow)) !== radius) continue;
+          const cell = this.indexOf(col + dCol, row + dRow);
+          const distance = dCol * dCol + dRow * dRow;
+          if (this.isPassable(cell) && distance < bestDistance) {
+            best = cell;
+            bestDistance = distance;
+          }
+        }
+      }
+      if (best !== -1) return best;
+    }
+    return -1;
+  }
+
+  // 包围盒 (向外膨胀 padding) 覆盖的格子，完全在范围外时返回 null
+  private getCellRect(bounds: THREE.Box3, padding: number): CellRect | null {
+    const { cellSize } = this.config;
+    const rect = {
+      minCol: Math.max(0, Math.floor((bounds.min.x - padding - this.originX) / cellSize)),
+      maxCol: Math.min(this.cols - 1, Math.floor((bounds.max.x + padding - this.originX) / cellSize)),
+      minRow: Math.max(0, Math.floor((bounds.min.z - padding - this.originZ) / cellSize)),
+      maxRow: Math.min(this.rows - 1, Math.floor((bounds.max.z + padding - this.originZ) / cellSize)),
+    };
+    return rect.minCol > rect.maxCol || rect.minRow > rect.maxRow ? null : rect;
+  }
+
+  // 标记中心到三角形水平投影的距离不超过 padding 的格子
+  private markTriangle(triangle: THREE.Triangle, padding: number, value: number): void {
+    const { a, b, c } = triangle;
+    const rect = this.getCellRect(new THREE.Box3().setFromPoints([a, b, c]), padding);
+    if (!rect) return;
+
+    const { cellSize } = this.config;
+    for (let row = rect.minRow; row <= rect.maxRow; row++) {
+      const z = this.originZ + (row + 0.5) * cellSize;
+      for (let col = rect.minCol; col <= rect.maxCol; col++) {
+        const x = this.originX + (col + 0.5) * cellSize;
+        if (distanceToTriangleXZ(x, z, a, b, c) <= padding + EDGE_EPSILON) {
+          this.walkable[row * this.cols + col] = value;
+        }
+      }
+    }
+  }
+
+  private carveCells(rect: CellRect, delta: number): void {
+    for (let row = rect.minRow; row <= rect.maxRow; row++) {
+      for (let col = rect.minCol; col <= rect.maxCol; col++) {
+        this.carved[row * this.cols + col] += delta;
+      }
+    }
+  }
+
+  // ============== 调试 ==============
+  public getStats(): NavMeshStats {
+    let walkableCells = 0;
+    let carvedCells = 0;
+    for (let i = 0; i < this.walkable.length; i++) {
+      if (this.walkable[i]) walkableCells++;
+      if (this.walkable[i] && this.carved[i] > 0) carvedCells++;
+    }
+    return {
+      cols: this.cols,
+      rows: this.rows,
+      cellSize: this.config.cellSize,
+      walkableCells,
+      carvedCells,
+      obstacles: this.obstacles.size,
+      version: this.version,
+    };
+  }
+
+  // 不可行走格子中心 [x, y, z, ...]，carved 为 true 时只返回动态障碍物挖掉的格子
+  public getBlockedCells(carved: boolean = false): number[] {
+    const positions: number[] = [];
+    for (let cell = 0; cell < this.walkable.length; cell++) {
+      const blocked = carved ? this.walkable[cell] === 1 && this.carved[cell] > 0 : this.walkable[cell] === 0;
+      if (!blocked) continue;
+      const center = this.cellCenter(cell, this.config.floorHeight);
+      positions.push(center.x, center.y, center.z);
+    }
+    return positions;
+  }
+}
+
+export default NavMesh;
@@ -6,6 +6,9 @@
 
 import * as THREE from 'three';
 import { AICharacter } from './AICharacter';
+import { getGameClock } from '../../core/Clock';
+import { BlackboardKey } from './Blackboard';
+import type { AgentBlackboard } from './Blackboard';
 
 // ============== 感知结果 ==============
 export interface PerceptionResult {
@@ -58,6 +61,9 @@ export const DEFAULT_PERCEPTION_CONFIG: PerceptionConfig = {
   memoryDuration: 3000, // 3秒记忆
 };
 
+// 受伤后视为"正在受到攻击"的时长 (毫秒)
+const DAMAGE_WINDOW = 1000;
+
 // ============== 感知系统 ==============
 export class PerceptionSystem {
   // 玩家最后已知位置
@@ -67,10 +73,6 @@ export class PerceptionSystem {
   private lastSeenTime: number = 0;
   private lastHeardTime: number = 0;
   
-  // 伤害追踪
-  private lastDamagePosition: THREE.Vector3 | null = null;
-  private lastDamageTime: number = 0;
-  
   // 临时向量
   private tempVector: THREE.Vector3 = new THREE.Vector3();
   private tempDirection: THREE.Vector3 = new THREE.Vector3();
@@ -79,7 +81,7 @@ export class PerceptionSystem {
   // ============== 更新感知 ==============
   public update(enemy: AICharacter, targetPosition: THREE.Vector3): PerceptionResult {
     const config = enemy.perceptionConfig || DEFAULT_PERCEPTION_CONFIG;
-    const now = performance.now();
+    const now = getGameClock().now();
     
     // 计算方向
     this.tempVector.subVectors(targetPosition, enemy.position);
@@ -128,8 +130,8 @@ export class PerceptionSystem {
       canHear,
       hearingSensitivity: this.getHearingSensitivity(enemy),
       isTakingDamage,
-      lastDamagePosition: this.lastDamagePosition,
-      lastDamageTime: this.lastDamageTime,
+      lastDamagePosition: enemy.lastDamageSource,
+      lastDamageTime: enemy.lastDamageTime,
       timeSinceLastSeen: now - this.lastSeenTime,
       timeSinceLastHeard: now - this.lastHeardTime,
     };
@@ -188,20 +190,40 @@ export class PerceptionSystem {
   
   // ============== 伤害检测 ==============
   private checkDamage(enemy: AICharacter): boolean {
-    const now = performance.now();
+    const now = getGameClock().now();
     
-    // 检查是否在受伤冷却期内
-    if (now - this.lastDamageTime < 1000) {
+    // 检查是否在受伤冷却期内 (按敌人各自记录)
+    if (now - enemy.lastDamageTime < DAMAGE_WINDOW) {
       return true;
     }
     
     return false;
   }
   
-  // ============== 记录伤害 ==============
-  public recordDamage(position: THREE.Vector3): void {
-    this.lastDamagePosition = position.clone();
-    this.lastDamageTime = performance.now();
+  // ============== 写入黑板 ==============
+  // 目击位置写入小队层 (未编队时为个体层) 供队友共享，记忆时长后过期
+  public publish(
+    result: PerceptionResult,
+    blackboard: AgentBlackboard,
+    targetPosition: THREE.Vector3,
+    config: PerceptionConfig = DEFAULT_PERCEPTION_CONFIG
+  ): void {
+    blackboard.set(BlackboardKey.TARGET_VISIBLE, result.hasLineOfSight);
+    blackboard.set(BlackboardKey.TARGET_DISTANCE, result.distanceToTarget);
+
+    if (result.visiblePosition) {
+      blackboard.set(BlackboardKey.TARGET_LAST_SEEN, result.visiblePosition, {
+        scope: 'squad',
+        ttl: config.memoryDuration,
+      });
+    }
+    if (result.canHear) {
+      blackboard.set(BlackboardKey.TARGET_LAST_HEARD, targetPosition.clone(), { ttl: config.memoryDuration });
+    }
+    if (result.isTakingDamage && result.lastDamagePosition) {
+      const remaining = DAMAGE_WINDOW - (getGameClock().now() - result.lastDamageTime);
+      blackboard.set(BlackboardKey.THREAT_DAMAGE_SOURCE, result.lastDamagePosition, { ttl: remaining });
+    }
   }
   
   // ============== 听觉灵敏度 ==============
@@ -226,7 +248,7 @@ export class PerceptionSystem {
   
   // ============== 是否记得目标位置 ==============
   public remembersTarget(config: PerceptionConfig): boolean {
-    const now = performance.now();
+    const now = getGameClock().now();
     return (now - this.lastSeenTime) < config.memoryDuration ||
            (now - this.lastHeardTime) < config.memoryDuration;
   }
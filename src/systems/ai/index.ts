@@ -4,15 +4,41 @@
  */
 
 export { AIManager } from './AIManager';
+export type { AlertLink } from './AIManager';
 export { PerceptionSystem } from './Perception';
 export type { PerceptionResult, PerceptionConfig } from './Perception';
 
+export { Blackboard, AgentBlackboard, BlackboardRegistry, BlackboardKey, BLACKBOARD_SCOPES } from './Blackboard';
+export type { BlackboardValues, BlackboardScope, BlackboardWriteOptions, BlackboardListener } from './Blackboard';
+
+export { NavMesh, DEFAULT_NAVMESH_CONFIG } from './NavMesh';
+export type { NavMeshConfig, NavMeshBuildOptions, NavMeshStats } from './NavMesh';
+
 export { CoverSystem } from './CoverSystem';
 export type { CoverSpot, CoverState, CoverType } from './CoverSystem';
 
-export { BehaviorTree } from './BehaviorTree';
+export { BehaviorTree, BTBlackboardCondition, ObserverAbort } from './BehaviorTree';
+export type { BTTickRecorder } from './BehaviorTree';
+export { BehaviorTreeTracer } from './BehaviorTreeTracer';
+export type { BTTraceNode, BTTraceTick, BTTraceExport } from './BehaviorTreeTracer';
+export { BehaviorTreeLibrary, BehaviorTreeError, validateNode } from './BehaviorTreeLoader';
+export type {
+  BehaviorTreeDefinition,
+  BehaviorTreeFile,
+  BTNodeDefinition,
+  BTDefinitionIssue,
+  BTBindings,
+  BTConditionHandler,
+  BTActionHandler,
+  BTParams,
+  BlackboardCheck,
+} from './BehaviorTreeLoader';
+export { behaviorTrees, createEnemyBehaviorTree } from './DefaultBehaviorTrees';
 export { AICharacter } from './AICharacter';
 export type { AIConfig } from './AICharacter';
 
+export { AIDebugOverlay, AI_DEBUG_LAYERS } from './AIDebugOverlay';
+export type { AIDebugLayer } from './AIDebugOverlay';
+
 // Re-export enemy types
 export { EnemyType, AIState } from '../../core/constants';
@@ -0,0 +1,75 @@
+/**
+ * CommandHistory.ts - 控制台命令历史
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 独立于存档持久化，刷新页面后仍可用 ↑ / ↓ 调出
+ */
+
+import { SaveStorageAdapter, createDefaultStorage } from '../../core/SaveStorage';
+
+const MAX_ENTRIES = 100;
+
+export class CommandHistory {
+  static readonly STORAGE_KEY = 'ink_realm_console_history';
+
+  private entries: string[];
+
+  constructor(private storage: SaveStorageAdapter = createDefaultStorage()) {
+    this.entries = this.load();
+  }
+
+  // ============== 读写 ==============
+  // 与上一条相同的命令不重复记录
+  public add(line: string): void {
+    const entry = line.trim();
+    if (!entry || this.entries[this.entries.length - 1] === entry) return;
+
+    this.entries.push(entry);
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+    }
+    this.persist();
+  }
+
+  public getEntries(): readonly string[] {
+    return [...this.entries];
+  }
+
+  // index 从 0 (最早) 开始
+  public get(index: number): string | undefined {
+    return this.entries[index];
+  }
+
+  public size(): number {
+    return this.entries.length;
+  }
+
+  public clear(): void {
+    this.entries = [];
+    this.storage.removeItem(CommandHistory.STORAGE_KEY);
+  }
+
+  // ============== 持久化 ==============
+  private load(): string[] {
+    const stored = this.storage.getItem(CommandHistory.STORAGE_KEY);
+    if (!stored) return [];
+
+    try {
+      const parsed = JSON.parse(stored);
+      if (!Array.isArray(parsed)) throw new Error('历史记录应为数组');
+      return parsed.filter((entry): entry is string => typeof entry === 'string').slice(-MAX_ENTRIES);
+    } catch (error) {
+      console.warn('[CommandHistory] 历史记录损坏，已清空:', error);
+      return [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      this.storage.setItem(CommandHistory.STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('[CommandHistory] 保存历史记录失败:', error);
+    }
+  }
+}
+
+export default CommandHistory;
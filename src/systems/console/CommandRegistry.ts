@@ -0,0 +1,208 @@
+/**
+ * CommandRegistry.ts - 控制台命令注册表
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 解析并执行控制台输入，提供命令名与参数补全；各系统可注册自己的命令
+ */
+
+import type { Unsubscribe } from '../../core/EventBus';
+
+// ============== 类型 ==============
+// 返回值作为输出行；异步命令返回 Promise，完成后再输出
+export type CommandLines = string | string[] | void;
+export type CommandResult = CommandLines | Promise<CommandLines>;
+
+export interface ConsoleCommand {
+  name: string;
+  description: string;
+  usage?: string;                           // 如 "spawn <type> [count]"
+  aliases?: string[];
+  // 返回当前正在输入的参数 (args 最后一项) 的候选值
+  complete?: (args: string[]) => string[];
+  execute(args: string[]): CommandResult;
+}
+
+export interface CommandOutput {
+  ok: boolean;
+  lines: string[];
+  // 异步命令完成后的输出
+  pending?: Promise<CommandOutput>;
+}
+
+// 参数错误等可预期的失败，只输出消息而不打印堆栈
+export class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+// ============== 命令注册表 ==============
+export class CommandRegistry {
+  private commands: Map<string, ConsoleCommand> = new Map();
+  private aliases: Map<string, string> = new Map();
+
+  constructor() {
+    this.register({
+      name: 'help',
+      description: '列出命令或查看命令用法',
+      usage: 'help [command]',
+      complete: args => (args.length === 1 ? this.getNames() : []),
+      execute: args => this.help(args[0]),
+    });
+  }
+
+  // ============== 注册 ==============
+  public register(command: ConsoleCommand): Unsubscribe {
+    const name = command.name.toLowerCase();
+    if (this.commands.has(name)) {
+      console.warn(`[CommandRegistry] 命令重复注册，已替换: ${name}`);
+      this.unregister(name);
+    }
+
+    this.commands.set(name, command);
+    command.aliases?.forEach(alias => this.aliases.set(alias.toLowerCase(), name));
+
+    return () => {
+      if (this.commands.get(name) === command) this.unregister(name);
+    };
+  }
+
+  public unregister(name: string): void {
+    const command = this.get(name);
+    if (!command) return;
+
+    this.commands.delete(command.name.toLowerCase());
+    command.aliases?.forEach(alias => this.aliases.delete(alias.toLowerCase()));
+  }
+
+  public get(name: string): ConsoleCommand | undefined {
+    const key = name.toLowerCase();
+    return this.commands.get(key) ?? this.commands.get(this.aliases.get(key) ?? '');
+  }
+
+  public has(name: string): boolean {
+    return !!this.get(name);
+  }
+
+  public getAll(): ConsoleCommand[] {
+    return [...this.commands.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public getNames(): string[] {
+    return this.getAll().map(command => command.name);
+  }
+
+  // ============== 执行 ==============
+  public execute(input: string): CommandOutput {
+    const [name, ...args] = tokenize(input);
+    if (!name) return { ok: true, lines: [] };
+
+    const command = this.get(name);
+    if (!command) {
+      return { ok: false, lines: [`未知命令: ${name}，输入 help 查看命令列表`] };
+    }
+
+    try {
+      const result = command.execute(args);
+      if (result instanceof Promise) {
+        return {
+          ok: true,
+          lines: [],
+          pending: result.then(
+            lines => ({ ok: true, lines: toLines(lines) }),
+            error => this.failure(command, error)
+          ),
+        };
+      }
+      return { ok: true, lines: toLines(result) };
+    } catch (error) {
+      return this.failure(command, error);
+    }
+  }
+
+  private failure(command: ConsoleCommand, error: unknown): CommandOutput {
+    if (error instanceof CommandError) {
+      const lines = [error.message];
+      if (command.usage) lines.push(`用法: ${command.usage}`);
+      return { ok: false, lines };
+    }
+    console.error(`[CommandRegistry] 命令执行失败: ${command.name}`, error);
+    return { ok: false, lines: [`执行失败: ${(error as Error).message}`] };
+  }
+
+  // ============== 补全 ==============
+  // 返回补全后的整行输入
+  public complete(input: string): string[] {
+    const tokens = tokenize(input);
+    // 以空格结尾表示开始输入下一个参数
+    if (/\s$/.test(input) || tokens.length === 0) tokens.push('');
+
+    const current = tokens[tokens.length - 1];
+    const prefix = tokens.slice(0, -1);
+
+    let candidates: string[];
+    if (prefix.length === 0) {
+      candidates = this.getNames();
+    } else {
+      const command = this.get(prefix[0]);
+      candidates = command?.complete?.([...prefix.slice(1), current]) ?? [];
+    }
+
+    const lower = current.toLowerCase();
+    return candidates
+      .filter(candidate => candidate.toLowerCase().startsWith(lower))
+      .map(candidate => [...prefix, candidate].join(' '));
+  }
+
+  // ============== 帮助 ==============
+  private help(name?: string): string[] {
+    if (name) {
+      const command = this.get(name);
+      if (!command) throw new CommandError(`未知命令: ${name}`);
+      return [
+        `${command.usage ?? command.name}  ${command.description}`,
+        ...(command.aliases?.length ? [`别名: ${command.aliases.join(', ')}`] : []),
+      ];
+    }
+
+    return this.getAll().map(command => `${(command.usage ?? command.name).padEnd(28)} ${command.description}`);
+  }
+}
+
+// ============== 工具函数 ==============
+function toLines(result: CommandLines): string[] {
+  if (Array.isArray(result)) return result;
+  return typeof result === 'string' ? [result] : [];
+}
+
+// 按空白分隔，支持双引号包裹含空格的参数
+export function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input)) !== null) {
+    tokens.push(match[1] ?? match[2]);
+  }
+  return tokens;
+}
+
+export function parseNumberArg(value: string | undefined, name: string): number {
+  const number = Number(value);
+  if (value === undefined || value.trim() === '' || !Number.isFinite(number)) {
+    throw new CommandError(`${name} 应为数字: ${value ?? '(缺失)'}`);
+  }
+  return number;
+}
+
+// 省略时返回 fallback
+export function parseBooleanArg(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined) return fallback;
+  if (['on', 'true', '1'].includes(value.toLowerCase())) return true;
+  if (['off', 'false', '0'].includes(value.toLowerCase())) return false;
+  throw new CommandError(`应为 on / off: ${value}`);
+}
+
+export function requireArg(value: string | undefined, name: string): string {
+  if (value === undefined || value === '') throw new CommandError(`缺少参数 ${name}`);
+  return value;
+}
@@ -0,0 +1,660 @@
+/**
+ * GameplayCommands.ts - 玩法调试命令
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 按可用的系统分组注册：核心、AI、导航、装备、剧情、任务、关卡、难度；返回的函数用于注销
+ */
+
+import * as THREE from 'three';
+import type { Core } from '../../core/Core';
+import type { FrameProfiler } from '../../core/FrameProfiler';
+import type { Unsubscribe } from '../../core/EventBus';
+import { GamePhase } from '../../core/GameState';
+import { parseConfigValue } from '../../core/RuntimeConfig';
+import { HttpSyncAdapter, createMockSyncServer } from '../../core/CloudSync';
+import type { MockSyncServer } from '../../core/CloudSync';
+import { EnemyType, Difficulty } from '../../core/constants';
+import type { AIManager } from '../ai/AIManager';
+import type { AICharacter } from '../ai/AICharacter';
+import { Grunt } from '../ai/Enemy/Grunt';
+import { Soldier } from '../ai/Enemy/Soldier';
+import { Trainer } from '../ai/Boss/Trainer';
+import { AI_DEBUG_LAYERS } from '../ai/AIDebugOverlay';
+import type { AIDebugOverlay, AIDebugLayer } from '../ai/AIDebugOverlay';
+import { EQUIPMENT_DATABASE, getEquipmentName } from '../rpg/Equipment';
+import type { EquipmentManager } from '../rpg/Equipment';
+import type { StoryEngine } from '../story/StoryEngine';
+import { QuestStatus } from '../npc/QuestSystem';
+import type { QuestSystem } from '../npc/QuestSystem';
+import type { LevelManager } from '../level/LevelManager';
+import type { DifficultyManager } from '../level/DifficultyManager';
+import type { DifficultyDirector } from '../level/DifficultyDirector';
+import enemiesData from '../../data/enemies.json';
+import {
+  CommandRegistry,
+  ConsoleCommand,
+  CommandError,
+  parseNumberArg,
+  parseBooleanArg,
+  requireArg,
+} from './CommandRegistry';
+
+// 生成敌人的工厂，默认按类型选择 AI 子类，并套用 enemies.json 中该类型的第一个模板
+export type SpawnFactory = (type: EnemyType, position: THREE.Vector3, index: number) => AICharacter;
+
+export interface GameplayCommandTargets {
+  core: Core;
+  ai?: AIManager;
+  spawnFactory?: SpawnFactory;
+  aiDebug?: AIDebugOverlay;
+  profiler?: FrameProfiler;
+  togglePerfHud?: () => void;
+  toggleEventTimeline?: () => void;
+  behaviorTreePanel?: BehaviorTreePanelControls;
+  equipment?: EquipmentManager;
+  story?: StoryEngine;
+  quests?: QuestSystem;
+  levels?: LevelManager;
+  difficulty?: DifficultyManager;
+  director?: DifficultyDirector;
+  toggleDifficultyReadout?: () => void;
+}
+
+// 行为树调试面板 (由 UIManager 持有)
+export interface BehaviorTreePanelControls {
+  toggle(): void;
+  show(enemyId: string): boolean;
+}
+
+// 生成敌人时围绕玩家的半径
+const SPAWN_RADIUS = 8;
+const MAX_SPAWN_COUNT = 50;
+// nav block 默认障碍物边长 (米)
+const NAV_BLOCK_SIZE = 2;
+
+const ENEMY_TYPES = Object.values(EnemyType) as string[];
+
+// 精英沿用士兵的战术 AI；Boss 为训练官，生命值由其阶段配置决定
+const ENEMY_CLASSES: Record<EnemyType, (id: string, name: string, position: THREE.Vector3) => AICharacter> = {
+  [EnemyType.GRUNT]: (id, name, position) => new Grunt(id, name, position),
+  [EnemyType.SOLDIER]: (id, name, position) => new Soldier(id, name, position),
+  [EnemyType.ELITE]: (id, name, position) => new Soldier(id, name, position),
+  [EnemyType.BOSS]: (id, _name, position) => {
+    const trainer = new Trainer(id);
+    trainer.position.copy(position);
+    return trainer;
+  },
+};
+
+export const createTemplateEnemy: SpawnFactory = (type, position, index) => {
+  const template = enemiesData.enemies.find(enemy => enemy.type === type);
+  const enemy = ENEMY_CLASSES[type](`console_${type}_${Date.now()}_${index}`, template?.name ?? type, position);
+  if (type === EnemyType.BOSS) return enemy;
+
+  enemy.type = type;
+  if (template) {
+    enemy.health = enemy.maxHealth = template.health;
+    enemy.armor = template.armor;
+    enemy.damage = template.damage;
+  }
+  return enemy;
+};
+
+function registerAll(registry: CommandRegistry, commands: ConsoleCommand[]): Unsubscribe {
+  const unsubscribes = commands.map(command => registry.register(command));
+  return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+}
+
+// 第一个参数为子命令时的补全
+function subcommand(names: string[], complete: (args: string[]) => string[]) {
+  return (args: string[]): string[] => (args.length === 1 ? names : complete(args.slice(1)));
+}
+
+// ============== 核心 ==============
+export function registerCoreCommands(
+  registry: CommandRegistry,
+  core: Core,
+  toggleTimeline?: () => void
+): Unsubscribe {
+  // sync mock 共用一个内存服务器，多次同步之间保留远端存档
+  let mockServer: MockSyncServer | null = null;
+
+  return registerAll(registry, [
+    {
+      name: 'god',
+      description: '无敌模式',
+      usage: 'god [on|off]',
+      complete: args => (args.length === 1 ? ['on', 'off'] : []),
+      execute: args => {
+        core.setGodMode(parseBooleanArg(args[0], !core.isGodMode()));
+        return `无敌模式: ${core.isGodMode() ? '开启' : '关闭'}`;
+      },
+    },
+    {
+      name: 'tp',
+      description: '传送玩家',
+      usage: 'tp <x> <y> <z>',
+      aliases: ['teleport'],
+      execute: args => {
+        const position = new THREE.Vector3(
+          parseNumberArg(args[0], 'x'),
+          parseNumberArg(args[1], 'y'),
+          parseNumberArg(args[2], 'z')
+        );
+        core.updatePlayerPosition(position);
+        return `已传送到 (${position.x}, ${position.y}, ${position.z})`;
+      },
+    },
+    {
+      name: 'timescale',
+      description: '游戏时间缩放，省略参数时显示当前值',
+      usage: 'timescale [scale]',
+      execute: args => {
+        if (args[0] !== undefined) {
+          const scale = parseNumberArg(args[0], 'scale');
+          if (scale < 0) throw new CommandError('scale 不能为负数');
+          core.setTimeScale(scale);
+        }
+        return `时间缩放: ${core.getTimeScale()}`;
+      },
+    },
+    {
+      name: 'phase',
+      description: '切换游戏阶段 (遵循阶段转换规则)',
+      usage: 'phase <GamePhase>',
+      complete: args => (args.length === 1 ? Object.values(GamePhase) : []),
+      execute: args => {
+        const phase = requireArg(args[0], 'phase') as GamePhase;
+        if (!Object.values(GamePhase).includes(phase)) {
+          throw new CommandError(`未知阶段: ${phase}`);
+        }
+        const from = core.gameState.getPhase();
+        if (!core.gameState.setPhase(phase)) {
+          throw new CommandError(`不允许的阶段切换: ${from} → ${phase}`);
+        }
+        return `阶段: ${from} → ${phase}`;
+      },
+    },
+    {
+      name: 'config',
+      description: '查看或覆盖运行时配置 (写入 debug 层，reset 清除)',
+      usage: 'config [KEY [value|reset]]',
+      complete: args => {
+        if (args.length === 1) return Object.keys(core.config.getAll());
+        return args.length === 2 ? ['reset'] : [];
+      },
+      execute: args => {
+        const { config } = core;
+        const [key, value] = args;
+        if (!key) {
+          return Object.entries(config.getLayer('debug')).map(([name, current]) => `${name} = ${current} (debug)`);
+        }
+        if (!config.has(key)) throw new CommandError(`未知配置项: ${key}`);
+
+        if (value === 'reset') {
+          config.patchLayer('debug', { [key]: undefined });
+        } else if (value !== undefined) {
+          const issues = config.patchLayer('debug', { [key]: parseConfigValue(key, value) });
+          if (issues.length > 0) throw new CommandError(`${key}: ${issues[0].message}`);
+        }
+        return `${key} = ${config.get(key)} (${config.getSource(key)})`;
+      },
+    },
+    {
+      name: 'sync',
+      description: '云同步存档；可先指定服务器地址，mock 使用内存模拟服务器',
+      usage: 'sync [mock|<endpoint>]',
+      complete: args => (args.length === 1 ? ['mock'] : []),
+      execute: args => {
+        const { saveSystem } = core;
+        if (args[0] === 'mock') {
+          mockServer ??= createMockSyncServer();
+          saveSystem.setCloudSync(new HttpSyncAdapter({ endpoint: '/mock', fetch: mockServer.fetch }));
+        } else if (args[0] !== undefined) {
+          saveSystem.setCloudSync(new HttpSyncAdapter({ endpoint: args[0] }));
+        }
+        if (!saveSystem.getCloudSync()) throw new CommandError('未配置云同步服务器');
+
+        // 同步完成后输出到控制台
+        return saveSystem.cloudSync().then(result => {
+          const summary = `上传 [${result.uploaded.join(', ')}] 下载 [${result.downloaded.join(', ')}]`;
+          if (result.success) return `云同步完成: ${summary}`;
+          if (result.error) throw new Error(`云同步失败: ${result.error}`);
+          throw new Error(`云同步部分失败: ${summary}; ${result.failed.map(f => `槽位 ${f.slot}: ${f.error}`).join('; ')}`);
+        });
+      },
+    },
+    {
+      name: 'timeline',
+      description: '开关事件时间轴 (回放事件日志)',
+      usage: 'timeline',
+      execute: () => {
+        if (!toggleTimeline) throw new CommandError('事件时间轴不可用');
+        toggleTimeline();
+      },
+    },
+  ]);
+}
+
+// ============== 性能分析 ==============
+export function registerProfilerCommands(
+  registry: CommandRegistry,
+  profiler: FrameProfiler,
+  toggleHud?: () => void
+): Unsubscribe {
+  const ms = (value: number) => `${value.toFixed(2)} ms`;
+
+  return registerAll(registry, [
+    {
+      name: 'perf',
+      description: '性能分析：录制片段、查看统计或开关性能 HUD',
+      usage: 'perf [hud] | capture [frames] | stop [label] | summary',
+      complete: subcommand(['hud', 'capture', 'stop', 'summary'], () => []),
+      execute: args => {
+        switch (args[0]) {
+          case 'capture': {
+            const frames = args[1] === undefined ? undefined : parseNumberArg(args[1], 'frames');
+            if (frames !== undefined && (!Number.isInteger(frames) || frames < 1)) {
+              throw new CommandError('frames 应为正整数');
+            }
+            profiler.startCapture(frames);
+            return `开始录制 (上限 ${profiler.getCaptureProgress()?.limit} 帧)`;
+          }
+          case 'stop': {
+            const capture = profiler.stopCapture(args[1]);
+            if (!capture) throw new CommandError('当前没有在录制');
+            return `录制结束: ${capture.frames.length} 帧，CPU 平均 ${ms(capture.summary.total.avg)}，在性能 HUD 中导出`;
+          }
+          case 'summary': {
+            const summary = profiler.getSummary();
+            return [
+              `最近 ${summary.frames} 帧  帧间隔 ${ms(summary.interval.avg)} (p95 ${ms(summary.interval.p95)})`,
+              `CPU ${ms(summary.total.avg)} (max ${ms(summary.total.max)})  绘制 ${summary.drawCalls.avg.toFixed(0)}`,
+              ...Object.entries(summary.systems)
+                .sort((a, b) => b[1].avg - a[1].avg)
+                .map(([name, stat]) => `  ${name.padEnd(24)} ${ms(stat.avg)}  max ${ms(stat.max)}`),
+            ];
+          }
+          case 'hud':
+          case undefined:
+            if (!toggleHud) throw new CommandError('性能 HUD 不可用');
+            toggleHud();
+            return;
+          default:
+            throw new CommandError(`未知子命令: ${args[0]}`);
+        }
+      },
+    },
+  ]);
+}
+
+// ============== AI ==============
+export function registerAICommands(
+  registry: CommandRegistry,
+  ai: AIManager,
+  core: Core,
+  factory: SpawnFactory = createTemplateEnemy
+): Unsubscribe {
+  return registerAll(registry, [
+    {
+      name: 'spawn',
+      description: '在玩家周围生成敌人',
+      usage: 'spawn <type> [count]',
+      complete: args => (args.length === 1 ? ENEMY_TYPES : []),
+      execute: args => {
+        const type = requireArg(args[0], 'type').toLowerCase();
+        if (!ENEMY_TYPES.includes(type)) {
+          throw new CommandError(`未知敌人类型: ${type} (可用: ${ENEMY_TYPES.join(', ')})`);
+        }
+
+        const count = args[1] === undefined ? 1 : parseNumberArg(args[1], 'count');
+        if (!Number.isInteger(count) || count < 1 || count > MAX_SPAWN_COUNT) {
+          throw new CommandError(`count 应为 1-${MAX_SPAWN_COUNT} 的整数`);
+        }
+
+        const center = core.player.position;
+        for (let i = 0; i < count; i++) {
+          const angle = (i / count) * Math.PI * 2;
+          const position = new THREE.Vector3(
+            center.x + Math.cos(angle) * SPAWN_RADIUS,
+            center.y,
+            center.z + Math.sin(angle) * SPAWN_RADIUS
+          );
+          ai.registerEnemy(factory(type as EnemyType, position, i));
+        }
+        return `已生成 ${count} 个 ${type}，当前敌人 ${ai.getStats().totalEnemies}`;
+      },
+    },
+  ]);
+}
+
+export function registerAIDebugCommands(registry: CommandRegistry, overlay: AIDebugOverlay): Unsubscribe {
+  const layers = AI_DEBUG_LAYERS as string[];
+
+  return registerAll(registry, [
+    {
+      name: 'aidebug',
+      description: '开关 AI 调试层，按敌人 id 过滤或切换图层',
+      usage: 'aidebug [on|off] | filter <id|*> | layer <name> [on|off]',
+      complete: subcommand(['on', 'off', 'filter', 'layer'], args => (args.length === 1 ? layers : [])),
+      execute: args => {
+        switch (args[0]) {
+          case 'filter': {
+            const filter = requireArg(args[1], 'id');
+            overlay.setFilter(filter === '*' ? null : filter);
+            return filter === '*' ? '显示全部敌人' : `仅显示 id 包含 "${filter}" 的敌人`;
+          }
+          case 'layer': {
+            const layer = requireArg(args[1], 'name');
+            if (!layers.includes(layer)) {
+              throw new CommandError(`未知图层: ${layer} (可用: ${layers.join(', ')})`);
+            }
+            const visible = parseBooleanArg(args[2], !overlay.getLayers()[layer as AIDebugLayer]);
+            overlay.setLayerVisible(layer as AIDebugLayer, visible);
+            return `图层 ${layer}: ${visible ? '开' : '关'}`;
+          }
+          default: {
+            const visible = parseBooleanArg(args[0], !overlay.isVisible());
+            if (visible) {
+              overlay.show();
+            } else {
+              overlay.hide();
+            }
+            const enabled = AI_DEBUG_LAYERS.filter(layer => overlay.getLayers()[layer]);
+            return `AI 调试层: ${visible ? `开 (${enabled.join(', ') || '无图层'})` : '关'}`;
+          }
+        }
+      },
+    },
+  ]);
+}
+
+// ============== 行为树调试 ==============
+export function registerBehaviorTreeCommands(
+  registry: CommandRegistry,
+  ai: AIManager,
+  panel?: BehaviorTreePanelControls
+): Unsubscribe {
+  const enemyIds = () => ai.getEnemies().filter(enemy => enemy.behaviorTree).map(enemy => enemy.id);
+
+  return registerAll(registry, [
+    {
+      name: 'bt',
+      description: '行为树调试：开关面板、在面板中跟踪敌人或打印当前运行路径',
+      usage: 'bt [panel] | show <id> | status <id>',
+      complete: subcommand(['panel', 'show', 'status'], args => (args.length === 1 ? enemyIds() : [])),
+      execute: args => {
+        switch (args[0]) {
+          case 'show': {
+            if (!panel) throw new CommandError('行为树面板不可用');
+            const id = requireArg(args[1], 'id');
+            if (!panel.show(id)) throw new CommandError(`敌人不存在或没有行为树: ${id}`);
+            return `跟踪 ${id} 的行为树`;
+          }
+          case 'status': {
+            const id = requireArg(args[1], 'id');
+            const tree = ai.getEnemy(id)?.behaviorTree;
+            if (!tree) throw new CommandError(`敌人不存在或没有行为树: ${id}`);
+            return `${id}: ${tree.getLastStatus()}  ${tree.getActivePath().join(' → ')}`;
+          }
+          case 'panel':
+          case undefined:
+            if (!panel) throw new CommandError('行为树面板不可用');
+            panel.toggle();
+            return;
+          default:
+            throw new CommandError(`未知子命令: ${args[0]}`);
+        }
+      },
+    },
+  ]);
+}
+
+// ============== 导航 ==============
+// 控制台添加的障碍物以 console_ 为前缀，便于统一移除
+export function registerNavigationCommands(registry: CommandRegistry, ai: AIManager): Unsubscribe {
+  let nextObstacle = 1;
+  const requireNavMesh = () => {
+    const navMesh = ai.getNavMesh();
+    if (!navMesh) throw new CommandError('导航网格未生成');
+    return navMesh;
+  };
+  const consoleObstacles = () => ai.getNavMesh()?.getObstacleIds().filter(id => id.startsWith('console_')) ?? [];
+
+  return registerAll(registry, [
+    {
+      name: 'nav',
+      description: '导航网格：查看统计、添加 / 移除动态障碍物、打印敌人当前路径',
+      usage: 'nav [info] | block <x> <z> [size] | unblock [id|*] | path <id>',
+      complete: args => {
+        if (args.length === 1) return ['info', 'block', 'unblock', 'path'];
+        if (args.length !== 2) return [];
+        if (args[0] === 'unblock') return ['*', ...consoleObstacles()];
+        if (args[0] === 'path') return ai.getEnemies().map(enemy => enemy.id);
+        return [];
+      },
+      execute: args => {
+        switch (args[0]) {
+          case 'block': {
+            const navMesh = requireNavMesh();
+            const x = parseNumberArg(requireArg(args[1], 'x'), 'x');
+            const z = parseNumberArg(requireArg(args[2], 'z'), 'z');
+            const size = args[3] === undefined ? NAV_BLOCK_SIZE : parseNumberArg(args[3], 'size');
+            if (size <= 0) throw new CommandError('size 应大于 0');
+
+            const floor = navMesh.config.floorHeight;
+            const id = `console_${nextObstacle++}`;
+            navMesh.addObstacle(id, new THREE.Box3(
+              new THREE.Vector3(x - size / 2, floor, z - size / 2),
+              new THREE.Vector3(x + size / 2, floor + size, z + size / 2)
+            ));
+            return `已添加障碍物 ${id} (${x}, ${z})`;
+          }
+          case 'unblock': {
+            const navMesh = requireNavMesh();
+            const id = args[1] ?? '*';
+            const ids = id === '*' ? consoleObstacles() : [id];
+            const removed = ids.filter(obstacle => navMesh.removeObstacle(obstacle));
+            if (id !== '*' && removed.length === 0) throw new CommandError(`障碍物不存在: ${id}`);
+            return `已移除 ${removed.length} 个障碍物`;
+          }
+          case 'path': {
+            const id = requireArg(args[1], 'id');
+            const enemy = ai.getEnemy(id);
+            if (!enemy) throw new CommandError(`敌人不存在: ${id}`);
+            if (enemy.navigationPath.length === 0) return `${id}: 无路径`;
+            return `${id}: ${enemy.navigationPath.map(point => `(${point.x.toFixed(1)}, ${point.z.toFixed(1)})`).join(' → ')}`;
+          }
+          case 'info':
+          case undefined: {
+            const stats = requireNavMesh().getStats();
+            return `导航网格 ${stats.cols}x${stats.rows} @${stats.cellSize}m  可行走 ${stats.walkableCells}  ` +
+              `挖洞 ${stats.carvedCells}  障碍物 ${stats.obstacles}  版本 ${stats.version}`;
+          }
+          default:
+            throw new CommandError(`未知子命令: ${args[0]}`);
+        }
+      },
+    },
+  ]);
+}
+
+// ============== 装备 ==============
+export function registerEquipmentCommands(registry: CommandRegistry, equipment: EquipmentManager): Unsubscribe {
+  return registerAll(registry, [
+    {
+      name: 'give',
+      description: '将装备加入背包',
+      usage: 'give <equipmentId>',
+      complete: args => (args.length === 1 ? Object.keys(EQUIPMENT_DATABASE) : []),
+      execute: args => {
+        const id = requireArg(args[0], 'equipmentId');
+        const data = EQUIPMENT_DATABASE[id];
+        if (!data) throw new CommandError(`未知装备: ${id}`);
+
+        const instance = equipment.addEquipment(data);
+        return `已获得 ${getEquipmentName(data)} (${instance.instanceId})`;
+      },
+    },
+  ]);
+}
+
+// ============== 剧情 ==============
+export function registerStoryCommands(registry: CommandRegistry, story: StoryEngine): Unsubscribe {
+  const names = (record: Record<string, unknown>) => Object.keys(record);
+
+  return registerAll(registry, [
+    {
+      name: 'setflag',
+      description: '设置剧情 flag',
+      usage: 'setflag <name> [true|false]',
+      complete: args => {
+        if (args.length === 1) return names(story.getState().flags);
+        return args.length === 2 ? ['true', 'false'] : [];
+      },
+      execute: args => {
+        const name = requireArg(args[0], 'name');
+        const value = parseBooleanArg(args[1], true);
+        story.setFlag(name, value);
+        return `flag ${name} = ${value}`;
+      },
+    },
+    {
+      name: 'setvar',
+      description: '设置剧情变量 (数字与 true/false 自动转换)',
+      usage: 'setvar <name> <value>',
+      complete: args => (args.length === 1 ? names(story.getState().variables) : []),
+      execute: args => {
+        const name = requireArg(args[0], 'name');
+        const raw = requireArg(args[1], 'value');
+        const value = raw === 'true' ? true
+          : raw === 'false' ? false
+          : Number.isFinite(Number(raw)) ? Number(raw)
+          : raw;
+        story.setVariable(name, value);
+        return `变量 ${name} = ${JSON.stringify(value)}`;
+      },
+    },
+  ]);
+}
+
+// ============== 任务 ==============
+export function registerQuestCommands(registry: CommandRegistry, quests: QuestSystem): Unsubscribe {
+  const openQuests = () => [...quests.getActiveQuests(), ...quests.getAvailableQuests()].map(quest => quest.id);
+
+  return registerAll(registry, [
+    {
+      name: 'quest',
+      description: '任务操作：直接完成 (未接受时先接受)',
+      usage: 'quest complete <id>',
+      complete: subcommand(['complete'], args => (args.length === 1 ? openQuests() : [])),
+      execute: args => {
+        if (args[0] !== 'complete') throw new CommandError(`未知子命令: ${args[0] ?? '(缺失)'}`);
+
+        const id = requireArg(args[1], 'id');
+        const quest = quests.getQuest(id);
+        if (!quest) throw new CommandError(`未知任务: ${id}`);
+        if (quest.status === QuestStatus.AVAILABLE) quests.acceptQuest(id);
+        if (quest.status !== QuestStatus.ACTIVE) {
+          throw new CommandError(`任务 ${id} 无法完成，状态: ${quest.status}`);
+        }
+
+        // 补满所有目标，最后一个目标达成时自动完成
+        quest.objectives.forEach(objective => {
+          quests.updateObjective(id, objective.id, objective.requiredCount - objective.currentCount);
+        });
+        if (quest.status === QuestStatus.ACTIVE) quests.completeQuest(id);
+        return `任务 ${quest.name}: ${quest.status}`;
+      },
+    },
+  ]);
+}
+
+// ============== 关卡 ==============
+export function registerLevelCommands(registry: CommandRegistry, levels: LevelManager, core: Core): Unsubscribe {
+  return registerAll(registry, [
+    {
+      name: 'level',
+      description: '载入关卡 (忽略解锁条件)',
+      usage: 'level load <id>',
+      complete: subcommand(['load'], args => (args.length === 1 ? levels.getAllLevels().map(level => level.id) : [])),
+      execute: args => {
+        if (args[0] !== 'load') throw new CommandError(`未知子命令: ${args[0] ?? '(缺失)'}`);
+
+        const id = requireArg(args[1], 'id');
+        const level = levels.startLevel(id, true);
+        if (!level) throw new CommandError(`未知关卡: ${id}`);
+
+        core.loadLevel(id);
+        return `载入关卡 ${level.name} (${id})`;
+      },
+    },
+  ]);
+}
+
+// ============== 难度 ==============
+export function registerDifficultyCommands(
+  registry: CommandRegistry,
+  difficulty: DifficultyManager,
+  director?: DifficultyDirector,
+  toggleReadout?: () => void
+): Unsubscribe {
+  const levels = Object.values(Difficulty) as string[];
+
+  return registerAll(registry, [
+    {
+      name: 'difficulty',
+      description: '查看 / 切换难度，开关动态难度与其调试读数',
+      usage: 'difficulty [<level>] | adaptive [on|off] | readout',
+      complete: subcommand([...levels, 'adaptive', 'readout'], args => (args.length === 1 ? ['on', 'off'] : [])),
+      execute: args => {
+        switch (args[0]) {
+          case undefined: {
+            const adaptive = director
+              ? `动态难度: ${director.isEnabled() ? `开 (评分 ${director.getDebugInfo().score.toFixed(2)})` : '关'}`
+              : '动态难度: 不可用';
+            return [`难度: ${difficulty.getDifficulty()}`, adaptive];
+          }
+          case 'adaptive': {
+            if (!director) throw new CommandError('动态难度不可用');
+            const enabled = parseBooleanArg(args[1], !director.isEnabled());
+            director.setEnabled(enabled);
+            return `动态难度: ${enabled ? '开' : '关'}`;
+          }
+          case 'readout':
+            if (!toggleReadout) throw new CommandError('动态难度读数不可用');
+            toggleReadout();
+            return;
+          default: {
+            if (!levels.includes(args[0])) {
+              throw new CommandError(`未知难度: ${args[0]} (可用: ${levels.join(', ')})`);
+            }
+            difficulty.setDifficulty(args[0] as Difficulty);
+            return `难度: ${difficulty.getDifficulty()}`;
+          }
+        }
+      },
+    },
+  ]);
+}
+
+// ============== 汇总 ==============
+// 缺少的系统对应的命令不注册
+export function registerGameplayCommands(registry: CommandRegistry, targets: GameplayCommandTargets): Unsubscribe {
+  const { core } = targets;
+  const unsubscribes = [
+    registerCoreCommands(registry, core, targets.toggleEventTimeline),
+    targets.profiler && registerProfilerCommands(registry, targets.profiler, targets.togglePerfHud),
+    targets.ai && registerAICommands(registry, targets.ai, core, targets.spawnFactory),
+    targets.aiDebug && registerAIDebugCommands(registry, targets.aiDebug),
+    targets.ai && registerBehaviorTreeCommands(registry, targets.ai, targets.behaviorTreePanel),
+    targets.ai && registerNavigationCommands(registry, targets.ai),
+    targets.equipment && registerEquipmentCommands(registry, targets.equipment),
+    targets.story && registerStoryCommands(registry, targets.story),
+    targets.quests && registerQuestCommands(registry, targets.quests),
+    targets.levels && registerLevelCommands(registry, targets.levels, core),
+    targets.difficulty &&
+      registerDifficultyCommands(registry, targets.difficulty, targets.director, targets.toggleDifficultyReadout),
+  ].filter((unsubscribe): unsubscribe is Unsubscribe => !!unsubscribe);
+
+  return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+}
@@ -0,0 +1,35 @@
+/**
+ * systems/console/index.ts - 开发者控制台导出
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ */
+
+import { CommandRegistry } from './CommandRegistry';
+
+export {
+  CommandRegistry,
+  CommandError,
+  tokenize,
+  parseNumberArg,
+  parseBooleanArg,
+  requireArg,
+} from './CommandRegistry';
+export type { ConsoleCommand, CommandLines, CommandResult, CommandOutput } from './CommandRegistry';
+export { CommandHistory } from './CommandHistory';
+export {
+  registerGameplayCommands,
+  registerCoreCommands,
+  registerProfilerCommands,
+  registerAICommands,
+  registerAIDebugCommands,
+  registerBehaviorTreeCommands,
+  registerNavigationCommands,
+  registerEquipmentCommands,
+  registerStoryCommands,
+  registerQuestCommands,
+  registerLevelCommands,
+  createTemplateEnemy,
+} from './GameplayCommands';
+export type { GameplayCommandTargets, SpawnFactory, BehaviorTreePanelControls } from './GameplayCommands';
+
+// 默认注册表：各系统可直接 commands.register(...) 添加自己的命令
+export const commands = new CommandRegistry();
@@ -8,6 +8,7 @@ import { WeaponData, WeaponState, HitResult, DamageType } from './types';
 import { RecoilSystem, createRecoilFromWeapon } from './Recoil';
 import { SpreadInterpolator, SpreadConfig } from './Spread';
 import { BulletTrace, TracerEffect, TraceableEntity } from './BulletTrace';
+import { defaultDamageCalculator } from '../rpg/DamageCalc';
 
 // Event types for weapon actions
 export type WeaponEventType = 
@@ -162,7 +163,8 @@ export class Weapon {
       origin: origin.clone(),
       direction: spreadDirection,
       maxDistance: this.data.maxRange,
-      damage: this.data.damage,
+      // Difficulty's player damage multiplier (set by DifficultyManager)
+      damage: this.data.damage * defaultDamageCalculator.getDamageMultiplier(),
       damageType: this.data.damageType,
       falloff: this.data.damageFalloff,
       pierces: this.getPierceCount(),
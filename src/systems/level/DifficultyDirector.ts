@@ -0,0 +1,304 @@
+/**
+ * DifficultyDirector.ts - 动态难度调节
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 依据玩家表现 (击杀、伤害交换、命中率、检查点死亡、关卡尝试次数) 在限定范围内缓慢调整敌人命中率、攻击性与数量
+ */
+
+import { Core, GameEvent, SystemPhase } from '../../core';
+import type { SaveParticipant } from '../../core/SaveSystem';
+import type { Unsubscribe } from '../../core/EventBus';
+import { DifficultyManager, AdaptiveAdjustment, NEUTRAL_ADJUSTMENT } from './DifficultyManager';
+import type { LevelManager } from './LevelManager';
+
+// ============== 配置 ==============
+export interface AdjustmentBounds {
+  min: number;
+  max: number;
+}
+
+export interface DirectorOptions {
+  enabled?: boolean;
+  responseTime?: number;     // 秒，越大调整越平缓
+  bounds?: Partial<Record<keyof AdaptiveAdjustment, AdjustmentBounds>>;
+}
+
+const DEFAULT_BOUNDS: Record<keyof AdaptiveAdjustment, AdjustmentBounds> = {
+  accuracy: { min: 0.75, max: 1.2 },
+  aggression: { min: 0.8, max: 1.25 },
+  spawnCount: { min: 0.8, max: 1.2 },
+};
+
+// 各项表现的权重，合计为 1
+const SCORE_WEIGHTS = {
+  exchange: 0.25,
+  kills: 0.15,
+  accuracy: 0.2,
+  deaths: 0.25,
+  attempts: 0.15,
+};
+
+const MIN_SHOTS_FOR_ACCURACY = 10;
+const NEUTRAL_ACCURACY = 0.35;
+const NEUTRAL_DAMAGE_SHARE = 0.75;   // 玩家造成伤害 / (造成 + 承受)
+const DAMAGE_PER_KILL = 20;          // 每承受该伤害应换来一次击杀
+const START_CHECKPOINT = 'start';
+
+// ============== 调试 ==============
+export interface DirectorDebugInfo {
+  enabled: boolean;
+  score: number;
+  components: Record<keyof typeof SCORE_WEIGHTS, number>;
+  target: AdaptiveAdjustment;
+  adjustment: AdaptiveAdjustment;
+  samples: {
+    shotsFired: number;
+    shotsHit: number;
+    checkpoint: string;
+    deathsAtCheckpoint: number;
+    attempts: number;
+  };
+}
+
+export interface DirectorSaveData {
+  enabled: boolean;
+  shotsFired: number;
+  shotsHit: number;
+  deaths: [string, number][];
+  adjustment: AdaptiveAdjustment;
+}
+
+// ============== 动态难度 ==============
+export class DifficultyDirector implements SaveParticipant<DirectorSaveData> {
+  readonly saveKey = 'director';
+  private core: Core;
+
+  private enabled: boolean;
+  private responseTime: number;
+  private bounds: Record<keyof AdaptiveAdjustment, AdjustmentBounds>;
+
+  private shotsFired: number = 0;
+  private shotsHit: number = 0;
+  // 霰弹等一发多次命中只计一次
+  private shotHit: boolean = false;
+  private checkpoint: string = START_CHECKPOINT;
+  private deaths: Map<string, number> = new Map();
+
+  private score: number = 0;
+  private components: DirectorDebugInfo['components'] = {
+    exchange: 0, kills: 0, accuracy: 0, deaths: 0, attempts: 0,
+  };
+  private target: AdaptiveAdjustment = { ...NEUTRAL_ADJUSTMENT };
+  private adjustment: AdaptiveAdjustment = { ...NEUTRAL_ADJUSTMENT };
+
+  private unsubscribers: Unsubscribe[] = [];
+
+  constructor(
+    private difficulty: DifficultyManager,
+    private levelManager: LevelManager | null = null,
+    options: DirectorOptions = {}
+  ) {
+    this.core = Core.getInstance();
+    this.enabled = options.enabled ?? true;
+    this.responseTime = options.responseTime ?? 20;
+    this.bounds = { ...DEFAULT_BOUNDS, ...options.bounds };
+
+    this.setupEventListeners();
+    this.unsubscribers.push(this.core.scheduler.register({
+      name: 'difficultyDirector',
+      phase: SystemPhase.GAMEPLAY,
+      tickRate: 1,
+      update: deltaTime => {
+        if (this.core.gameState.isPlaying()) this.update(deltaTime);
+      },
+    }));
+    this.core.saveSystem.registerParticipant(this);
+  }
+
+  private setupEventListeners(): void {
+    const bus = this.core.eventBus;
+
+    this.unsubscribers.push(
+      bus.on(GameEvent.WEAPON_FIRED, () => {
+        this.shotsFired++;
+        this.shotHit = false;
+      }),
+      bus.on(GameEvent.ENEMY_DAMAGED, () => {
+        if (this.shotHit || this.shotsHit >= this.shotsFired) return;
+        this.shotHit = true;
+        this.shotsHit++;
+      }),
+      bus.on(GameEvent.LEVEL_LOADED, levelId => {
+        this.checkpoint = `${levelId}:${START_CHECKPOINT}`;
+      }),
+      bus.on(GameEvent.CHECKPOINT_REACHED, ({ levelId, checkpointId }) => {
+        this.checkpoint = `${levelId}:${checkpointId}`;
+      }),
+      // 死亡按检查点计数：越过难点后不再沿用上一处的惩罚
+      bus.on(GameEvent.PLAYER_DEATH, () => {
+        this.deaths.set(this.checkpoint, (this.deaths.get(this.checkpoint) ?? 0) + 1);
+      }),
+      bus.on(GameEvent.GAME_STARTED, () => {
+        this.shotsFired = 0;
+        this.shotsHit = 0;
+        this.deaths.clear();
+        this.checkpoint = START_CHECKPOINT;
+      })
+    );
+  }
+
+  // ============== 开关 ==============
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  // 关闭后立即恢复为所选难度的原始数值
+  public setEnabled(enabled: boolean): void {
+    if (this.enabled === enabled) return;
+    this.enabled = enabled;
+
+    if (!enabled) {
+      this.target = { ...NEUTRAL_ADJUSTMENT };
+      this.adjustment = { ...NEUTRAL_ADJUSTMENT };
+      this.difficulty.setAdjustment(this.adjustment);
+    }
+    this.emitAdjusted();
+  }
+
+  // ============== 更新 ==============
+  public update(deltaTime: number): void {
+    if (!this.enabled) return;
+
+    this.score = this.evaluate();
+    this.target = {
+      accuracy: this.mapScore(this.score, this.bounds.accuracy),
+      aggression: this.mapScore(this.score, this.bounds.aggression),
+      spawnCount: this.mapScore(this.score, this.bounds.spawnCount),
+    };
+
+    // 向目标平滑逼近，避免难度突变
+    const t = Math.min(1, deltaTime / this.responseTime);
+    (Object.keys(this.adjustment) as (keyof AdaptiveAdjustment)[]).forEach(key => {
+      this.adjustment[key] += (this.target[key] - this.adjustment[key]) * t;
+    });
+
+    this.difficulty.setAdjustment(this.adjustment);
+    this.emitAdjusted();
+  }
+
+  // 综合表现 [-1, 1]：正值表示玩家游刃有余，应加压
+  private evaluate(): number {
+    const stats = this.core.gameState.getStats();
+
+    const exchangeTotal = stats.damageDealt + stats.damageTaken;
+    const share = exchangeTotal > 0 ? stats.damageDealt / exchangeTotal : NEUTRAL_DAMAGE_SHARE;
+    const exchange = share >= NEUTRAL_DAMAGE_SHARE
+      ? (share - NEUTRAL_DAMAGE_SHARE) / (1 - NEUTRAL_DAMAGE_SHARE)
+      : (share - NEUTRAL_DAMAGE_SHARE) / NEUTRAL_DAMAGE_SHARE;
+
+    const killRate = stats.enemiesKilled / Math.max(1, stats.damageTaken / DAMAGE_PER_KILL);
+    const kills = stats.enemiesKilled > 0 ? clamp(killRate - 1, -1, 1) : 0;
+
+    const accuracy = this.shotsFired >= MIN_SHOTS_FOR_ACCURACY
+      ? clamp((this.getAccuracy() - NEUTRAL_ACCURACY) / NEUTRAL_ACCURACY, -1, 1)
+      : 0;
+
+    const deaths = -Math.min(1, this.getDeathsAtCheckpoint() / 3);
+
+    const attempts = this.levelManager?.getCurrentLevelState()?.attempts ?? 1;
+    const retries = -Math.min(1, Math.max(0, attempts - 1) / 4);
+
+    this.components = { exchange, kills, accuracy, deaths, attempts: retries };
+
+    return clamp(
+      exchange * SCORE_WEIGHTS.exchange +
+      kills * SCORE_WEIGHTS.kills +
+      accuracy * SCORE_WEIGHTS.accuracy +
+      deaths * SCORE_WEIGHTS.deaths +
+      retries * SCORE_WEIGHTS.attempts,
+      -1,
+      1
+    );
+  }
+
+  private mapScore(score: number, bounds: AdjustmentBounds): number {
+    return score >= 0
+      ? 1 + score * (bounds.max - 1)
+      : 1 + score * (1 - bounds.min);
+  }
+
+  private emitAdjusted(): void {
+    this.core.eventBus.emit(GameEvent.DIFFICULTY_ADJUSTED, {
+      enabled: this.enabled,
+      score: this.score,
+      ...this.adjustment,
+    });
+  }
+
+  // ============== 查询 ==============
+  public getAdjustment(): AdaptiveAdjustment {
+    return { ...this.adjustment };
+  }
+
+  public getAccuracy(): number {
+    return this.shotsFired > 0 ? Math.min(1, this.shotsHit / this.shotsFired) : 0;
+  }
+
+  public getDeathsAtCheckpoint(checkpoint: string = this.checkpoint): number {
+    return this.deaths.get(checkpoint) ?? 0;
+  }
+
+  public getDebugInfo(): DirectorDebugInfo {
+    return {
+      enabled: this.enabled,
+      score: this.score,
+      components: { ...this.components },
+      target: { ...this.target },
+      adjustment: this.getAdjustment(),
+      samples: {
+        shotsFired: this.shotsFired,
+        shotsHit: this.shotsHit,
+        checkpoint: this.checkpoint,
+        deathsAtCheckpoint: this.getDeathsAtCheckpoint(),
+        attempts: this.levelManager?.getCurrentLevelState()?.attempts ?? 0,
+      },
+    };
+  }
+
+  // ============== 存档 ==============
+  captureSave(): DirectorSaveData {
+    return {
+      enabled: this.enabled,
+      shotsFired: this.shotsFired,
+      shotsHit: this.shotsHit,
+      deaths: Array.from(this.deaths.entries()),
+      adjustment: this.getAdjustment(),
+    };
+  }
+
+  restoreSave(data: Partial<DirectorSaveData>): void {
+    this.shotsFired = data.shotsFired ?? 0;
+    this.shotsHit = data.shotsHit ?? 0;
+    this.deaths = new Map(data.deaths ?? []);
+    this.adjustment = { ...NEUTRAL_ADJUSTMENT, ...data.adjustment };
+    this.enabled = data.enabled ?? this.enabled;
+
+    if (!this.enabled) {
+      this.adjustment = { ...NEUTRAL_ADJUSTMENT };
+    }
+    this.difficulty.setAdjustment(this.adjustment);
+  }
+
+  // ============== 释放 ==============
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.core.saveSystem.unregisterParticipant(this.saveKey);
+    this.difficulty.setAdjustment(NEUTRAL_ADJUSTMENT);
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+export default DifficultyDirector;
@@ -0,0 +1,184 @@
+/**
+ * DifficultyManager.ts - 难度管理器
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 按 DIFFICULTY_MULTIPLIERS 缩放敌人属性、关卡敌人数量与玩家伤害；可在战役中途切换并随存档保存
+ * 动态难度 (DifficultyDirector) 的微调叠加在所选难度之上
+ */
+
+import { Core, GameEvent } from '../../core';
+import { Difficulty, DIFFICULTY_MULTIPLIERS } from '../../core/constants';
+import type { SaveParticipant } from '../../core/SaveSystem';
+import type { AICharacter } from '../ai/AICharacter';
+import { DamageCalculator, defaultDamageCalculator } from '../rpg/DamageCalc';
+import type { LevelEnemy } from './LevelManager';
+
+export type DifficultyMultipliers = (typeof DIFFICULTY_MULTIPLIERS)[Difficulty];
+
+// 动态难度微调，1 为不调整
+export interface AdaptiveAdjustment {
+  accuracy: number;
+  aggression: number;
+  spawnCount: number;
+}
+
+export const NEUTRAL_ADJUSTMENT: AdaptiveAdjustment = {
+  accuracy: 1,
+  aggression: 1,
+  spawnCount: 1,
+};
+
+export interface DifficultySaveData {
+  difficulty: Difficulty;
+}
+
+// 敌人未缩放前的属性，切换难度时以此为基准重新计算
+interface ScaledEnemy {
+  enemy: AICharacter;
+  baseMaxHealth: number;
+  baseDamage: number;
+  baseAccuracy: number;
+  baseAggression: number;
+}
+
+// ============== 难度管理器 ==============
+export class DifficultyManager implements SaveParticipant<DifficultySaveData> {
+  readonly saveKey = 'difficulty';
+  private core: Core;
+
+  private difficulty: Difficulty;
+  private adjustment: AdaptiveAdjustment = { ...NEUTRAL_ADJUSTMENT };
+  private enemies: Map<string, ScaledEnemy> = new Map();
+  private calculators: Set<DamageCalculator> = new Set();
+
+  constructor(difficulty: Difficulty = Difficulty.NORMAL) {
+    this.core = Core.getInstance();
+    this.difficulty = difficulty;
+
+    this.attachDamageCalculator(defaultDamageCalculator);
+    this.core.saveSystem.registerParticipant(this);
+  }
+
+  // ============== 难度 ==============
+  public getDifficulty(): Difficulty {
+    return this.difficulty;
+  }
+
+  public getMultipliers(): DifficultyMultipliers {
+    return DIFFICULTY_MULTIPLIERS[this.difficulty];
+  }
+
+  // 中途切换：在场敌人按当前血量比例重新缩放
+  public setDifficulty(difficulty: Difficulty): void {
+    if (!(difficulty in DIFFICULTY_MULTIPLIERS)) {
+      console.warn(`[DifficultyManager] 未知难度: ${difficulty}`);
+      return;
+    }
+    if (difficulty === this.difficulty) return;
+
+    const previous = this.difficulty;
+    this.difficulty = difficulty;
+
+    this.enemies.forEach(entry => this.scaleEnemy(entry));
+    this.calculators.forEach(calculator => this.applyToCalculator(calculator));
+
+    console.log(`[DifficultyManager] 难度: ${previous} → ${difficulty}`);
+    this.core.eventBus.emit(GameEvent.DIFFICULTY_CHANGED, { difficulty, previous });
+  }
+
+  // ============== 动态微调 ==============
+  public getAdjustment(): AdaptiveAdjustment {
+    return { ...this.adjustment };
+  }
+
+  public setAdjustment(adjustment: Partial<AdaptiveAdjustment>): void {
+    this.adjustment = { ...this.adjustment, ...adjustment };
+    this.enemies.forEach(entry => this.scaleEnemy(entry));
+  }
+
+  // ============== 敌人 ==============
+  // 敌人生成时调用，以其当前属性为基准
+  public applyToEnemy(enemy: AICharacter): void {
+    const existing = this.enemies.get(enemy.id);
+    if (existing?.enemy === enemy) return;
+
+    const entry: ScaledEnemy = {
+      enemy,
+      baseMaxHealth: enemy.maxHealth,
+      baseDamage: enemy.damage,
+      baseAccuracy: enemy.accuracy,
+      baseAggression: enemy.aggression,
+    };
+    this.enemies.set(enemy.id, entry);
+    this.scaleEnemy(entry);
+  }
+
+  public releaseEnemy(enemyId: string): void {
+    this.enemies.delete(enemyId);
+  }
+
+  public clearEnemies(): void {
+    this.enemies.clear();
+  }
+
+  // 仅在最大生命变化时按比例缩放当前生命，避免动态微调反复取整改变血量
+  private scaleEnemy(entry: ScaledEnemy): void {
+    const { enemy } = entry;
+    const multipliers = this.getMultipliers();
+    const maxHealth = Math.max(1, Math.round(entry.baseMaxHealth * multipliers.enemyHealth));
+
+    if (maxHealth !== enemy.maxHealth) {
+      if (enemy.isAlive && enemy.maxHealth > 0) {
+        enemy.health *= maxHealth / enemy.maxHealth;
+      }
+      enemy.maxHealth = maxHealth;
+    }
+    enemy.damage = entry.baseDamage * multipliers.enemyDamage;
+    enemy.accuracy = entry.baseAccuracy * this.adjustment.accuracy;
+    enemy.aggression = entry.baseAggression * this.adjustment.aggression;
+  }
+
+  // ============== 关卡 ==============
+  public scaleEnemyCount(count: number): number {
+    if (count <= 0) return 0;
+    return Math.max(1, Math.round(count * this.getMultipliers().enemyCount * this.adjustment.spawnCount));
+  }
+
+  public scaleLevelEnemies(enemies: LevelEnemy[]): LevelEnemy[] {
+    return enemies.map(enemy => ({ ...enemy, count: this.scaleEnemyCount(enemy.count) }));
+  }
+
+  // ============== 玩家伤害 ==============
+  public attachDamageCalculator(calculator: DamageCalculator): void {
+    this.calculators.add(calculator);
+    this.applyToCalculator(calculator);
+  }
+
+  public detachDamageCalculator(calculator: DamageCalculator): void {
+    if (this.calculators.delete(calculator)) {
+      calculator.setDamageMultiplier(1);
+    }
+  }
+
+  private applyToCalculator(calculator: DamageCalculator): void {
+    calculator.setDamageMultiplier(this.getMultipliers().playerDamage);
+  }
+
+  // ============== 存档 ==============
+  captureSave(): DifficultySaveData {
+    return { difficulty: this.difficulty };
+  }
+
+  restoreSave(data: Partial<DifficultySaveData>): void {
+    this.setDifficulty(data.difficulty ?? Difficulty.NORMAL);
+  }
+
+  // ============== 释放 ==============
+  public dispose(): void {
+    this.calculators.forEach(calculator => calculator.setDamageMultiplier(1));
+    this.calculators.clear();
+    this.enemies.clear();
+    this.core.saveSystem.unregisterParticipant(this.saveKey);
+  }
+}
+
+export default DifficultyManager;
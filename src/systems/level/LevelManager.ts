@@ -4,6 +4,8 @@
  */
 
 import { StoryEngine } from './StoryEngine';
+import type { SaveParticipant } from '../../core/SaveSystem';
+import type { RuntimeConfig, ConfigOverrides } from '../../core/RuntimeConfig';
 
 export interface LevelObjective {
   id: string;
@@ -83,6 +85,9 @@ export interface LevelConfig {
   // 元数据
   estimatedTime?: number;  // 预计完成时间(分钟)
   recommendedLevel?: number;  // 建议等级
+  
+  // 运行时配置覆盖 (关卡进行中生效)
+  config?: ConfigOverrides;
 }
 
 export interface LevelState {
@@ -104,13 +109,22 @@ export interface LevelProgress {
   levelStates: Map<string, LevelState>;
 }
 
+export interface LevelProgressSaveData {
+  currentLevelId: string | null;
+  unlockedLevels: string[];
+  completedLevels: string[];
+  levelStates: [string, LevelState][];
+}
+
 type LevelEventType = 'start' | 'complete' | 'fail' | 'objective_complete' | 'unlock';
 type LevelEventListener = (data: any) => void;
 
-export class LevelManager {
+export class LevelManager implements SaveParticipant<LevelProgressSaveData> {
+  readonly saveKey = 'levels';
   private levels: Map<string, LevelConfig> = new Map();
   private progress: LevelProgress;
   private storyEngine: StoryEngine | null = null;
+  private runtimeConfig: RuntimeConfig | null = null;
   private listeners: Map<LevelEventType, LevelEventListener[]> = new Map();
 
   constructor() {
@@ -134,6 +148,25 @@ export class LevelManager {
     this.storyEngine = engine;
   }
 
+  /**
+   * 关联运行时配置，当前关卡的 config 写入 level 层
+   */
+  setRuntimeConfig(config: RuntimeConfig | null): void {
+    this.runtimeConfig?.clearLayer('level');
+    this.runtimeConfig = config;
+    this.applyLevelConfig();
+  }
+
+  private applyLevelConfig(): void {
+    if (!this.runtimeConfig) return;
+    const overrides = this.getCurrentLevel()?.config;
+    if (overrides) {
+      this.runtimeConfig.setLayer('level', overrides);
+    } else {
+      this.runtimeConfig.clearLayer('level');
+    }
+  }
+
   /**
    * 加载关卡配置
    */
@@ -230,10 +263,10 @@ export class LevelManager {
   }
 
   /**
-   * 开始关卡
+   * 开始关卡 (ignoreLock 供调试跳关)
    */
-  startLevel(levelId: string): LevelConfig | null {
-    if (!this.isLevelUnlocked(levelId)) {
+  startLevel(levelId: string, ignoreLock: boolean = false): LevelConfig | null {
+    if (!ignoreLock && !this.isLevelUnlocked(levelId)) {
       console.warn(`Level ${levelId} is locked`);
       return null;
     }
@@ -242,6 +275,7 @@ export class LevelManager {
     if (!level) return null;
 
     this.progress.currentLevelId = levelId;
+    this.applyLevelConfig();
     
     // 初始化关卡状态
     if (!this.progress.levelStates.has(levelId)) {
@@ -319,6 +353,17 @@ export class LevelManager {
     }
   }
 
+  /**
+   * 累计本关造成 / 承受的伤害
+   */
+  updateDamage(levelId: string, dealt: number, taken: number): void {
+    const state = this.progress.levelStates.get(levelId);
+    if (state) {
+      state.damageDealt += dealt;
+      state.damageTaken += taken;
+    }
+  }
+
   /**
    * 获取当前关卡
    */
@@ -398,16 +443,33 @@ export class LevelManager {
   }
 
   /**
-   * 导出进度为JSON
+   * 导出存档数据
    */
-  exportProgress(): string {
-    const exportData = {
+  captureSave(): LevelProgressSaveData {
+    return {
       currentLevelId: this.progress.currentLevelId,
-      unlockedLevels: this.progress.unlockedLevels,
-      completedLevels: this.progress.completedLevels,
+      unlockedLevels: [...this.progress.unlockedLevels],
+      completedLevels: [...this.progress.completedLevels],
       levelStates: Array.from(this.progress.levelStates.entries())
     };
-    return JSON.stringify(exportData, null, 2);
+  }
+
+  /**
+   * 从存档数据恢复
+   */
+  restoreSave(data: Partial<LevelProgressSaveData>): void {
+    this.progress.currentLevelId = data.currentLevelId || null;
+    this.progress.unlockedLevels = data.unlockedLevels || ['level_1'];
+    this.progress.completedLevels = data.completedLevels || [];
+    this.progress.levelStates = new Map(data.levelStates || []);
+    this.applyLevelConfig();
+  }
+
+  /**
+   * 导出进度为JSON
+   */
+  exportProgress(): string {
+    return JSON.stringify(this.captureSave(), null, 2);
   }
 
   /**
@@ -415,11 +477,7 @@ export class LevelManager {
    */
   importProgress(json: string): void {
     try {
-      const data = JSON.parse(json);
-      this.progress.currentLevelId = data.currentLevelId || null;
-      this.progress.unlockedLevels = data.unlockedLevels || ['level_1'];
-      this.progress.completedLevels = data.completedLevels || [];
-      this.progress.levelStates = new Map(data.levelStates || []);
+      this.restoreSave(JSON.parse(json));
     } catch (e) {
       console.error('Failed to import level progress:', e);
     }
@@ -435,6 +493,7 @@ export class LevelManager {
       completedLevels: [],
       levelStates: new Map()
     };
+    this.applyLevelConfig();
   }
 
   /**
@@ -5,6 +5,7 @@
  */
 
 import { GameEvent, Core } from '../../core';
+import type { SaveParticipant } from '../../core';
 
 // ============== 任务目标 ==============
 export interface QuestObjective {
@@ -63,7 +64,8 @@ export class Quest {
     this.description = data.description;
     this.giver = data.giver;
     this.rewards = data.rewards;
-    this.objectives = data.objectives.map(o => ({ ...o }));
+    // 数据文件可省略 currentCount
+    this.objectives = data.objectives.map(o => ({ ...o, currentCount: o.currentCount ?? 0 }));
   }
   
   // ============== 检查完成 ==============
@@ -87,8 +89,18 @@ export class Quest {
   }
 }
 
+// ============== 任务存档 ==============
+export interface QuestSaveState {
+  status: QuestStatus;
+  startTime: number;
+  objectives: Record<string, number>;  // objectiveId → currentCount
+}
+
+export type QuestSaveData = Record<string, QuestSaveState>;
+
 // ============== 任务系统 ==============
-export class QuestSystem {
+export class QuestSystem implements SaveParticipant<QuestSaveData> {
+  readonly saveKey = 'quests';
   private core: Core;
   
   // 任务列表
@@ -99,8 +111,12 @@ export class QuestSystem {
   // 任务缓存
   private questDataCache: Map<string, QuestData> = new Map();
   
+  // 读档时尚未注册的任务状态，注册时应用
+  private savedStates: QuestSaveData = {};
+  
   constructor() {
     this.core = Core.getInstance();
+    this.core.saveSystem.registerParticipant(this);
   }
   
   // ============== 接受任务 ==============
@@ -271,6 +287,7 @@ export class QuestSystem {
     const quest = new Quest(data);
     quest.status = status;
     this.quests.set(quest.id, quest);
+    this.applySavedState(quest);
     
     console.log(`[QuestSystem] 注册任务: ${quest.name} (${status})`);
   }
@@ -297,10 +314,49 @@ export class QuestSystem {
       if (quest.status === QuestStatus.LOCKED) {
         this.unlockQuest(quest.id);
       }
+      this.applySavedState(quest);
     });
     
     console.log(`[QuestSystem] 预加载 ${questsData.length} 个任务`);
   }
+  
+  // ============== 存档 ==============
+  public captureSave(): QuestSaveData {
+    const data: QuestSaveData = { ...this.savedStates };
+    
+    this.quests.forEach(quest => {
+      data[quest.id] = {
+        status: quest.status,
+        startTime: quest.startTime,
+        objectives: Object.fromEntries(quest.objectives.map(o => [o.id, o.currentCount])),
+      };
+    });
+    
+    return data;
+  }
+  
+  public restoreSave(data: QuestSaveData): void {
+    this.savedStates = { ...data };
+    this.quests.forEach(quest => this.applySavedState(quest));
+  }
+  
+  private applySavedState(quest: Quest): void {
+    const saved = this.savedStates[quest.id];
+    if (!saved) return;
+    
+    quest.status = saved.status;
+    quest.startTime = saved.startTime;
+    quest.objectives.forEach(o => {
+      o.currentCount = saved.objectives[o.id] ?? o.currentCount;
+    });
+    
+    this.activeQuests.delete(quest.id);
+    this.completedQuests.delete(quest.id);
+    if (quest.status === QuestStatus.ACTIVE) this.activeQuests.add(quest.id);
+    if (quest.status === QuestStatus.COMPLETED) this.completedQuests.add(quest.id);
+    
+    delete this.savedStates[quest.id];
+  }
 }
 
 export default QuestSystem;
@@ -8,6 +8,7 @@ import * as THREE from 'three';
 import { InputManager, InputState } from './InputManager';
 import { GAME_CONFIG } from '../core/constants';
 import { Core, GameEvent } from '../core';
+import type { Unsubscribe } from '../../core/EventBus';
 
 // ============== 玩家状态 ==============
 export enum PlayerState {
@@ -44,6 +45,8 @@ export class Player {
   public sprintSpeed: number = GAME_CONFIG.SPRINT_SPEED;
   public crouchSpeed: number = GAME_CONFIG.CROUCH_SPEED;
   public jumpForce: number = GAME_CONFIG.JUMP_FORCE;
+  private height: number = GAME_CONFIG.PLAYER_HEIGHT;
+  private configUnsubscribe: Unsubscribe | null = null;
   
   // 摄像机震动
   private shakeIntensity: number = 0;
@@ -85,6 +88,18 @@ export class Player {
       }
     });
     
+    // 移动参数随运行时配置更新
+    this.configUnsubscribe = this.core.config.watch(
+      ['MOVE_SPEED', 'SPRINT_SPEED', 'CROUCH_SPEED', 'JUMP_FORCE', 'PLAYER_HEIGHT'],
+      config => {
+        this.moveSpeed = config.MOVE_SPEED;
+        this.sprintSpeed = config.SPRINT_SPEED;
+        this.crouchSpeed = config.CROUCH_SPEED;
+        this.jumpForce = config.JUMP_FORCE;
+        this.height = config.PLAYER_HEIGHT;
+      }
+    );
+    
     console.log('[Player] 初始化完成');
   }
   
@@ -171,8 +186,8 @@ export class Player {
     this.position.z += this.velocity.z * deltaTime;
     
     // 地面检测
-    if (this.position.y <= GAME_CONFIG.PLAYER_HEIGHT) {
-      this.position.y = GAME_CONFIG.PLAYER_HEIGHT;
+    if (this.position.y <= this.height) {
+      this.position.y = this.height;
       this.velocity.y = 0;
       this.isGrounded = true;
     }
@@ -305,6 +320,12 @@ export class Player {
     this.position.copy(position);
     this.velocity.set(0, 0, 0);
   }
+  
+  // ============== 释放 ==============
+  public dispose(): void {
+    this.configUnsubscribe?.();
+    this.configUnsubscribe = null;
+  }
 }
 
 export default Player;
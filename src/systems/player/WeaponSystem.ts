@@ -5,9 +5,11 @@
  */
 
 import * as THREE from 'three';
-import { Core, GameEvent } from '../../core';
+import { Core, GameEvent, SystemPhase } from '../../core';
 import { Player } from './Player';
 import { FireMode, WeaponType } from '../../core/constants';
+import { defaultDamageCalculator } from '../rpg/DamageCalc';
+import { AIManager } from '../ai/AIManager';
 
 // ============== 武器数据 ==============
 export interface WeaponData {
@@ -114,10 +116,11 @@ export class Weapon {
     this.currentSpread = Math.min(this.data.hipSpread.max, 
       this.currentSpread + this.data.hipSpread.increaseRate);
     
+    // 难度的玩家伤害倍率由 DifficultyManager 写入默认伤害计算器
     return {
       origin: origin.clone(),
       direction: spreadDirection,
-      damage: this.data.damage,
+      damage: this.data.damage * defaultDamageCalculator.getDamageMultiplier(),
       range: this.data.effectiveRange,
     };
   }
@@ -228,8 +231,12 @@ export class WeaponSystem {
     // 注册默认武器
     this.registerDefaultWeapons();
     
-    // 监听事件
-    this.core.eventBus.on(GameEvent.FRAME_UPDATE, () => this.update(0.016));
+    // 注册到调度器
+    this.core.scheduler.register({
+      name: 'weapons',
+      phase: SystemPhase.GAMEPLAY,
+      update: deltaTime => this.update(deltaTime),
+    });
     
     console.log('[WeaponSystem] 初始化完成');
   }
@@ -393,6 +400,7 @@ export class WeaponSystem {
       range: result.range,
       speed: 100, // m/s
       distanceTraveled: 0,
+      weaponId: this.currentWeapon?.data.id ?? '',
       mesh: this.createBulletMesh(),
     };
     
@@ -453,12 +461,18 @@ export class WeaponSystem {
     }
   }
   
+  // 只结算命中敌人的子弹；致死时 ENEMY_KILLED 由 enemy.die() 发出
   private handleHit(intersect: THREE.Intersection, bullet: Bullet): void {
-    // 发出伤害事件
+    const enemy = AIManager.getInstance().getEnemyByObject(intersect.object);
+    if (!enemy || !enemy.isAlive) return;
+    
     this.core.eventBus.emit(GameEvent.ENEMY_DAMAGED, {
+      enemyId: enemy.id,
       damage: bullet.damage,
       position: intersect.point,
+      weaponId: bullet.weaponId,
     });
+    enemy.takeDamage(bullet.damage, this.player.position);
   }
   
   private removeBullet(index: number): void {
@@ -499,6 +513,7 @@ interface Bullet {
   range: number;
   speed: number;
   distanceTraveled: number;
+  weaponId: string;
   mesh: THREE.Mesh | null;
 }
 
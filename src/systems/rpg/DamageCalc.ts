@@ -108,6 +108,7 @@ export class DamageCalculator {
     baseDodgeChance: number;
     maxDistanceFalloff: number;
     armorEffectiveness: number;
+    damageMultiplier: number; // 全局伤害倍率（难度）
   };
 
   constructor(config?: Partial<DamageCalculator['config']>) {
@@ -117,10 +118,22 @@ export class DamageCalculator {
       baseDodgeChance: 0,
       maxDistanceFalloff: 100,
       armorEffectiveness: 0.1,
+      damageMultiplier: 1,
       ...config,
     };
   }
 
+  /**
+   * 设置全局伤害倍率
+   */
+  setDamageMultiplier(multiplier: number): void {
+    this.config.damageMultiplier = multiplier;
+  }
+
+  getDamageMultiplier(): number {
+    return this.config.damageMultiplier;
+  }
+
   /**
    * 计算最终伤害
    */
@@ -154,8 +167,8 @@ export class DamageCalculator {
       damage *= headshotMultiplier;
     }
 
-    // 6. 武器伤害加成
-    damage *= (1 + input.attackerBonuses.weaponDamageBonus / 100);
+    // 6. 武器伤害加成与全局倍率
+    damage *= (1 + input.attackerBonuses.weaponDamageBonus / 100) * this.config.damageMultiplier;
 
     // 7. 计算护甲穿透
     const armorPiercing = input.attackerBonuses.armorPiercing;
@@ -288,7 +301,7 @@ export class DamageCalculator {
     }
 
     // 伤害加成
-    damage *= (1 + attackerDamageBonus / 100);
+    damage *= (1 + attackerDamageBonus / 100) * this.config.damageMultiplier;
 
     // 护甲减伤
     const armorReduction = targetArmor / (targetArmor + 100) * this.config.armorEffectivity;
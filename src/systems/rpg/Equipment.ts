@@ -4,6 +4,8 @@
  */
 
 import { PlayerStats } from './PlayerStats';
+import { i18n, t } from '../../i18n';
+import type { SaveParticipant } from '../../core/SaveSystem';
 
 export type EquipmentRarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
 export type EquipmentType = 'weapon' | 'armor' | 'helmet' | 'accessory' | 'grenade' | 'medkit';
@@ -12,42 +14,42 @@ export type EquipmentType = 'weapon' | 'armor' | 'helmet' | 'accessory' | 'grena
  * 装备稀有度配置
  */
 export const RARITY_CONFIG: Record<EquipmentRarity, {
-  name: string;
+  name: string;           // 本地化键
   color: string;
   dropRate: number;
   effectSlots: number;
   bonusMultiplier: number;
 }> = {
   common: {
-    name: '普通',
+    name: 'rarity.common',
     color: '#9E9E9E',
     dropRate: 60,
     effectSlots: 0,
     bonusMultiplier: 1,
   },
   uncommon: {
-    name: '优秀',
+    name: 'rarity.uncommon',
     color: '#4CAF50',
     dropRate: 25,
     effectSlots: 1,
     bonusMultiplier: 1.1,
   },
   rare: {
-    name: '稀有',
+    name: 'rarity.rare',
     color: '#2196F3',
     dropRate: 10,
     effectSlots: 2,
     bonusMultiplier: 1.25,
   },
   epic: {
-    name: '史诗',
+    name: 'rarity.epic',
     color: '#9C27B0',
     dropRate: 4,
     effectSlots: 3,
     bonusMultiplier: 1.5,
   },
   legendary: {
-    name: '传说',
+    name: 'rarity.legendary',
     color: '#FF9800',
     dropRate: 1,
     effectSlots: 4,
@@ -63,8 +65,8 @@ export interface EquipmentEffect {
   stat: keyof PlayerStats;
   value: number;
   isPercentage: boolean;
-  name: string;
-  description: string;
+  name: string;           // 本地化键，显示时经 t() 解析
+  description: string;    // 本地化键
 }
 
 /**
@@ -72,13 +74,13 @@ export interface EquipmentEffect {
  */
 export interface EquipmentData {
   id: string;
-  name: string;
+  name: string;           // 本地化键，使用 getEquipmentName() 显示
   type: EquipmentType;
   rarity: EquipmentRarity;
   level: number;
   baseStats: Partial<PlayerStats>;
   effects: EquipmentEffect[];
-  description: string;
+  description: string;    // 本地化键，使用 getEquipmentDescription() 显示
   icon?: string;
   model?: string;
 }
@@ -102,92 +104,92 @@ export const EFFECT_DATABASE: Record<string, Omit<EquipmentEffect, 'id'>> = {
     stat: 'maxHealth',
     value: 20,
     isPercentage: false,
-    name: '生命强化',
-    description: '增加最大生命值',
+    name: 'effect.health_boost.name',
+    description: 'effect.health_boost.description',
   },
   'armor_boost': {
     stat: 'maxArmor',
     value: 15,
     isPercentage: false,
-    name: '护甲强化',
-    description: '增加最大护甲',
+    name: 'effect.armor_boost.name',
+    description: 'effect.armor_boost.description',
   },
   'damage_boost': {
     stat: 'weaponDamageBonus',
     value: 5,
     isPercentage: true,
-    name: '伤害增强',
-    description: '增加武器伤害',
+    name: 'effect.damage_boost.name',
+    description: 'effect.damage_boost.description',
   },
   'crit_chance': {
     stat: 'criticalChance',
     value: 3,
     isPercentage: false,
-    name: '精准射击',
-    description: '增加暴击率',
+    name: 'effect.crit_chance.name',
+    description: 'effect.crit_chance.description',
   },
   'crit_damage': {
     stat: 'criticalDamage',
     value: 10,
     isPercentage: false,
-    name: '暴击强化',
-    description: '增加暴击伤害',
+    name: 'effect.crit_damage.name',
+    description: 'effect.crit_damage.description',
   },
   'fire_rate': {
     stat: 'fireRateBonus',
     value: 5,
     isPercentage: true,
-    name: '快速射击',
-    description: '增加射速',
+    name: 'effect.fire_rate.name',
+    description: 'effect.fire_rate.description',
   },
   'reload_speed': {
     stat: 'reloadSpeedBonus',
     value: 10,
     isPercentage: true,
-    name: '快速换弹',
-    description: '减少换弹时间',
+    name: 'effect.reload_speed.name',
+    description: 'effect.reload_speed.description',
   },
   'spread_reduction': {
     stat: 'spreadReduction',
     value: 5,
     isPercentage: false,
-    name: '精准控制',
-    description: '减少散布',
+    name: 'effect.spread_reduction.name',
+    description: 'effect.spread_reduction.description',
   },
   'recoil_control': {
     stat: 'recoilControl',
     value: 10,
     isPercentage: true,
-    name: '后坐力控制',
-    description: '减少后坐力',
+    name: 'effect.recoil_control.name',
+    description: 'effect.recoil_control.description',
   },
   'damage_reduction': {
     stat: 'damageReduction',
     value: 3,
     isPercentage: false,
-    name: '伤害减免',
-    description: '减少受到的伤害',
+    name: 'effect.damage_reduction.name',
+    description: 'effect.damage_reduction.description',
   },
   'speed_boost': {
     stat: 'speed',
     value: 0.5,
     isPercentage: false,
-    name: '移动加速',
-    description: '增加移动速度',
+    name: 'effect.speed_boost.name',
+    description: 'effect.speed_boost.description',
   },
   'health_regen': {
     stat: 'healthRegenRate',
     value: 1,
     isPercentage: false,
-    name: '生命恢复',
-    description: '生命值自然恢复',
+    name: 'effect.health_regen.name',
+    description: 'effect.health_regen.description',
   },
   'dodge': {
     stat: 'dodgeChance',
     value: 2,
     isPercentage: false,
-    name: '闪避',
-    description: '闪避攻击概率',
+    name: 'effect.dodge.name',
+    description: 'effect.dodge.description',
   },
 };
 
@@ -198,7 +200,7 @@ export const EQUIPMENT_DATABASE: Record<string, EquipmentData> = {
   // 护甲
   'armor_common_1': {
     id: 'armor_common_1',
-    name: '基础防弹衣',
+    name: 'equipment.armor_common_1.name',
     type: 'armor',
     rarity: 'common',
     level: 1,
@@ -207,12 +209,12 @@ export const EQUIPMENT_DATABASE: Record<string, EquipmentData> = {
       maxHealth: 10,
     },
     effects: [],
-    description: '标准的警用防弹衣，提供基本的防护。',
+    description: 'equipment.armor_common_1.description',
     icon: '🛡️',
   },
   'armor_uncommon_1': {
     id: 'armor_uncommon_1',
-    name: '强化防弹衣',
+    name: 'equipment.armor_uncommon_1.name',
     type: 'armor',
     rarity: 'uncommon',
     level: 5,
@@ -223,12 +225,12 @@ export const EQUIPMENT_DATABASE: Record<string, EquipmentData> = {
     effects: [
       { id: 'effect_1', ...EFFECT_DATABASE['armor_boost'] },
     ],
-    description: '经过强化的防弹衣，提供更好的防护。',
+    description: 'equipment.armor_uncommon_1.description',
     icon: '🛡️',
   },
   'armor_rare_1': {
     id: 'armor_rare_1',
-    name: '精英防弹衣',
+    name: 'equipment.armor_rare_1.name',
     type: 'armor',
     rarity: 'rare',
     level: 10,
@@ -240,12 +242,12 @@ export const EQUIPMENT_DATABASE: Record<string, EquipmentData> = {
       { id: 'effect_1', ...EFFECT_DATABASE['armor_boost'] },
       { id: 'effect_2', ...EFFECT_DATABASE['damage_reduction'] },
     ],
-    description: '精英级别的防弹衣，兼顾防护与机动。',
+    description: 'equipment.armor_rare_1.description',
     icon: '🛡️',
   },
   'armor_epic_1': {
     id: 'armor_epic_1',
-    name: '量子护甲',
+    name: 'equipment.armor_epic_1.name',
     type: 'armor',
     rarity: 'epic',
     level: 20,
@@ -258,12 +260,12 @@ export const EQUIPMENT_DATABASE: Record<string, EquipmentData> = {
       { id: 'effect_2', ...EFFECT_DATABASE['damage_reduction'] },
       { id: 'effect_3', ...EFFECT_DATABASE['health_regen'] },
     ],
-    description: '使用量子材料制造的先进护甲。',
+    description: 'equipment.armor_epic_1.description',
     icon: '🛡️',
   },
   'armor_legendary_1': {
     id: 'armor_legendary_1',
-    name: '虚空守护者',
+    name: 'equipment.armor_legendary_1.name',
     type: 'armor',
     rarity: 'legendary',
     level: 30,
@@ -277,14 +279,14 @@ export const EQUIPMENT_DATABASE: Record<string, EquipmentData> = {
       { id: 'effect_3', ...EFFECT_DATABASE['health_regen'] },
       { id: 'effect_4', ...EFFECT_DATABASE['dodge'] },
     ],
-    description: '传说中的终极护甲，拥有近乎完美的防护。',
+    description: 'equipment.armor_legendary_1.description',
     icon: '🛡️',
   },
 
   // 头盔
   'helmet_common_1': {
     id: 'helmet_common_1',
-    name: '基础头盔',
+    name: 'equipment.helmet_common_1.name',
     type: 'helmet',
     rarity: 'common',
     level: 1,
@@ -292,12 +294,12 @@ export const EQUIPMENT_DATABASE: Record<string, EquipmentData> = {
       maxHealth: 5,
     },
     effects: [],
-    description: '标准防护头盔。',
+    description: 'equipment.helmet_common_1.description',
     icon: '⛑️',
   },
   'helmet_rare_1': {
     id: 'helmet_rare_1',
-    name: '战术头盔',
+    name: 'equipment.helmet_rare_1.name',
     type: 'helmet',
     rarity: 'rare',
     level: 10,
@@ -308,14 +310,14 @@ export const EQUIPMENT_DATABASE: Record<string, EquipmentData> = {
       { id: 'effect_1', ...EFFECT_DATABASE['crit_reduction'] },
       { id: 'effect_2', ...EFFECT_DATABASE['health_boost'] },
     ],
-    description: '配备护目镜的战术头盔。',
+    description: 'equipment.helmet_rare_1.description',
     icon: '⛑️',
   },
 
   // 配件
   'accessory_uncommon_1': {
     id: 'accessory_uncommon_1',
-    name: '敏捷挂件',
+    name: 'equipment.accessory_uncommon_1.name',
     type: 'accessory',
     rarity: 'uncommon',
     level: 5,
@@ -326,12 +328,12 @@ export const EQUIPMENT_DATABASE: Record<string, EquipmentData> = {
     effects: [
       { id: 'effect_1', ...EFFECT_DATABASE['speed_boost'] },
     ],
-    description: '轻便的挂件，增加移动速度。',
+    description: 'equipment.accessory_uncommon_1.description',
     icon: '🎒',
   },
   'accessory_epic_1': {
     id: 'accessory_epic_1',
-    name: '能量核心',
+    name: 'equipment.accessory_epic_1.name',
     type: 'accessory',
     rarity: 'epic',
     level: 20,
@@ -344,7 +346,7 @@ export const EQUIPMENT_DATABASE: Record<string, EquipmentData> = {
       { id: 'effect_2', ...EFFECT_DATABASE['health_regen'] },
       { id: 'effect_3', ...EFFECT_DATABASE['damage_reduction'] },
     ],
-    description: '蕴含能量的核心，持续恢复生命。',
+    description: 'equipment.accessory_epic_1.description',
     icon: '🔋',
   },
 };
@@ -354,14 +356,23 @@ EFFECT_DATABASE['crit_reduction'] = {
   stat: 'damageReduction',
   value: 5,
   isPercentage: false,
-  name: '头部防护',
-  description: '减少头部受到的暴击伤害',
+  name: 'effect.crit_reduction.name',
+  description: 'effect.crit_reduction.description',
 };
 
+/**
+ * 装备存档数据
+ */
+export interface EquipmentSaveData {
+  inventory: [string, EquipmentInstance][];
+  equipped: [EquipmentType, EquipmentInstance | null][];
+}
+
 /**
  * 装备管理器类
  */
-export class EquipmentManager {
+export class EquipmentManager implements SaveParticipant<EquipmentSaveData> {
+  readonly saveKey = 'equipment';
   private inventory: Map<string, EquipmentInstance>;
   private equipped: Map<EquipmentType, EquipmentInstance | null>;
 
@@ -517,26 +528,16 @@ export class EquipmentManager {
     const types: EquipmentType[] = type ? [type] : ['armor', 'helmet', 'accessory'];
     const selectedType = types[Math.floor(Math.random() * types.length)];
 
-    // 生成装备名称
-    const rarityName = RARITY_CONFIG[rarity].name;
-    const typeNames: Record<EquipmentType, string> = {
-      weapon: '武器',
-      armor: '护甲',
-      helmet: '头盔',
-      accessory: '配件',
-      grenade: '手雷',
-      medkit: '急救包',
-    };
-
+    // 名称与描述由稀有度和类型在显示时拼出
     return {
       id: `generated_${Date.now()}`,
-      name: `${rarityName} ${typeNames[selectedType]}`,
+      name: 'equipment.generated.name',
       type: selectedType,
       rarity,
       level,
       baseStats: EquipmentManager.generateBaseStats(selectedType, level, rarity),
       effects: EquipmentManager.generateEffects(rarity, level),
-      description: `一件${rarityName}级别的${typeNames[selectedType]}。`,
+      description: 'equipment.generated.description',
       icon: EquipmentManager.getTypeIcon(selectedType),
     };
   }
@@ -601,22 +602,35 @@ export class EquipmentManager {
   }
 
   /**
-   * 序列化装备管理器
+   * 导出存档数据
    */
-  serialize(): string {
-    return JSON.stringify({
+  captureSave(): EquipmentSaveData {
+    return {
       inventory: Array.from(this.inventory.entries()),
       equipped: Array.from(this.equipped.entries()),
-    });
+    };
+  }
+
+  /**
+   * 从存档数据恢复
+   */
+  restoreSave(data: EquipmentSaveData): void {
+    this.inventory = new Map(data.inventory);
+    this.equipped = new Map(data.equipped);
+  }
+
+  /**
+   * 序列化装备管理器
+   */
+  serialize(): string {
+    return JSON.stringify(this.captureSave());
   }
 
   /**
    * 反序列化装备管理器
    */
   deserialize(json: string): void {
-    const obj = JSON.parse(json);
-    this.inventory = new Map(obj.inventory);
-    this.equipped = new Map(obj.equipped);
+    this.restoreSave(JSON.parse(json));
   }
 }
 
@@ -627,6 +641,33 @@ export function getRarityConfig(rarity: EquipmentRarity) {
   return RARITY_CONFIG[rarity];
 }
 
+/**
+ * 便捷函数：获取稀有度名称
+ */
+export function getRarityName(rarity: EquipmentRarity): string {
+  return t(RARITY_CONFIG[rarity].name);
+}
+
+/**
+ * 便捷函数：获取装备显示名称
+ * 旧存档中的名称是中文原文而非键，原样返回
+ */
+export function getEquipmentName(data: EquipmentData): string {
+  return localizeEquipmentText(data, data.name);
+}
+
+/**
+ * 便捷函数：获取装备显示描述
+ */
+export function getEquipmentDescription(data: EquipmentData): string {
+  return localizeEquipmentText(data, data.description);
+}
+
+function localizeEquipmentText(data: EquipmentData, key: string): string {
+  if (!i18n.has(key, i18n.getBaseLocale())) return key;
+  return t(key, { rarity: getRarityName(data.rarity), type: t(`equipment_type.${data.type}`) });
+}
+
 /**
  * 便捷函数：获取稀有度颜色
  */
@@ -3,7 +3,9 @@
  * 等级系统，经验曲线，升级奖励
  */
 
-import { PlayerStats, createDefaultPlayerStats } from './PlayerStats';
+import { PlayerStats, createDefaultPlayerStats, getStatDisplayName } from './PlayerStats';
+import { getSkillName } from './SkillTree';
+import { t } from '../../i18n';
 
 export const MAX_LEVEL = 50;
 export const BASE_EXP = 100;
@@ -25,9 +27,14 @@ export interface LevelUpReward {
   level: number;
   stats: Partial<PlayerStats>;
   skills: string[];
-  description: string;
+  readonly description: string;   // 按当前语言生成
 }
 
+// 以百分比显示的奖励属性
+const PERCENT_REWARD_STATS: (keyof PlayerStats)[] = [
+  'criticalChance', 'criticalDamage', 'weaponDamageBonus', 'damageReduction',
+];
+
 /**
  * 等级系统类
  */
@@ -140,20 +147,19 @@ export class LevelSystem {
   private initializeRewards(): void {
     // 2-10级每级奖励
     for (let level = 2; level <= 10; level++) {
-      this.rewards.set(level, {
+      this.rewards.set(level, createReward({
         level,
         stats: {
           maxHealth: 5,
           maxArmor: 3,
         },
         skills: [],
-        description: `等级 ${level} 奖励: 最大生命值 +5, 最大护甲 +3`,
-      });
+      }));
     }
 
     // 11-20级奖励
     for (let level = 11; level <= 20; level++) {
-      this.rewards.set(level, {
+      this.rewards.set(level, createReward({
         level,
         stats: {
           maxHealth: 8,
@@ -161,13 +167,12 @@ export class LevelSystem {
           criticalChance: 0.5,
         },
         skills: [],
-        description: `等级 ${level} 奖励: 最大生命值 +8, 最大护甲 +5, 暴击率 +0.5%`,
-      });
+      }));
     }
 
     // 21-30级奖励
     for (let level = 21; level <= 30; level++) {
-      this.rewards.set(level, {
+      this.rewards.set(level, createReward({
         level,
         stats: {
           maxHealth: 10,
@@ -176,13 +181,12 @@ export class LevelSystem {
           weaponDamageBonus: 2,
         },
         skills: [],
-        description: `等级 ${level} 奖励: 最大生命值 +10, 最大护甲 +8, 暴击率 +1%, 武器伤害 +2%`,
-      });
+      }));
     }
 
     // 31-40级奖励
     for (let level = 31; level <= 40; level++) {
-      this.rewards.set(level, {
+      this.rewards.set(level, createReward({
         level,
         stats: {
           maxHealth: 15,
@@ -192,13 +196,12 @@ export class LevelSystem {
           weaponDamageBonus: 3,
         },
         skills: [],
-        description: `等级 ${level} 奖励: 最大生命值 +15, 最大护甲 +10, 暴击率 +1%, 暴击伤害 +5%, 武器伤害 +3%`,
-      });
+      }));
     }
 
     // 41-50级奖励
     for (let level = 41; level <= 50; level++) {
-      this.rewards.set(level, {
+      this.rewards.set(level, createReward({
         level,
         stats: {
           maxHealth: 20,
@@ -209,8 +212,7 @@ export class LevelSystem {
           damageReduction: 1,
         },
         skills: [],
-        description: `等级 ${level} 奖励: 最大生命值 +20, 最大护甲 +15, 暴击率 +1.5%, 暴击伤害 +10%, 武器伤害 +5%, 伤害减免 +1%`,
-      });
+      }));
     }
 
     // 设置特殊等级技能解锁
@@ -232,14 +234,12 @@ export class LevelSystem {
     const existing = this.rewards.get(level);
     if (existing) {
       existing.skills.push(skillId);
-      existing.description += `, 解锁技能: ${skillId}`;
     } else {
-      this.rewards.set(level, {
+      this.rewards.set(level, createReward({
         level,
         stats: {},
         skills: [skillId],
-        description: `等级 ${level} 奖励: 解锁技能 ${skillId}`,
-      });
+      }));
     }
   }
 
@@ -309,6 +309,29 @@ export function addExperience(stats: PlayerStats, amount: number): {
   };
 }
 
+/**
+ * 生成升级奖励描述
+ */
+export function describeLevelReward(reward: Omit<LevelUpReward, 'description'>): string {
+  const stats = Object.entries(reward.stats).map(([stat, value]) => {
+    const suffix = PERCENT_REWARD_STATS.includes(stat as keyof PlayerStats) ? '%' : '';
+    return `${getStatDisplayName(stat as keyof PlayerStats)} +${value}${suffix}`;
+  });
+  const skills = reward.skills.map(skillId => t('level_reward.unlock_skill', { skill: getSkillName(skillId) }));
+
+  return t('level_reward.description', { level: reward.level, rewards: [...stats, ...skills].join(', ') });
+}
+
+// description 为访问器，切换语言后自动更新
+function createReward(reward: Omit<LevelUpReward, 'description'>): LevelUpReward {
+  return {
+    ...reward,
+    get description() {
+      return describeLevelReward(this);
+    },
+  };
+}
+
 /**
  * 便捷函数：获取升级奖励描述
  */
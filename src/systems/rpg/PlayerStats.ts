@@ -3,6 +3,8 @@
  * 玩家属性接口和计算
  */
 
+import { i18n, t } from '../../i18n';
+
 export type DamageType = 'physical' | 'energy' | 'armor_piercing' | 'explosive';
 
 /**
@@ -251,31 +253,8 @@ export interface StatChangeEvent {
  * 获取属性显示名称
  */
 export function getStatDisplayName(stat: keyof PlayerStats): string {
-  const displayNames: Record<string, string> = {
-    level: '等级',
-    experience: '经验',
-    experienceToNextLevel: '升级所需经验',
-    health: '生命值',
-    maxHealth: '最大生命值',
-    armor: '护甲',
-    maxArmor: '最大护甲',
-    speed: '移动速度',
-    sprintSpeed: '冲刺速度',
-    weaponDamageBonus: '武器伤害加成',
-    fireRateBonus: '射速加成',
-    reloadSpeedBonus: '换弹速度加成',
-    spreadReduction: '散布减少',
-    recoilControl: '后坐力控制',
-    damageReduction: '伤害减免',
-    criticalChance: '暴击率',
-    criticalDamage: '暴击伤害',
-    dodgeChance: '闪避率',
-    maxGrenades: '最大手雷数',
-    maxMedkits: '最大急救包数',
-    healthRegenRate: '生命恢复速度',
-  };
-
-  return displayNames[stat] || stat;
+  const key = `stat.${stat}`;
+  return i18n.has(key, i18n.getBaseLocale()) ? t(key) : stat;
 }
 
 /**
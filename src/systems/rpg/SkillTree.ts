@@ -4,6 +4,8 @@
  */
 
 import { PlayerStats } from './PlayerStats';
+import { t } from '../../i18n';
+import type { SaveParticipant } from '../../core/SaveSystem';
 
 export type SkillBranch = 'combat' | 'survival' | 'special';
 export type SkillTier = 'basic' | 'advanced' | 'ultimate';
@@ -22,8 +24,8 @@ export interface SkillEffect {
  */
 export interface SkillConfig {
   id: string;
-  name: string;
-  description: string;
+  name: string;           // 本地化键，显示时经 t() 解析
+  description: string;    // 本地化键
   branch: SkillBranch;
   tier: SkillTier;
   maxPoints: number;
@@ -57,8 +59,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   // === 战斗专精 (Combat) ===
   'combat_basic': {
     id: 'combat_basic',
-    name: '枪械专精',
-    description: '掌握各类枪械的使用技巧',
+    name: 'skill.combat_basic.name',
+    description: 'skill.combat_basic.description',
     branch: 'combat',
     tier: 'basic',
     maxPoints: 1,
@@ -68,8 +70,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   },
   'combat_rapid_aim': {
     id: 'combat_rapid_aim',
-    name: '快速瞄准',
-    description: '减少瞄准时间，提高反应速度',
+    name: 'skill.combat_rapid_aim.name',
+    description: 'skill.combat_rapid_aim.description',
     branch: 'combat',
     tier: 'basic',
     maxPoints: 1,
@@ -79,8 +81,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   },
   'combat_crit_boost': {
     id: 'combat_crit_boost',
-    name: '暴击强化',
-    description: '提高暴击率和暴击伤害',
+    name: 'skill.combat_crit_boost.name',
+    description: 'skill.combat_crit_boost.description',
     branch: 'combat',
     tier: 'basic',
     maxPoints: 1,
@@ -93,8 +95,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   },
   'combat_piercing': {
     id: 'combat_piercing',
-    name: '穿透弹',
-    description: '子弹可以穿透目标，造成额外伤害',
+    name: 'skill.combat_piercing.name',
+    description: 'skill.combat_piercing.description',
     branch: 'combat',
     tier: 'advanced',
     maxPoints: 1,
@@ -104,8 +106,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   },
   'combat_ultimate': {
     id: 'combat_ultimate',
-    name: '火力全开',
-    description: '终极技能：100%射速提升，持续10秒',
+    name: 'skill.combat_ultimate.name',
+    description: 'skill.combat_ultimate.description',
     branch: 'combat',
     tier: 'ultimate',
     maxPoints: 1,
@@ -117,8 +119,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   // === 生存 (Survival) ===
   'survival_basic': {
     id: 'survival_basic',
-    name: '急救包',
-    description: '增加可携带的急救包数量',
+    name: 'skill.survival_basic.name',
+    description: 'skill.survival_basic.description',
     branch: 'survival',
     tier: 'basic',
     maxPoints: 3,
@@ -128,8 +130,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   },
   'survival_armor': {
     id: 'survival_armor',
-    name: '护甲强化',
-    description: '提高最大护甲值',
+    name: 'skill.survival_armor.name',
+    description: 'skill.survival_armor.description',
     branch: 'survival',
     tier: 'basic',
     maxPoints: 1,
@@ -139,8 +141,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   },
   'survival_dodge': {
     id: 'survival_dodge',
-    name: '闪避',
-    description: '增加闪避攻击的概率',
+    name: 'skill.survival_dodge.name',
+    description: 'skill.survival_dodge.description',
     branch: 'survival',
     tier: 'basic',
     maxPoints: 1,
@@ -150,8 +152,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   },
   'survival_will': {
     id: 'survival_will',
-    name: '意志坚定',
-    description: '减少负面效果的持续时间',
+    name: 'skill.survival_will.name',
+    description: 'skill.survival_will.description',
     branch: 'survival',
     tier: 'advanced',
     maxPoints: 1,
@@ -161,8 +163,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   },
   'survival_regen': {
     id: 'survival_regen',
-    name: '快速恢复',
-    description: '生命值自然恢复速度提升',
+    name: 'skill.survival_regen.name',
+    description: 'skill.survival_regen.description',
     branch: 'survival',
     tier: 'advanced',
     maxPoints: 1,
@@ -172,8 +174,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   },
   'survival_ultimate': {
     id: 'survival_ultimate',
-    name: '不死之身',
-    description: '终极技能：死亡时原地复活并恢复50%生命',
+    name: 'skill.survival_ultimate.name',
+    description: 'skill.survival_ultimate.description',
     branch: 'survival',
     tier: 'ultimate',
     maxPoints: 1,
@@ -188,8 +190,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   // === 特殊 (Special) ===
   'special_basic': {
     id: 'special_basic',
-    name: '手雷大师',
-    description: '增加可携带的手雷数量',
+    name: 'skill.special_basic.name',
+    description: 'skill.special_basic.description',
     branch: 'special',
     tier: 'basic',
     maxPoints: 2,
@@ -199,8 +201,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   },
   'special_scanner': {
     id: 'special_scanner',
-    name: '战术扫描',
-    description: '显示范围内敌人的位置',
+    name: 'skill.special_scanner.name',
+    description: 'skill.special_scanner.description',
     branch: 'special',
     tier: 'basic',
     maxPoints: 1,
@@ -210,8 +212,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   },
   'special_stealth': {
     id: 'special_stealth',
-    name: '隐形',
-    description: '进入潜行状态，敌人难以发现',
+    name: 'skill.special_stealth.name',
+    description: 'skill.special_stealth.description',
     branch: 'special',
     tier: 'advanced',
     maxPoints: 1,
@@ -221,8 +223,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   },
   'special_emp': {
     id: 'special_emp',
-    name: 'EMP冲击',
-    description: '释放EMP脉冲，沉默范围内所有敌人',
+    name: 'skill.special_emp.name',
+    description: 'skill.special_emp.description',
     branch: 'special',
     tier: 'advanced',
     maxPoints: 1,
@@ -232,8 +234,8 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   },
   'special_ultimate': {
     id: 'special_ultimate',
-    name: '量子爆发',
-    description: '终极技能：召唤量子能量，对大范围敌人造成巨量伤害',
+    name: 'skill.special_ultimate.name',
+    description: 'skill.special_ultimate.description',
     branch: 'special',
     tier: 'ultimate',
     maxPoints: 1,
@@ -246,10 +248,20 @@ export const SKILL_DATABASE: Record<string, SkillConfig> = {
   },
 };
 
+/**
+ * 技能树存档数据
+ */
+export interface SkillTreeSaveData {
+  skills: [string, PlayerSkill][];
+  availablePoints: number;
+  totalPointsSpent: number;
+}
+
 /**
  * 技能树类
  */
-export class SkillTree {
+export class SkillTree implements SaveParticipant<SkillTreeSaveData> {
+  readonly saveKey = 'skills';
   private state: SkillTreeState;
   private skillDatabase: Record<string, SkillConfig>;
 
@@ -286,30 +298,31 @@ export class SkillTree {
   canLearn(skillId: string): { canLearn: boolean; reason?: string } {
     const skill = this.skillDatabase[skillId];
     if (!skill) {
-      return { canLearn: false, reason: '技能不存在' };
+      return { canLearn: false, reason: t('skill.reason.not_found') };
     }
 
     const playerSkill = this.state.skills.get(skillId);
     if (!playerSkill) {
-      return { canLearn: false, reason: '技能未初始化' };
+      return { canLearn: false, reason: t('skill.reason.not_initialized') };
     }
 
     // 检查是否已满级
     if (playerSkill.currentPoints >= skill.maxPoints) {
-      return { canLearn: false, reason: '技能已满级' };
+      return { canLearn: false, reason: t('skill.reason.max_level') };
     }
 
     // 检查是否有可用点数
     if (this.state.availablePoints <= 0) {
-      return { canLearn: false, reason: '没有可用技能点' };
+      return { canLearn: false, reason: t('skill.reason.no_points') };
     }
 
-    // 检查前置技能
-    for (const prereqId of skill.prerequisites) {
-      const prereqSkill = this.state.skills.get(prereqId);
-      if (!prereqSkill || !prereqSkill.unlocked) {
-        return { canLearn: false, reason: `需要前置技能: ${this.skillDatabase[prereqId]?.name || prereqId}` };
-      }
+    // 检查前置技能 (一次列出全部未解锁的前置)
+    const missing = skill.prerequisites.filter(prereqId => !this.state.skills.get(prereqId)?.unlocked);
+    if (missing.length > 0) {
+      const skills = missing
+        .map(prereqId => (this.skillDatabase[prereqId] ? t(this.skillDatabase[prereqId].name) : prereqId))
+        .join(', ');
+      return { canLearn: false, reason: t('skill.reason.requires', { count: missing.length, skills }) };
     }
 
     return { canLearn: true };
@@ -468,25 +481,37 @@ export class SkillTree {
   }
 
   /**
-   * 序列化技能状态
+   * 导出存档数据
    */
-  serialize(): string {
-    const obj = {
+  captureSave(): SkillTreeSaveData {
+    return {
       skills: Array.from(this.state.skills.entries()),
       availablePoints: this.state.availablePoints,
       totalPointsSpent: this.state.totalPointsSpent,
     };
-    return JSON.stringify(obj);
+  }
+
+  /**
+   * 从存档数据恢复
+   */
+  restoreSave(data: SkillTreeSaveData): void {
+    this.state.skills = new Map(data.skills);
+    this.state.availablePoints = data.availablePoints;
+    this.state.totalPointsSpent = data.totalPointsSpent;
+  }
+
+  /**
+   * 序列化技能状态
+   */
+  serialize(): string {
+    return JSON.stringify(this.captureSave());
   }
 
   /**
    * 反序列化技能状态
    */
   deserialize(json: string): void {
-    const obj = JSON.parse(json);
-    this.state.skills = new Map(obj.skills);
-    this.state.availablePoints = obj.availablePoints;
-    this.state.totalPointsSpent = obj.totalPointsSpent;
+    this.restoreSave(JSON.parse(json));
   }
 }
 
@@ -500,26 +525,32 @@ export function getSkillConfig(skillId: string): SkillConfig | undefined {
   return SKILL_DATABASE[skillId];
 }
 
+/**
+ * 获取技能显示名称
+ */
+export function getSkillName(skillId: string): string {
+  const skill = SKILL_DATABASE[skillId];
+  return skill ? t(skill.name) : skillId;
+}
+
+/**
+ * 获取技能显示描述
+ */
+export function getSkillDescription(skillId: string): string {
+  const skill = SKILL_DATABASE[skillId];
+  return skill ? t(skill.description) : '';
+}
+
 /**
  * 获取分支名称
  */
 export function getBranchName(branch: SkillBranch): string {
-  const names: Record<SkillBranch, string> = {
-    combat: '战斗专精',
-    survival: '生存',
-    special: '特殊',
-  };
-  return names[branch];
+  return t(`skill.branch.${branch}`);
 }
 
 /**
  * 获取层级名称
  */
 export function getTierName(tier: SkillTier): string {
-  const names: Record<SkillTier, string> = {
-    basic: '基础',
-    advanced: '进阶',
-    ultimate: '终极',
-  };
-  return names[tier];
+  return t(`skill.tier.${tier}`);
 }
@@ -0,0 +1,101 @@
+/**
+ * SettingsBindings.ts - 设置应用
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 将 SettingsManager 中的设置实时应用到输入、摄像机、渲染器、语言、触控与运行时配置；返回的函数用于解除绑定
+ */
+
+import type * as THREE from 'three';
+import type { Unsubscribe } from '../../core/EventBus';
+import type { InputManager } from '../../engine/InputManager';
+import type { Camera } from '../../engine/renderer/Camera';
+import { Renderer, RenderQualityPreset, applyRenderQuality, getQualityPresets } from '../../engine/renderer/Renderer';
+import type { TouchControls } from '../../mobile/TouchControls';
+import type { Localization } from '../../i18n';
+import type { RuntimeConfig } from '../../core/RuntimeConfig';
+import type { GameSettings, QualityPreset, SettingsManager } from './SettingsManager';
+
+type Applier = (settings: GameSettings) => void;
+
+// 仅在相关设置变化时应用 (注册时会立即应用一次)
+function bind(manager: SettingsManager, keys: (keyof GameSettings)[], apply: Applier): Unsubscribe {
+  return manager.onChange((settings, changed) => {
+    if (changed.some(key => keys.includes(key))) apply(settings);
+  });
+}
+
+function resolvePreset(preset: QualityPreset, autoPreset: RenderQualityPreset): RenderQualityPreset {
+  return preset === 'auto' ? autoPreset : preset;
+}
+
+// ============== 输入 ==============
+export function bindInputManager(manager: SettingsManager, input: InputManager): Unsubscribe {
+  return bind(manager, ['mouseSensitivity', 'aimSensitivity', 'invertY'], settings => {
+    input.setSensitivity(settings.mouseSensitivity);
+    input.setAimSensitivity(settings.aimSensitivity);
+    input.setInvertY(settings.invertY);
+  });
+}
+
+// ============== 摄像机 ==============
+export function bindCameraController(manager: SettingsManager, camera: Camera): Unsubscribe {
+  return bind(manager, ['mouseSensitivity', 'invertY', 'fov'], settings => {
+    camera.setLookSensitivity(settings.mouseSensitivity);
+    camera.setInvertY(settings.invertY);
+    camera.setFov(settings.fov);
+  });
+}
+
+export function bindPerspectiveCamera(manager: SettingsManager, camera: THREE.PerspectiveCamera): Unsubscribe {
+  return bind(manager, ['fov'], settings => {
+    camera.fov = settings.fov;
+    camera.updateProjectionMatrix();
+  });
+}
+
+// ============== 渲染 ==============
+export function bindRenderer(manager: SettingsManager, renderer: Renderer): Unsubscribe {
+  return bind(manager, ['quality'], settings => {
+    renderer.setQuality(resolvePreset(settings.quality, renderer.getIsMobile() ? 'mobile' : 'medium'));
+  });
+}
+
+// autoPreset: 设置为 auto 时采用的预设，应与渲染器初始配置一致
+export function bindWebGLRenderer(
+  manager: SettingsManager,
+  renderer: THREE.WebGLRenderer,
+  autoPreset: RenderQualityPreset = 'high'
+): Unsubscribe {
+  const presets = getQualityPresets();
+  return bind(manager, ['quality'], settings => {
+    applyRenderQuality(renderer, presets[resolvePreset(settings.quality, autoPreset)]);
+  });
+}
+
+// ============== 语言 ==============
+export function bindLocalization(manager: SettingsManager, localization: Localization): Unsubscribe {
+  return bind(manager, ['language'], settings => {
+    localization.setLocale(settings.language);
+  });
+}
+
+// ============== 运行时配置 ==============
+// 与 GAME_CONFIG 重叠的设置写入 settings 层，调试覆盖仍可盖过
+export function bindRuntimeConfig(manager: SettingsManager, config: RuntimeConfig): Unsubscribe {
+  const unsubscribe = bind(manager, ['fov'], settings => {
+    config.setLayer('settings', { FOV: settings.fov });
+  });
+  return () => {
+    unsubscribe();
+    config.clearLayer('settings');
+  };
+}
+
+// ============== 触控 ==============
+export function bindTouchControls(manager: SettingsManager, touch: TouchControls): Unsubscribe {
+  return bind(manager, ['touchLayout'], ({ touchLayout }) => {
+    touch.setJoystickPosition(touchLayout.joystickPosition);
+    touch.setOpacity(touchLayout.opacity);
+    touch.setDeadZone(touchLayout.deadZone);
+    touch.setLookSensitivity(touchLayout.lookSensitivity);
+  });
+}
@@ -0,0 +1,234 @@
+/**
+ * SettingsManager.ts - 游戏设置
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 玩家偏好 (灵敏度、画面、音量、字幕、语言、触控布局) 独立于存档单独持久化，修改即时生效
+ */
+
+import { Core, GameEvent } from '../../core';
+import { GAME_CONFIG } from '../../core/constants';
+import type { Unsubscribe } from '../../core/EventBus';
+import { SaveStorageAdapter, createDefaultStorage } from '../../core/SaveStorage';
+import { i18n, BASE_LOCALE } from '../../i18n';
+
+// ============== 设置模型 ==============
+// auto: 由渲染器按设备自动选择
+export type QualityPreset = 'auto' | 'high' | 'medium' | 'low' | 'mobile';
+export type VolumeChannel = 'music' | 'sfx' | 'voice';
+
+export interface TouchLayoutSettings {
+  joystickPosition: 'left' | 'right';
+  opacity: number;
+  deadZone: number;
+  lookSensitivity: number;
+}
+
+export interface GameSettings {
+  mouseSensitivity: number;
+  aimSensitivity: number;
+  invertY: boolean;
+  fov: number;
+  quality: QualityPreset;
+  masterVolume: number;
+  musicVolume: number;
+  sfxVolume: number;
+  voiceVolume: number;
+  subtitles: boolean;
+  language: string;
+  touchLayout: TouchLayoutSettings;
+}
+
+export type SettingsListener = (settings: GameSettings, changed: (keyof GameSettings)[]) => void;
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  mouseSensitivity: 0.002,
+  aimSensitivity: 0.001,
+  invertY: false,
+  fov: GAME_CONFIG.FOV,
+  quality: 'auto',
+  masterVolume: 1,
+  musicVolume: 0.7,
+  sfxVolume: 1,
+  voiceVolume: 1,
+  subtitles: true,
+  language: BASE_LOCALE,
+  touchLayout: {
+    joystickPosition: 'left',
+    opacity: 0.6,
+    deadZone: 0.1,
+    lookSensitivity: 1,
+  },
+};
+
+// 数值范围 [min, max]
+export const SETTINGS_RANGES = {
+  mouseSensitivity: [0.0002, 0.01],
+  aimSensitivity: [0.0002, 0.01],
+  fov: [60, 110],
+  volume: [0, 1],
+  touchOpacity: [0.2, 1],
+  touchDeadZone: [0, 0.5],
+  touchLookSensitivity: [0.2, 3],
+} as const;
+
+const QUALITY_PRESETS: QualityPreset[] = ['auto', 'high', 'medium', 'low', 'mobile'];
+const SETTINGS_VERSION = 1;
+
+// ============== 设置管理器 ==============
+export class SettingsManager {
+  // 不带存档前缀，存档槽位清理不会波及设置
+  static readonly STORAGE_KEY = 'ink_realm_settings';
+
+  private core: Core;
+  private settings: GameSettings;
+  private listeners: Set<SettingsListener> = new Set();
+
+  constructor(private storage: SaveStorageAdapter = createDefaultStorage()) {
+    this.core = Core.getInstance();
+    this.settings = this.load();
+  }
+
+  // ============== 读取 ==============
+  public get(): GameSettings {
+    return cloneSettings(this.settings);
+  }
+
+  public getValue<K extends keyof GameSettings>(key: K): GameSettings[K] {
+    return cloneSettings(this.settings)[key];
+  }
+
+  // 声道音量已乘以主音量
+  public getVolume(channel: VolumeChannel): number {
+    const volumes: Record<VolumeChannel, number> = {
+      music: this.settings.musicVolume,
+      sfx: this.settings.sfxVolume,
+      voice: this.settings.voiceVolume,
+    };
+    return this.settings.masterVolume * volumes[channel];
+  }
+
+  // ============== 修改 ==============
+  public set(changes: Partial<Omit<GameSettings, 'touchLayout'>> & { touchLayout?: Partial<TouchLayoutSettings> }): void {
+    const next = sanitizeSettings({
+      ...this.settings,
+      ...changes,
+      touchLayout: { ...this.settings.touchLayout, ...changes.touchLayout },
+    }, this.settings);
+
+    this.commit(next);
+  }
+
+  public resetToDefaults(): void {
+    this.commit(cloneSettings(DEFAULT_SETTINGS));
+  }
+
+  private commit(next: GameSettings): void {
+    const changed = (Object.keys(next) as (keyof GameSettings)[]).filter(key =>
+      JSON.stringify(next[key]) !== JSON.stringify(this.settings[key])
+    );
+    if (changed.length === 0) return;
+
+    this.settings = next;
+    this.persist();
+    this.notify(changed);
+  }
+
+  // ============== 监听 ==============
+  // 注册后立即以当前设置回调一次，便于子系统初始化
+  public onChange(listener: SettingsListener): Unsubscribe {
+    this.listeners.add(listener);
+    listener(this.get(), Object.keys(this.settings) as (keyof GameSettings)[]);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(changed: (keyof GameSettings)[]): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.get(), changed);
+      } catch (error) {
+        console.error('[SettingsManager] 设置应用失败:', error);
+      }
+    });
+
+    this.core.eventBus.emit(GameEvent.SETTINGS_CHANGED, { settings: this.get(), changed });
+  }
+
+  // ============== 持久化 ==============
+  private load(): GameSettings {
+    const stored = this.storage.getItem(SettingsManager.STORAGE_KEY);
+    if (!stored) return cloneSettings(DEFAULT_SETTINGS);
+
+    try {
+      const parsed = JSON.parse(stored) as { version?: number; settings?: Partial<GameSettings> };
+      return sanitizeSettings({
+        ...DEFAULT_SETTINGS,
+        ...parsed.settings,
+        touchLayout: { ...DEFAULT_SETTINGS.touchLayout, ...parsed.settings?.touchLayout },
+      }, DEFAULT_SETTINGS);
+    } catch (error) {
+      console.warn('[SettingsManager] 设置数据损坏，使用默认设置:', error);
+      return cloneSettings(DEFAULT_SETTINGS);
+    }
+  }
+
+  private persist(): void {
+    try {
+      this.storage.setItem(SettingsManager.STORAGE_KEY, JSON.stringify({
+        version: SETTINGS_VERSION,
+        settings: this.settings,
+      }));
+    } catch (error) {
+      console.error('[SettingsManager] 保存设置失败:', error);
+    }
+  }
+
+  // ============== 释放 ==============
+  public dispose(): void {
+    this.listeners.clear();
+  }
+}
+
+// ============== 校验 ==============
+// 非法值回退到 fallback 中的对应项，数值限制在范围内
+function sanitizeSettings(input: GameSettings, fallback: GameSettings): GameSettings {
+  const touch = input.touchLayout;
+  const fallbackTouch = fallback.touchLayout;
+
+  return {
+    mouseSensitivity: clampNumber(input.mouseSensitivity, SETTINGS_RANGES.mouseSensitivity, fallback.mouseSensitivity),
+    aimSensitivity: clampNumber(input.aimSensitivity, SETTINGS_RANGES.aimSensitivity, fallback.aimSensitivity),
+    invertY: typeof input.invertY === 'boolean' ? input.invertY : fallback.invertY,
+    fov: clampNumber(input.fov, SETTINGS_RANGES.fov, fallback.fov),
+    quality: QUALITY_PRESETS.includes(input.quality) ? input.quality : fallback.quality,
+    masterVolume: clampNumber(input.masterVolume, SETTINGS_RANGES.volume, fallback.masterVolume),
+    musicVolume: clampNumber(input.musicVolume, SETTINGS_RANGES.volume, fallback.musicVolume),
+    sfxVolume: clampNumber(input.sfxVolume, SETTINGS_RANGES.volume, fallback.sfxVolume),
+    voiceVolume: clampNumber(input.voiceVolume, SETTINGS_RANGES.volume, fallback.voiceVolume),
+    subtitles: typeof input.subtitles === 'boolean' ? input.subtitles : fallback.subtitles,
+    language: i18n.getAvailableLocales().some(({ locale }) => locale === input.language)
+      ? input.language
+      : fallback.language,
+    touchLayout: {
+      joystickPosition: touch.joystickPosition === 'left' || touch.joystickPosition === 'right'
+        ? touch.joystickPosition
+        : fallbackTouch.joystickPosition,
+      opacity: clampNumber(touch.opacity, SETTINGS_RANGES.touchOpacity, fallbackTouch.opacity),
+      deadZone: clampNumber(touch.deadZone, SETTINGS_RANGES.touchDeadZone, fallbackTouch.deadZone),
+      lookSensitivity: clampNumber(
+        touch.lookSensitivity, SETTINGS_RANGES.touchLookSensitivity, fallbackTouch.lookSensitivity
+      ),
+    },
+  };
+}
+
+function clampNumber(value: unknown, [min, max]: readonly [number, number], fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.max(min, Math.min(max, value));
+}
+
+function cloneSettings(settings: GameSettings): GameSettings {
+  return { ...settings, touchLayout: { ...settings.touchLayout } };
+}
+
+export default SettingsManager;
@@ -0,0 +1,23 @@
+/**
+ * systems/settings/index.ts - 设置系统导出
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ */
+
+export { SettingsManager, DEFAULT_SETTINGS, SETTINGS_RANGES } from './SettingsManager';
+export type {
+  GameSettings,
+  TouchLayoutSettings,
+  QualityPreset,
+  VolumeChannel,
+  SettingsListener,
+} from './SettingsManager';
+export {
+  bindInputManager,
+  bindCameraController,
+  bindPerspectiveCamera,
+  bindRenderer,
+  bindWebGLRenderer,
+  bindLocalization,
+  bindRuntimeConfig,
+  bindTouchControls,
+} from './SettingsBindings';
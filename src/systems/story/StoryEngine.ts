@@ -4,6 +4,7 @@
  */
 
 import { DialogueSystem, DialogueNode, DialogueChoice } from './DialogueSystem';
+import type { SaveParticipant } from '../../core/SaveSystem';
 
 export interface StoryChapter {
   id: string;
@@ -30,7 +31,8 @@ export interface StoryEvent {
 
 type StoryEventListener = (event: StoryEvent) => void;
 
-export class StoryEngine {
+export class StoryEngine implements SaveParticipant<StoryState> {
+  readonly saveKey = 'story';
   private chapters: Map<string, StoryChapter> = new Map();
   private state: StoryState;
   private dialogueSystem: DialogueSystem;
@@ -245,11 +247,30 @@ export class StoryEngine {
     return { ...this.state };
   }
 
+  /**
+   * 导出存档数据
+   */
+  captureSave(): StoryState {
+    return {
+      ...this.state,
+      completedChapters: [...this.state.completedChapters],
+      flags: { ...this.state.flags },
+      variables: { ...this.state.variables },
+    };
+  }
+
+  /**
+   * 从存档数据恢复
+   */
+  restoreSave(data: Partial<StoryState>): void {
+    this.state = { ...StoryEngine.DEFAULT_STATE, ...data };
+  }
+
   /**
    * 保存状态到JSON
    */
   serialize(): string {
-    return JSON.stringify(this.state, null, 2);
+    return JSON.stringify(this.captureSave(), null, 2);
   }
 
   /**
@@ -257,8 +278,7 @@ export class StoryEngine {
    */
   deserialize(json: string): void {
     try {
-      const loadedState = JSON.parse(json);
-      this.state = { ...StoryEngine.DEFAULT_STATE, ...loadedState };
+      this.restoreSave(JSON.parse(json));
     } catch (e) {
       console.error('Failed to deserialize story state:', e);
     }
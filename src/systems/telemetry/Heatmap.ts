@@ -0,0 +1,193 @@
+/**
+ * Heatmap.ts - 俯视热力图
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 将 XZ 平面上的点位累积到网格并着色；输出 RGBA 像素，可编码为 BMP (Node / 浏览器通用) 或绘制到 canvas
+ */
+
+export interface HeatmapPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface HeatmapBounds {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+export interface HeatmapLayer {
+  points: HeatmapPoint[];
+  color: [number, number, number];
+}
+
+export interface HeatmapOptions {
+  resolution?: number;   // 长边像素数
+  radius?: number;       // 点的扩散半径 (像素)
+  bounds?: HeatmapBounds;
+  padding?: number;      // 自动边界外扩 (米)
+  background?: [number, number, number];
+}
+
+export interface HeatmapImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;   // RGBA，逐行自上 (minZ) 而下
+  bounds: HeatmapBounds;
+}
+
+const DEFAULT_RESOLUTION = 256;
+const DEFAULT_RADIUS = 6;
+const DEFAULT_PADDING = 5;
+const DEFAULT_BACKGROUND: [number, number, number] = [16, 16, 24];
+
+// ============== 边界 ==============
+export function computeBounds(points: HeatmapPoint[], padding: number = DEFAULT_PADDING): HeatmapBounds {
+  if (points.length === 0) {
+    return { minX: -padding, maxX: padding, minZ: -padding, maxZ: padding };
+  }
+
+  const bounds = { minX: Infinity, maxX: -Infinity, minZ: Infinity, maxZ: -Infinity };
+  points.forEach(point => {
+    bounds.minX = Math.min(bounds.minX, point.x);
+    bounds.maxX = Math.max(bounds.maxX, point.x);
+    bounds.minZ = Math.min(bounds.minZ, point.z);
+    bounds.maxZ = Math.max(bounds.maxZ, point.z);
+  });
+
+  return {
+    minX: bounds.minX - padding,
+    maxX: bounds.maxX + padding,
+    minZ: bounds.minZ - padding,
+    maxZ: bounds.maxZ + padding,
+  };
+}
+
+// ============== 渲染 ==============
+export function renderHeatmap(layers: HeatmapLayer[], options: HeatmapOptions = {}): HeatmapImage {
+  const resolution = options.resolution ?? DEFAULT_RESOLUTION;
+  const radius = options.radius ?? DEFAULT_RADIUS;
+  const background = options.background ?? DEFAULT_BACKGROUND;
+  const bounds = options.bounds ??
+    computeBounds(layers.flatMap(layer => layer.points), options.padding ?? DEFAULT_PADDING);
+
+  const spanX = Math.max(1e-6, bounds.maxX - bounds.minX);
+  const spanZ = Math.max(1e-6, bounds.maxZ - bounds.minZ);
+  const scale = resolution / Math.max(spanX, spanZ);
+  const width = Math.max(1, Math.round(spanX * scale));
+  const height = Math.max(1, Math.round(spanZ * scale));
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const rgb = new Float32Array(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    rgb[i * 3] = background[0];
+    rgb[i * 3 + 1] = background[1];
+    rgb[i * 3 + 2] = background[2];
+  }
+
+  // 各图层独立归一化后按颜色叠加
+  layers.forEach(layer => {
+    const grid = accumulate(layer.points, bounds, scale, width, height, radius);
+    const max = grid.reduce((m, v) => Math.max(m, v), 0);
+    if (max <= 0) return;
+
+    for (let i = 0; i < grid.length; i++) {
+      const intensity = Math.sqrt(grid[i] / max);
+      rgb[i * 3] += layer.color[0] * intensity;
+      rgb[i * 3 + 1] += layer.color[1] * intensity;
+      rgb[i * 3 + 2] += layer.color[2] * intensity;
+    }
+  });
+
+  for (let i = 0; i < width * height; i++) {
+    data[i * 4] = rgb[i * 3];
+    data[i * 4 + 1] = rgb[i * 3 + 1];
+    data[i * 4 + 2] = rgb[i * 3 + 2];
+    data[i * 4 + 3] = 255;
+  }
+
+  return { width, height, data, bounds };
+}
+
+// 高斯核累积
+function accumulate(
+  points: HeatmapPoint[],
+  bounds: HeatmapBounds,
+  scale: number,
+  width: number,
+  height: number,
+  radius: number
+): Float32Array {
+  const grid = new Float32Array(width * height);
+  const sigma2 = Math.max(1, radius * radius) / 2;
+
+  points.forEach(point => {
+    const cx = (point.x - bounds.minX) * scale;
+    const cz = (point.z - bounds.minZ) * scale;
+
+    const x0 = Math.max(0, Math.floor(cx - radius));
+    const x1 = Math.min(width - 1, Math.ceil(cx + radius));
+    const z0 = Math.max(0, Math.floor(cz - radius));
+    const z1 = Math.min(height - 1, Math.ceil(cz + radius));
+
+    for (let z = z0; z <= z1; z++) {
+      for (let x = x0; x <= x1; x++) {
+        const dx = x + 0.5 - cx;
+        const dz = z + 0.5 - cz;
+        grid[z * width + x] += Math.exp(-(dx * dx + dz * dz) / (2 * sigma2));
+      }
+    }
+  });
+
+  return grid;
+}
+
+// ============== 编码 ==============
+// 24 位无压缩 BMP，不依赖 canvas / zlib
+export function encodeBMP(image: HeatmapImage): Uint8Array {
+  const rowSize = Math.ceil((image.width * 3) / 4) * 4;
+  const pixelBytes = rowSize * image.height;
+  const buffer = new Uint8Array(54 + pixelBytes);
+  const view = new DataView(buffer.buffer);
+
+  // 文件头
+  buffer[0] = 0x42;   // 'B'
+  buffer[1] = 0x4d;   // 'M'
+  view.setUint32(2, buffer.length, true);
+  view.setUint32(10, 54, true);
+
+  // 信息头 (BITMAPINFOHEADER)
+  view.setUint32(14, 40, true);
+  view.setInt32(18, image.width, true);
+  view.setInt32(22, -image.height, true);   // 负高度: 自上而下
+  view.setUint16(26, 1, true);
+  view.setUint16(28, 24, true);
+  view.setUint32(34, pixelBytes, true);
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const src = (y * image.width + x) * 4;
+      const dst = 54 + y * rowSize + x * 3;
+      buffer[dst] = image.data[src + 2];
+      buffer[dst + 1] = image.data[src + 1];
+      buffer[dst + 2] = image.data[src];
+    }
+  }
+
+  return buffer;
+}
+
+// 浏览器中绘制到 canvas (可 toDataURL 导出 PNG)
+export function renderHeatmapCanvas(image: HeatmapImage): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const context = canvas.getContext('2d');
+  if (context) {
+    const imageData = context.createImageData(image.width, image.height);
+    imageData.data.set(image.data);
+    context.putImageData(imageData, 0, 0);
+  }
+  return canvas;
+}
@@ -0,0 +1,341 @@
+/**
+ * TelemetryCollector.ts - 战斗遥测
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 监听 EventBus 按关卡记录死亡 / 击杀位置、各武器射击与命中、各敌人类型击杀耗时、各来源承受伤害
+ * 导出 JSON / CSV 与俯视热力图
+ */
+
+import { Core, GameEvent } from '../../core';
+import type { Unsubscribe } from '../../core/EventBus';
+import type { LevelManager, LevelState } from '../level/LevelManager';
+import { renderHeatmap, encodeBMP, HeatmapImage, HeatmapOptions, HeatmapPoint } from './Heatmap';
+
+// ============== 记录 ==============
+export type TelemetryKind = 'shot' | 'hit' | 'kill' | 'damage_taken' | 'death';
+
+export interface TelemetryEvent {
+  kind: TelemetryKind;
+  time: number;             // 关卡开始后的秒数
+  position?: HeatmapPoint;
+  weaponId?: string;
+  enemyType?: string;
+  source?: string;
+  amount?: number;          // 伤害量；击杀时为击杀耗时 (秒)
+}
+
+export interface WeaponTelemetry {
+  shotsFired: number;
+  shotsHit: number;
+  accuracy: number;
+}
+
+export interface TimeToKillTelemetry {
+  count: number;
+  average: number;
+  min: number;
+  max: number;
+}
+
+export interface LevelTelemetrySummary {
+  levelId: string;
+  duration: number;
+  levelState: LevelState | null;
+  deaths: number;
+  kills: number;
+  weapons: Record<string, WeaponTelemetry>;
+  timeToKill: Record<string, TimeToKillTelemetry>;
+  damageTaken: Record<string, number>;
+}
+
+export interface TelemetryOptions {
+  maxEventsPerLevel?: number;
+}
+
+export type HeatmapKind = 'death' | 'kill' | 'damage_taken';
+
+const HEATMAP_COLORS: Record<HeatmapKind, [number, number, number]> = {
+  death: [255, 40, 40],
+  kill: [0, 255, 255],
+  damage_taken: [255, 160, 0],
+};
+
+const UNKNOWN_LEVEL = 'unknown';
+const UNKNOWN_SOURCE = 'unknown';
+const CSV_COLUMNS: (keyof TelemetryEvent | 'x' | 'y' | 'z')[] = [
+  'kind', 'time', 'x', 'y', 'z', 'weaponId', 'enemyType', 'source', 'amount',
+];
+
+interface LevelRecord {
+  levelId: string;
+  startTime: number;
+  endTime: number;
+  events: TelemetryEvent[];
+}
+
+// ============== 遥测收集器 ==============
+export class TelemetryCollector {
+  private core: Core;
+  private maxEventsPerLevel: number;
+
+  private levels: Map<string, LevelRecord> = new Map();
+  private current: LevelRecord;
+
+  // 击杀耗时从首次命中开始计
+  private firstHit: Map<string, number> = new Map();
+  private lastWeaponId: string | null = null;
+  private lastDamageSource: string | null = null;
+
+  private unsubscribers: Unsubscribe[] = [];
+
+  constructor(private levelManager: LevelManager | null = null, options: TelemetryOptions = {}) {
+    this.core = Core.getInstance();
+    this.maxEventsPerLevel = options.maxEventsPerLevel ?? 50000;
+    this.current = this.beginLevel(levelManager?.getCurrentLevel()?.id ?? UNKNOWN_LEVEL);
+
+    this.setupEventListeners();
+  }
+
+  private setupEventListeners(): void {
+    const bus = this.core.eventBus;
+
+    this.unsubscribers.push(
+      bus.on(GameEvent.LEVEL_LOADED, levelId => {
+        this.beginLevel(levelId);
+      }),
+      bus.on(GameEvent.WEAPON_FIRED, ({ weaponId }) => {
+        this.lastWeaponId = weaponId;
+        this.record({ kind: 'shot', weaponId, position: this.playerPosition() });
+      }),
+      bus.on(GameEvent.ENEMY_DAMAGED, ({ enemyId, damage, position, weaponId }) => {
+        if (enemyId && !this.firstHit.has(enemyId)) {
+          this.firstHit.set(enemyId, this.now());
+        }
+        this.record({
+          kind: 'hit',
+          weaponId: weaponId ?? this.lastWeaponId ?? undefined,
+          amount: damage,
+          position: toPoint(position),
+        });
+      }),
+      bus.on(GameEvent.ENEMY_KILLED, ({ enemyId, type, position }) => {
+        const hitTime = this.firstHit.get(enemyId);
+        this.firstHit.delete(enemyId);
+        this.record({
+          kind: 'kill',
+          enemyType: type,
+          weaponId: this.lastWeaponId ?? undefined,
+          amount: hitTime !== undefined ? Math.round((this.now() - hitTime) * 1000) / 1000 : undefined,
+          position: toPoint(position),
+        });
+      }),
+      bus.on(GameEvent.PLAYER_DAMAGED, ({ amount, source }) => {
+        this.lastDamageSource = source ?? UNKNOWN_SOURCE;
+        this.record({
+          kind: 'damage_taken',
+          source: this.lastDamageSource,
+          amount,
+          position: this.playerPosition(),
+        });
+      }),
+      bus.on(GameEvent.PLAYER_DEATH, () => {
+        this.record({
+          kind: 'death',
+          source: this.lastDamageSource ?? UNKNOWN_SOURCE,
+          position: this.playerPosition(),
+        });
+      })
+    );
+
+    if (this.levelManager) {
+      this.unsubscribers.push(this.levelManager.on('start', ({ levelId }) => this.beginLevel(levelId)));
+    }
+  }
+
+  // ============== 关卡 ==============
+  // 同一关卡重复进入时继续累积 (多次尝试合并统计)
+  private beginLevel(levelId: string): LevelRecord {
+    let record = this.levels.get(levelId);
+    if (!record) {
+      record = { levelId, startTime: 0, endTime: 0, events: [] };
+      this.levels.set(levelId, record);
+    }
+    record.startTime = this.core.getElapsedTime() - record.endTime;
+
+    this.current = record;
+    this.firstHit.clear();
+    this.lastDamageSource = null;
+    return record;
+  }
+
+  public getCurrentLevelId(): string {
+    return this.current.levelId;
+  }
+
+  public getLevelIds(): string[] {
+    return Array.from(this.levels.keys()).filter(id => this.levels.get(id)!.events.length > 0);
+  }
+
+  // ============== 记录 ==============
+  private record(event: Omit<TelemetryEvent, 'time'>): void {
+    const record = this.current;
+    record.endTime = this.now();
+    if (record.events.length >= this.maxEventsPerLevel) return;
+
+    record.events.push({ ...event, time: record.endTime });
+  }
+
+  // 精确到毫秒，避免导出中出现浮点误差
+  private now(): number {
+    return Math.round((this.core.getElapsedTime() - this.current.startTime) * 1000) / 1000;
+  }
+
+  private playerPosition(): HeatmapPoint {
+    return toPoint(this.core.player.position);
+  }
+
+  public getEvents(levelId: string = this.current.levelId, kinds?: TelemetryKind[]): TelemetryEvent[] {
+    const events = this.levels.get(levelId)?.events ?? [];
+    return kinds ? events.filter(event => kinds.includes(event.kind)) : [...events];
+  }
+
+  // ============== 汇总 ==============
+  public getSummary(levelId: string = this.current.levelId): LevelTelemetrySummary {
+    const record = this.levels.get(levelId);
+    const summary: LevelTelemetrySummary = {
+      levelId,
+      duration: record?.endTime ?? 0,
+      levelState: this.getLevelState(levelId),
+      deaths: 0,
+      kills: 0,
+      weapons: {},
+      timeToKill: {},
+      damageTaken: {},
+    };
+    const ttkSamples: Record<string, number[]> = {};
+
+    const weapon = (id: string) =>
+      (summary.weapons[id] ??= { shotsFired: 0, shotsHit: 0, accuracy: 0 });
+
+    record?.events.forEach(event => {
+      switch (event.kind) {
+        case 'shot':
+          if (event.weaponId) weapon(event.weaponId).shotsFired++;
+          break;
+        case 'hit':
+          if (event.weaponId) weapon(event.weaponId).shotsHit++;
+          break;
+        case 'kill':
+          summary.kills++;
+          if (event.enemyType && event.amount !== undefined) {
+            (ttkSamples[event.enemyType] ??= []).push(event.amount);
+          }
+          break;
+        case 'damage_taken': {
+          const source = event.source ?? UNKNOWN_SOURCE;
+          summary.damageTaken[source] = (summary.damageTaken[source] ?? 0) + (event.amount ?? 0);
+          break;
+        }
+        case 'death':
+          summary.deaths++;
+          break;
+      }
+    });
+
+    Object.values(summary.weapons).forEach(stats => {
+      stats.accuracy = stats.shotsFired > 0 ? Math.min(1, stats.shotsHit / stats.shotsFired) : 0;
+    });
+
+    Object.entries(ttkSamples).forEach(([type, samples]) => {
+      summary.timeToKill[type] = {
+        count: samples.length,
+        average: samples.reduce((sum, t) => sum + t, 0) / samples.length,
+        min: Math.min(...samples),
+        max: Math.max(...samples),
+      };
+    });
+
+    return summary;
+  }
+
+  private getLevelState(levelId: string): LevelState | null {
+    const state = this.levelManager?.getProgress().levelStates.get(levelId);
+    return state ? { ...state } : null;
+  }
+
+  // ============== 导出 ==============
+  public exportJSON(levelId: string = this.current.levelId): string {
+    return JSON.stringify({
+      summary: this.getSummary(levelId),
+      events: this.getEvents(levelId),
+    }, null, 2);
+  }
+
+  public exportCSV(levelId: string = this.current.levelId): string {
+    const rows = this.getEvents(levelId).map(event => {
+      const values: Record<string, unknown> = {
+        ...event,
+        x: event.position?.x,
+        y: event.position?.y,
+        z: event.position?.z,
+      };
+      return CSV_COLUMNS.map(column => csvValue(values[column])).join(',');
+    });
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+  }
+
+  // 默认叠加死亡 (红) 与击杀 (青) 两层
+  public renderHeatmap(
+    levelId: string = this.current.levelId,
+    kinds: HeatmapKind[] = ['death', 'kill'],
+    options: HeatmapOptions = {}
+  ): HeatmapImage {
+    const events = this.getEvents(levelId, kinds);
+    const layers = kinds.map(kind => ({
+      color: HEATMAP_COLORS[kind],
+      points: events
+        .filter(event => event.kind === kind && event.position)
+        .map(event => event.position!),
+    }));
+
+    return renderHeatmap(layers, options);
+  }
+
+  public exportHeatmapBMP(
+    levelId: string = this.current.levelId,
+    kinds?: HeatmapKind[],
+    options?: HeatmapOptions
+  ): Uint8Array {
+    return encodeBMP(this.renderHeatmap(levelId, kinds, options));
+  }
+
+  // ============== 清理 ==============
+  public clear(levelId?: string): void {
+    if (levelId) {
+      this.levels.delete(levelId);
+      if (this.current.levelId === levelId) this.beginLevel(levelId);
+    } else {
+      const currentId = this.current.levelId;
+      this.levels.clear();
+      this.beginLevel(currentId);
+    }
+  }
+
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.levels.clear();
+  }
+}
+
+function toPoint(position: { x: number; y: number; z: number }): HeatmapPoint {
+  return { x: position.x, y: position.y, z: position.z };
+}
+
+function csvValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export default TelemetryCollector;
@@ -0,0 +1,17 @@
+/**
+ * systems/telemetry/index.ts - 遥测系统导出
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ */
+
+export { TelemetryCollector } from './TelemetryCollector';
+export type {
+  TelemetryKind,
+  TelemetryEvent,
+  WeaponTelemetry,
+  TimeToKillTelemetry,
+  LevelTelemetrySummary,
+  TelemetryOptions,
+  HeatmapKind,
+} from './TelemetryCollector';
+export { renderHeatmap, renderHeatmapCanvas, encodeBMP, computeBounds } from './Heatmap';
+export type { HeatmapPoint, HeatmapBounds, HeatmapLayer, HeatmapOptions, HeatmapImage } from './Heatmap';
@@ -0,0 +1,282 @@
+/**
+ * BehaviorTreePanel.ts - 行为树调试面板
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 选择一个敌人后实时显示其行为树，按 RUNNING / SUCCESS / FAILURE 着色；
+ * 可暂停并拖动回看最近的 tick，导出记录用于缺陷报告
+ */
+
+import { Core, SystemPhase } from '../../core';
+import { AIManager } from '../ai/AIManager';
+import { BehaviorTreeTracer } from '../ai/BehaviorTreeTracer';
+import type { BTTraceNode, BTTraceTick } from '../ai/BehaviorTreeTracer';
+import { BLACKBOARD_SCOPES } from '../ai/Blackboard';
+import type { BehaviorTree } from '../ai/BehaviorTree';
+
+// 刷新频率 (Hz)
+const REFRESH_RATE = 10;
+// 保留的 tick 数
+const TRACE_TICKS = 120;
+
+export class BehaviorTreePanel {
+  private core: Core;
+  private unsubscribe: (() => void) | null = null;
+
+  public element: HTMLElement | null = null;
+  private selectEl: HTMLSelectElement | null = null;
+  private sliderEl: HTMLInputElement | null = null;
+  private pauseButton: HTMLButtonElement | null = null;
+  private infoEl: HTMLElement | null = null;
+  private treeEl: HTMLElement | null = null;
+  private rows: HTMLElement[] = [];
+
+  // 当前调试对象
+  private enemyId: string | null = null;
+  private tree: BehaviorTree | null = null;
+  private tracer: BehaviorTreeTracer | null = null;
+  private renderedLayout: readonly BTTraceNode[] | null = null;
+  private enemyIds: string = '';
+
+  constructor(private ai: AIManager = AIManager.getInstance()) {
+    this.core = Core.getInstance();
+  }
+
+  // ============== 创建 ==============
+  public create(): HTMLElement {
+    const container = document.createElement('div');
+    container.className = 'bt-panel';
+    container.innerHTML = `
+      <div class="bt-panel-header">
+        <span class="bt-panel-title">行为树</span>
+        <select class="bt-panel-enemy"></select>
+        <button class="bt-panel-pause">暂停</button>
+        <button class="bt-panel-export">导出</button>
+      </div>
+      <input class="bt-panel-history" type="range" min="0" max="0" value="0">
+      <div class="bt-panel-info"></div>
+      <div class="bt-panel-tree"></div>
+    `;
+
+    this.selectEl = container.querySelector('.bt-panel-enemy');
+    this.sliderEl = container.querySelector('.bt-panel-history');
+    this.pauseButton = container.querySelector('.bt-panel-pause');
+    this.infoEl = container.querySelector('.bt-panel-info');
+    this.treeEl = container.querySelector('.bt-panel-tree');
+
+    this.selectEl?.addEventListener('change', () => this.select(this.selectEl?.value || null));
+    this.sliderEl?.addEventListener('input', () => this.render());
+    this.pauseButton?.addEventListener('click', () => this.setPaused(!this.tracer?.isPaused()));
+    container.querySelector('.bt-panel-export')?.addEventListener('click', () => this.download());
+
+    this.unsubscribe = this.core.scheduler.register({
+      name: 'behaviorTreePanel',
+      phase: SystemPhase.UI,
+      tickRate: REFRESH_RATE,
+      runWhilePaused: true,
+      update: () => this.refresh(),
+    });
+
+    this.addStyles();
+    this.element = container;
+    return container;
+  }
+
+  // ============== 选择敌人 ==============
+  // 只记录被选中敌人的行为树，切换时解除上一个的记录器
+  public select(enemyId: string | null): boolean {
+    this.detach();
+
+    const tree = enemyId ? this.ai.getEnemy(enemyId)?.behaviorTree ?? null : null;
+    if (enemyId && !tree) {
+      console.warn(`[BehaviorTreePanel] 敌人不存在或没有行为树: ${enemyId}`);
+      this.render();
+      return false;
+    }
+
+    if (tree) {
+      this.enemyId = enemyId;
+      this.tree = tree;
+      this.tracer = new BehaviorTreeTracer(TRACE_TICKS);
+      tree.setRecorder(this.tracer);
+    }
+    if (this.selectEl) this.selectEl.value = this.enemyId ?? '';
+    this.setPaused(false);
+    this.render();
+    return true;
+  }
+
+  public getSelected(): string | null {
+    return this.enemyId;
+  }
+
+  public getTracer(): BehaviorTreeTracer | null {
+    return this.tracer;
+  }
+
+  private detach(): void {
+    if (this.tree && this.tree.getRecorder() === this.tracer) this.tree.setRecorder(null);
+    this.enemyId = null;
+    this.tree = null;
+    this.tracer = null;
+  }
+
+  // 暂停期间停止记录，滑块可回看已有 tick
+  public setPaused(paused: boolean): void {
+    this.tracer?.setPaused(paused);
+    if (this.pauseButton) this.pauseButton.textContent = paused ? '继续' : '暂停';
+  }
+
+  // ============== 刷新 ==============
+  private refresh(): void {
+    if (!this.element || this.element.style.display === 'none') return;
+
+    // 被选中的敌人已移除或换了行为树
+    if (this.enemyId && this.ai.getEnemy(this.enemyId)?.behaviorTree !== this.tree) {
+      this.select(null);
+    }
+
+    this.refreshEnemyList();
+    this.render();
+  }
+
+  private refreshEnemyList(): void {
+    if (!this.selectEl) return;
+
+    const ids = this.ai.getEnemies().filter(enemy => enemy.behaviorTree).map(enemy => enemy.id);
+    const key = ids.join('|');
+    if (key === this.enemyIds) return;
+    this.enemyIds = key;
+
+    this.selectEl.replaceChildren(
+      new Option('(未选择)', ''),
+      ...ids.map(id => new Option(id, id))
+    );
+    this.selectEl.value = this.enemyId ?? '';
+  }
+
+  // 滑块位于最右侧时跟随最新 tick
+  private render(): void {
+    if (!this.treeEl || !this.infoEl || !this.sliderEl) return;
+
+    const ticks = this.tracer?.getTicks() ?? [];
+    const following = Number(this.sliderEl.value) >= Number(this.sliderEl.max);
+    this.sliderEl.max = String(Math.max(ticks.length - 1, 0));
+    if (following) this.sliderEl.value = this.sliderEl.max;
+
+    const tick = ticks[Number(this.sliderEl.value)] ?? null;
+    this.renderRows(this.tracer?.getLayout() ?? [], tick);
+
+    if (!this.tracer) {
+      this.infoEl.textContent = '选择一个敌人';
+    } else if (!tick) {
+      this.infoEl.textContent = '等待行为树更新…';
+    } else {
+      const enemy = this.enemyId ? this.ai.getEnemy(this.enemyId) : undefined;
+      this.infoEl.textContent = `tick ${tick.tick}  ${(tick.time / 1000).toFixed(2)}s  ${tick.status}  [${enemy?.state ?? '-'}]`;
+    }
+  }
+
+  private renderRows(layout: readonly BTTraceNode[], tick: BTTraceTick | null): void {
+    if (!this.treeEl) return;
+
+    if (layout !== this.renderedLayout) {
+      this.renderedLayout = layout;
+      this.rows = layout.map(node => {
+        const row = document.createElement('div');
+        row.className = 'bt-panel-node';
+        row.style.paddingLeft = `${node.depth * 12}px`;
+        row.textContent = `${node.name} · ${node.type}`;
+        return row;
+      });
+      this.treeEl.replaceChildren(...this.rows);
+    }
+
+    this.rows.forEach((row, id) => {
+      row.dataset.status = tick?.statuses[id] ?? 'idle';
+    });
+  }
+
+  // ============== 导出 ==============
+  private download(): void {
+    if (!this.tracer || !this.tree) return;
+
+    const blackboard = this.tree.getContext().blackboard;
+    const json = this.tracer.export(this.enemyId ?? '', {
+      enemyId: this.enemyId,
+      state: this.enemyId ? this.ai.getEnemy(this.enemyId)?.state : undefined,
+      blackboard: blackboard && Object.fromEntries(
+        BLACKBOARD_SCOPES.map(scope => [scope, blackboard.getLayer(scope)?.snapshot() ?? {}])
+      ),
+    });
+    const blob = new Blob([json], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `bt-trace-${this.enemyId}-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  // ============== 显示 ==============
+  public show(): void {
+    if (this.element) this.element.style.display = 'block';
+  }
+
+  public toggle(): void {
+    if (!this.element) return;
+    this.element.style.display = this.element.style.display === 'none' ? 'block' : 'none';
+  }
+
+  public destroy(): void {
+    this.detach();
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.element?.parentNode?.removeChild(this.element);
+    this.element = null;
+    this.selectEl = null;
+    this.sliderEl = null;
+    this.pauseButton = null;
+    this.infoEl = null;
+    this.treeEl = null;
+    this.rows = [];
+    this.renderedLayout = null;
+  }
+
+  // ============== 样式 ==============
+  private addStyles(): void {
+    if (document.getElementById('bt-panel-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'bt-panel-styles';
+    style.textContent = `
+      .bt-panel {
+        position: fixed;
+        top: 20px;
+        right: 20px;
+        width: 320px;
+        max-height: 70vh;
+        display: flex;
+        flex-direction: column;
+        padding: 8px;
+        background: rgba(0, 0, 0, 0.8);
+        border: 1px solid #00ffff;
+        border-radius: 6px;
+        color: #ccc;
+        font: 11px monospace;
+        z-index: 950;
+      }
+      .bt-panel-header { display: flex; gap: 6px; align-items: center; margin-bottom: 6px; }
+      .bt-panel-title { color: #00ffff; font-weight: bold; margin-right: auto; }
+      .bt-panel select, .bt-panel button { color: #00ffff; background: transparent; border: 1px solid #234; font: inherit; }
+      .bt-panel button { cursor: pointer; }
+      .bt-panel-history { width: 100%; }
+      .bt-panel-info { margin: 4px 0; color: #888; }
+      .bt-panel-tree { overflow-y: auto; white-space: pre; }
+      .bt-panel-node { color: #555; }
+      .bt-panel-node[data-status="running"] { color: #ffcc00; }
+      .bt-panel-node[data-status="success"] { color: #00ff88; }
+      .bt-panel-node[data-status="failure"] { color: #ff4444; }
+    `;
+    document.head.appendChild(style);
+  }
+}
+
+export default BehaviorTreePanel;
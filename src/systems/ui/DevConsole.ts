@@ -0,0 +1,241 @@
+/**
+ * DevConsole.ts - 开发者控制台
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * ` 键开关；Tab 补全，↑ / ↓ 浏览历史，Enter 执行，Esc 关闭
+ */
+
+import type { Unsubscribe } from '../../core/EventBus';
+import { CommandRegistry, CommandHistory } from '../console';
+import type { CommandOutput } from '../console';
+import { t } from '../../i18n';
+
+// 输出区保留的行数
+const MAX_OUTPUT_LINES = 200;
+
+export class DevConsole {
+  private input: HTMLInputElement | null = null;
+  private outputEl: HTMLElement | null = null;
+
+  // 浏览历史时的位置，等于 history.size() 表示正在编辑新输入
+  private historyCursor: number = 0;
+  private draft: string = '';
+  private unsubscribes: Unsubscribe[] = [];
+
+  public element: HTMLElement | null = null;
+
+  constructor(
+    private registry: CommandRegistry,
+    private history: CommandHistory = new CommandHistory()
+  ) {
+    this.unsubscribes.push(this.registry.register({
+      name: 'clear',
+      description: t('console.clear.description'),
+      execute: () => this.clearOutput(),
+    }));
+    this.unsubscribes.push(this.registry.register({
+      name: 'history',
+      description: t('console.history.description'),
+      usage: 'history [clear]',
+      complete: args => (args.length === 1 ? ['clear'] : []),
+      execute: args => {
+        if (args[0] === 'clear') {
+          this.history.clear();
+          this.historyCursor = 0;
+          return t('console.history.cleared');
+        }
+        return this.history.getEntries().map((entry, i) => `${String(i + 1).padStart(3)}  ${entry}`);
+      },
+    }));
+  }
+
+  // ============== 创建 ==============
+  public create(): HTMLElement {
+    const container = document.createElement('div');
+    container.className = 'dev-console';
+    container.innerHTML = `
+      <div class="dev-console-output"></div>
+      <div class="dev-console-prompt">
+        <span>&gt;</span>
+        <input class="dev-console-input" type="text" spellcheck="false" autocomplete="off" />
+      </div>
+    `;
+
+    this.outputEl = container.querySelector('.dev-console-output');
+    this.input = container.querySelector('.dev-console-input');
+    this.input?.addEventListener('keydown', event => this.onKeyDown(event));
+
+    this.addStyles();
+    this.element = container;
+    this.historyCursor = this.history.size();
+    this.print(t('console.welcome'), 'info');
+    return container;
+  }
+
+  // ============== 输入 ==============
+  private onKeyDown(event: KeyboardEvent): void {
+    // 输入期间不触发游戏按键
+    event.stopPropagation();
+
+    switch (event.key) {
+      case 'Enter':
+        this.submit();
+        break;
+      case 'Tab':
+        event.preventDefault();
+        this.autocomplete();
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.browseHistory(-1);
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        this.browseHistory(1);
+        break;
+      case 'Escape':
+        this.hide();
+        break;
+      default:
+        if (event.code === 'Backquote') {
+          event.preventDefault();
+          this.hide();
+        }
+    }
+  }
+
+  private submit(): void {
+    if (!this.input) return;
+    const line = this.input.value.trim();
+    this.input.value = '';
+    if (!line) return;
+
+    this.history.add(line);
+    this.historyCursor = this.history.size();
+    this.draft = '';
+
+    this.print(`> ${line}`, 'command');
+    this.printOutput(this.registry.execute(line));
+  }
+
+  private printOutput(output: CommandOutput): void {
+    output.lines.forEach(text => this.print(text, output.ok ? 'result' : 'error'));
+    output.pending?.then(result => this.printOutput(result));
+  }
+
+  // 唯一候选直接替换；多个候选时补到公共前缀并列出
+  private autocomplete(): void {
+    if (!this.input) return;
+    const candidates = this.registry.complete(this.input.value);
+    if (candidates.length === 0) return;
+
+    if (candidates.length === 1) {
+      this.input.value = `${candidates[0]} `;
+      return;
+    }
+
+    this.input.value = commonPrefix(candidates);
+    this.print(candidates.map(candidate => candidate.split(' ').pop()).join('  '), 'info');
+  }
+
+  private browseHistory(direction: number): void {
+    if (!this.input) return;
+    if (this.historyCursor === this.history.size()) this.draft = this.input.value;
+
+    this.historyCursor = Math.max(0, Math.min(this.history.size(), this.historyCursor + direction));
+    this.input.value = this.history.get(this.historyCursor) ?? this.draft;
+  }
+
+  // ============== 输出 ==============
+  public print(text: string, kind: 'command' | 'result' | 'error' | 'info' = 'result'): void {
+    if (!this.outputEl) return;
+
+    const line = document.createElement('div');
+    line.className = `dev-console-line ${kind}`;
+    line.textContent = text;
+    this.outputEl.appendChild(line);
+
+    while (this.outputEl.childElementCount > MAX_OUTPUT_LINES) {
+      this.outputEl.firstElementChild?.remove();
+    }
+    this.outputEl.scrollTop = this.outputEl.scrollHeight;
+  }
+
+  private clearOutput(): void {
+    if (this.outputEl) this.outputEl.innerHTML = '';
+  }
+
+  // ============== 显示 ==============
+  public show(): void {
+    if (!this.element) return;
+    this.element.style.display = 'flex';
+    this.input?.focus();
+  }
+
+  public hide(): void {
+    if (!this.element) return;
+    this.element.style.display = 'none';
+    this.input?.blur();
+  }
+
+  public toggle(): void {
+    if (this.isVisible()) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  public isVisible(): boolean {
+    return !!this.element && this.element.style.display !== 'none';
+  }
+
+  public destroy(): void {
+    this.unsubscribes.forEach(unsubscribe => unsubscribe());
+    this.unsubscribes = [];
+    this.element?.parentNode?.removeChild(this.element);
+    this.element = null;
+    this.input = null;
+    this.outputEl = null;
+  }
+
+  // ============== 样式 ==============
+  private addStyles(): void {
+    if (document.getElementById('dev-console-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'dev-console-styles';
+    style.textContent = `
+      .dev-console {
+        position: fixed;
+        top: 0;
+        left: 0;
+        right: 0;
+        height: 40%;
+        display: flex;
+        flex-direction: column;
+        background: rgba(0, 0, 0, 0.85);
+        border-bottom: 1px solid #00ffff;
+        color: #ccc;
+        font: 13px monospace;
+        z-index: 1100;
+      }
+      .dev-console-output { flex: 1; overflow-y: auto; padding: 8px 12px; white-space: pre-wrap; }
+      .dev-console-line.command { color: #00ffff; }
+      .dev-console-line.error { color: #ff6666; }
+      .dev-console-line.info { color: #888; }
+      .dev-console-prompt { display: flex; gap: 6px; padding: 6px 12px; border-top: 1px solid #234; color: #00ffff; }
+      .dev-console-input { flex: 1; background: transparent; border: none; outline: none; color: #fff; font: inherit; }
+    `;
+    document.head.appendChild(style);
+  }
+}
+
+function commonPrefix(values: string[]): string {
+  return values.reduce((prefix, value) => {
+    let i = 0;
+    while (i < prefix.length && i < value.length && prefix[i] === value[i]) i++;
+    return prefix.slice(0, i);
+  });
+}
+
+export default DevConsole;
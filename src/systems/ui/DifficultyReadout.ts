@@ -0,0 +1,76 @@
+/**
+ * DifficultyReadout.ts - 动态难度调试读数
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 显示 DifficultyDirector 当前的表现评分与各项微调倍率
+ */
+
+import { Core, GameEvent } from '../../core';
+import type { DifficultyAdjustedPayload, Unsubscribe } from '../../core/EventBus';
+
+export class DifficultyReadout {
+  private core: Core;
+  private unsubscribe: Unsubscribe | null = null;
+
+  public element: HTMLElement | null = null;
+
+  constructor() {
+    this.core = Core.getInstance();
+  }
+
+  // ============== 创建 ==============
+  public create(): HTMLElement {
+    const container = document.createElement('div');
+    container.className = 'difficulty-readout';
+    container.style.cssText = `
+      position: fixed;
+      top: 20px;
+      right: 20px;
+      padding: 8px 12px;
+      background: rgba(0, 0, 0, 0.75);
+      border: 1px solid #00ffff;
+      border-radius: 6px;
+      color: #88ff88;
+      font: 12px monospace;
+      white-space: pre;
+      z-index: 900;
+    `;
+    container.textContent = '动态难度: 等待数据';
+
+    this.unsubscribe = this.core.eventBus.on(GameEvent.DIFFICULTY_ADJUSTED, payload => this.render(payload));
+    this.element = container;
+    return container;
+  }
+
+  // ============== 渲染 ==============
+  private render(payload: DifficultyAdjustedPayload): void {
+    if (!this.element) return;
+
+    if (!payload.enabled) {
+      this.element.textContent = '动态难度: 已关闭';
+      return;
+    }
+
+    const percent = (value: number) => `${value >= 1 ? '+' : ''}${((value - 1) * 100).toFixed(1)}%`;
+    this.element.textContent = [
+      `动态难度  评分 ${payload.score.toFixed(2)}`,
+      `命中率    ${percent(payload.accuracy)}`,
+      `攻击性    ${percent(payload.aggression)}`,
+      `敌人数量  ${percent(payload.spawnCount)}`,
+    ].join('\n');
+  }
+
+  // ============== 显示 ==============
+  public toggle(): void {
+    if (!this.element) return;
+    this.element.style.display = this.element.style.display === 'none' ? 'block' : 'none';
+  }
+
+  public destroy(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.element?.parentNode?.removeChild(this.element);
+    this.element = null;
+  }
+}
+
+export default DifficultyReadout;
@@ -0,0 +1,205 @@
+/**
+ * EventTimeline.ts - 事件时间轴调试面板
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 拖动滑块回放 EventJournal 记录，按命名空间过滤，导入/导出 JSON
+ */
+
+import { Core, EventJournal } from '../../core';
+import type { JournalEntry } from '../../core';
+
+// 滑块位置前后显示的条目数
+const VISIBLE_WINDOW = 12;
+
+export class EventTimeline {
+  private core: Core;
+  private journal: EventJournal;
+
+  public element: HTMLElement | null = null;
+  private slider: HTMLInputElement | null = null;
+  private namespaceSelect: HTMLSelectElement | null = null;
+  private listEl: HTMLElement | null = null;
+  private detailEl: HTMLElement | null = null;
+  private summaryEl: HTMLElement | null = null;
+
+  private entries: JournalEntry[] = [];
+  private cursor: number = 0;
+  private namespace: string = '';
+
+  constructor() {
+    this.core = Core.getInstance();
+    this.journal = this.core.eventBus.getJournal() ?? this.core.eventBus.enableJournal();
+  }
+
+  // ============== 创建 ==============
+  public create(): HTMLElement {
+    const container = document.createElement('div');
+    container.className = 'event-timeline';
+    container.innerHTML = `
+      <div class="timeline-header">
+        <span class="timeline-title">事件时间轴</span>
+        <select class="timeline-namespace"></select>
+        <button class="timeline-refresh">刷新</button>
+        <button class="timeline-export">导出</button>
+        <label class="timeline-import">导入<input type="file" accept="application/json" /></label>
+      </div>
+      <input class="timeline-slider" type="range" min="0" max="0" value="0" />
+      <div class="timeline-summary"></div>
+      <div class="timeline-body">
+        <div class="timeline-list"></div>
+        <pre class="timeline-detail"></pre>
+      </div>
+    `;
+
+    this.slider = container.querySelector('.timeline-slider');
+    this.namespaceSelect = container.querySelector('.timeline-namespace');
+    this.listEl = container.querySelector('.timeline-list');
+    this.detailEl = container.querySelector('.timeline-detail');
+    this.summaryEl = container.querySelector('.timeline-summary');
+
+    this.slider?.addEventListener('input', () => {
+      this.cursor = Number(this.slider!.value);
+      this.render();
+    });
+    this.namespaceSelect?.addEventListener('change', () => {
+      this.namespace = this.namespaceSelect!.value;
+      this.refresh();
+    });
+    container.querySelector('.timeline-refresh')?.addEventListener('click', () => this.refresh());
+    container.querySelector('.timeline-export')?.addEventListener('click', () => this.download());
+    container.querySelector('.timeline-import input')?.addEventListener('change', (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) this.upload(file);
+    });
+
+    this.addStyles();
+    this.element = container;
+    this.refresh();
+    return container;
+  }
+
+  // ============== 数据刷新 ==============
+  public refresh(): void {
+    this.entries = this.journal.getEntries({
+      namespaces: this.namespace ? [this.namespace] : undefined,
+    });
+    this.cursor = Math.max(0, this.entries.length - 1);
+
+    // 命名空间与事件名可能来自导入的 JSON，只以文本写入
+    if (this.namespaceSelect) {
+      const options = ['', ...this.journal.getNamespaces()];
+      this.namespaceSelect.replaceChildren(...options.map(ns => new Option(ns || '全部', ns)));
+      this.namespaceSelect.value = this.namespace;
+    }
+    if (this.slider) {
+      this.slider.max = String(Math.max(0, this.entries.length - 1));
+      this.slider.value = String(this.cursor);
+    }
+
+    this.render();
+  }
+
+  // ============== 渲染 ==============
+  private render(): void {
+    const current = this.entries[this.cursor];
+
+    if (this.summaryEl) {
+      this.summaryEl.textContent = current
+        ? `#${this.cursor + 1}/${this.entries.length}  帧 ${current.frame}  ${current.elapsedTime.toFixed(3)}s`
+        : '暂无记录';
+    }
+
+    if (this.listEl) {
+      const start = Math.max(0, this.cursor - VISIBLE_WINDOW);
+      const end = Math.min(this.entries.length, this.cursor + VISIBLE_WINDOW + 1);
+      this.listEl.replaceChildren(...this.entries
+        .slice(start, end)
+        .map((entry, i) => {
+          const row = document.createElement('div');
+          row.className = start + i === this.cursor ? 'timeline-entry active' : 'timeline-entry';
+          row.textContent = `[${entry.frame}] ${entry.event}`;
+          return row;
+        }));
+    }
+
+    if (this.detailEl) {
+      this.detailEl.textContent = current ? JSON.stringify(current.data, null, 2) ?? '' : '';
+    }
+  }
+
+  // ============== 导入 / 导出 ==============
+  private download(): void {
+    const json = this.journal.export(
+      this.core.eventBus.getAllEventCounts(),
+      { namespaces: this.namespace ? [this.namespace] : undefined }
+    );
+    const blob = new Blob([json], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `event-journal-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  private upload(file: File): void {
+    file.text().then(json => {
+      try {
+        this.journal.import(json);
+        this.namespace = '';
+        this.refresh();
+      } catch (error) {
+        console.error('[EventTimeline] 导入失败:', error);
+      }
+    });
+  }
+
+  // ============== 显示 ==============
+  public toggle(): void {
+    if (!this.element) return;
+    const visible = this.element.style.display !== 'none';
+    this.element.style.display = visible ? 'none' : 'flex';
+    if (!visible) this.refresh();
+  }
+
+  public destroy(): void {
+    this.element?.parentNode?.removeChild(this.element);
+    this.element = null;
+  }
+
+  // ============== 样式 ==============
+  private addStyles(): void {
+    if (document.getElementById('event-timeline-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'event-timeline-styles';
+    style.textContent = `
+      .event-timeline {
+        position: fixed;
+        left: 20px;
+        right: 20px;
+        bottom: 20px;
+        height: 280px;
+        display: flex;
+        flex-direction: column;
+        background: rgba(0, 0, 0, 0.85);
+        border: 1px solid #00ffff;
+        border-radius: 6px;
+        padding: 10px;
+        color: #ccc;
+        font: 12px monospace;
+        z-index: 900;
+      }
+      .timeline-header { display: flex; gap: 8px; align-items: center; }
+      .timeline-title { color: #00ffff; font-weight: bold; margin-right: auto; }
+      .timeline-import input { display: none; }
+      .timeline-import, .event-timeline button { cursor: pointer; color: #00ffff; }
+      .timeline-slider { width: 100%; margin: 8px 0; }
+      .timeline-body { display: flex; flex: 1; gap: 10px; overflow: hidden; }
+      .timeline-list { flex: 1; overflow-y: auto; }
+      .timeline-entry.active { color: #ffff00; }
+      .timeline-detail { flex: 1; overflow: auto; margin: 0; color: #88ff88; }
+    `;
+    document.head.appendChild(style);
+  }
+}
+
+export default EventTimeline;
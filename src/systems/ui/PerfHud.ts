@@ -0,0 +1,212 @@
+/**
+ * PerfHud.ts - 性能 HUD
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 滚动帧时间曲线 (AI 预算与 60 / 30 FPS 目标线)、耗时最高的系统、绘制调用与计数器；
+ * 可录制片段并导出 JSON
+ */
+
+import { Core, SystemPhase } from '../../core';
+import type { FrameProfiler, ProfileSummary } from '../../core';
+
+// 曲线纵轴上限 (毫秒)
+const GRAPH_MAX_MS = 40;
+const GRAPH_WIDTH = 240;
+const GRAPH_HEIGHT = 80;
+// 帧目标 (毫秒)
+const FRAME_TARGETS = [1000 / 60, 1000 / 30];
+// 列出耗时最高的系统数
+const TOP_SYSTEMS = 6;
+// 文本与曲线刷新频率 (Hz)
+const REFRESH_RATE = 5;
+
+export class PerfHud {
+  private core: Core;
+  private unsubscribe: (() => void) | null = null;
+
+  public element: HTMLElement | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private ctx: CanvasRenderingContext2D | null = null;
+  private statsEl: HTMLElement | null = null;
+  private captureButton: HTMLButtonElement | null = null;
+
+  constructor(private profiler: FrameProfiler) {
+    this.core = Core.getInstance();
+  }
+
+  // ============== 创建 ==============
+  public create(): HTMLElement {
+    const container = document.createElement('div');
+    container.className = 'perf-hud';
+    container.innerHTML = `
+      <div class="perf-hud-header">
+        <span class="perf-hud-title">性能</span>
+        <button class="perf-hud-capture">录制</button>
+        <button class="perf-hud-export">导出</button>
+      </div>
+      <canvas class="perf-hud-graph" width="${GRAPH_WIDTH}" height="${GRAPH_HEIGHT}"></canvas>
+      <div class="perf-hud-stats"></div>
+    `;
+
+    this.canvas = container.querySelector('.perf-hud-graph');
+    this.ctx = this.canvas?.getContext('2d') ?? null;
+    this.statsEl = container.querySelector('.perf-hud-stats');
+    this.captureButton = container.querySelector('.perf-hud-capture');
+
+    this.captureButton?.addEventListener('click', () => this.toggleCapture());
+    container.querySelector('.perf-hud-export')?.addEventListener('click', () => this.download());
+
+    // 暂停时也刷新，便于观察菜单等界面的开销
+    this.unsubscribe = this.core.scheduler.register({
+      name: 'perfHud',
+      phase: SystemPhase.UI,
+      tickRate: REFRESH_RATE,
+      runWhilePaused: true,
+      update: () => this.render(),
+    });
+
+    this.addStyles();
+    this.element = container;
+    return container;
+  }
+
+  // ============== 渲染 ==============
+  private render(): void {
+    if (!this.element || this.element.style.display === 'none') return;
+
+    this.drawGraph();
+    this.renderStats(this.profiler.getSummary());
+
+    if (this.captureButton) {
+      const progress = this.profiler.getCaptureProgress();
+      this.captureButton.textContent = progress ? `停止 ${progress.frames}/${progress.limit}` : '录制';
+    }
+  }
+
+  private drawGraph(): void {
+    if (!this.ctx || !this.canvas) return;
+    const ctx = this.ctx;
+    const history = this.profiler.getHistory();
+    const y = (ms: number) => GRAPH_HEIGHT - Math.min(ms, GRAPH_MAX_MS) / GRAPH_MAX_MS * GRAPH_HEIGHT;
+
+    ctx.clearRect(0, 0, GRAPH_WIDTH, GRAPH_HEIGHT);
+
+    // 每帧一列：帧间隔 (暗) 与调度器耗时 (亮)，AI 阶段叠在底部
+    const barWidth = GRAPH_WIDTH / Math.max(history.length, 1);
+    history.forEach((frame, i) => {
+      const x = i * barWidth;
+      ctx.fillStyle = 'rgba(0, 255, 255, 0.25)';
+      ctx.fillRect(x, y(frame.interval), barWidth, GRAPH_HEIGHT - y(frame.interval));
+      ctx.fillStyle = '#00ffff';
+      ctx.fillRect(x, y(frame.total), barWidth, GRAPH_HEIGHT - y(frame.total));
+      ctx.fillStyle = '#ff00ff';
+      const ai = frame.phases[SystemPhase.AI] ?? 0;
+      ctx.fillRect(x, y(ai), barWidth, GRAPH_HEIGHT - y(ai));
+    });
+
+    // 预算线
+    const budgetLine = (ms: number, color: string) => {
+      ctx.strokeStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(0, y(ms) + 0.5);
+      ctx.lineTo(GRAPH_WIDTH, y(ms) + 0.5);
+      ctx.stroke();
+    };
+    budgetLine(this.core.config.get('AI_TIME_BUDGET_MS'), '#ff00ff');
+    FRAME_TARGETS.forEach((ms, i) => budgetLine(ms, i === 0 ? '#88ff88' : '#ff6666'));
+  }
+
+  private renderStats(summary: ProfileSummary): void {
+    if (!this.statsEl) return;
+
+    const ms = (value: number) => value.toFixed(2).padStart(6);
+    const fps = summary.interval.avg > 0 ? 1000 / summary.interval.avg : 0;
+    const latest = this.profiler.getLatest();
+
+    const systems = Object.entries(summary.systems)
+      .sort((a, b) => b[1].avg - a[1].avg)
+      .slice(0, TOP_SYSTEMS)
+      .map(([name, stat]) => `${name.padEnd(18).slice(0, 18)} ${ms(stat.avg)} ${ms(stat.max)}`);
+
+    const counters = Object.entries(latest?.counters ?? {})
+      .map(([name, value]) => `${name.padEnd(18).slice(0, 18)} ${Number.isInteger(value) ? value : value.toFixed(2)}`);
+
+    this.statsEl.textContent = [
+      `FPS ${fps.toFixed(0).padStart(4)}   帧 ${ms(summary.interval.avg)} ms  p95 ${ms(summary.interval.p95)}`,
+      `CPU ${ms(summary.total.avg)} ms  max ${ms(summary.total.max)}`,
+      `AI  ${ms(summary.phases[SystemPhase.AI]?.avg ?? 0)} ms  预算 ${this.core.config.get('AI_TIME_BUDGET_MS')}`,
+      `绘制 ${latest?.drawCalls ?? 0}  三角形 ${latest?.triangles ?? 0}`,
+      '',
+      `${'系统'.padEnd(16)}    avg    max`,
+      ...systems,
+      ...(counters.length ? ['', ...counters] : []),
+    ].join('\n');
+  }
+
+  // ============== 录制 / 导出 ==============
+  private toggleCapture(): void {
+    if (this.profiler.isCapturing()) {
+      this.profiler.stopCapture();
+    } else {
+      this.profiler.startCapture();
+    }
+    this.render();
+  }
+
+  private download(): void {
+    const json = this.profiler.export();
+    const blob = new Blob([json], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `frame-profile-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  // ============== 显示 ==============
+  public toggle(): void {
+    if (!this.element) return;
+    this.element.style.display = this.element.style.display === 'none' ? 'block' : 'none';
+  }
+
+  public destroy(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.element?.parentNode?.removeChild(this.element);
+    this.element = null;
+    this.canvas = null;
+    this.ctx = null;
+    this.statsEl = null;
+    this.captureButton = null;
+  }
+
+  // ============== 样式 ==============
+  private addStyles(): void {
+    if (document.getElementById('perf-hud-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'perf-hud-styles';
+    style.textContent = `
+      .perf-hud {
+        position: fixed;
+        top: 20px;
+        left: 20px;
+        width: ${GRAPH_WIDTH}px;
+        padding: 8px;
+        background: rgba(0, 0, 0, 0.75);
+        border: 1px solid #00ffff;
+        border-radius: 6px;
+        color: #ccc;
+        font: 11px monospace;
+        z-index: 950;
+      }
+      .perf-hud-header { display: flex; gap: 6px; align-items: center; margin-bottom: 6px; }
+      .perf-hud-title { color: #00ffff; font-weight: bold; margin-right: auto; }
+      .perf-hud button { cursor: pointer; color: #00ffff; background: transparent; border: 1px solid #234; font: inherit; }
+      .perf-hud-graph { display: block; background: rgba(255, 255, 255, 0.05); }
+      .perf-hud-stats { margin-top: 6px; white-space: pre; }
+    `;
+    document.head.appendChild(style);
+  }
+}
+
+export default PerfHud;
@@ -0,0 +1,199 @@
+/**
+ * SettingsPanel.ts - 设置面板
+ * 墨境：孤军 (Ink Realm: Lone Army)
+ * 由暂停菜单打开；控件修改立即写入 SettingsManager，外部修改 (如恢复默认) 同步回控件
+ */
+
+import type { Unsubscribe } from '../../core/EventBus';
+import { i18n, t } from '../../i18n';
+import {
+  SettingsManager,
+  GameSettings,
+  QualityPreset,
+  SETTINGS_RANGES,
+} from '../settings/SettingsManager';
+
+type SliderKey = 'mouseSensitivity' | 'aimSensitivity' | 'fov' |
+  'masterVolume' | 'musicVolume' | 'sfxVolume' | 'voiceVolume';
+
+interface SliderDefinition {
+  key: SliderKey;
+  label: string;        // 本地化键
+  range: readonly [number, number];
+  step: number;
+  format: (value: number) => string;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const sensitivity = (value: number) => (value * 1000).toFixed(1);
+
+const SLIDERS: SliderDefinition[] = [
+  { key: 'mouseSensitivity', label: 'settings.mouse_sensitivity', range: SETTINGS_RANGES.mouseSensitivity, step: 0.0001, format: sensitivity },
+  { key: 'aimSensitivity', label: 'settings.aim_sensitivity', range: SETTINGS_RANGES.aimSensitivity, step: 0.0001, format: sensitivity },
+  { key: 'fov', label: 'settings.fov', range: SETTINGS_RANGES.fov, step: 1, format: value => `${value}°` },
+  { key: 'masterVolume', label: 'settings.master_volume', range: SETTINGS_RANGES.volume, step: 0.05, format: percent },
+  { key: 'musicVolume', label: 'settings.music_volume', range: SETTINGS_RANGES.volume, step: 0.05, format: percent },
+  { key: 'sfxVolume', label: 'settings.sfx_volume', range: SETTINGS_RANGES.volume, step: 0.05, format: percent },
+  { key: 'voiceVolume', label: 'settings.voice_volume', range: SETTINGS_RANGES.volume, step: 0.05, format: percent },
+];
+
+const QUALITY_PRESETS: QualityPreset[] = ['auto', 'high', 'medium', 'low', 'mobile'];
+
+// 带 data-i18n 的文本节点，切换语言时由 translateElement 刷新
+const text = (key: string) => `<span data-i18n="${key}">${t(key)}</span>`;
+
+export class SettingsPanel {
+  private unsubscribe: Unsubscribe | null = null;
+
+  public element: HTMLElement | null = null;
+
+  constructor(private settings: SettingsManager, private onClose: () => void = () => {}) {}
+
+  // ============== 创建 ==============
+  public create(): HTMLElement {
+    const panel = document.createElement('div');
+    panel.className = 'settings-panel';
+    panel.innerHTML = `
+      <div class="settings-title">${text('settings.title')}</div>
+      ${SLIDERS.map(slider => `
+        <label class="settings-row">
+          ${text(slider.label)}
+          <input type="range" data-key="${slider.key}"
+            min="${slider.range[0]}" max="${slider.range[1]}" step="${slider.step}">
+          <span class="settings-value" data-value="${slider.key}"></span>
+        </label>
+      `).join('')}
+      <label class="settings-row">
+        ${text('settings.invert_y')}
+        <input type="checkbox" data-key="invertY">
+      </label>
+      <label class="settings-row">
+        ${text('settings.quality')}
+        <select data-key="quality">
+          ${QUALITY_PRESETS.map(preset =>
+            `<option value="${preset}" data-i18n="settings.quality.${preset}">${t(`settings.quality.${preset}`)}</option>`
+          ).join('')}
+        </select>
+      </label>
+      <label class="settings-row">
+        ${text('settings.subtitles')}
+        <input type="checkbox" data-key="subtitles">
+      </label>
+      <label class="settings-row">
+        ${text('settings.language')}
+        <select data-key="language">
+          ${i18n.getAvailableLocales().map(({ locale, name }) => `<option value="${locale}">${name}</option>`).join('')}
+        </select>
+      </label>
+      <label class="settings-row">
+        ${text('settings.joystick_position')}
+        <select data-key="joystickPosition">
+          <option value="left" data-i18n="settings.joystick_position.left">${t('settings.joystick_position.left')}</option>
+          <option value="right" data-i18n="settings.joystick_position.right">${t('settings.joystick_position.right')}</option>
+        </select>
+      </label>
+      <label class="settings-row">
+        ${text('settings.joystick_opacity')}
+        <input type="range" data-key="joystickOpacity"
+          min="${SETTINGS_RANGES.touchOpacity[0]}" max="${SETTINGS_RANGES.touchOpacity[1]}" step="0.05">
+        <span class="settings-value" data-value="joystickOpacity"></span>
+      </label>
+      <div class="settings-actions">
+        <button class="settings-reset-btn">${text('settings.reset')}</button>
+        <button class="settings-back-btn">${text('settings.back')}</button>
+      </div>
+    `;
+
+    this.element = panel;
+    this.bindControls(panel);
+    this.unsubscribe = this.settings.onChange(settings => this.render(settings));
+    return panel;
+  }
+
+  // ============== 控件 → 设置 ==============
+  private bindControls(panel: HTMLElement): void {
+    SLIDERS.forEach(({ key }) => {
+      this.query<HTMLInputElement>(`[data-key="${key}"]`)?.addEventListener('input', event => {
+        this.settings.set({ [key]: Number((event.target as HTMLInputElement).value) });
+      });
+    });
+
+    this.query<HTMLInputElement>('[data-key="invertY"]')?.addEventListener('change', event => {
+      this.settings.set({ invertY: (event.target as HTMLInputElement).checked });
+    });
+    this.query<HTMLInputElement>('[data-key="subtitles"]')?.addEventListener('change', event => {
+      this.settings.set({ subtitles: (event.target as HTMLInputElement).checked });
+    });
+    this.query<HTMLSelectElement>('[data-key="quality"]')?.addEventListener('change', event => {
+      this.settings.set({ quality: (event.target as HTMLSelectElement).value as QualityPreset });
+    });
+    this.query<HTMLSelectElement>('[data-key="language"]')?.addEventListener('change', event => {
+      this.settings.set({ language: (event.target as HTMLSelectElement).value });
+    });
+    this.query<HTMLSelectElement>('[data-key="joystickPosition"]')?.addEventListener('change', event => {
+      const joystickPosition = (event.target as HTMLSelectElement).value as 'left' | 'right';
+      this.settings.set({ touchLayout: { joystickPosition } });
+    });
+    this.query<HTMLInputElement>('[data-key="joystickOpacity"]')?.addEventListener('input', event => {
+      this.settings.set({ touchLayout: { opacity: Number((event.target as HTMLInputElement).value) } });
+    });
+
+    panel.querySelector('.settings-reset-btn')?.addEventListener('click', () => this.settings.resetToDefaults());
+    panel.querySelector('.settings-back-btn')?.addEventListener('click', () => this.onClose());
+  }
+
+  // ============== 设置 → 控件 ==============
+  private render(settings: GameSettings): void {
+    SLIDERS.forEach(({ key, format }) => {
+      this.setInput(key, String(settings[key]));
+      this.setLabel(key, format(settings[key]));
+    });
+
+    const invertY = this.query<HTMLInputElement>('[data-key="invertY"]');
+    if (invertY) invertY.checked = settings.invertY;
+    const subtitles = this.query<HTMLInputElement>('[data-key="subtitles"]');
+    if (subtitles) subtitles.checked = settings.subtitles;
+
+    this.setInput('quality', settings.quality);
+    this.setInput('language', settings.language);
+    this.setInput('joystickPosition', settings.touchLayout.joystickPosition);
+    this.setInput('joystickOpacity', String(settings.touchLayout.opacity));
+    this.setLabel('joystickOpacity', percent(settings.touchLayout.opacity));
+  }
+
+  private setInput(key: string, value: string): void {
+    const input = this.query<HTMLInputElement | HTMLSelectElement>(`[data-key="${key}"]`);
+    if (input) input.value = value;
+  }
+
+  private setLabel(key: string, content: string): void {
+    const label = this.query<HTMLElement>(`[data-value="${key}"]`);
+    if (label) label.textContent = content;
+  }
+
+  private query<T extends Element>(selector: string): T | null {
+    return this.element?.querySelector<T>(selector) ?? null;
+  }
+
+  // ============== 显示 ==============
+  public show(): void {
+    if (this.element) this.element.style.display = 'flex';
+  }
+
+  public hide(): void {
+    if (this.element) this.element.style.display = 'none';
+  }
+
+  public isVisible(): boolean {
+    return !!this.element && this.element.style.display !== 'none';
+  }
+
+  public destroy(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.element?.parentNode?.removeChild(this.element);
+    this.element = null;
+  }
+}
+
+export default SettingsPanel;
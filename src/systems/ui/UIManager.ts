@@ -5,6 +5,15 @@
  */
 
 import { Core, GameEvent } from '../../core';
+import { i18n, t, translateElement } from '../../i18n';
+import { EventTimeline } from './EventTimeline';
+import { DifficultyReadout } from './DifficultyReadout';
+import { DevConsole } from './DevConsole';
+import { PerfHud } from './PerfHud';
+import { BehaviorTreePanel } from './BehaviorTreePanel';
+import type { CommandRegistry } from '../console';
+import { SettingsPanel } from './SettingsPanel';
+import type { SettingsManager } from '../settings/SettingsManager';
 
 // ============== UI 组件基类 ==============
 abstract class UIComponent {
@@ -131,13 +140,13 @@ class HealthBar extends UIComponent {
 class AmmoDisplay extends UIComponent {
   private currentAmmo: number = 12;
   private totalAmmo: number = 48;
-  private weaponName: string = '量子手枪';
+  private weaponName: string = t('ui.hud.default_weapon');
   
   create(): HTMLElement {
     const container = document.createElement('div');
     container.className = 'ammo-display';
     container.innerHTML = `
-      <div class="weapon-name">量子手枪</div>
+      <div class="weapon-name">${this.weaponName}</div>
       <div class="ammo-count"><span class="current">12</span> / <span class="total">48</span></div>
     `;
     this.element = container;
@@ -352,6 +361,14 @@ export class UIManager {
   private hud: HUD | null = null;
   private pauseMenu: HTMLElement | null = null;
   private inventoryUI: HTMLElement | null = null;
+  private eventTimeline: EventTimeline | null = null;
+  private difficultyReadout: DifficultyReadout | null = null;
+  private settings: SettingsManager | null = null;
+  private settingsPanel: SettingsPanel | null = null;
+  private commands: CommandRegistry | null = null;
+  private devConsole: DevConsole | null = null;
+  private perfHud: PerfHud | null = null;
+  private behaviorTreePanel: BehaviorTreePanel | null = null;
   
   private isInventoryOpen: boolean = false;
   
@@ -388,24 +405,54 @@ export class UIManager {
     this.pauseMenu.id = 'pause-menu';
     this.pauseMenu.className = 'pause-menu';
     this.pauseMenu.innerHTML = `
-      <div class="pause-title">已暂停</div>
-      <button class="resume-btn">继续游戏</button>
-      <button class="save-btn">保存游戏</button>
-      <button class="load-btn">加载存档</button>
-      <button class="settings-btn">设置</button>
-      <button class="quit-btn">退出</button>
+      <div class="pause-title" data-i18n="ui.pause.title">${t('ui.pause.title')}</div>
+      <button class="resume-btn" data-i18n="ui.pause.resume">${t('ui.pause.resume')}</button>
+      <button class="save-btn" data-i18n="ui.pause.save">${t('ui.pause.save')}</button>
+      <button class="load-btn" data-i18n="ui.pause.load">${t('ui.pause.load')}</button>
+      <button class="settings-btn" data-i18n="ui.pause.settings">${t('ui.pause.settings')}</button>
+      <button class="quit-btn" data-i18n="ui.pause.quit">${t('ui.pause.quit')}</button>
     `;
     this.pauseMenu.style.display = 'none';
+    this.pauseMenu.querySelector('.settings-btn')?.addEventListener('click', () => this.openSettings());
     document.getElementById('game-container')?.appendChild(this.pauseMenu);
   }
   
+  // ============== 设置面板 ==============
+  public setSettingsManager(settings: SettingsManager): void {
+    this.settings = settings;
+    this.settingsPanel?.destroy();
+    this.settingsPanel = null;
+  }
+  
+  public openSettings(): void {
+    if (!this.settings) {
+      console.warn('[UIManager] 未设置 SettingsManager');
+      return;
+    }
+    
+    if (!this.settingsPanel) {
+      this.settingsPanel = new SettingsPanel(this.settings, () => this.closeSettings());
+      document.getElementById('game-container')?.appendChild(this.settingsPanel.create());
+    }
+    
+    if (this.pauseMenu) this.pauseMenu.style.display = 'none';
+    this.settingsPanel.show();
+  }
+  
+  public closeSettings(): void {
+    if (!this.settingsPanel?.isVisible()) return;
+    
+    this.settingsPanel.hide();
+    if (this.pauseMenu) this.pauseMenu.style.display = 'flex';
+  }
+  
   // ============== 创建物品栏 ==============
   private createInventoryUI(): void {
     this.inventoryUI = document.createElement('div');
     this.inventoryUI.id = 'inventory-ui';
     this.inventoryUI.className = 'inventory-ui';
     this.inventoryUI.innerHTML = `
-      <div class="inventory-title">物品栏</div>
+      <div class="inventory-title" data-i18n="ui.inventory.title">${t('ui.inventory.title')}</div>
       <div class="inventory-grid"></div>
     `;
     this.inventoryUI.style.display = 'none';
@@ -620,6 +667,57 @@ export class UIManager {
         color: #000;
       }
       
+      /* 设置面板 */
+      .settings-panel {
+        position: fixed;
+        top: 50%;
+        left: 50%;
+        transform: translate(-50%, -50%);
+        width: 480px;
+        max-height: 90%;
+        overflow-y: auto;
+        background: rgba(0, 0, 0, 0.9);
+        border: 2px solid #00ffff;
+        border-radius: 10px;
+        padding: 20px;
+        display: flex;
+        flex-direction: column;
+        gap: 10px;
+        color: #00ffff;
+        z-index: 600;
+      }
+      .settings-title {
+        font-size: 24px;
+        text-align: center;
+        margin-bottom: 10px;
+      }
+      .settings-row {
+        display: grid;
+        grid-template-columns: 120px 1fr 60px;
+        align-items: center;
+        gap: 10px;
+      }
+      .settings-value {
+        text-align: right;
+        font-family: monospace;
+      }
+      .settings-actions {
+        display: flex;
+        justify-content: space-between;
+        margin-top: 10px;
+      }
+      .settings-actions button {
+        padding: 10px 20px;
+        background: transparent;
+        border: 2px solid #00ffff;
+        color: #00ffff;
+        cursor: pointer;
+      }
+      .settings-actions button:hover {
+        background: #00ffff;
+        color: #000;
+      }
+      
       /* 物品栏 */
       .inventory-ui {
         position: fixed;
@@ -651,13 +749,30 @@ export class UIManager {
   // ============== 事件监听 ==============
   private setupEventListeners(): void {
     // 玩家伤害
-    this.core.eventBus.on(GameEvent.PLAYER_DAMAGED, (data: any) => {
+    this.core.eventBus.on(GameEvent.PLAYER_DAMAGED, (data) => {
       this.hud?.showDamageNumber(data.amount, { x: window.innerWidth / 2, y: window.innerHeight / 2 }, false);
     });
     
     // 玩家升级
-    this.core.eventBus.on(GameEvent.LEVEL_UP, (level: number) => {
-      this.showNotification(`升级到 ${level} 级!`);
+    this.core.eventBus.on(GameEvent.LEVEL_UP, (level) => {
+      this.showNotification(t('ui.notify.level_up', { level }));
+    });
+    
+    // 成就解锁
+    this.core.eventBus.on(GameEvent.ACHIEVEMENT_UNLOCKED, (achievement) => {
+      this.showNotification(t('ui.notify.achievement', { name: achievement.name }));
+    });
+    
+    // 存档从备份恢复
+    this.core.eventBus.on(GameEvent.SAVE_RECOVERED, (recovery) => {
+      const time = new Date(recovery.timestamp).toLocaleString(i18n.getLocale());
+      this.showNotification(t('ui.notify.save_recovered', { time }));
+    });
+    
+    // 切换语言时刷新已创建的界面文本
+    i18n.onChange(() => {
+      const container = document.getElementById('game-container');
+      if (container) translateElement(container);
     });
   }
   
@@ -665,6 +780,12 @@ export class UIManager {
   public togglePauseMenu(): void {
     if (!this.pauseMenu) return;
     
+    // 设置面板打开时先返回暂停菜单
+    if (this.settingsPanel?.isVisible()) {
+      this.closeSettings();
+      return;
+    }
+    
     if (this.pauseMenu.style.display === 'none') {
       this.pauseMenu.style.display = 'flex';
     } else {
@@ -680,6 +801,93 @@ export class UIManager {
     this.inventoryUI.style.display = this.isInventoryOpen ? 'block' : 'none';
   }
   
+  // ============== 切换事件时间轴 (调试) ==============
+  public toggleEventTimeline(): void {
+    if (!this.eventTimeline) {
+      this.eventTimeline = new EventTimeline();
+      document.getElementById('game-container')?.appendChild(this.eventTimeline.create());
+      return;
+    }
+    
+    this.eventTimeline.toggle();
+  }
+  
+  // ============== 切换动态难度读数 (调试) ==============
+  public toggleDifficultyReadout(): void {
+    if (!this.difficultyReadout) {
+      this.difficultyReadout = new DifficultyReadout();
+      document.getElementById('game-container')?.appendChild(this.difficultyReadout.create());
+      return;
+    }
+    
+    this.difficultyReadout.toggle();
+  }
+  
+  // ============== 切换性能 HUD (调试) ==============
+  public togglePerfHud(): void {
+    const profiler = Core.getInstance().scheduler.getProfiler();
+    if (!profiler) {
+      console.warn('[UIManager] 未开启性能分析，无法打开性能 HUD');
+      return;
+    }
+    
+    if (!this.perfHud) {
+      this.perfHud = new PerfHud(profiler);
+      document.getElementById('game-container')?.appendChild(this.perfHud.create());
+      return;
+    }
+    
+    this.perfHud.toggle();
+  }
+  
+  // ============== 行为树调试面板 (调试) ==============
+  public toggleBehaviorTreePanel(): void {
+    if (!this.behaviorTreePanel) {
+      this.openBehaviorTreePanel();
+      return;
+    }
+    
+    this.behaviorTreePanel.toggle();
+  }
+  
+  // 打开面板并选中敌人，敌人不存在时返回 false
+  public showBehaviorTreePanel(enemyId: string): boolean {
+    const panel = this.openBehaviorTreePanel();
+    panel.show();
+    return panel.select(enemyId);
+  }
+  
+  private openBehaviorTreePanel(): BehaviorTreePanel {
+    if (!this.behaviorTreePanel) {
+      this.behaviorTreePanel = new BehaviorTreePanel();
+      document.getElementById('game-container')?.appendChild(this.behaviorTreePanel.create());
+    }
+    return this.behaviorTreePanel;
+  }
+  
+  // ============== 开发者控制台 (调试) ==============
+  public setCommandRegistry(commands: CommandRegistry): void {
+    this.commands = commands;
+    this.devConsole?.destroy();
+    this.devConsole = null;
+  }
+  
+  public toggleDevConsole(): void {
+    if (!this.commands) {
+      console.warn('[UIManager] 未设置命令注册表，无法打开控制台');
+      return;
+    }
+    
+    if (!this.devConsole) {
+      this.devConsole = new DevConsole(this.commands);
+      document.getElementById('game-container')?.appendChild(this.devConsole.create());
+      this.devConsole.show();
+      return;
+    }
+    
+    this.devConsole.toggle();
+  }
+  
   // ============== 显示通知 ==============
   public showNotification(message: string): void {
     const notification = document.createElement('div');
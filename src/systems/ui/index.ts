@@ -4,3 +4,9 @@
  */
 
 export { UIManager } from './UIManager';
+export { EventTimeline } from './EventTimeline';
+export { DifficultyReadout } from './DifficultyReadout';
+export { SettingsPanel } from './SettingsPanel';
+export { DevConsole } from './DevConsole';
+export { PerfHud } from './PerfHud';
+export { BehaviorTreePanel } from './BehaviorTreePanel';
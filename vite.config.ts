@@ -8,7 +8,7 @@ import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
 
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
   
   // 基础路径
@@ -22,14 +22,14 @@ export default defineConfig({
     outDir: 'dist',
     assetsDir: 'assets',
     sourcemap: false,
-    minify: 'esbuild',
+    minify: isSsrBuild ? false : 'esbuild',
     chunkSizeWarningLimit: 1500,
     
     // Rollup 配置
     rollupOptions: {
       output: {
-        // 代码分割
-        manualChunks: {
+        // 代码分割 (无头模拟的 SSR 构建不拆分)
+        manualChunks: isSsrBuild ? undefined : {
           'three': ['three'],
           'physics': ['cannon-es'],
           'react-vendor': ['react', 'react-dom'],
@@ -84,4 +84,4 @@ export default defineConfig({
   ssr: {
     noExternal: ['three', 'cannon-es'],
   },
-});
+}));